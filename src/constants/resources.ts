@@ -40,7 +40,19 @@ export const RESOURCES = [
   {
     uri: "template://brainloop",
     name: "Brainloop Template",
-    description: "Template for creating a well-structured brainloop",
+    description: "Template for creating a well-structured brainloop. A filled-in template is also a valid course spec for plan_brainloop / apply_brainloop",
+    mimeType: "application/json",
+  },
+  {
+    uri: "components://catalog",
+    name: "Interactive Component Catalog",
+    description: "Interactive components that interactive-component prompts can use, with JSON schemas for componentConfig and componentAnswer and a valid example of each",
+    mimeType: "application/json",
+  },
+  {
+    uri: "sampling://callbacks",
+    name: "Sampling Callbacks",
+    description: "Callbacks a sampling request can name in _meta.callback, with the JSON schemas of the response and of _meta.callbackArgs, and whether the callback changes content",
     mimeType: "application/json",
   },
   {
@@ -274,9 +286,9 @@ Key takeaways and next steps
   "type": "assessment",
   "prompts": [{
     "question": "What is the basic concept of [topic]?",
-    "type": "multiple_choice",
-    "options": ["A) Option 1", "B) Option 2", "C) Option 3", "D) Option 4"],
-    "answer": "C",
+    "type": "single-choice",
+    "options": ["Option 1", "Option 2", "Option 3", "Option 4"],
+    "answer": 2,
     "explanation": "Explanation of correct answer"
   }]
 }
@@ -286,9 +298,9 @@ Key takeaways and next steps
   "type": "assessment",
   "prompts": [{
     "question": "How would you apply [concept] in this scenario?",
-    "type": "multiple_choice",
-    "options": ["A) Approach 1", "B) Approach 2", "C) Approach 3", "D) Approach 4"],
-    "answer": "B",
+    "type": "single-choice",
+    "options": ["Approach 1", "Approach 2", "Approach 3", "Approach 4"],
+    "answer": 1,
     "explanation": "Detailed explanation"
   }]
 }
@@ -298,7 +310,7 @@ Key takeaways and next steps
   "type": "exercise",
   "prompts": [{
     "question": "Explain why [concept] is important",
-    "type": "short_answer",
+    "type": "short-answer",
     "answer": "Expected key points: point 1, point 2, point 3"
   }]
 }
@@ -308,8 +320,10 @@ Key takeaways and next steps
   "type": "exercise",
   "prompts": [{
     "question": "Complete this hands-on task: [specific task]",
-    "type": "code_challenge",
-    "answer": "Sample solution or approach"
+    "type": "code",
+    "codeLanguage": "javascript",
+    "codeExpectedOutput": "Expected program output",
+    "answer": "Reference solution"
   }]
 }
 
@@ -318,8 +332,8 @@ Key takeaways and next steps
   "type": "reflection",
   "prompts": [{
     "question": "How confident are you in applying this concept?",
-    "type": "self_assessment",
-    "answer": "Reflection prompt - no single correct answer"
+    "type": "short-answer",
+    "answer": "Reflection prompt - key points a confident learner would mention"
   }]
 }
 \`\`\`
@@ -340,6 +354,7 @@ Key takeaways and next steps
 - **Mix of types**: Multiple-choice, short answer, code challenges, self-assessment
 - **Progressive difficulty**: Interaction 1-2 (easy), 3-4 (medium), 5 (reflection)
 - Provide answers/explanations for all prompts
+- Choice answers are 0-based option indices; options must not repeat
 - Each interaction typically has 1 prompt (focused on one aspect)
 - Match interaction type to learning goal (assessment, exercise, reflection)
 
@@ -543,6 +558,7 @@ Interactive periodic table for chemistry.
 3. **MDX syntax**: Components use JSX-like syntax in markdown
 4. **Performance**: Components are optimized for smooth interaction
 5. **Accessibility**: All components support keyboard navigation
+6. **Prompts**: \`interactive-component\` prompts must use an available component from the \`components://catalog\` resource, with a \`componentConfig\` and \`componentAnswer\` that match its schemas
 
 ### MDX Component Best Practices:
 
@@ -787,6 +803,56 @@ Remember these essential points:
 }`,
 } as const;
 
+/**
+ * Resource templates for live BRAINLOOP data, read with the user's access token
+ *
+ * @see {@link https://modelcontextprotocol.io/specification/2025-06-18/server/resources#resource-templates | Resource Templates}
+ */
+export const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: "brainloop://courses/{courseId}",
+    name: "Brainloop",
+    description: "A brainloop (course) with its units",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "brainloop://courses/{courseId}/outline",
+    name: "Brainloop Outline",
+    description: "The units and lesson titles of a brainloop, in order",
+    mimeType: "text/markdown",
+  },
+  {
+    uriTemplate: "brainloop://units/{unitId}/lessons",
+    name: "Unit Lessons",
+    description: "The lessons of a unit, with their content",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "brainloop://lessons/{lessonId}",
+    name: "Lesson",
+    description: "The Markdown content of a lesson",
+    mimeType: "text/markdown",
+  },
+  {
+    uriTemplate: "brainloop://lessons/{lessonId}/prompts",
+    name: "Lesson Prompts",
+    description: "The prompts (questions) of a lesson, with their answers",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "brainloop://tracks/{trackId}",
+    name: "BrainTrack",
+    description: "A learning track with its courses",
+    mimeType: "application/json",
+  },
+  {
+    uriTemplate: "export://brainloop/{brainloopId}",
+    name: "Brainloop Export",
+    description: "A brainloop exported as a single Markdown document, as written by export_brainloop",
+    mimeType: "text/markdown",
+  },
+] as const;
+
 /**
  * Server information constants
  */
@@ -795,12 +861,22 @@ export const SERVER_INFO = {
   version: "3.0.1",
 } as const;
 
+/**
+ * URI prefix of brainloop exports.
+ *
+ * `export://brainloop/{brainloopId}` is the single Markdown document and
+ * `export://brainloop/{brainloopId}/{path}` a file of the Markdown bundle.
+ */
+export const EXPORT_URI_PREFIX = "export://brainloop/";
+
 /**
  * Error messages for resource operations
  */
 export const RESOURCE_ERROR_MESSAGES = {
   AUTHENTICATION_REQUIRED: "Authentication required: BRAINLOOP access token not found",
-  INVALID_URI: (uri: string) => `Invalid resource URI: ${uri}. Available resources: brainloop://config, guidelines://*, template://brainloop, stats://server`,
+  INVALID_URI: (uri: string) => `Invalid resource URI: ${uri}. Available resources: brainloop://config, guidelines://*, template://brainloop, components://catalog, sampling://callbacks, stats://server, and the templates brainloop://courses/{courseId}[/outline], brainloop://units/{unitId}/lessons, brainloop://lessons/{lessonId}[/prompts], brainloop://tracks/{trackId}, export://brainloop/{brainloopId}`,
   FETCH_FAILED: (error: unknown) => `Failed to fetch resource: ${error instanceof Error ? error.message : "Unknown error"}`,
+  EXPORT_FILE_NOT_FOUND: (uri: string) => `Export file not found: ${uri}`,
   LIST_FAILED: (error: unknown) => `Failed to list resources: ${error instanceof Error ? error.message : "Unknown error"}`,
+  LIST_TEMPLATES_FAILED: (error: unknown) => `Failed to list resource templates: ${error instanceof Error ? error.message : "Unknown error"}`,
 } as const;
@@ -9,6 +9,16 @@
 
 import type { SamplingPrompt } from '../../types/sampling.js';
 
+/**
+ * Audiences offered when completing the `targetAudience` argument
+ */
+export const TARGET_AUDIENCES = [
+  "beginner",
+  "intermediate",
+  "advanced",
+  "expert",
+] as const;
+
 /**
  * Example prompt for brainloop creation that uses injected resources.
  *
@@ -28,7 +38,7 @@ export const CODE_GENERATION_EXAMPLE_PROMPT: SamplingPrompt = {
     },
     {
       name: "targetAudience",
-      description: "Target audience skill level (beginner, intermediate, advanced)",
+      description: "Target audience skill level (beginner, intermediate, advanced, expert)",
       required: false,
     },
   ],
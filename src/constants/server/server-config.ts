@@ -78,6 +78,7 @@ export const serverConfig: Implementation = {
  * - prompts: Predefined prompt templates
  * - resources: Dynamic content the AI can read
  * - logging: Server-side logging capability
+ * - completions: Argument suggestions for prompts and resource templates
  * 
  * This example implements ALL capabilities to serve as a complete reference.
  */
@@ -86,8 +87,12 @@ export const serverCapabilities: { capabilities: ServerCapabilities } = {
     tools: {},      // Full tool support with type-safe handlers
     sampling: {},   // Complete sampling implementation with callbacks
     prompts: {},    // Dynamic prompt generation
-    resources: {},  // Resource listing and reading
+    resources: {    // Resource listing and reading, with update notifications
+      subscribe: true,
+      listChanged: true,
+    },
     logging: {},    // Client-requested logging support
+    completions: {}, // Argument completion for prompts and resource templates
   },
 };
 
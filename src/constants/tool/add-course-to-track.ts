@@ -2,6 +2,7 @@
  * Add a course to a track
  */
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { brainloopOutputSchema, trackOutputSchema } from './output-schemas.js';
 
 export const addCourseToTrack: Tool = {
   name: "add_course_to_track",
@@ -20,4 +21,14 @@ export const addCourseToTrack: Tool = {
     },
     required: ["trackId", "courseId"],
   },
+  outputSchema: {
+    type: "object",
+    properties: { track: trackOutputSchema, brainloop: brainloopOutputSchema, position: { type: "integer" } },
+    required: ["track", "brainloop", "position"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+  },
 };
@@ -0,0 +1,42 @@
+/**
+ * Answer the current question of the running quiz
+ */
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { quizQuestionOutputSchema } from './output-schemas.js';
+
+export const answerQuizPrompt: Tool = {
+  name: "answer_quiz_prompt",
+  description: "Answer the current question of the quiz started with `start_quiz` and show the next question. For choice questions answer with the option letter (or an array of letters for multiple-choice), for true-false with true or false, for ordering with the letters in order, for matching with an object of item numbers to letters, for fill-in-the-blank with one text per blank, for cloze with an object of gap IDs to text, and otherwise with text.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      answer: {
+        oneOf: [
+          { type: "string" },
+          { type: "number" },
+          { type: "boolean" },
+          { type: "array", items: { oneOf: [{ type: "string" }, { type: "number" }] } },
+          { type: "object", additionalProperties: { oneOf: [{ type: "string" }, { type: "number" }] } },
+        ],
+        description: "The learner's answer, e.g. \"B\", [\"A\", \"C\"], true, a short text answer, letters in order for ordering questions, or an object for matching and cloze questions",
+      },
+    },
+    required: ["answer"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      quizId: { type: "string" },
+      answered: { type: "integer" },
+      questionCount: { type: "integer" },
+      done: { type: "boolean", description: "True when every question has been answered" },
+      question: quizQuestionOutputSchema,
+    },
+    required: ["quizId", "answered", "questionCount", "done"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+  },
+};
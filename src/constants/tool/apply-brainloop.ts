@@ -0,0 +1,58 @@
+/**
+ * Apply a course spec to a brainloop
+ */
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { courseSpecSchema } from './plan-brainloop.js';
+import { changeOutputSchema } from './output-schemas.js';
+
+export const applyBrainloop: Tool = {
+  name: "apply_brainloop",
+  description: "Make a brainloop match a full course spec by executing only the needed creates, updates, moves and reorders (the same changes `plan_brainloop` shows). Always run `plan_brainloop` first and pass its fingerprint: if the brainloop changed since the plan was reviewed, nothing is applied and the new plan is returned. Content that is not in the spec is never deleted. Re-applying a spec to the same brainloopId makes no further changes. Without brainloopId a new brainloop is created and its ID returned: pass that brainloopId on every later call for it, including retries. A repeated create of the same spec is refused and returns the existing brainloopId.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      spec: courseSpecSchema,
+      brainloopId: {
+        type: "string",
+        description: "The ID of the existing brainloop to update (optional - omit to create a new brainloop; pass the returned ID when retrying)",
+      },
+      fingerprint: {
+        type: "string",
+        description: "Fingerprint returned by plan_brainloop for the reviewed plan",
+      },
+      rollback: {
+        type: "boolean",
+        description: "If true (default), a failure part-way through deletes the content created by this call and restores updated lessons. Unit updates, moves, reorders and prompts are not rolled back. If false, the failure returns a 'partially applied' report.",
+        default: true,
+      },
+      confirm: {
+        type: "boolean",
+        description: "Set to true once the user has agreed to the changes. Only used when the client cannot ask the user itself; without it the call lists the changes and makes none",
+      },
+    },
+    required: ["spec"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      brainloopId: { type: "string" },
+      applied: { type: "boolean", description: "False when the brainloop already matched the spec" },
+      operations: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { kind: { type: "string" }, summary: { type: "string" } },
+          required: ["kind", "summary"],
+        },
+      },
+      changes: { type: "array", items: changeOutputSchema },
+      warnings: { type: "array", items: { type: "string" } },
+    },
+    required: ["applied", "operations", "changes", "warnings"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+  },
+};
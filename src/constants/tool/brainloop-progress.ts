@@ -16,4 +16,32 @@ export const brainloopProgress: Tool = {
     },
     required: [],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      brainloopId: { type: "string" },
+      completionRate: { type: "number", description: "Percentage of lessons completed" },
+      completedLessons: { type: "integer" },
+      totalLessons: { type: "integer" },
+      lessons: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            lessonId: { type: "string" },
+            title: { type: "string" },
+            unitTitle: { type: "string" },
+            brainloopTitle: { type: "string" },
+            isCompleted: { type: "boolean" },
+            completedAt: { type: "string", description: "ISO 8601 timestamp" },
+          },
+          required: ["lessonId", "title", "unitTitle", "brainloopTitle", "isCompleted"],
+        },
+      },
+    },
+    required: ["completionRate", "completedLessons", "totalLessons", "lessons"],
+  },
+  annotations: {
+    readOnlyHint: true,
+  },
 };
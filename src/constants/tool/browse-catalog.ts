@@ -0,0 +1,43 @@
+/**
+ * Browse the public brainloop catalog
+ */
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { brainloopOutputSchema } from './output-schemas.js';
+
+export const browseCatalog: Tool = {
+  name: "browse_catalog",
+  description: "Browse public brainloops you can enroll in. Filter by keyword and sort by popularity (enrollments) or recency. Use the returned brainloop IDs with `enroll_in_course`.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Keyword to match against brainloop titles and descriptions (optional)",
+      },
+      sortBy: {
+        type: "string",
+        enum: ["enrollments", "recent"],
+        description: "Sort order: 'enrollments' (most learners first) or 'recent' (newest first). Default: enrollments",
+        default: "enrollments",
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of brainloops to return (1-50). Default: 20",
+        default: 20,
+      },
+    },
+    required: [],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      brainloops: { type: "array", items: brainloopOutputSchema },
+      total: { type: "integer", description: "Matching brainloops, including those past the limit" },
+      sortBy: { type: "string" },
+    },
+    required: ["brainloops", "total", "sortBy"],
+  },
+  annotations: {
+    readOnlyHint: true,
+  },
+};
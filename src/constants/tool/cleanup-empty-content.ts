@@ -14,8 +14,36 @@ export const cleanupEmptyContent: Tool = {
         type: "boolean",
         description: "If true, only show what would be deleted without actually deleting. Default: false",
         default: false
-      }
+      },
+      confirm: {
+        type: "boolean",
+        description: "Set to true once the user has agreed to the changes. Only used when the client cannot ask the user itself; without it the call lists the changes and makes none",
+      },
     },
     required: ["courseId"]
-  }
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      dryRun: { type: "boolean", description: "True when nothing was deleted" },
+      brainloopId: { type: "string" },
+      brainloopTitle: { type: "string" },
+      unitsDeleted: { type: "integer", description: "Units deleted, or that would be deleted in a dry run" },
+      lessonsDeleted: { type: "integer", description: "Lessons deleted, or that would be deleted in a dry run" },
+      units: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { id: { type: "string" }, title: { type: "string" }, lessonCount: { type: "integer" } },
+          required: ["title", "lessonCount"],
+        },
+      },
+    },
+    required: ["dryRun", "brainloopId", "brainloopTitle", "unitsDeleted", "lessonsDeleted", "units"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+  },
 };
@@ -0,0 +1,50 @@
+/**
+ * Mark a lesson as complete
+ */
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export const completeLesson: Tool = {
+  name: "complete_lesson",
+  description: "Mark a lesson as complete for the current learner. Returns a confirmation with the updated progress for the brainloop the lesson belongs to.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      lessonId: {
+        type: "string",
+        description: "The ID of the lesson to mark as complete",
+      },
+      brainloopId: {
+        type: "string",
+        description: "The ID of the brainloop the lesson belongs to (optional - otherwise it is looked up among your enrolled brainloops)",
+      },
+    },
+    required: ["lessonId"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      lesson: {
+        type: "object",
+        properties: { id: { type: "string" }, title: { type: "string" } },
+        required: ["id", "title"],
+      },
+      progress: {
+        type: "object",
+        properties: {
+          brainloopId: { type: "string" },
+          brainloopTitle: { type: "string" },
+          completionRate: { type: "number", description: "Percentage of lessons completed" },
+          completedLessons: { type: "integer" },
+          totalLessons: { type: "integer" },
+        },
+        required: ["brainloopTitle", "completionRate", "completedLessons", "totalLessons"],
+      },
+    },
+    required: ["lesson"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
@@ -0,0 +1,89 @@
+/**
+ * Check a brainloop against the prompts-per-lesson target
+ */
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export const coverageReport: Tool = {
+  name: "coverage_report",
+  description: "Check every lesson of a brainloop against the authoring target of one interaction with 5 prompts per lesson, each prompt with an explanation. Reports lessons without an interaction, lessons below the target prompt count, prompts missing explanations, and the prompt type mix per lesson, as a checklist of lesson IDs to fix. Run it after expanding a brainloop to find lessons that still need interactions.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      brainloopId: {
+        type: "string",
+        description: "The ID of the brainloop to check",
+      },
+      targetPrompts: {
+        type: "number",
+        description: "Prompts each lesson should have",
+        default: 5,
+        minimum: 1,
+      },
+    },
+    required: ["brainloopId"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      report: {
+        type: "object",
+        properties: {
+          courseId: { type: "string", description: "Brainloop ID" },
+          courseTitle: { type: "string" },
+          targetPrompts: { type: "integer" },
+          lessons: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                unitId: { type: "string" },
+                unitTitle: { type: "string" },
+                lessonId: { type: "string" },
+                lessonTitle: { type: "string" },
+                hasInteraction: { type: "boolean" },
+                promptCount: { type: "integer" },
+                typeMix: {
+                  type: "object",
+                  description: "Number of prompts of each type",
+                  additionalProperties: { type: "integer" },
+                },
+                missingExplanations: {
+                  type: "array",
+                  items: { type: "string" },
+                  description: "IDs of prompts without an explanation",
+                },
+                compliant: {
+                  type: "boolean",
+                  description: "True when the lesson has an interaction, enough prompts and every explanation",
+                },
+              },
+              required: ["unitId", "unitTitle", "lessonId", "lessonTitle", "hasInteraction", "promptCount", "typeMix", "missingExplanations", "compliant"],
+            },
+          },
+          summary: {
+            type: "object",
+            properties: {
+              totalLessons: { type: "integer" },
+              compliantLessons: { type: "integer" },
+              lessonsWithoutInteraction: { type: "integer" },
+              lessonsBelowTarget: { type: "integer" },
+              promptsMissingExplanations: { type: "integer" },
+              totalPrompts: { type: "integer" },
+              typeMix: {
+                type: "object",
+                description: "Number of prompts of each type across the brainloop",
+                additionalProperties: { type: "integer" },
+              },
+            },
+            required: ["totalLessons", "compliantLessons", "lessonsWithoutInteraction", "lessonsBelowTarget", "promptsMissingExplanations", "totalPrompts", "typeMix"],
+          },
+        },
+        required: ["courseId", "courseTitle", "targetPrompts", "lessons", "summary"],
+      },
+    },
+    required: ["report"],
+  },
+  annotations: {
+    readOnlyHint: true,
+  },
+};
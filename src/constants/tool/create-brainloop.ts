@@ -2,6 +2,7 @@
  * Create a complete brainloop (learning experience)
  */
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { brainloopOutputSchema, unitOutputSchema } from './output-schemas.js';
 
 export const createBrainloop: Tool = {
   name: "create_brainloop",
@@ -32,7 +33,22 @@ export const createBrainloop: Tool = {
         description: "Publish this brainloop immediately",
         default: true,
       },
+      rollback: {
+        type: "boolean",
+        description: "If true (default), a failure while creating the units deletes the course that was already created. If false, the failure returns a 'partially applied' report with the IDs that were created.",
+        default: true,
+      },
     },
     required: ["title", "description", "topics"],
   },
+  outputSchema: {
+    type: "object",
+    properties: { brainloop: brainloopOutputSchema, units: { type: "array", items: unitOutputSchema } },
+    required: ["brainloop", "units"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+  },
 };
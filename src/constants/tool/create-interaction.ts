@@ -22,4 +22,24 @@ export const createInteraction: Tool = {
     },
     required: ["lessonId"],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      interaction: {
+        type: "object",
+        properties: {
+          id: { type: "string", description: "Interaction ID" },
+          lessonId: { type: "string" },
+          type: { type: "string" },
+        },
+        required: ["id", "lessonId", "type"],
+      },
+    },
+    required: ["interaction"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+  },
 };
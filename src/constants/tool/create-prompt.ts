@@ -2,10 +2,11 @@
  * Create a prompt (question/exercise) within an interaction
  */
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { promptOutputSchema, verificationOutputSchema } from './output-schemas.js';
 
 export const createPrompt: Tool = {
   name: "create_prompt",
-  description: "Create a single prompt (question/exercise) within an interaction. A prompt can be multiple-choice, short answer, code challenge, or other types. Create prompts one at a time for better error handling.",
+  description: "Create a single prompt (question/exercise) within an interaction. A prompt can be multiple-choice, short answer, code challenge, ordering, matching, fill-in-the-blank, cloze, or other types. The answer and required fields are checked against the prompt type before anything is saved. Create prompts one at a time for better error handling.",
   inputSchema: {
     type: "object",
     properties: {
@@ -19,16 +20,16 @@ export const createPrompt: Tool = {
       },
       type: {
         type: "string",
-        enum: ["multiple-choice", "single-choice", "short-answer", "true-false", "code", "interactive-component"],
+        enum: ["multiple-choice", "single-choice", "short-answer", "true-false", "code", "interactive-component", "ordering", "matching", "fill-in-the-blank", "cloze"],
         description: "Type of prompt",
       },
       options: {
         type: "array",
         items: { type: "string" },
-        description: "Array of options for multiple-choice or single-choice questions",
+        description: "Options for multiple-choice and single-choice questions, or the items to put in order for ordering questions (at least 2, no duplicates)",
       },
       answer: {
-        description: "The correct answer. For multiple-choice: index (0-based). For true-false: boolean. For short-answer/code: string or object.",
+        description: "The correct answer. For single-choice: option index (0-based). For multiple-choice: index or array of indices. For true-false: boolean. For short-answer: model answer or array of accepted answers. For code: optional reference solution. For ordering: array of option indices in the correct order. For matching: object mapping each item to its match, e.g. {\"H2O\": \"Water\"}. For fill-in-the-blank: one array of accepted answers per ___ blank in the question, e.g. [[\"Paris\"]]. For cloze: object mapping each {{id}} gap in the question to its accepted answers, e.g. {\"1\": [\"Paris\"]}.",
       },
       explanation: {
         type: "string",
@@ -37,7 +38,7 @@ export const createPrompt: Tool = {
       // Code question fields
       codeLanguage: {
         type: "string",
-        description: "Programming language for code questions (e.g., 'python', 'javascript')",
+        description: "Programming language for code questions (e.g., 'python', 'javascript'; required for code prompts)",
       },
       codeStarterCode: {
         type: "string",
@@ -48,7 +49,18 @@ export const createPrompt: Tool = {
         description: "Expected output for code questions",
       },
       codeTestCases: {
-        description: "Test cases for code questions (JSON array of objects)",
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            input: { type: "string", description: "Input given to the program" },
+            expectedOutput: { type: "string", description: "Output the program must produce" },
+            description: { type: "string", description: "What the test case checks" },
+            hidden: { type: "boolean", description: "Hide the test case from learners" },
+          },
+          required: ["expectedOutput"],
+        },
+        description: "Test cases for code questions",
       },
       codeTimeLimit: {
         type: "number",
@@ -61,15 +73,37 @@ export const createPrompt: Tool = {
       // Interactive component fields
       componentType: {
         type: "string",
-        description: "Type of interactive component (e.g., 'hebrew-circle', 'alphabet')",
+        enum: ["hebrew-circle", "alphabet"],
+        description: "Interactive component to render (required for interactive-component prompts). The components://catalog resource lists each component with its config and answer schemas and an example",
       },
       componentConfig: {
-        description: "Configuration object for the interactive component (JSON)",
+        type: "object",
+        description: "Configuration for the interactive component, matching its configSchema in components://catalog (required for interactive-component prompts)",
       },
       componentAnswer: {
-        description: "Expected answer for interactive component (JSON)",
+        description: "Expected answer for the interactive component, matching its answerSchema in components://catalog",
+      },
+      verify: {
+        type: "boolean",
+        description: "For code prompts: run the reference solution in answer against the test cases first, and only create the prompt if every case passes (JavaScript/TypeScript only)",
+        default: false,
       },
     },
     required: ["interactionId", "question", "type"],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      prompt: promptOutputSchema,
+      interactionId: { type: "string" },
+      lessonPromptCount: { type: "integer", description: "Prompts in the lesson after this one was added" },
+      verification: verificationOutputSchema,
+    },
+    required: ["prompt", "interactionId", "lessonPromptCount"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+  },
 };
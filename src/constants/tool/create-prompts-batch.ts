@@ -2,10 +2,11 @@
  * Create multiple prompts at once for an interaction
  */
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { promptOutputSchema } from './output-schemas.js';
 
 export const createPromptsBatch: Tool = {
   name: "create_prompts_batch",
-  description: "Create multiple prompts (questions/exercises) at once for an interaction. Useful when you have several questions ready. However, creating prompts one-by-one is recommended for better error handling and verification.",
+  description: "Create multiple prompts (questions/exercises) at once for an interaction. Useful when you have several questions ready. Every prompt is validated against its type first; if any prompt is invalid, nothing is created and the errors are listed per prompt. However, creating prompts one-by-one is recommended for better error handling and verification.",
   inputSchema: {
     type: "object",
     properties: {
@@ -24,16 +25,16 @@ export const createPromptsBatch: Tool = {
             },
             type: {
               type: "string",
-              enum: ["multiple-choice", "single-choice", "short-answer", "true-false", "code", "interactive-component"],
+              enum: ["multiple-choice", "single-choice", "short-answer", "true-false", "code", "interactive-component", "ordering", "matching", "fill-in-the-blank", "cloze"],
               description: "Type of prompt",
             },
             options: {
               type: "array",
               items: { type: "string" },
-              description: "Options for multiple-choice questions",
+              description: "Options for choice questions, or the items of an ordering question",
             },
             answer: {
-              description: "The correct answer",
+              description: "The correct answer, in the same form as for create_prompt",
             },
             explanation: {
               type: "string",
@@ -47,12 +48,43 @@ export const createPromptsBatch: Tool = {
               type: "string",
               description: "Starter code for code questions",
             },
+            codeExpectedOutput: {
+              type: "string",
+              description: "Expected output for code questions",
+            },
+            codeTestCases: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  input: { type: "string" },
+                  expectedOutput: { type: "string" },
+                  description: { type: "string" },
+                  hidden: { type: "boolean" },
+                },
+                required: ["expectedOutput"],
+              },
+              description: "Test cases for code questions",
+            },
+            codeTimeLimit: {
+              type: "number",
+              description: "Time limit in milliseconds for code execution",
+            },
+            codeMemoryLimit: {
+              type: "number",
+              description: "Memory limit in MB for code execution",
+            },
             componentType: {
               type: "string",
-              description: "Type of interactive component",
+              enum: ["hebrew-circle", "alphabet"],
+              description: "Interactive component to render; see the components://catalog resource",
             },
             componentConfig: {
-              description: "Configuration for interactive component",
+              type: "object",
+              description: "Configuration for the interactive component, matching its configSchema in components://catalog",
+            },
+            componentAnswer: {
+              description: "Expected answer for the interactive component, matching its answerSchema in components://catalog",
             },
           },
           required: ["question", "type"],
@@ -62,4 +94,20 @@ export const createPromptsBatch: Tool = {
     },
     required: ["interactionId", "prompts"],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      interactionId: { type: "string" },
+      lessonTitle: { type: "string" },
+      createdCount: { type: "integer" },
+      lessonPromptCount: { type: "integer", description: "Prompts in the lesson after the batch was added" },
+      prompts: { type: "array", items: promptOutputSchema },
+    },
+    required: ["interactionId", "lessonTitle", "createdCount", "lessonPromptCount", "prompts"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+  },
 };
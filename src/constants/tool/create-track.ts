@@ -2,6 +2,7 @@
  * Create a new BrainTrack (collection of courses)
  */
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { trackOutputSchema } from './output-schemas.js';
 
 export const createTrack: Tool = {
   name: "create_track",
@@ -37,4 +38,14 @@ export const createTrack: Tool = {
     },
     required: ["title", "description"],
   },
+  outputSchema: {
+    type: "object",
+    properties: { track: trackOutputSchema },
+    required: ["track"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+  },
 };
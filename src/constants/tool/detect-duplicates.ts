@@ -12,5 +12,70 @@ export const detectDuplicates: Tool = {
       }
     },
     required: ["courseId"]
-  }
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      brainloopId: { type: "string" },
+      brainloopTitle: { type: "string" },
+      summary: {
+        type: "object",
+        properties: {
+          totalUnits: { type: "integer" },
+          duplicateGroups: { type: "integer" },
+          emptyUnits: { type: "integer" },
+        },
+        required: ["totalUnits", "duplicateGroups", "emptyUnits"],
+      },
+      duplicates: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            normalizedTitle: { type: "string" },
+            units: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  id: { type: "string" },
+                  title: { type: "string" },
+                  order: { type: "integer" },
+                  lessonCount: { type: "integer" },
+                  emptyLessonCount: { type: "integer" },
+                },
+                required: ["id", "title", "order", "lessonCount", "emptyLessonCount"],
+              },
+            },
+          },
+          required: ["normalizedTitle", "units"],
+        },
+      },
+      emptyUnits: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            id: { type: "string" },
+            title: { type: "string" },
+            order: { type: "integer" },
+            lessonCount: { type: "integer" },
+            emptyLessons: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: { id: { type: "string" }, title: { type: "string" } },
+                required: ["id", "title"],
+              },
+            },
+          },
+          required: ["id", "title", "order", "lessonCount", "emptyLessons"],
+        },
+      },
+    },
+    required: ["brainloopId", "brainloopTitle", "summary", "duplicates", "emptyUnits"],
+  },
+  annotations: {
+    readOnlyHint: true,
+  },
 };
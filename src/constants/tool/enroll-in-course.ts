@@ -0,0 +1,30 @@
+/**
+ * Enroll in a brainloop
+ */
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { brainloopOutputSchema } from './output-schemas.js';
+
+export const enrollInCourse: Tool = {
+  name: "enroll_in_course",
+  description: "Enroll in a brainloop (course) as a learner. Once enrolled, the brainloop appears in your brainloops and your lesson progress is tracked.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      brainloopId: {
+        type: "string",
+        description: "The ID of the brainloop to enroll in",
+      },
+    },
+    required: ["brainloopId"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: { brainloop: brainloopOutputSchema },
+    required: ["brainloop"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
@@ -2,6 +2,7 @@
  * Enroll in a BrainTrack
  */
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { trackOutputSchema } from './output-schemas.js';
 
 export const enrollInTrack: Tool = {
   name: "enroll_in_track",
@@ -16,4 +17,14 @@ export const enrollInTrack: Tool = {
     },
     required: ["trackId"],
   },
+  outputSchema: {
+    type: "object",
+    properties: { track: trackOutputSchema, message: { type: "string" } },
+    required: ["track", "message"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
 };
@@ -2,10 +2,11 @@
  * Expand an existing brainloop with more content
  */
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { upsertItemOutputSchema } from './output-schemas.js';
 
 export const expandBrainloop: Tool = {
   name: "expand_brainloop",
-  description: "Expand an existing brainloop by adding ONE lesson at a time. IMPORTANT: Add content incrementally - create one unit with ONE lesson (teaching content only, NO questions in lesson), verify it was added successfully by checking the response, then create 5 interactions for that lesson (questions/exercises), verify they were added, then proceed to the next lesson. This lesson→verify→5 interactions→verify workflow ensures quality, allows for adjustments, and prevents duplicate work if a failure occurs. DEFAULT: 5 interactions per lesson (user can specify different number).",
+  description: "Expand an existing brainloop by adding ONE lesson at a time. IMPORTANT: Add content incrementally - create one unit with ONE lesson (teaching content only, NO questions in lesson), verify it was added successfully by checking the response, then create 5 interactions for that lesson (questions/exercises), verify they were added, then proceed to the next lesson. This lesson→verify→5 interactions→verify workflow ensures quality, allows for adjustments, and prevents duplicate work if a failure occurs. If a call fails or times out, simply retry it with the same arguments - upsert mode reuses what was already created. DEFAULT: 5 interactions per lesson (user can specify different number).",
   inputSchema: {
     type: "object",
     properties: {
@@ -49,7 +50,46 @@ export const expandBrainloop: Tool = {
         },
         description: "New units/topics to add to the brainloop",
       },
+      upsertMode: {
+        type: "boolean",
+        description: "If true (default), units and lessons are matched by title: existing units are reused, empty lessons are filled, lessons with content are skipped, and the response reports each item as created/updated/skipped. Retrying the same call is always safe. Set to false to always create new units.",
+        default: true,
+      },
+      rollback: {
+        type: "boolean",
+        description: "If true (default), a failure part-way through deletes the units and lessons this call created and restores lessons it filled. If false, the failure returns a 'partially applied' report with the IDs that were applied.",
+        default: true,
+      },
     },
     required: ["brainloopId", "units"],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      brainloopId: { type: "string" },
+      upsertMode: { type: "boolean" },
+      counts: {
+        type: "object",
+        description: "Units and lessons by outcome",
+        properties: { created: { type: "integer" }, updated: { type: "integer" }, skipped: { type: "integer" } },
+        required: ["created", "updated", "skipped"],
+      },
+      units: {
+        type: "array",
+        items: {
+          allOf: [upsertItemOutputSchema, {
+            type: "object",
+            properties: { lessons: { type: "array", items: upsertItemOutputSchema } },
+            required: ["lessons"],
+          }],
+        },
+      },
+    },
+    required: ["brainloopId", "upsertMode", "counts", "units"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
 };
@@ -0,0 +1,44 @@
+/**
+ * Export a brainloop to Markdown
+ */
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { fileOutputSchema } from './output-schemas.js';
+
+export const exportBrainloop: Tool = {
+  name: "export_brainloop",
+  description: "Export a whole brainloop (units, lessons, interactions and prompts with answers and explanations) to portable Markdown for backups, reviewing course content in git, or offline reading. The output is deterministic, so exporting an unchanged brainloop twice gives identical files. 'document' returns one Markdown file (H1 = brainloop, H2 = unit, H3 = lesson, fenced `quiz` blocks = prompts); 'bundle' returns a course.md index plus one file per lesson with front-matter. Files are returned as embedded resources that can also be read later at export://brainloop/{brainloopId}.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      brainloopId: {
+        type: "string",
+        description: "The ID of the brainloop to export",
+      },
+      format: {
+        type: "string",
+        enum: ["document", "bundle"],
+        description: "Single Markdown document (default) or a multi-file bundle",
+        default: "document",
+      },
+    },
+    required: ["brainloopId"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      brainloopId: { type: "string" },
+      title: { type: "string" },
+      format: { type: "string" },
+      counts: {
+        type: "object",
+        properties: { units: { type: "integer" }, lessons: { type: "integer" }, prompts: { type: "integer" } },
+        required: ["units", "lessons", "prompts"],
+      },
+      files: { type: "array", items: fileOutputSchema },
+    },
+    required: ["brainloopId", "title", "format", "counts", "files"],
+  },
+  annotations: {
+    readOnlyHint: true,
+  },
+};
@@ -0,0 +1,56 @@
+/**
+ * Export a brainloop as Anki flashcards
+ */
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { fileOutputSchema } from './output-schemas.js';
+
+export const exportFlashcards: Tool = {
+  name: "export_flashcards",
+  description: "Export a brainloop's prompts as flashcards for Anki and other spaced-repetition apps. Each prompt becomes a card: the question (with its options) on the front, and the correct answer plus explanation on the back. Optionally, lesson sections and bold-term definitions also become cards. The output is an Anki text import file (TSV or CSV). It has a deck column (Brainloop::Unit::Lesson) and tags for the brainloop, unit and lesson. Every note has a stable ID derived from the prompt or lesson ID, so importing a re-export updates existing cards instead of duplicating them.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      brainloopId: {
+        type: "string",
+        description: "The ID of the brainloop to export",
+      },
+      format: {
+        type: "string",
+        enum: ["tsv", "csv"],
+        description: "Tab- or comma-separated output (default: tsv)",
+        default: "tsv",
+      },
+      includeLessonContent: {
+        type: "boolean",
+        description: "Also create cards from lesson section headings and **term**: definition lines (default: false)",
+        default: false,
+      },
+    },
+    required: ["brainloopId"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      brainloopId: { type: "string" },
+      title: { type: "string" },
+      format: { type: "string" },
+      cardCount: { type: "integer" },
+      promptCardCount: { type: "integer" },
+      lessonCardCount: { type: "integer" },
+      skipped: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { promptId: { type: "string" }, question: { type: "string" }, lessonTitle: { type: "string" } },
+          required: ["promptId", "question", "lessonTitle"],
+        },
+        description: "Prompts without an answer or explanation",
+      },
+      file: fileOutputSchema,
+    },
+    required: ["brainloopId", "title", "format", "cardCount", "promptCardCount", "lessonCardCount", "skipped"],
+  },
+  annotations: {
+    readOnlyHint: true,
+  },
+};
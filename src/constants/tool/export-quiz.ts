@@ -0,0 +1,52 @@
+/**
+ * Export prompts to LMS question formats
+ */
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { fileOutputSchema, skippedOutputSchema } from './output-schemas.js';
+
+export const exportQuiz: Tool = {
+  name: "export_quiz",
+  description: "Export the prompts of one lesson or a whole brainloop to a format an LMS can import: Moodle GIFT text, or an IMS QTI 2.1 content package (imsmanifest.xml plus one item file per prompt). Correct answers, multiple correct options, and explanations (as general feedback) are kept. Multiple-choice, single-choice, true-false, short-answer and matching prompts are exported to both formats, and ordering prompts to QTI. Code, interactive-component, fill-in-the-blank and cloze prompts have no equivalent and do not round-trip; they are listed in the response, as are prompts whose answer does not identify their options. Files are returned as embedded resources.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      format: {
+        type: "string",
+        enum: ["gift", "qti"],
+        description: "Moodle GIFT or IMS QTI 2.1",
+      },
+      lessonId: {
+        type: "string",
+        description: "Export the prompts of this lesson (use either lessonId or brainloopId)",
+      },
+      brainloopId: {
+        type: "string",
+        description: "Export the prompts of every lesson in this brainloop (use either lessonId or brainloopId)",
+      },
+    },
+    required: ["format"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      format: { type: "string" },
+      scope: {
+        type: "object",
+        properties: {
+          kind: { type: "string", enum: ["lesson", "brainloop"] },
+          id: { type: "string" },
+          title: { type: "string" },
+        },
+        required: ["kind", "id", "title"],
+      },
+      exported: { type: "integer" },
+      total: { type: "integer" },
+      files: { type: "array", items: fileOutputSchema },
+      skipped: { type: "array", items: skippedOutputSchema },
+    },
+    required: ["format", "scope", "exported", "total", "files", "skipped"],
+  },
+  annotations: {
+    readOnlyHint: true,
+  },
+};
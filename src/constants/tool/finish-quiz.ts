@@ -0,0 +1,50 @@
+/**
+ * Finish the running quiz and show the results
+ */
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export const finishQuiz: Tool = {
+  name: "finish_quiz",
+  description: "Finish the quiz started with `start_quiz`: grade the answers, show the score with per-question feedback and explanations, and mark the lesson complete if the pass threshold was met. Unanswered questions count as incorrect.",
+  inputSchema: {
+    type: "object",
+    properties: {},
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      quizId: { type: "string" },
+      lessonId: { type: "string" },
+      lessonTitle: { type: "string" },
+      correct: { type: "integer" },
+      graded: { type: "integer" },
+      ungraded: { type: "integer" },
+      score: { type: "integer", description: "Percentage of graded answers that are correct" },
+      passThreshold: { type: "number" },
+      passed: { type: "boolean" },
+      lessonCompleted: { type: "boolean" },
+      results: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            promptId: { type: "string" },
+            question: { type: "string" },
+            outcome: { type: "string", enum: ["correct", "incorrect", "ungraded"] },
+            response: { description: "The answer given" },
+            expected: { type: "string" },
+            note: { type: "string" },
+            explanation: { type: "string" },
+          },
+          required: ["promptId", "question", "outcome", "expected"],
+        },
+      },
+    },
+    required: ["quizId", "lessonId", "lessonTitle", "correct", "graded", "ungraded", "score", "passThreshold", "passed", "lessonCompleted", "results"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+  },
+};
@@ -0,0 +1,93 @@
+/**
+ * Generate prompts for under-covered lessons through sampling
+ */
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export const generateInteractions: Tool = {
+  name: "generate_interactions",
+  description: "Fill lessons that have fewer prompts than the target by asking the client's model to write them (MCP sampling). For each lesson of the brainloop (or one unit) below the target, the lesson content is sent to the model, which returns the missing number of prompts as JSON. The prompts are validated against the same per-type rules as create_prompts_batch; lessons whose prompts are invalid are skipped and reported. An interaction is created for lessons that have none. Each sampling request can be reviewed by the user in the client. Progress is reported per lesson. With dryRun the generated prompts are shown without creating anything and kept under a previewId; pass that previewId (without dryRun) to create exactly the previewed prompts without asking the model again. Code and interactive-component prompts are not generated. Requires a client that supports sampling.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      brainloopId: {
+        type: "string",
+        description: "The ID of the brainloop to fill",
+      },
+      unitId: {
+        type: "string",
+        description: "Only fill lessons of this unit",
+      },
+      targetPrompts: {
+        type: "number",
+        description: "Prompts each lesson should have; lessons below it get the missing number",
+        default: 5,
+        minimum: 1,
+      },
+      promptTypes: {
+        type: "array",
+        items: {
+          type: "string",
+          enum: ["multiple-choice", "single-choice", "true-false", "short-answer", "ordering", "matching", "fill-in-the-blank", "cloze"],
+        },
+        description: "Prompt types the model may use (default: all of them)",
+      },
+      maxLessons: {
+        type: "number",
+        description: "Maximum number of lessons to fill in this call",
+        default: 10,
+        minimum: 1,
+      },
+      dryRun: {
+        type: "boolean",
+        description: "Preview the generated prompts without creating them",
+        default: false,
+      },
+      previewId: {
+        type: "string",
+        description: "Create the prompts of this earlier dryRun preview, from the same session, instead of generating new ones",
+      },
+    },
+    required: ["brainloopId"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      brainloopId: { type: "string" },
+      brainloopTitle: { type: "string" },
+      dryRun: { type: "boolean" },
+      targetPrompts: { type: "integer" },
+      promptTypes: { type: "array", items: { type: "string" } },
+      previewId: { type: "string", description: "ID of the stored preview, to create its prompts" },
+      lessons: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            lessonId: { type: "string" },
+            lessonTitle: { type: "string" },
+            status: { type: "string", enum: ["created", "preview", "failed"] },
+            prompts: {
+              type: "array",
+              items: {
+                type: "object",
+                description: "A generated prompt, shaped like the create_prompt arguments",
+                properties: { type: { type: "string" }, question: { type: "string" } },
+                required: ["type", "question"],
+              },
+            },
+            errors: { type: "array", items: { type: "string" } },
+            notes: { type: "array", items: { type: "string" } },
+          },
+          required: ["lessonId", "lessonTitle", "status", "prompts", "errors", "notes"],
+        },
+      },
+      remainingLessons: { type: "integer", description: "Lessons still below the target that were left for a later call" },
+    },
+    required: ["brainloopId", "brainloopTitle", "dryRun", "targetPrompts", "promptTypes", "lessons", "remainingLessons"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+  },
+};
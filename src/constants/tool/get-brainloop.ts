@@ -2,6 +2,7 @@
  * Get detailed information about a brainloop
  */
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { brainloopOutputSchema, unitOutputSchema } from './output-schemas.js';
 
 export const getBrainloop: Tool = {
   name: "get_brainloop",
@@ -16,4 +17,12 @@ export const getBrainloop: Tool = {
     },
     required: ["brainloopId"],
   },
+  outputSchema: {
+    type: "object",
+    properties: { brainloop: brainloopOutputSchema, units: { type: "array", items: unitOutputSchema } },
+    required: ["brainloop", "units"],
+  },
+  annotations: {
+    readOnlyHint: true,
+  },
 };
@@ -2,6 +2,7 @@
  * Get all prompts for a lesson
  */
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { promptOutputSchema } from './output-schemas.js';
 
 export const getLessonPrompts: Tool = {
   name: "get_lesson_prompts",
@@ -16,4 +17,21 @@ export const getLessonPrompts: Tool = {
     },
     required: ["lessonId"],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      lesson: {
+        type: "object",
+        properties: { id: { type: "string" }, title: { type: "string" } },
+        required: ["id", "title"],
+      },
+      interactionId: { type: "string" },
+      needsInteraction: { type: "boolean", description: "True when the lesson has no interaction to add prompts to" },
+      prompts: { type: "array", items: promptOutputSchema },
+    },
+    required: ["lesson", "needsInteraction", "prompts"],
+  },
+  annotations: {
+    readOnlyHint: true,
+  },
 };
@@ -2,6 +2,7 @@
  * Get full content of a single lesson
  */
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { lessonOutputSchema } from './output-schemas.js';
 
 export const getLesson: Tool = {
   name: "get_lesson",
@@ -16,4 +17,20 @@ export const getLesson: Tool = {
     },
     required: ["lessonId"],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      lesson: {
+        allOf: [lessonOutputSchema, {
+          type: "object",
+          properties: { content: { type: "string", description: "Markdown content" } },
+          required: ["content"],
+        }],
+      },
+    },
+    required: ["lesson"],
+  },
+  annotations: {
+    readOnlyHint: true,
+  },
 };
@@ -2,6 +2,7 @@
  * Get detailed information about a specific track
  */
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { brainloopOutputSchema, trackOutputSchema } from './output-schemas.js';
 
 export const getTrack: Tool = {
   name: "get_track",
@@ -16,4 +17,15 @@ export const getTrack: Tool = {
     },
     required: ["trackId"],
   },
+  outputSchema: {
+    type: "object",
+    properties: {
+      track: trackOutputSchema,
+      brainloops: { type: "array", items: brainloopOutputSchema, description: "Brainloops in the track, in order" },
+    },
+    required: ["track", "brainloops"],
+  },
+  annotations: {
+    readOnlyHint: true,
+  },
 };
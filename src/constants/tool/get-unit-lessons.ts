@@ -2,6 +2,7 @@
  * Get all lessons for a unit
  */
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { lessonOutputSchema } from './output-schemas.js';
 
 export const getUnitLessons: Tool = {
   name: "get_unit_lessons",
@@ -16,4 +17,12 @@ export const getUnitLessons: Tool = {
     },
     required: ["unitId"],
   },
+  outputSchema: {
+    type: "object",
+    properties: { unitId: { type: "string" }, lessons: { type: "array", items: lessonOutputSchema } },
+    required: ["unitId", "lessons"],
+  },
+  annotations: {
+    readOnlyHint: true,
+  },
 };
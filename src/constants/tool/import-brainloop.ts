@@ -0,0 +1,84 @@
+/**
+ * Import a brainloop from Markdown
+ */
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export const importBrainloop: Tool = {
+  name: "import_brainloop",
+  description: "Create a new brainloop from one Markdown document, in the same layout `export_brainloop` produces. Structure: `# Brainloop title` followed by its description; `## Unit title` followed by an optional description; `### Lesson title` followed by the lesson content. Inside lessons, write headings three levels deeper (`####` for the lesson's `#`, `#####` for `##`). Each fenced ```quiz block inside a lesson adds one prompt, with one `field: value` line per field. Fields are type, question, options (JSON array), answer, explanation, codeLanguage, codeStarterCode, componentType and componentConfig (JSON). Front-matter and `<!-- brainloop: ... -->` comments from an export are read for visibility and video URLs. The document is validated first, and structural problems are reported with line numbers without creating anything.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      markdown: {
+        type: "string",
+        description: "The Markdown document to import",
+      },
+      isPublic: {
+        type: "boolean",
+        description: "Make the brainloop public (overrides the document front-matter; default: private)",
+      },
+      dryRun: {
+        type: "boolean",
+        description: "Only validate the document and preview what would be created (default: false)",
+        default: false,
+      },
+      rollback: {
+        type: "boolean",
+        description: "If true (default), a failure part-way through deletes everything created by this import. If false, the failure returns a 'partially applied' report.",
+        default: true,
+      },
+    },
+    required: ["markdown"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      dryRun: { type: "boolean" },
+      brainloopId: { type: "string", description: "ID of the created brainloop; missing in a dry run" },
+      title: { type: "string" },
+      isPublic: { type: "boolean" },
+      units: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            title: { type: "string" },
+            lessons: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: { title: { type: "string" }, promptCount: { type: "integer" } },
+                required: ["title", "promptCount"],
+              },
+            },
+          },
+          required: ["title", "lessons"],
+        },
+      },
+      warnings: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { line: { type: "integer" }, message: { type: "string" } },
+          required: ["line", "message"],
+        },
+      },
+      counts: {
+        type: "object",
+        properties: {
+          units: { type: "integer" },
+          lessons: { type: "integer" },
+          prompts: { type: "integer" },
+          interactions: { type: "integer" },
+        },
+        required: ["units", "lessons", "prompts"],
+      },
+    },
+    required: ["dryRun", "title", "isPublic", "units", "warnings", "counts"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+  },
+};
@@ -0,0 +1,65 @@
+/**
+ * Import prompts from LMS question formats
+ */
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { skippedOutputSchema } from './output-schemas.js';
+
+export const importQuiz: Tool = {
+  name: "import_quiz",
+  description: "Import a question bank in Moodle GIFT, IMS QTI 2.1 (assessmentItem XML) or Aiken format into a lesson's interaction as prompts. Answer indices, multiple correct options, and feedback (as the explanation) are mapped. GIFT and QTI choice questions become multiple-choice prompts, True/False questions become true-false prompts, text answers become short-answer prompts, GIFT matching questions and QTI match interactions become matching prompts, and QTI order interactions become ordering prompts. Questions that cannot be represented (GIFT numerical or essay questions; other QTI interactions) are listed with the reason and not imported; fill-in-the-blank and cloze prompts are never created. When importing into a lesson, questions the lesson already has are skipped, so re-importing the same file is safe; importing into an interactionId does not check for duplicates.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      format: {
+        type: "string",
+        enum: ["gift", "qti", "aiken"],
+        description: "Format of the question bank",
+      },
+      content: {
+        type: "string",
+        description: "The question bank text (GIFT/Aiken) or XML (QTI). For a QTI package, paste the item XML files, not the manifest",
+      },
+      lessonId: {
+        type: "string",
+        description: "Lesson to import into; its interaction is created if needed (use either lessonId or interactionId)",
+      },
+      interactionId: {
+        type: "string",
+        description: "Existing interaction to import into (use either lessonId or interactionId)",
+      },
+      dryRun: {
+        type: "boolean",
+        description: "Only parse and preview the import (default: false)",
+        default: false,
+      },
+    },
+    required: ["format", "content"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      dryRun: { type: "boolean" },
+      interactionId: {
+        type: "string",
+        description: "Interaction the prompts were added to; missing when nothing was created",
+      },
+      imported: { type: "integer", description: "Prompts created" },
+      prompts: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { type: { type: "string" }, question: { type: "string" } },
+          required: ["type", "question"],
+        },
+        description: "Prompts parsed from the file and not skipped",
+      },
+      skipped: { type: "array", items: skippedOutputSchema },
+    },
+    required: ["dryRun", "imported", "prompts", "skipped"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+  },
+};
@@ -1,4 +1,5 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { lessonOutputSchema } from './output-schemas.js';
 
 export const moveLesson: Tool = {
   name: "move_lesson",
@@ -17,9 +18,23 @@ export const moveLesson: Tool = {
       newOrder: {
         type: "number",
         description: "Optional new order position in the target unit (0-based). If not specified, the lesson will be appended to the end."
-      }
+      },
+      confirm: {
+        type: "boolean",
+        description: "Set to true once the user has agreed to the changes. Only used when the client cannot ask the user itself; without it the call lists the changes and makes none",
+      },
     },
     required: ["lessonId", "targetUnitId"]
-  }
+  },
+  outputSchema: {
+    type: "object",
+    properties: { lesson: lessonOutputSchema },
+    required: ["lesson"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+  },
 };
 
@@ -0,0 +1,197 @@
+/**
+ * JSON schemas of the objects several tools return in their structured content.
+ * The objects are built by the summary helpers in `handlers/tools/summaries`.
+ */
+
+export const brainloopOutputSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Brainloop ID" },
+    title: { type: "string" },
+    description: { type: "string" },
+    isPublic: { type: "boolean" },
+    author: { type: "string", description: "Name of the author" },
+    unitCount: { type: "integer" },
+    learnerCount: { type: "integer" },
+    createdAt: { type: "string", description: "ISO 8601 timestamp" },
+  },
+  required: ["id", "title", "description", "isPublic"],
+};
+
+export const unitOutputSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Unit ID" },
+    title: { type: "string" },
+    description: { type: "string" },
+    order: { type: "integer" },
+    lessonCount: { type: "integer" },
+  },
+  required: ["id", "title", "order"],
+};
+
+export const lessonOutputSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Lesson ID" },
+    title: { type: "string" },
+    unitId: { type: "string" },
+    order: { type: "integer" },
+    contentLength: { type: "integer", description: "Length of the content in characters" },
+    videoUrl: { type: "string" },
+    updatedAt: { type: "string", description: "ISO 8601 timestamp" },
+  },
+  required: ["id", "title", "unitId", "order", "contentLength"],
+};
+
+export const promptOutputSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Prompt ID" },
+    question: { type: "string" },
+    type: { type: "string" },
+    options: { type: "array", items: { type: "string" } },
+    answer: { description: "Correct answer, shaped by the prompt type" },
+    explanation: { type: "string" },
+    order: { type: "integer" },
+  },
+  required: ["id", "question", "type"],
+};
+
+export const trackOutputSchema = {
+  type: "object",
+  properties: {
+    id: { type: "string", description: "Track ID" },
+    title: { type: "string" },
+    description: { type: "string" },
+    slug: { type: "string" },
+    isPublic: { type: "boolean" },
+    icon: { type: "string" },
+    author: { type: "string", description: "Name of the author" },
+    courseCount: { type: "integer" },
+    learnerCount: { type: "integer" },
+    isOwner: { type: "boolean" },
+    isEnrolled: { type: "boolean" },
+  },
+  required: ["id", "title", "description", "slug", "isPublic"],
+};
+
+/**
+ * A unit or lesson created, updated or skipped by an upsert
+ */
+export const upsertItemOutputSchema = {
+  type: "object",
+  properties: {
+    action: { type: "string", enum: ["created", "updated", "skipped"] },
+    id: { type: "string", description: "Missing for items skipped as duplicates within the request" },
+    title: { type: "string" },
+    reason: { type: "string" },
+  },
+  required: ["action", "title"],
+};
+
+/**
+ * An entity created or updated by a journaled tool
+ */
+export const changeOutputSchema = {
+  type: "object",
+  properties: {
+    action: { type: "string", enum: ["created", "updated"] },
+    type: { type: "string", enum: ["course", "unit", "lesson"] },
+    id: { type: "string" },
+    title: { type: "string" },
+  },
+  required: ["action", "type", "id", "title"],
+};
+
+/**
+ * A file returned as an embedded resource in the tool result's content
+ */
+export const fileOutputSchema = {
+  type: "object",
+  properties: {
+    uri: { type: "string" },
+    mimeType: { type: "string" },
+  },
+  required: ["uri", "mimeType"],
+};
+
+/**
+ * Something that was left out of an import or export, and why
+ */
+export const skippedOutputSchema = {
+  type: "object",
+  properties: {
+    label: { type: "string" },
+    reason: { type: "string" },
+  },
+  required: ["label", "reason"],
+};
+
+/**
+ * Result of running a code prompt's reference solution against its test cases
+ */
+export const verificationOutputSchema = {
+  type: "object",
+  properties: {
+    language: { type: "string" },
+    supported: { type: "boolean", description: "False when the language cannot be run; nothing was executed" },
+    reason: { type: "string", description: "Why nothing was executed" },
+    results: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          index: { type: "integer", description: "0-based index of the test case" },
+          description: { type: "string" },
+          passed: { type: "boolean" },
+          expectedOutput: { type: "string" },
+          actualOutput: { type: "string" },
+          error: { type: "string", description: "Runtime error, or the limit that was exceeded" },
+          durationMs: { type: "number" },
+        },
+        required: ["index", "passed", "expectedOutput", "actualOutput", "durationMs"],
+      },
+    },
+    passed: { type: "boolean", description: "True only when the language is supported and every test case passed" },
+  },
+  required: ["language", "supported", "results", "passed"],
+};
+
+/**
+ * A lesson or prompt in the learner's review schedule
+ */
+export const reviewItemOutputSchema = {
+  type: "object",
+  properties: {
+    kind: { type: "string", enum: ["lesson", "prompt"] },
+    id: { type: "string", description: "Lesson or prompt ID" },
+    title: { type: "string", description: "Lesson title or prompt question" },
+    lessonId: { type: "string" },
+    lessonTitle: { type: "string" },
+    brainloopTitle: { type: "string" },
+    dueAt: { type: "string", description: "ISO 8601 timestamp" },
+    interval: { type: "number", description: "Current interval in days" },
+  },
+  required: ["kind", "id", "title", "lessonId", "lessonTitle", "dueAt", "interval"],
+};
+
+/**
+ * The current quiz question, without its answer
+ */
+export const quizQuestionOutputSchema = {
+  type: "object",
+  properties: {
+    number: { type: "integer" },
+    total: { type: "integer" },
+    promptId: { type: "string" },
+    type: { type: "string" },
+    question: { type: "string", description: "Cloze gaps are shown as [gapId: ____]" },
+    options: { type: "array", items: { type: "string" } },
+    items: { type: "array", items: { type: "string" }, description: "Left-hand items of a matching question" },
+    choices: { type: "array", items: { type: "string" }, description: "Values to match the items to" },
+    codeLanguage: { type: "string" },
+    codeStarterCode: { type: "string" },
+  },
+  required: ["number", "total", "promptId", "type", "question"],
+};
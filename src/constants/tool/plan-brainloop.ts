@@ -0,0 +1,122 @@
+/**
+ * Preview the changes needed to make a brainloop match a course spec
+ */
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * JSON schema of a declarative course spec, shared with `apply_brainloop`.
+ * It extends the `template://brainloop` format with optional prompts per lesson.
+ */
+export const courseSpecSchema = {
+  type: "object",
+  description: "Full desired state of the brainloop. Same shape as the template://brainloop resource, with optional prompts per lesson.",
+  properties: {
+    title: {
+      type: "string",
+      description: "Brainloop title",
+    },
+    description: {
+      type: "string",
+      description: "Brainloop description",
+    },
+    isPublic: {
+      type: "boolean",
+      description: "Make a newly created brainloop public (default: false)",
+    },
+    units: {
+      type: "array",
+      description: "Units in the desired order",
+      items: {
+        type: "object",
+        properties: {
+          title: { type: "string", description: "Unit title (used to match existing units)" },
+          description: { type: "string", description: "Unit description" },
+          lessons: {
+            type: "array",
+            description: "Lessons in the desired order",
+            items: {
+              type: "object",
+              properties: {
+                title: { type: "string", description: "Lesson title (used to match existing lessons anywhere in the brainloop)" },
+                content: { type: "string", description: "Lesson content (markdown)" },
+                videoUrl: { type: "string", description: "Optional video URL" },
+                prompts: {
+                  type: "array",
+                  description: "Prompts that must exist on the lesson's interaction (matched by question text)",
+                  items: {
+                    type: "object",
+                    properties: {
+                      question: { type: "string" },
+                      type: {
+                        type: "string",
+                        enum: ["multiple-choice", "single-choice", "short-answer", "true-false", "code", "interactive-component", "ordering", "matching", "fill-in-the-blank", "cloze"],
+                      },
+                      options: { type: "array", items: { type: "string" } },
+                      answer: { description: "The correct answer, in the same form as for create_prompt" },
+                      explanation: { type: "string" },
+                      codeLanguage: { type: "string" },
+                      codeStarterCode: { type: "string" },
+                      componentType: { type: "string" },
+                      componentConfig: { description: "Interactive component configuration" },
+                    },
+                    required: ["question", "type"],
+                  },
+                },
+              },
+              required: ["title", "content"],
+            },
+          },
+        },
+        required: ["title", "lessons"],
+      },
+    },
+  },
+  required: ["title", "description", "units"],
+};
+
+export const planBrainloop: Tool = {
+  name: "plan_brainloop",
+  description: "Compare a full course spec (units, lessons and their prompts) with a live brainloop and show the changes needed to make the brainloop match it: creates, updates, moves and reorders. Nothing is changed. Units and lessons are matched by title; content that is not in the spec is listed but never deleted. Omit brainloopId to plan a brand new brainloop. Specs written in YAML must be passed as the equivalent JSON object. Review the plan, then run `apply_brainloop` with the same spec and the returned fingerprint.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      spec: courseSpecSchema,
+      brainloopId: {
+        type: "string",
+        description: "The ID of the existing brainloop to compare against (optional - omit to create a new brainloop)",
+      },
+    },
+    required: ["spec"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      plan: {
+        type: "object",
+        properties: {
+          brainloopId: { type: "string" },
+          fingerprint: { type: "string", description: "Pass to apply_brainloop to apply exactly this plan" },
+          operations: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: { kind: { type: "string" }, summary: { type: "string" } },
+              required: ["kind", "summary"],
+            },
+          },
+          warnings: { type: "array", items: { type: "string" } },
+          untouched: {
+            type: "array",
+            items: { type: "string" },
+            description: "Live content the spec does not mention, which is never deleted",
+          },
+        },
+        required: ["fingerprint", "operations", "warnings", "untouched"],
+      },
+    },
+    required: ["plan"],
+  },
+  annotations: {
+    readOnlyHint: true,
+  },
+};
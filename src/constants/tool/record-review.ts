@@ -0,0 +1,49 @@
+/**
+ * Record a spaced-repetition review
+ */
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { reviewItemOutputSchema } from './output-schemas.js';
+
+export const recordReview: Tool = {
+  name: "record_review",
+  description: "Record how well you recalled a lesson or prompt during review, and reschedule it with the SM-2 algorithm. Grades: 0 = complete blackout, 1 = wrong but recognised the answer, 2 = wrong but it felt easy, 3 = correct with serious difficulty, 4 = correct after some hesitation, 5 = perfect recall. Grades below 3 make the item due again tomorrow.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      lessonId: {
+        type: "string",
+        description: "The lesson you reviewed, or the lesson of the prompt (required for prompts not yet on your schedule)",
+      },
+      promptId: {
+        type: "string",
+        description: "The prompt you reviewed (omit to grade the whole lesson)",
+      },
+      grade: {
+        type: "number",
+        description: "Recall grade from 0 (blackout) to 5 (perfect recall)",
+        minimum: 0,
+        maximum: 5,
+      },
+    },
+    required: ["grade"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      item: {
+        allOf: [reviewItemOutputSchema, {
+          type: "object",
+          properties: { easeFactor: { type: "number" }, repetitions: { type: "integer" } },
+          required: ["easeFactor", "repetitions"],
+        }],
+      },
+      grade: { type: "number" },
+    },
+    required: ["item", "grade"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+  },
+};
@@ -1,4 +1,5 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { unitOutputSchema } from './output-schemas.js';
 
 export const reorderUnits: Tool = {
   name: "reorder_units",
@@ -14,8 +15,26 @@ export const reorderUnits: Tool = {
         type: "array",
         items: { type: "string" },
         description: "Array of unit IDs in the desired order (first item = order 1, second = order 2, etc.)"
-      }
+      },
+      confirm: {
+        type: "boolean",
+        description: "Set to true once the user has agreed to the changes. Only used when the client cannot ask the user itself; without it the call lists the changes and makes none",
+      },
     },
     required: ["brainloopId", "unitIds"]
-  }
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      brainloopId: { type: "string" },
+      brainloopTitle: { type: "string" },
+      units: { type: "array", items: unitOutputSchema },
+    },
+    required: ["brainloopId", "brainloopTitle", "units"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+  },
 };
@@ -0,0 +1,96 @@
+/**
+ * Review a lesson against the lesson template through sampling
+ */
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export const reviewLesson: Tool = {
+  name: "review_lesson",
+  description: "Review a lesson against the lesson template and learning design principles by asking the client's model (MCP sampling). Returns a rubric score from 1 to 5 for objectives, examples, summary, length and clarity, plus numbered edits that each replace an exact passage of the lesson. Nothing is changed by the review. To apply the edits, show them to the user and, once they confirm, call this tool again with the same lessonId and the returned reviewId, optionally with applyEdits to pick edits by number. The edits are only applied if the lesson has not changed since the review, and an edit whose passage is no longer unique is skipped. Reviews expire after 2 hours or when the session ends. Requires a client that supports sampling.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      lessonId: {
+        type: "string",
+        description: "The ID of the lesson to review",
+      },
+      reviewId: {
+        type: "string",
+        description: "Apply the edits of this earlier review instead of reviewing again. Only pass it after the user confirmed the edits.",
+      },
+      applyEdits: {
+        type: "array",
+        items: { type: "number", minimum: 1 },
+        description: "Numbers of the edits to apply (default: all edits of the review). Requires reviewId.",
+      },
+      confirm: {
+        type: "boolean",
+        description: "Set to true once the user has agreed to the changes. Only used when the client cannot ask the user itself; without it the call lists the changes and makes none",
+      },
+    },
+    required: ["lessonId"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      mode: {
+        type: "string",
+        description: "Whether the call reviewed the lesson or applied the edits of a review",
+        enum: ["review", "apply"],
+      },
+      lesson: {
+        type: "object",
+        properties: { id: { type: "string" }, title: { type: "string" } },
+        required: ["id", "title"],
+      },
+      reviewId: {
+        type: "string",
+        description: "Pass back with applyEdits to apply the suggested edits; missing when there are none",
+      },
+      score: { type: "integer" },
+      maxScore: { type: "integer" },
+      summary: { type: "string" },
+      scores: {
+        type: "object",
+        description: "Score (1-5) and comment per criterion",
+        additionalProperties: {
+          type: "object",
+          properties: { score: { type: "integer" }, comment: { type: "string" } },
+          required: ["score", "comment"],
+        },
+      },
+      edits: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            number: { type: "integer" },
+            criterion: { type: "string" },
+            find: { type: "string", description: "Exact passage to replace" },
+            replace: { type: "string" },
+            reason: { type: "string" },
+          },
+          required: ["number", "criterion", "find", "replace", "reason"],
+        },
+      },
+      lessonChanged: {
+        type: "boolean",
+        description: "True when the lesson changed after the review, so nothing was applied",
+      },
+      applied: { type: "array", items: { type: "integer" }, description: "Numbers of the edits that were applied" },
+      skipped: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: { edit: { type: "integer" }, reason: { type: "string" } },
+          required: ["edit", "reason"],
+        },
+      },
+    },
+    required: ["mode", "lesson"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: false,
+  },
+};
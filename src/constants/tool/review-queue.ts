@@ -0,0 +1,54 @@
+/**
+ * Show lessons and prompts due for spaced-repetition review
+ */
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { reviewItemOutputSchema } from './output-schemas.js';
+
+export const reviewQueue: Tool = {
+  name: "review_queue",
+  description: "Show which of your completed lessons and their prompts are due for review today, overdue, or coming up this week. Uses a spaced-repetition (SM-2) schedule: lessons are first due a day after completion, and each recall grade recorded with `record_review` moves the next review further out or brings it back. Newly completed lessons are added to the schedule automatically.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      includePrompts: {
+        type: "boolean",
+        description: "Also schedule and list the prompts of completed lessons (default: true)",
+        default: true,
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of items to list per section (default: 20)",
+        default: 20,
+        minimum: 1,
+        maximum: 100,
+      },
+    },
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      date: { type: "string", description: "Today's date (YYYY-MM-DD)" },
+      added: { type: "integer", description: "Items added to the schedule by this call" },
+      overdue: { type: "array", items: reviewItemOutputSchema },
+      today: { type: "array", items: reviewItemOutputSchema },
+      upcoming: { type: "array", items: reviewItemOutputSchema },
+      counts: {
+        type: "object",
+        description: "Items in each group, including those past the limit",
+        properties: {
+          overdue: { type: "integer" },
+          today: { type: "integer" },
+          upcoming: { type: "integer" },
+          later: { type: "integer" },
+        },
+        required: ["overdue", "today", "upcoming", "later"],
+      },
+    },
+    required: ["date", "added", "overdue", "today", "upcoming", "counts"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: true,
+  },
+};
@@ -0,0 +1,69 @@
+/**
+ * Search lessons across brainloops
+ */
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { lessonOutputSchema } from './output-schemas.js';
+
+export const searchLessons: Tool = {
+  name: "search_lessons",
+  description: "Search lesson titles and content across your brainloops. Returns ranked results with the course → unit → lesson path, IDs, and a highlighted snippet. Use this to find where a concept is already explained before writing new content. Narrow the search with courseId, trackId or unitId, and page through large result sets with limit/offset.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      query: {
+        type: "string",
+        description: "Search text (e.g., 'recursion base case')",
+      },
+      courseId: {
+        type: "string",
+        description: "Only return lessons from this brainloop (course ID)",
+      },
+      trackId: {
+        type: "string",
+        description: "Only return lessons from courses in this track",
+      },
+      unitId: {
+        type: "string",
+        description: "Only return lessons from this unit",
+      },
+      limit: {
+        type: "number",
+        description: "Maximum number of results to return (1-50). Default: 10",
+        default: 10,
+      },
+      offset: {
+        type: "number",
+        description: "Number of ranked results to skip, for pagination. Default: 0",
+        default: 0,
+      },
+    },
+    required: ["query"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      query: { type: "string" },
+      total: { type: "integer", description: "Matching lessons across all pages" },
+      offset: { type: "integer" },
+      nextOffset: { type: "integer", description: "Offset of the next page, when there is one" },
+      results: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            lesson: lessonOutputSchema,
+            unitTitle: { type: "string" },
+            brainloopId: { type: "string" },
+            brainloopTitle: { type: "string" },
+            snippet: { type: "string", description: "Content around the first match" },
+          },
+          required: ["lesson"],
+        },
+      },
+    },
+    required: ["query", "total", "offset", "results"],
+  },
+  annotations: {
+    readOnlyHint: true,
+  },
+};
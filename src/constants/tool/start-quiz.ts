@@ -0,0 +1,55 @@
+/**
+ * Start an in-chat quiz on a lesson's prompts
+ */
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { quizQuestionOutputSchema } from './output-schemas.js';
+
+export const startQuiz: Tool = {
+  name: "start_quiz",
+  description: "Start a quiz on a lesson's prompts and show the first question. Questions are asked one at a time with `answer_quiz_prompt`, and answers are only revealed by `finish_quiz`. One quiz runs per session; starting a new one discards the unfinished quiz.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      lessonId: {
+        type: "string",
+        description: "The ID of the lesson to take the quiz on",
+      },
+      shuffle: {
+        type: "boolean",
+        description: "Ask the questions in random order (default: false)",
+        default: false,
+      },
+      passThreshold: {
+        type: "number",
+        description: "Percentage of gradable questions needed to pass (default: 70)",
+        default: 70,
+        minimum: 0,
+        maximum: 100,
+      },
+      completeOnPass: {
+        type: "boolean",
+        description: "Mark the lesson complete when the quiz is passed (default: false). Only set to true when the learner asked for it",
+        default: false,
+      },
+    },
+    required: ["lessonId"],
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      quizId: { type: "string" },
+      lessonId: { type: "string" },
+      lessonTitle: { type: "string" },
+      questionCount: { type: "integer" },
+      passThreshold: { type: "number" },
+      discardedQuizLessonTitle: { type: "string", description: "Lesson of the unfinished quiz this one replaced" },
+      question: quizQuestionOutputSchema,
+    },
+    required: ["quizId", "lessonId", "lessonTitle", "questionCount", "passThreshold", "question"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: false,
+    idempotentHint: false,
+  },
+};
@@ -2,6 +2,7 @@
  * Update an existing lesson
  */
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { lessonOutputSchema } from './output-schemas.js';
 
 export const updateLesson: Tool = {
   name: "update_lesson",
@@ -25,7 +26,21 @@ export const updateLesson: Tool = {
         type: "string",
         description: "New video URL (optional - only if changing)",
       },
+      confirm: {
+        type: "boolean",
+        description: "Set to true once the user has agreed to the changes. Only used when the client cannot ask the user itself; without it the call lists the changes and makes none",
+      },
     },
     required: ["lessonId"],
   },
+  outputSchema: {
+    type: "object",
+    properties: { lesson: lessonOutputSchema },
+    required: ["lesson"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+  },
 };
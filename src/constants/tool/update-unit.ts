@@ -2,6 +2,7 @@
  * Update an existing unit
  */
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { unitOutputSchema } from './output-schemas.js';
 
 export const updateUnit: Tool = {
   name: "update_unit",
@@ -21,7 +22,21 @@ export const updateUnit: Tool = {
         type: "string",
         description: "New unit description (optional - only if changing)",
       },
+      confirm: {
+        type: "boolean",
+        description: "Set to true once the user has agreed to the changes. Only used when the client cannot ask the user itself; without it the call lists the changes and makes none",
+      },
     },
     required: ["unitId"],
   },
+  outputSchema: {
+    type: "object",
+    properties: { unit: unitOutputSchema },
+    required: ["unit"],
+  },
+  annotations: {
+    readOnlyHint: false,
+    destructiveHint: true,
+    idempotentHint: true,
+  },
 };
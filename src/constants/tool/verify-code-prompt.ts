@@ -0,0 +1,65 @@
+/**
+ * Run a code prompt's reference solution against its test cases
+ */
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { verificationOutputSchema } from './output-schemas.js';
+
+export const verifyCodePrompt: Tool = {
+  name: "verify_code_prompt",
+  description: "Run a reference solution for a code prompt against its test cases in an isolated sandbox and report pass/fail per test case, so broken exercises never reach learners. Verify a new exercise by passing its fields directly, or an existing prompt with lessonId and promptId (any fields you pass override the stored ones). Only JavaScript and TypeScript can be run; other languages are reported as unsupported. The solution reads the test case input from the global `input` string and prints its output with console.log.",
+  inputSchema: {
+    type: "object",
+    properties: {
+      lessonId: {
+        type: "string",
+        description: "Lesson of an existing prompt to verify (required with promptId)",
+      },
+      promptId: {
+        type: "string",
+        description: "Existing code prompt to verify; its answer is used as the solution unless one is given",
+      },
+      solution: {
+        type: "string",
+        description: "The reference solution source code",
+      },
+      codeLanguage: {
+        type: "string",
+        description: "Programming language of the solution (javascript or typescript can be run)",
+      },
+      codeExpectedOutput: {
+        type: "string",
+        description: "Expected output, used as a single test case when there are no test cases",
+      },
+      codeTestCases: {
+        type: "array",
+        items: {
+          type: "object",
+          properties: {
+            input: { type: "string", description: "Input given to the program" },
+            expectedOutput: { type: "string", description: "Output the program must produce" },
+            description: { type: "string", description: "What the test case checks" },
+            hidden: { type: "boolean", description: "Hide the test case from learners" },
+          },
+          required: ["expectedOutput"],
+        },
+        description: "Test cases to run",
+      },
+      codeTimeLimit: {
+        type: "number",
+        description: "Time limit per test case in milliseconds (default: 2000, max: 10000)",
+      },
+      codeMemoryLimit: {
+        type: "number",
+        description: "Memory limit in MB (default: 64, max: 512)",
+      },
+    },
+  },
+  outputSchema: {
+    type: "object",
+    properties: { verification: verificationOutputSchema },
+    required: ["verification"],
+  },
+  annotations: {
+    readOnlyHint: true,
+  },
+};
@@ -2,6 +2,7 @@
  * View all user's brainloops
  */
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { brainloopOutputSchema } from './output-schemas.js';
 
 export const viewBrainloops: Tool = {
   name: "view_brainloops",
@@ -11,4 +12,12 @@ export const viewBrainloops: Tool = {
     properties: {},
     required: [],
   },
+  outputSchema: {
+    type: "object",
+    properties: { brainloops: { type: "array", items: brainloopOutputSchema }, total: { type: "integer" } },
+    required: ["brainloops", "total"],
+  },
+  annotations: {
+    readOnlyHint: true,
+  },
 };
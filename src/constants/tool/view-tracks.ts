@@ -2,6 +2,7 @@
  * View all user's tracks
  */
 import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { trackOutputSchema } from './output-schemas.js';
 
 export const viewTracks: Tool = {
   name: "view_tracks",
@@ -11,4 +12,12 @@ export const viewTracks: Tool = {
     properties: {},
     required: [],
   },
+  outputSchema: {
+    type: "object",
+    properties: { tracks: { type: "array", items: trackOutputSchema }, total: { type: "integer" } },
+    required: ["tracks", "total"],
+  },
+  annotations: {
+    readOnlyHint: true,
+  },
 };
@@ -24,8 +24,12 @@ import { updateLesson } from '../constants/tool/update-lesson.js';
 import { updateUnit } from '../constants/tool/update-unit.js';
 import { getUnitLessons } from '../constants/tool/get-unit-lessons.js';
 import { getLesson } from '../constants/tool/get-lesson.js';
+import { searchLessons } from '../constants/tool/search-lessons.js';
 import { detectDuplicates } from '../constants/tool/detect-duplicates.js';
 import { cleanupEmptyContent } from '../constants/tool/cleanup-empty-content.js';
+import { coverageReport } from '../constants/tool/coverage-report.js';
+import { generateInteractions } from '../constants/tool/generate-interactions.js';
+import { reviewLesson } from '../constants/tool/review-lesson.js';
 import { reorderUnits } from '../constants/tool/reorder-units.js';
 import { moveLesson } from '../constants/tool/move-lesson.js';
 import { createTrack } from '../constants/tool/create-track.js';
@@ -33,6 +37,22 @@ import { viewTracks } from '../constants/tool/view-tracks.js';
 import { getTrack } from '../constants/tool/get-track.js';
 import { addCourseToTrack } from '../constants/tool/add-course-to-track.js';
 import { enrollInTrack } from '../constants/tool/enroll-in-track.js';
+import { browseCatalog } from '../constants/tool/browse-catalog.js';
+import { enrollInCourse } from '../constants/tool/enroll-in-course.js';
+import { completeLesson } from '../constants/tool/complete-lesson.js';
+import { reviewQueue } from '../constants/tool/review-queue.js';
+import { recordReview } from '../constants/tool/record-review.js';
+import { planBrainloop } from '../constants/tool/plan-brainloop.js';
+import { applyBrainloop } from '../constants/tool/apply-brainloop.js';
+import { exportBrainloop } from '../constants/tool/export-brainloop.js';
+import { importBrainloop } from '../constants/tool/import-brainloop.js';
+import { exportQuiz } from '../constants/tool/export-quiz.js';
+import { importQuiz } from '../constants/tool/import-quiz.js';
+import { exportFlashcards } from '../constants/tool/export-flashcards.js';
+import { verifyCodePrompt } from '../constants/tool/verify-code-prompt.js';
+import { startQuiz } from '../constants/tool/start-quiz.js';
+import { answerQuizPrompt } from '../constants/tool/answer-quiz-prompt.js';
+import { finishQuiz } from '../constants/tool/finish-quiz.js';
 
 /**
  * Standard error messages for tool operations.
@@ -73,7 +93,19 @@ export const TOOL_RESPONSE_MESSAGES = {
  * - `create_interaction`: Create an interaction container for lesson questions
  * - `create_prompt`: Create a single question/exercise for a lesson
  * - `create_prompts_batch`: Create multiple questions at once
+ * - `generate_interactions`: Have the client's model write prompts for lessons below the target
+ * - `review_lesson`: Score a lesson against the lesson template and apply suggested edits once confirmed
+ * - `verify_code_prompt`: Check a code exercise's reference solution against its test cases
  * - `get_lesson_prompts`: Get all questions for a lesson
+ * - `search_lessons`: Find lessons by title or content across brainloops
+ * - `coverage_report`: Find lessons missing interactions, prompts or explanations
+ * - `plan_brainloop` / `apply_brainloop`: Converge a brainloop to a declarative course spec
+ * - `export_brainloop`: Export a brainloop to a Markdown document or bundle
+ * - `import_brainloop`: Create a brainloop from a Markdown document
+ * - `export_quiz` / `import_quiz`: Exchange prompts with LMSs as GIFT, QTI 2.1 or Aiken
+ * - `export_flashcards`: Export prompts as Anki flashcards
+ * - `review_queue` / `record_review`: Spaced-repetition review of completed lessons
+ * - `start_quiz` / `answer_quiz_prompt` / `finish_quiz`: Take a lesson's prompts as a graded quiz
  *
  * A "brainloop" is a complete learning experience - a structured course
  * with units and lessons designed for effective learning.
@@ -88,14 +120,19 @@ export const TOOLS: Tool[] = [
   brainloopProgress,
   getUnitLessons,
   getLesson,
+  searchLessons,
   createInteraction,
   createPrompt,
   createPromptsBatch,
+  generateInteractions,
+  verifyCodePrompt,
   getLessonPrompts,
   updateLesson,
+  reviewLesson,
   updateUnit,
   detectDuplicates,
   cleanupEmptyContent,
+  coverageReport,
   reorderUnits,
   moveLesson,
   // BrainTrack (learning path) tools
@@ -104,5 +141,24 @@ export const TOOLS: Tool[] = [
   getTrack,
   addCourseToTrack,
   enrollInTrack,
+  // Learner tools
+  browseCatalog,
+  enrollInCourse,
+  completeLesson,
+  reviewQueue,
+  recordReview,
+  // Quiz tools
+  startQuiz,
+  answerQuizPrompt,
+  finishQuiz,
+  // Course spec tools
+  planBrainloop,
+  applyBrainloop,
+  // Interchange tools
+  exportBrainloop,
+  importBrainloop,
+  exportQuiz,
+  importQuiz,
+  exportFlashcards,
 ];
 
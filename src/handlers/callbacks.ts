@@ -1,11 +1 @@
-import {
-  handleSuggestActionCallback,
-} from './callbacks/index.js';
-
-export {
-  handleSuggestActionCallback,
-};
-
-export type {
-  GeneratedSuggestAction,
-} from './callbacks/index';
+export * from './callbacks/index.js';
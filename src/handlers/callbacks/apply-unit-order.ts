@@ -0,0 +1,48 @@
+import { UNIT_ORDER_RESPONSE_SCHEMA, type SuggestedUnitOrder } from '../../types/sampling-schemas.js';
+import { SamplingResponseError } from '../../utils/sampling-response.js';
+import { requireBrainloopService, type SamplingCallback } from './registry.js';
+
+export const applyUnitOrderCallback: SamplingCallback<SuggestedUnitOrder> = {
+  name: 'apply_unit_order',
+  description: 'Reorders the units of the brainloop given in callbackArgs as suggested',
+  subject: 'unit order',
+  responseSchema: UNIT_ORDER_RESPONSE_SCHEMA,
+  argsSchema: {
+    type: 'object',
+    properties: {
+      brainloopId: { type: 'string', minLength: 1, description: 'Brainloop whose units are reordered' },
+    },
+    required: ['brainloopId'],
+    additionalProperties: false,
+  },
+  requiresBrainloopService: true,
+  async handle(order, context) {
+    const brainloopService = requireBrainloopService(context);
+    const brainloopId = context.args.brainloopId as string;
+
+    // The model may only reorder the units that exist, not drop or invent any
+    const units = await brainloopService.getCourseUnits(brainloopId);
+    const currentIds = new Set(units.map(unit => unit.id));
+    const issues = [
+      ...order.unitIds
+        .map((unitId, index) => ({ unitId, index }))
+        .filter(({ unitId }) => !currentIds.has(unitId))
+        .map(({ unitId, index }) => ({ path: ['unitIds', index], message: `Unit ${unitId} is not part of the brainloop` })),
+      ...units
+        .filter(unit => !order.unitIds.includes(unit.id))
+        .map(unit => ({ path: ['unitIds'], message: `Missing unit ${unit.id} ("${unit.title}")` })),
+    ];
+    if (issues.length > 0) {
+      throw new SamplingResponseError('unit order', issues);
+    }
+
+    await context.reportProgress(0, 1);
+    await brainloopService.reorderUnits(brainloopId, order.unitIds);
+    await context.reportProgress(1, 1);
+
+    return {
+      message: `Reordered ${order.unitIds.length} units in brainloop ${brainloopId}`,
+      result: order,
+    };
+  },
+};
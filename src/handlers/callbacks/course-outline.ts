@@ -0,0 +1,16 @@
+import { COURSE_OUTLINE_RESPONSE_SCHEMA, type CourseOutline } from '../../types/sampling-schemas.js';
+import type { SamplingCallback } from './registry.js';
+
+export const courseOutlineCallback: SamplingCallback<CourseOutline> = {
+  name: 'course_outline',
+  description: 'Units and lesson titles for a new brainloop, returned for review without creating anything',
+  subject: 'course outline',
+  responseSchema: COURSE_OUTLINE_RESPONSE_SCHEMA,
+  async handle(outline) {
+    const lessonCount = outline.units.reduce((sum, unit) => sum + unit.lessons.length, 0);
+    return {
+      message: `Course outline generated: ${outline.title} (${outline.units.length} units, ${lessonCount} lessons)`,
+      result: outline,
+    };
+  },
+};
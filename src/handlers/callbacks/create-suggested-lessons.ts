@@ -0,0 +1,36 @@
+import { SUGGESTED_LESSONS_RESPONSE_SCHEMA, type SuggestedLessons } from '../../types/sampling-schemas.js';
+import { requireBrainloopService, type SamplingCallback } from './registry.js';
+
+export const createSuggestedLessonsCallback: SamplingCallback<SuggestedLessons> = {
+  name: 'create_suggested_lessons',
+  description: 'Appends the suggested lessons to the unit given in callbackArgs',
+  subject: 'lesson suggestion',
+  responseSchema: SUGGESTED_LESSONS_RESPONSE_SCHEMA,
+  argsSchema: {
+    type: 'object',
+    properties: {
+      unitId: { type: 'string', minLength: 1, description: 'Unit to add the lessons to' },
+    },
+    required: ['unitId'],
+    additionalProperties: false,
+  },
+  requiresBrainloopService: true,
+  async handle(suggestion, context) {
+    const brainloopService = requireBrainloopService(context);
+    const unitId = context.args.unitId as string;
+
+    await context.reportProgress(0, 1);
+    const existing = await brainloopService.getUnitLessons(unitId);
+    const created = await brainloopService.createLessonsBatch(unitId, suggestion.lessons.map((lesson, index) => ({
+      title: lesson.title,
+      content: lesson.content,
+      order: existing.length + index,
+    })));
+    await context.reportProgress(1, 1);
+
+    return {
+      message: `Created ${created.length} suggested lessons in unit ${unitId}`,
+      result: created.map(lesson => ({ id: lesson.id, title: lesson.title })),
+    };
+  },
+};
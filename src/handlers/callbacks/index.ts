@@ -1,3 +1,18 @@
-export { handleSuggestActionCallback } from './suggest-action.js';
-
-export type { GeneratedSuggestAction } from './suggest-action.js';
+export {
+  SAMPLING_CALLBACKS_URI,
+  registerSamplingCallback,
+  checkSamplingCallbackRequest,
+  getSamplingCallback,
+  getSamplingCallbackCatalog,
+  requireBrainloopService,
+  runSamplingCallback,
+  type SamplingCallback,
+  type SamplingCallbackContext,
+  type SamplingCallbackResult,
+} from './registry.js';
+export { suggestActionCallback } from './suggest-action.js';
+export { lessonDraftCallback } from './lesson-draft.js';
+export { courseOutlineCallback } from './course-outline.js';
+export { promptBatchCallback } from './prompt-batch.js';
+export { createSuggestedLessonsCallback } from './create-suggested-lessons.js';
+export { applyUnitOrderCallback } from './apply-unit-order.js';
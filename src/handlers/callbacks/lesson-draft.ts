@@ -0,0 +1,15 @@
+import { LESSON_DRAFT_RESPONSE_SCHEMA, type LessonDraft } from '../../types/sampling-schemas.js';
+import type { SamplingCallback } from './registry.js';
+
+export const lessonDraftCallback: SamplingCallback<LessonDraft> = {
+  name: 'lesson_draft',
+  description: 'A lesson title and Markdown content, returned for review without creating anything',
+  subject: 'lesson draft',
+  responseSchema: LESSON_DRAFT_RESPONSE_SCHEMA,
+  async handle(draft) {
+    return {
+      message: `Lesson draft generated: ${draft.title}`,
+      result: draft,
+    };
+  },
+};
@@ -0,0 +1,28 @@
+import { SamplingResponseError } from '../../utils/sampling-response.js';
+import { PROMPT_BATCH_RESPONSE_SCHEMA, type PromptBatchDraft } from '../../types/sampling-schemas.js';
+import { PromptSchema } from '../../services/brainloop/prompt-schema.js';
+import type { SamplingCallback } from './registry.js';
+
+export const promptBatchCallback: SamplingCallback<PromptBatchDraft> = {
+  name: 'prompt_batch',
+  description: 'Prompts for a lesson, checked against the prompt rules and returned without creating anything',
+  subject: 'prompt batch',
+  responseSchema: PROMPT_BATCH_RESPONSE_SCHEMA,
+  async handle(batch) {
+    // The schema covers each prompt's shape; the prompt rules cover the rest
+    const issues = batch.prompts.flatMap((prompt, index) => {
+      const parsed = PromptSchema.safeParse(prompt);
+      return parsed.success
+        ? []
+        : parsed.error.errors.map(issue => ({ path: ['prompts', index, ...issue.path], message: issue.message }));
+    });
+    if (issues.length > 0) {
+      throw new SamplingResponseError('prompt batch', issues);
+    }
+
+    return {
+      message: `Prompt batch generated: ${batch.prompts.length} prompts`,
+      result: batch,
+    };
+  },
+};
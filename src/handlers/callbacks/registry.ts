@@ -0,0 +1,217 @@
+/**
+ * @file Registry of sampling callbacks
+ * @module handlers/callbacks/registry
+ *
+ * @remarks
+ * A sampling request names a callback in `_meta.callback`. When the client
+ * returns the approved response, the callback's response schema is checked
+ * and its handler runs, which may read or change the brainloop through
+ * `BrainloopService`. Arguments the handler needs, such as the unit to add
+ * lessons to, come from `_meta.callbackArgs` so that the model never picks
+ * what gets changed.
+ *
+ * Results are reported as sampling-complete and progress notifications on
+ * the session that sent the request, never broadcast. Content a callback
+ * changes is announced to subscribed resources like a tool's changes.
+ *
+ * To add a workflow, write a {@link SamplingCallback} and register it with
+ * {@link registerSamplingCallback}, or add it to the built-in list below.
+ * The callbacks are listed in the `sampling://callbacks` resource.
+ */
+
+import type { CreateMessageResult } from '@modelcontextprotocol/sdk/types.js';
+import type { BrainloopService } from '../../services/brainloop/brainloop-service.js';
+import { formatSchemaIssue, validateJsonSchema, type JsonSchema } from '../../utils/json-schema.js';
+import { parseSamplingResponse } from '../../utils/sampling-response.js';
+import { sendProgressNotification, sendSamplingCompleteNotification } from '../notifications.js';
+import { prepareCallbackResourceUpdates } from '../resource-updates.js';
+import { suggestActionCallback } from './suggest-action.js';
+import { lessonDraftCallback } from './lesson-draft.js';
+import { courseOutlineCallback } from './course-outline.js';
+import { promptBatchCallback } from './prompt-batch.js';
+import { createSuggestedLessonsCallback } from './create-suggested-lessons.js';
+import { applyUnitOrderCallback } from './apply-unit-order.js';
+
+export const SAMPLING_CALLBACKS_URI = 'sampling://callbacks';
+
+/**
+ * What a callback handler can use besides the validated response
+ */
+export interface SamplingCallbackContext {
+  /** Session that sent the sampling request */
+  sessionId: string;
+  /** Set when the request was sent on behalf of a signed-in user, e.g. from a tool */
+  brainloopService?: BrainloopService;
+  /** Validated `_meta.callbackArgs` of the request */
+  args: Record<string, unknown>;
+  /** Sends a progress notification if the request carried a progress token */
+  reportProgress(progress: number, total?: number): Promise<void>;
+}
+
+/**
+ * Outcome of a callback, sent to the session as a sampling-complete notification
+ */
+export interface SamplingCallbackResult {
+  message: string;
+  result?: unknown;
+}
+
+/**
+ * A workflow run on an approved sampling response
+ */
+export interface SamplingCallback<T = any> {
+  /** Value of the request's `_meta.callback` */
+  name: string;
+  description: string;
+  /** What is sampled, used in error messages, e.g. "lesson draft" */
+  subject: string;
+  /** JSON Schema the response must follow */
+  responseSchema: JsonSchema;
+  /** JSON Schema of `_meta.callbackArgs`; callbacks without one take no arguments */
+  argsSchema?: JsonSchema;
+  /** Whether the handler changes content and so needs a signed-in user */
+  requiresBrainloopService?: boolean;
+  handle(response: T, context: SamplingCallbackContext): Promise<SamplingCallbackResult>;
+}
+
+const callbacks = new Map<string, SamplingCallback>(
+  [
+    suggestActionCallback,
+    lessonDraftCallback,
+    courseOutlineCallback,
+    promptBatchCallback,
+    createSuggestedLessonsCallback,
+    applyUnitOrderCallback,
+  ].map(callback => [callback.name, callback]),
+);
+
+/**
+ * Adds a callback to the registry.
+ *
+ * @throws Error if a callback with the same name is already registered
+ */
+export function registerSamplingCallback(callback: SamplingCallback): void {
+  if (callbacks.has(callback.name)) {
+    throw new Error(`Sampling callback already registered: ${callback.name}`);
+  }
+  callbacks.set(callback.name, callback);
+}
+
+export function getSamplingCallback(name: string): SamplingCallback | undefined {
+  return callbacks.get(name);
+}
+
+/**
+ * Returns the service of a context, for callbacks that change content.
+ *
+ * @throws Error if the request was not sent on behalf of a signed-in user
+ */
+export function requireBrainloopService(context: Pick<SamplingCallbackContext, 'brainloopService'>): BrainloopService {
+  if (!context.brainloopService) {
+    throw new Error('This callback changes brainloop content and can only run in a signed-in session');
+  }
+  return context.brainloopService;
+}
+
+interface SamplingCallbackRequestContext {
+  sessionId: string;
+  /** Signed-in user of the session, whose subscriptions are notified of changes */
+  userId?: string;
+  brainloopService?: BrainloopService;
+  /** Raw `_meta.callbackArgs` of the request */
+  args?: unknown;
+  progressToken?: string | number;
+}
+
+/**
+ * Checks that a callback exists and can run with the given arguments, so
+ * a request is rejected before the user reviews it.
+ *
+ * @param name - The callback name from `_meta.callback`
+ * @param context - Service and raw callback arguments of the request
+ * @returns The callback
+ * @throws Error if the callback is unknown, its arguments are invalid, or
+ * it changes content and no service is available
+ */
+export function checkSamplingCallbackRequest(
+  name: string,
+  context: Pick<SamplingCallbackRequestContext, 'brainloopService' | 'args'>,
+): SamplingCallback {
+  const callback = callbacks.get(name);
+  if (!callback) {
+    throw new Error(`Unknown sampling callback: ${name}. See ${SAMPLING_CALLBACKS_URI} for the available callbacks`);
+  }
+
+  const argIssues = callback.argsSchema
+    ? validateJsonSchema(callback.argsSchema, context.args ?? {})
+    : [];
+  if (argIssues.length > 0) {
+    throw new Error(`Invalid callbackArgs for ${name}:\n${argIssues.map(issue => `- ${formatSchemaIssue(issue)}`).join('\n')}`);
+  }
+  if (callback.requiresBrainloopService) {
+    requireBrainloopService(context);
+  }
+  return callback;
+}
+
+/**
+ * Runs a callback on an approved sampling response.
+ *
+ * @param name - The callback name from `_meta.callback`
+ * @param result - The approved sampling result
+ * @param context - Session, user, service, raw callback arguments and progress token
+ * @returns The callback outcome, also sent to the session as a notification
+ * @throws Error if {@link checkSamplingCallbackRequest} fails
+ * @throws SamplingResponseError if the response does not match the schema
+ */
+export async function runSamplingCallback(
+  name: string,
+  result: CreateMessageResult,
+  context: SamplingCallbackRequestContext,
+): Promise<SamplingCallbackResult> {
+  const callback = checkSamplingCallbackRequest(name, context);
+  const args = context.args ?? {};
+
+  const response = parseSamplingResponse(result, callback.responseSchema, callback.subject);
+  const sendResourceUpdates = context.userId && context.brainloopService
+    ? await prepareCallbackResourceUpdates(name, args, { userId: context.userId, brainloopService: context.brainloopService })
+    : undefined;
+
+  let outcome: SamplingCallbackResult;
+  try {
+    outcome = await callback.handle(response, {
+      sessionId: context.sessionId,
+      brainloopService: context.brainloopService,
+      args: args as Record<string, unknown>,
+      reportProgress: async (progress, total) => {
+        if (context.progressToken !== undefined) {
+          await sendProgressNotification(context.progressToken, progress, total, context.sessionId);
+        }
+      },
+    });
+  } finally {
+    // Also after a failure: a callback that stopped part-way may still have changed content
+    if (sendResourceUpdates) {
+      await sendResourceUpdates();
+    }
+  }
+
+  await sendSamplingCompleteNotification(outcome.message, context.sessionId);
+  return outcome;
+}
+
+/**
+ * Describes the registered callbacks for the `sampling://callbacks` resource
+ */
+export function getSamplingCallbackCatalog() {
+  return {
+    callbacks: [...callbacks.values()].map(callback => ({
+      name: callback.name,
+      description: callback.description,
+      responseSchema: callback.responseSchema,
+      ...(callback.argsSchema && { argsSchema: callback.argsSchema }),
+      changesContent: callback.requiresBrainloopService ?? false,
+    })),
+    usage: 'Set _meta.callback of a sampling request to a callback name and _meta.callbackArgs to arguments matching its argsSchema. Ask the model for JSON matching the responseSchema; the approved response is validated and the callback result is sent to your session as a notifications/sampling/complete notification.',
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * @file MCP argument completion handler
+ * @module handlers/completion-handlers
+ *
+ * @remarks
+ * Implements `completion/complete` for the arguments of resource templates
+ * and prompts, so users can pick a brainloop, unit, lesson or track by
+ * typing the start of its title instead of its ID. The completion values
+ * are IDs; an ID is offered when its title or the ID itself starts with
+ * what was typed.
+ *
+ * Units and lessons are looked up within the brainloop or unit already
+ * chosen for the other arguments, when there is one. BRAINLOOP data is
+ * cached per session for {@link COMPLETION_CACHE_TTL_MS}, because clients
+ * ask again on every keystroke.
+ *
+ * @see {@link https://modelcontextprotocol.io/specification/2025-06-18/server/utilities/completion | MCP Completion}
+ */
+
+import type { CompleteRequest, CompleteResult } from '@modelcontextprotocol/sdk/types.js';
+import { BrainloopService } from '../services/brainloop/brainloop-service.js';
+import { RESOURCE_TEMPLATES } from '../constants/resources.js';
+import { PROMPTS, TARGET_AUDIENCES } from '../constants/sampling/index.js';
+import type { AuthInfo } from '../types/request-context.js';
+import { DEFAULT_API_CONCURRENCY, mapWithConcurrency } from '../utils/concurrency.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * How long looked-up titles are reused within a session
+ */
+export const COMPLETION_CACHE_TTL_MS = 30 * 1000;
+
+/**
+ * Most values a completion result may hold, per the MCP specification
+ */
+const MAX_COMPLETION_VALUES = 100;
+
+interface CompletionCandidate {
+  id: string;
+  title: string;
+}
+
+const caches = new Map<string, Map<string, { expires: number; value: Promise<CompletionCandidate[]> }>>();
+
+/**
+ * Reuses a lookup made in the same session within the cache TTL
+ */
+function cached(sessionId: string, key: string, load: () => Promise<CompletionCandidate[]>): Promise<CompletionCandidate[]> {
+  const now = Date.now();
+  const sessionCache = caches.get(sessionId) ?? new Map();
+  caches.set(sessionId, sessionCache);
+
+  const entry = sessionCache.get(key);
+  if (entry && entry.expires > now) {
+    return entry.value;
+  }
+  const value = load().catch((error) => {
+    // Do not cache failures
+    sessionCache.delete(key);
+    throw error;
+  });
+  sessionCache.set(key, { expires: now + COMPLETION_CACHE_TTL_MS, value });
+  return value;
+}
+
+/**
+ * Drop the completion cache of a session
+ */
+export function clearCompletionCache(sessionId: string): void {
+  caches.delete(sessionId);
+}
+
+function toCandidates(items: Array<{ id: string; title: string }>): CompletionCandidate[] {
+  return items.map(({ id, title }) => ({ id, title }));
+}
+
+type CandidateSource = (
+  service: BrainloopService,
+  sessionId: string,
+  context: Record<string, string>,
+  value: string,
+) => Promise<CompletionCandidate[]>;
+
+const courses: CandidateSource = (service, sessionId) =>
+  cached(sessionId, 'courses', async () => toCandidates(await service.getMyCourses()));
+
+const unitsOfCourse = (service: BrainloopService, sessionId: string, courseId: string) =>
+  cached(sessionId, `units:${courseId}`, async () => toCandidates(await service.getCourseUnits(courseId)));
+
+const lessonsOfUnit = (service: BrainloopService, sessionId: string, unitId: string) =>
+  cached(sessionId, `lessons:${unitId}`, async () => toCandidates(await service.getUnitLessons(unitId)));
+
+const units: CandidateSource = async (service, sessionId, context) => {
+  const courseId = context.brainloopId ?? context.courseId;
+  const courseIds = courseId ? [courseId] : (await courses(service, sessionId, context, '')).map(course => course.id);
+  return (await mapWithConcurrency(courseIds, DEFAULT_API_CONCURRENCY, id => unitsOfCourse(service, sessionId, id))).flat();
+};
+
+const lessons: CandidateSource = async (service, sessionId, context, value) => {
+  if (context.unitId) {
+    return lessonsOfUnit(service, sessionId, context.unitId);
+  }
+  if (context.brainloopId ?? context.courseId) {
+    const courseUnits = await units(service, sessionId, context, '');
+    return (await mapWithConcurrency(courseUnits, DEFAULT_API_CONCURRENCY, unit => lessonsOfUnit(service, sessionId, unit.id))).flat();
+  }
+  // Listing every lesson of every brainloop is too slow; search instead
+  if (!value) {
+    return [];
+  }
+  return cached(sessionId, `search:${value.toLowerCase()}`, async () => toCandidates(await service.searchLessons(value)));
+};
+
+const tracks: CandidateSource = (service, sessionId) =>
+  cached(sessionId, 'tracks', async () => toCandidates(await service.getTracks()));
+
+/**
+ * Where the candidates of each completable ID argument come from
+ */
+const ID_ARGUMENTS: Record<string, CandidateSource> = {
+  brainloopId: courses,
+  courseId: courses,
+  unitId: units,
+  lessonId: lessons,
+  trackId: tracks,
+};
+
+/**
+ * Fixed vocabularies of prompt arguments, by prompt name and argument name
+ */
+const PROMPT_VOCABULARIES: Record<string, Record<string, readonly string[]>> = {
+  brainloop_creation_example: {
+    targetAudience: TARGET_AUDIENCES,
+  },
+};
+
+/**
+ * Names of the arguments a completion reference accepts
+ *
+ * @throws Error if the prompt or resource template does not exist
+ */
+function getReferenceArguments(ref: CompleteRequest['params']['ref']): string[] {
+  if (ref.type === 'ref/prompt') {
+    const prompt = PROMPTS.find(candidate => candidate.name === ref.name);
+    if (!prompt) {
+      throw new Error(`Prompt not found: ${ref.name}`);
+    }
+    return (prompt.arguments ?? []).map(argument => argument.name);
+  }
+
+  const template = RESOURCE_TEMPLATES.find(candidate => candidate.uriTemplate === ref.uri);
+  if (!template) {
+    throw new Error(`Resource template not found: ${ref.uri}`);
+  }
+  return [...template.uriTemplate.matchAll(/\{(\w+)\}/g)].map(match => match[1]);
+}
+
+function completion(values: string[]): CompleteResult {
+  return {
+    completion: {
+      values: values.slice(0, MAX_COMPLETION_VALUES),
+      total: values.length,
+      hasMore: values.length > MAX_COMPLETION_VALUES,
+    },
+  };
+}
+
+/**
+ * Handles MCP completion requests.
+ *
+ * @param request - The completion request with the reference and argument
+ * @param context - Session and authentication of the request
+ * @returns Matching argument values; empty when nothing matches or the
+ * session is not signed in
+ * @throws Error if the referenced prompt or resource template does not exist
+ */
+export async function handleComplete(
+  request: CompleteRequest,
+  context: { sessionId: string; authInfo?: AuthInfo },
+): Promise<CompleteResult> {
+  const { ref, argument } = request.params;
+  if (!getReferenceArguments(ref).includes(argument.name)) {
+    return completion([]);
+  }
+
+  const value = argument.value.trim();
+  const prefix = value.toLowerCase();
+
+  const vocabulary = ref.type === 'ref/prompt' ? PROMPT_VOCABULARIES[ref.name]?.[argument.name] : undefined;
+  if (vocabulary) {
+    return completion(vocabulary.filter(entry => entry.toLowerCase().startsWith(prefix)));
+  }
+
+  const source = ID_ARGUMENTS[argument.name];
+  if (!source || !context.authInfo?.token) {
+    return completion([]);
+  }
+
+  const service = new BrainloopService({
+    accessToken: context.authInfo.token,
+    userId: (context.authInfo.extra?.userId as string) || 'unknown',
+  });
+
+  try {
+    const candidates = await source(service, context.sessionId, request.params.context?.arguments ?? {}, value);
+    const seen = new Set<string>();
+    const matches = candidates
+      .filter(candidate => candidate.title.toLowerCase().startsWith(prefix) || candidate.id.startsWith(value))
+      .filter(candidate => !seen.has(candidate.id) && seen.add(candidate.id))
+      .sort((a, b) => a.title.localeCompare(b.title));
+    return completion(matches.map(candidate => candidate.id));
+  } catch (error) {
+    logger.warn('Failed to complete argument', {
+      argument: argument.name,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return completion([]);
+  }
+}
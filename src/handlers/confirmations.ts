@@ -0,0 +1,211 @@
+/**
+ * @file Confirmation of destructive tool calls
+ * @module handlers/confirmations
+ *
+ * @remarks
+ * Tools annotated with `destructiveHint` can overwrite, move or delete
+ * content. Before such a call runs, this module works out exactly what it
+ * would change and asks the user to confirm:
+ * - Through elicitation, when the client supports it. The `confirm`
+ *   argument is ignored then, so the assistant cannot confirm on the user's
+ *   behalf.
+ * - Otherwise by refusing the call with the impact until it is repeated
+ *   with `confirm: true`.
+ *
+ * Calls that would change nothing existing (a dry run, an empty cleanup, a
+ * plan that only creates content) run without confirmation.
+ */
+
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { BrainloopService } from '../services/brainloop/brainloop-service.js';
+import { loadCourseSnapshot, planCourse } from '../services/brainloop/course-planner.js';
+import { getLessonReview } from '../services/brainloop/lesson-review.js';
+import { logger } from '../utils/logger.js';
+import { clientSupportsElicitation, sendElicitationRequest } from './elicitation.js';
+
+interface ConfirmationContext {
+  brainloopService: BrainloopService;
+  userId: string;
+  sessionId: string;
+}
+
+/**
+ * What a destructive call would change, as markdown, or null when it
+ * changes nothing that exists yet
+ */
+type ImpactDescriber = (args: any, context: ConfirmationContext) => Promise<string | null>;
+
+const describeChange = (label: string, before: string | undefined, after: string | undefined): string =>
+  `- ${label}: ${before ? `"${before}"` : '(none)'} → ${after ? `"${after}"` : '(none)'}\n`;
+
+const listChanges = (heading: string, changes: string[]): string | null =>
+  changes.length > 0 ? `${heading}\n${changes.join('')}` : null;
+
+/**
+ * Impact of each tool that needs confirmation
+ */
+const IMPACTS: Record<string, ImpactDescriber> = {
+  cleanup_empty_content: async (args, { brainloopService }) => {
+    if (args.dryRun) {
+      return null;
+    }
+    const preview = await brainloopService.cleanupEmptyContent(args.courseId, true);
+    if (preview.unitsToDelete.length === 0) {
+      return null;
+    }
+
+    let text = `Permanently delete ${preview.summary.unitsToDelete} unit(s) and ${preview.summary.lessonsToDelete} lesson(s) from "${preview.courseTitle}":\n`;
+    for (const unit of preview.unitsToDelete) {
+      text += `- ${unit.title} (Unit ID: ${unit.id}, ${unit.lessonCount} lessons)\n`;
+      for (const lesson of unit.lessons ?? []) {
+        text += `  - ${lesson.title}${lesson.isEmpty ? ' (empty)' : ''}\n`;
+      }
+    }
+    return text;
+  },
+
+  update_lesson: async (args, { brainloopService }) => {
+    const lesson = await brainloopService.getLesson(args.lessonId);
+    const changes: string[] = [];
+    if (args.title !== undefined && args.title !== lesson.title) {
+      changes.push(describeChange('Title', lesson.title, args.title));
+    }
+    if (args.content !== undefined && args.content !== lesson.content) {
+      changes.push(`- Content: all ${lesson.content?.length ?? 0} characters replaced by ${args.content.length} new characters\n`);
+    }
+    if (args.videoUrl !== undefined && args.videoUrl !== (lesson.videoUrl ?? '')) {
+      changes.push(describeChange('Video', lesson.videoUrl, args.videoUrl));
+    }
+    return listChanges(`Update lesson "${lesson.title}" (Lesson ID: ${lesson.id}):`, changes);
+  },
+
+  update_unit: async (args) => {
+    const changes: string[] = [];
+    if (args.title !== undefined) {
+      changes.push(`- Title replaced by "${args.title}"\n`);
+    }
+    if (args.description !== undefined) {
+      changes.push(`- Description replaced by "${args.description}"\n`);
+    }
+    return listChanges(`Update unit ${args.unitId}:`, changes);
+  },
+
+  move_lesson: async (args, { brainloopService }) => {
+    const lesson = await brainloopService.getLesson(args.lessonId);
+    if (lesson.unitId === args.targetUnitId && args.newOrder === undefined) {
+      return null;
+    }
+    const targetLessons = await brainloopService.getUnitLessons(args.targetUnitId);
+    return `Move lesson "${lesson.title}" (Lesson ID: ${lesson.id}) from unit ${lesson.unitId} ` +
+      `to unit ${args.targetUnitId}` +
+      (args.newOrder !== undefined ? `, position ${args.newOrder}` : ', at the end') +
+      `. The target unit has ${targetLessons.length} lesson(s); the lessons of both units are renumbered.\n`;
+  },
+
+  reorder_units: async (args, { brainloopService }) => {
+    const units = [...await brainloopService.getCourseUnits(args.brainloopId)].sort((a, b) => a.order - b.order);
+    const titles = new Map(units.map(unit => [unit.id, unit.title]));
+    if (units.map(unit => unit.id).join() === args.unitIds.join()) {
+      return null;
+    }
+    return `Reorder the units of brainloop ${args.brainloopId}:\n` +
+      `- Now: ${units.map(unit => unit.title).join(' → ')}\n` +
+      `- New: ${args.unitIds.map((id: string) => titles.get(id) ?? `unknown unit ${id}`).join(' → ')}\n`;
+  },
+
+  apply_brainloop: async (args, { brainloopService }) => {
+    if (!args.brainloopId) {
+      return null;
+    }
+    const plan = planCourse(args.spec, await loadCourseSnapshot(brainloopService, args.brainloopId));
+    if (plan.operations.every(operation => operation.kind.startsWith('create_'))) {
+      return null;
+    }
+    return `Apply ${plan.operations.length} change(s) to brainloop ${args.brainloopId}:\n` +
+      plan.operations.map(operation => `- ${operation.summary}\n`).join('');
+  },
+
+  review_lesson: async (args, { sessionId }) => {
+    const review = args.reviewId ? getLessonReview(sessionId, args.reviewId) : undefined;
+    // Without a review the call only reads, or fails on the missing review
+    if (!review || review.lessonId !== args.lessonId) {
+      return null;
+    }
+    const edits = review.critique.edits;
+    const numbers: number[] = args.applyEdits ?? edits.map((_edit, index) => index + 1);
+    const selected = numbers.filter(number => number >= 1 && number <= edits.length);
+    if (selected.length === 0) {
+      return null;
+    }
+    return `Apply ${selected.length} edit(s) from review ${review.reviewId} to lesson "${review.lessonTitle}":\n` +
+      selected.map(number => `- Edit ${number} [${edits[number - 1].criterion}]: ${edits[number - 1].reason}\n`).join('');
+  },
+};
+
+/**
+ * Confirms a destructive tool call with the user before it runs.
+ *
+ * @param toolName - The tool being called
+ * @param args - The validated tool arguments
+ * @param context - The user, their service and session
+ * @returns An error result to return instead of running the tool, or
+ * undefined if the call may go ahead
+ */
+export async function confirmDestructiveCall(
+  toolName: string,
+  args: any,
+  context: ConfirmationContext,
+): Promise<CallToolResult | undefined> {
+  const describe = IMPACTS[toolName];
+  const impact = describe ? await describe(args ?? {}, context) : null;
+  if (!impact) {
+    return undefined;
+  }
+
+  if (!clientSupportsElicitation(context.sessionId)) {
+    if (args.confirm === true) {
+      return undefined;
+    }
+    logger.info(`✋ ${toolName} needs confirmation`, { userId: context.userId });
+    return {
+      isError: true,
+      content: [{
+        type: 'text',
+        text: `✋ **Confirmation Required**\n\n` +
+          `**Changes:**\n${impact}\n` +
+          `Nothing has been changed yet.\n\n` +
+          `💡 Show these changes to the user. If they agree, call \`${toolName}\` again with the same arguments and confirm: true.`
+      }]
+    };
+  }
+
+  const answer = await sendElicitationRequest({
+    message: `Confirm ${toolName}:\n\n${impact}`,
+    requestedSchema: {
+      type: 'object',
+      properties: {
+        confirm: {
+          type: 'boolean',
+          title: 'Make these changes',
+          description: 'Leave unchecked to cancel',
+        },
+      },
+      required: ['confirm'],
+    },
+  }, context);
+
+  if (answer.action === 'accept' && answer.content?.confirm === true) {
+    return undefined;
+  }
+
+  logger.info(`🚫 ${toolName} not confirmed`, { userId: context.userId, action: answer.action });
+  return {
+    isError: true,
+    content: [{
+      type: 'text',
+      text: `🚫 **Not Confirmed**\n\n` +
+        `The user did not confirm these changes, so nothing was changed:\n${impact}\n` +
+        `💡 Ask the user what they would like to do instead before trying again.`
+    }]
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * @file MCP Elicitation request handler
+ * @module handlers/elicitation
+ *
+ * @remarks
+ * This module lets the server ask the user for input through the client,
+ * e.g. to confirm a destructive tool call. The client shows the message and
+ * a form built from the requested schema, and returns what the user chose.
+ *
+ * @see https://modelcontextprotocol.io/specification/2025-06-18/client/elicitation
+ */
+
+import type { ElicitRequest, ElicitResult } from '@modelcontextprotocol/sdk/types.js';
+import { getMCPHandlerInstance } from '../server/mcp.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Checks whether the client of a session declared the elicitation capability.
+ *
+ * @param sessionId - The session to check
+ * @returns True if elicitation requests can be sent to the client
+ */
+export function clientSupportsElicitation(sessionId: string): boolean {
+  const server = getMCPHandlerInstance()?.getServerForSession(sessionId);
+  return !!server?.getClientCapabilities()?.elicitation;
+}
+
+/**
+ * Asks the user of a session for input.
+ *
+ * @param params - The message and the schema of the requested input
+ * @param context - Context containing the session ID
+ * @returns The user's action, and their input if they accepted
+ * @throws Error if the session is not found or the request fails
+ */
+export async function sendElicitationRequest(
+  params: ElicitRequest['params'],
+  context: { sessionId: string },
+): Promise<ElicitResult> {
+  const server = getMCPHandlerInstance()?.getServerForSession(context.sessionId);
+  if (!server) {
+    logger.error('❌ No server found for session', { sessionId: context.sessionId });
+    throw new Error(`Session not found: ${context.sessionId}`);
+  }
+
+  try {
+    const result = await server.elicitInput(params);
+    logger.info('📝 Elicitation answered', { sessionId: context.sessionId, action: result.action });
+    return result;
+  } catch (error) {
+    logger.error('Elicitation request failed', {
+      sessionId: context.sessionId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    throw error;
+  }
+}
@@ -1,19 +1,134 @@
 import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 import type {
   ListResourcesResult,
+  ListResourceTemplatesResult,
   ReadResourceRequest,
   ReadResourceResult,
 } from '@modelcontextprotocol/sdk/types.js';
+import { UriTemplate, type Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
 import { BrainloopService } from '../services/brainloop/brainloop-service.js';
+import { loadCourseSnapshot } from '../services/brainloop/course-planner.js';
+import { renderCourseBundle, renderCourseMarkdown } from '../services/brainloop/course-markdown.js';
+import { getComponentCatalog } from '../services/components/component-registry.js';
+import { SAMPLING_CALLBACKS_URI, getSamplingCallbackCatalog } from './callbacks.js';
 import {
+  EXPORT_URI_PREFIX,
   RESOURCES,
   RESOURCE_CONTENT,
   RESOURCE_ERROR_MESSAGES,
+  RESOURCE_TEMPLATES,
   SERVER_INFO
 } from '../constants/resources.js';
 
 
 
+/**
+ * Creates a service for the user the resource is read for.
+ *
+ * @throws Error if the request carries no access token
+ */
+function createBrainloopService(authInfo?: AuthInfo): BrainloopService {
+  if (!authInfo?.token) {
+    throw new Error(RESOURCE_ERROR_MESSAGES.AUTHENTICATION_REQUIRED);
+  }
+  return new BrainloopService({
+    accessToken: authInfo.token,
+    userId: (authInfo.extra?.userId as string) || 'unknown',
+  });
+}
+
+type TemplateUri = typeof RESOURCE_TEMPLATES[number]['uriTemplate'];
+
+/**
+ * Readers of the live resource templates, by URI template. The export
+ * template is served by the export:// branch of {@link handleResourceCall}.
+ */
+const LIVE_RESOURCE_READERS: Record<Exclude<TemplateUri, `export://${string}`>, (
+  variables: Record<string, string>,
+  brainloopService: BrainloopService,
+) => Promise<string>> = {
+  "brainloop://courses/{courseId}": async ({ courseId }, brainloopService) => {
+    const [course, units] = await Promise.all([
+      brainloopService.getCourse(courseId),
+      brainloopService.getCourseUnits(courseId),
+    ]);
+    return JSON.stringify({ ...course, units: [...units].sort((a, b) => a.order - b.order) }, null, 2);
+  },
+
+  "brainloop://courses/{courseId}/outline": async ({ courseId }, brainloopService) => {
+    const [course, units] = await Promise.all([
+      brainloopService.getCourse(courseId),
+      brainloopService.getCourseUnits(courseId),
+    ]);
+    const sortedUnits = [...units].sort((a, b) => a.order - b.order);
+    const lessonsByUnit = await Promise.all(sortedUnits.map(unit => brainloopService.getUnitLessons(unit.id)));
+
+    let text = `# ${course.title}\n\n`;
+    if (course.description) {
+      text += `${course.description}\n\n`;
+    }
+    sortedUnits.forEach((unit, index) => {
+      text += `## ${index + 1}. ${unit.title} (Unit ID: ${unit.id})\n\n`;
+      const lessons = [...lessonsByUnit[index]].sort((a, b) => a.order - b.order);
+      text += lessons.length > 0
+        ? lessons.map((lesson, lessonIndex) => `${lessonIndex + 1}. ${lesson.title} (Lesson ID: ${lesson.id})`).join('\n') + '\n\n'
+        : `_No lessons yet_\n\n`;
+    });
+    return `${text.trimEnd()}\n`;
+  },
+
+  "brainloop://units/{unitId}/lessons": async ({ unitId }, brainloopService) => {
+    const lessons = await brainloopService.getUnitLessons(unitId);
+    return JSON.stringify([...lessons].sort((a, b) => a.order - b.order), null, 2);
+  },
+
+  "brainloop://lessons/{lessonId}": async ({ lessonId }, brainloopService) => {
+    const lesson = await brainloopService.getLesson(lessonId);
+    return `# ${lesson.title}\n\n` +
+      (lesson.videoUrl ? `Video: ${lesson.videoUrl}\n\n` : '') +
+      lesson.content;
+  },
+
+  "brainloop://lessons/{lessonId}/prompts": async ({ lessonId }, brainloopService) => {
+    return JSON.stringify(await brainloopService.getLessonPrompts(lessonId), null, 2);
+  },
+
+  "brainloop://tracks/{trackId}": async ({ trackId }, brainloopService) => {
+    return JSON.stringify(await brainloopService.getTrack(trackId), null, 2);
+  },
+};
+
+const LIVE_RESOURCES = RESOURCE_TEMPLATES
+  .filter(template => template.uriTemplate in LIVE_RESOURCE_READERS)
+  .map(template => ({
+    ...template,
+    matcher: new UriTemplate(template.uriTemplate),
+    read: LIVE_RESOURCE_READERS[template.uriTemplate as keyof typeof LIVE_RESOURCE_READERS],
+  }));
+
+/**
+ * Takes the single-valued variables of a template match; an empty or
+ * multi-valued variable makes the URI invalid.
+ */
+function toStringVariables(variables: Variables): Record<string, string> | null {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(variables)) {
+    if (typeof value !== 'string' || value === '') {
+      return null;
+    }
+    result[name] = decodeURIComponent(value);
+  }
+  return result;
+}
+
+export async function handleListResourceTemplates(): Promise<ListResourceTemplatesResult> {
+  try {
+    return { resourceTemplates: [...RESOURCE_TEMPLATES] };
+  } catch (error) {
+    throw new Error(RESOURCE_ERROR_MESSAGES.LIST_TEMPLATES_FAILED(error));
+  }
+}
+
 export async function handleListResources(): Promise<ListResourcesResult> {
   try {
     return { resources: [...RESOURCES] };
@@ -32,15 +147,7 @@ export async function handleResourceCall(
     const { uri } = request.params;
 
     if (uri === "brainloop://config") {
-      if (!authInfo?.token) {
-        throw new Error(RESOURCE_ERROR_MESSAGES.AUTHENTICATION_REQUIRED);
-      }
-
-      const userId = (authInfo.extra?.userId as string) || 'unknown';
-      const brainloopService = new BrainloopService({
-        accessToken: authInfo.token,
-        userId,
-      });
+      const brainloopService = createBrainloopService(authInfo);
 
       const [profile, analytics] = await Promise.all([
         brainloopService.getUserProfile(),
@@ -125,6 +232,30 @@ export async function handleResourceCall(
       };
     }
 
+    if (uri === "components://catalog") {
+      return {
+        contents: [
+          {
+            uri: request.params.uri,
+            mimeType: "application/json",
+            text: JSON.stringify(getComponentCatalog(), null, 2),
+          },
+        ],
+      };
+    }
+
+    if (uri === SAMPLING_CALLBACKS_URI) {
+      return {
+        contents: [
+          {
+            uri: request.params.uri,
+            mimeType: "application/json",
+            text: JSON.stringify(getSamplingCallbackCatalog(), null, 2),
+          },
+        ],
+      };
+    }
+
     if (uri === "stats://server") {
       const stats = {
         server: {
@@ -160,6 +291,57 @@ export async function handleResourceCall(
       };
     }
 
+    if (uri.startsWith(EXPORT_URI_PREFIX)) {
+      const brainloopService = createBrainloopService(authInfo);
+
+      const [brainloopId, ...pathParts] = uri.substring(EXPORT_URI_PREFIX.length).split('/');
+      if (!brainloopId) {
+        throw new Error(RESOURCE_ERROR_MESSAGES.INVALID_URI(uri));
+      }
+      const snapshot = await loadCourseSnapshot(brainloopService, brainloopId);
+
+      let text: string;
+      if (pathParts.length === 0) {
+        text = renderCourseMarkdown(snapshot);
+      } else {
+        const path = pathParts.join('/');
+        const file = renderCourseBundle(snapshot).find(candidate => candidate.path === path);
+        if (!file) {
+          throw new Error(RESOURCE_ERROR_MESSAGES.EXPORT_FILE_NOT_FOUND(uri));
+        }
+        text = file.text;
+      }
+
+      return {
+        contents: [
+          {
+            uri: request.params.uri,
+            mimeType: "text/markdown",
+            text,
+          },
+        ],
+      };
+    }
+
+    for (const resource of LIVE_RESOURCES) {
+      const match = resource.matcher.match(uri);
+      const variables = match && toStringVariables(match);
+      if (!variables) {
+        continue;
+      }
+
+      const brainloopService = createBrainloopService(authInfo);
+      return {
+        contents: [
+          {
+            uri: request.params.uri,
+            mimeType: resource.mimeType,
+            text: await resource.read(variables, brainloopService),
+          },
+        ],
+      };
+    }
+
     throw new Error(RESOURCE_ERROR_MESSAGES.INVALID_URI(uri));
   } catch (error) {
     throw new Error(RESOURCE_ERROR_MESSAGES.FETCH_FAILED(error));
@@ -0,0 +1,270 @@
+/**
+ * @file Resource update notifications after content changes
+ * @module handlers/resource-updates
+ *
+ * @remarks
+ * Clients can subscribe to the live `brainloop://` and `export://`
+ * resources. When a tool changes content, this module works out which of
+ * the user's subscribed URIs show that content and notifies the sessions
+ * subscribed to them. Tools that create brainloops or tracks also send
+ * `notifications/resources/list_changed`. Sampling callbacks that change
+ * content are handled the same way. Notifications only go to sessions of
+ * the user who made the change.
+ *
+ * Which content a URI shows is resolved before the change runs, because a
+ * moved lesson or a cleaned-up unit can no longer be traced to its old unit
+ * afterwards. The lookups only happen when the user has subscriptions.
+ */
+
+import { UriTemplate } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import type { BrainloopService } from '../services/brainloop/brainloop-service.js';
+import { EXPORT_URI_PREFIX } from '../constants/resources.js';
+import { getMCPHandlerInstance } from '../server/mcp.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Content a tool call changes
+ */
+interface ContentChange {
+  courseIds?: string[];
+  unitIds?: string[];
+  lessonIds?: string[];
+  /** Interactions whose prompts changed */
+  interactionIds?: string[];
+  trackIds?: string[];
+  /** Everything inside the changed courses changed too, e.g. after a cleanup */
+  deep?: boolean;
+  /** New brainloops or tracks were created */
+  listChanged?: boolean;
+}
+
+const ids = (...values: Array<string | undefined>): string[] =>
+  values.filter((value): value is string => !!value);
+
+/**
+ * What each content-changing tool changes, from its arguments. Tools not
+ * listed here do not change content that a resource shows.
+ */
+const CONTENT_CHANGES: Record<string, (args: any) => ContentChange | null> = {
+  create_brainloop: () => ({ listChanged: true }),
+  expand_brainloop: (args) => ({ courseIds: [args.brainloopId] }),
+  create_interaction: (args) => ({ lessonIds: [args.lessonId] }),
+  create_prompt: (args) => ({ interactionIds: [args.interactionId] }),
+  create_prompts_batch: (args) => ({ interactionIds: [args.interactionId] }),
+  update_lesson: (args) => ({ lessonIds: [args.lessonId] }),
+  update_unit: (args) => ({ unitIds: [args.unitId] }),
+  cleanup_empty_content: (args) => args.dryRun ? null : { courseIds: [args.courseId], deep: true },
+  generate_interactions: (args) => args.dryRun ? null : { courseIds: [args.brainloopId], deep: true },
+  review_lesson: (args) => args.reviewId ? { lessonIds: [args.lessonId] } : null,
+  reorder_units: (args) => ({ courseIds: [args.brainloopId] }),
+  move_lesson: (args) => ({ lessonIds: [args.lessonId], unitIds: [args.targetUnitId] }),
+  apply_brainloop: (args) => args.brainloopId
+    ? { courseIds: [args.brainloopId], deep: true }
+    : { listChanged: true },
+  import_brainloop: (args) => args.dryRun ? null : { listChanged: true },
+  import_quiz: (args) => args.dryRun ? null : { lessonIds: ids(args.lessonId), interactionIds: ids(args.interactionId) },
+  create_track: () => ({ listChanged: true }),
+  add_course_to_track: (args) => ({ trackIds: [args.trackId] }),
+};
+
+/**
+ * What each content-changing sampling callback changes, from its
+ * `_meta.callbackArgs`
+ */
+const CALLBACK_CONTENT_CHANGES: Record<string, (args: any) => ContentChange | null> = {
+  create_suggested_lessons: (args) => ({ unitIds: [args.unitId] }),
+  apply_unit_order: (args) => ({ courseIds: [args.brainloopId] }),
+};
+
+type SubscribedResource =
+  | { uri: string; kind: 'course'; courseId: string }
+  | { uri: string; kind: 'unit-lessons'; unitId: string }
+  | { uri: string; kind: 'lesson' | 'lesson-prompts'; lessonId: string }
+  | { uri: string; kind: 'track'; trackId: string };
+
+const MATCHERS: Array<[UriTemplate, (variables: Record<string, string>) => Omit<SubscribedResource, 'uri'>]> = [
+  [new UriTemplate("brainloop://courses/{courseId}"), ({ courseId }) => ({ kind: 'course', courseId })],
+  [new UriTemplate("brainloop://courses/{courseId}/outline"), ({ courseId }) => ({ kind: 'course', courseId })],
+  [new UriTemplate("brainloop://units/{unitId}/lessons"), ({ unitId }) => ({ kind: 'unit-lessons', unitId })],
+  [new UriTemplate("brainloop://lessons/{lessonId}"), ({ lessonId }) => ({ kind: 'lesson', lessonId })],
+  [new UriTemplate("brainloop://lessons/{lessonId}/prompts"), ({ lessonId }) => ({ kind: 'lesson-prompts', lessonId })],
+  [new UriTemplate("brainloop://tracks/{trackId}"), ({ trackId }) => ({ kind: 'track', trackId })],
+];
+
+function parseSubscribedUri(uri: string): SubscribedResource | null {
+  if (uri.startsWith(EXPORT_URI_PREFIX)) {
+    const courseId = uri.substring(EXPORT_URI_PREFIX.length).split('/')[0];
+    return courseId ? { uri, kind: 'course', courseId } : null;
+  }
+  for (const [template, toResource] of MATCHERS) {
+    const variables = template.match(uri);
+    if (variables && Object.values(variables).every(value => typeof value === 'string' && value !== '')) {
+      const decoded = Object.fromEntries(Object.entries(variables).map(([name, value]) => [name, decodeURIComponent(value as string)]));
+      return { uri, ...toResource(decoded) } as SubscribedResource;
+    }
+  }
+  return null;
+}
+
+/**
+ * Works out which subscribed resources show the changed content
+ */
+async function findAffectedUris(
+  change: ContentChange,
+  subscribed: SubscribedResource[],
+  brainloopService: BrainloopService,
+): Promise<string[]> {
+  const memo = new Map<string, Promise<unknown>>();
+  const cached = <T>(key: string, load: () => Promise<T>): Promise<T | undefined> => {
+    if (!memo.has(key)) {
+      // A lookup that fails (e.g. content already gone) simply matches nothing
+      memo.set(key, load().catch(() => undefined));
+    }
+    return memo.get(key) as Promise<T | undefined>;
+  };
+  const unitOfLesson = async (lessonId: string) =>
+    (await cached(`lesson:${lessonId}`, () => brainloopService.getLesson(lessonId)))?.unitId;
+  const unitsOfCourse = async (courseId: string) =>
+    ((await cached(`units:${courseId}`, () => brainloopService.getCourseUnits(courseId))) ?? []).map(unit => unit.id);
+  const interactionOfLesson = async (lessonId: string) =>
+    (await cached(`prompts:${lessonId}`, () => brainloopService.getLessonPrompts(lessonId)))?.interaction?.id;
+
+  const courseIds = new Set(change.courseIds ?? []);
+  const lessonIds = new Set(change.lessonIds ?? []);
+  const interactionIds = new Set(change.interactionIds ?? []);
+  const trackIds = new Set(change.trackIds ?? []);
+
+  // Units whose lessons changed, including the units of changed lessons
+  const unitIds = new Set(change.unitIds ?? []);
+  for (const lessonId of lessonIds) {
+    const unitId = await unitOfLesson(lessonId);
+    if (unitId) {
+      unitIds.add(unitId);
+    }
+  }
+  // Units inside changed courses count as changed for deep changes
+  const deepUnitIds = new Set<string>();
+  if (change.deep) {
+    for (const courseId of courseIds) {
+      (await unitsOfCourse(courseId)).forEach(unitId => deepUnitIds.add(unitId));
+    }
+  }
+
+  const affected: string[] = [];
+  for (const resource of subscribed) {
+    let isAffected = false;
+    switch (resource.kind) {
+      case 'course':
+        isAffected = courseIds.has(resource.courseId)
+          || (unitIds.size > 0 && (await unitsOfCourse(resource.courseId)).some(unitId => unitIds.has(unitId)));
+        break;
+      case 'unit-lessons':
+        isAffected = unitIds.has(resource.unitId) || deepUnitIds.has(resource.unitId);
+        break;
+      case 'lesson':
+      case 'lesson-prompts': {
+        if (lessonIds.has(resource.lessonId)) {
+          isAffected = true;
+          break;
+        }
+        if (resource.kind === 'lesson-prompts' && interactionIds.size > 0) {
+          const interactionId = await interactionOfLesson(resource.lessonId);
+          if (interactionId && interactionIds.has(interactionId)) {
+            isAffected = true;
+            break;
+          }
+        }
+        if (deepUnitIds.size > 0) {
+          const unitId = await unitOfLesson(resource.lessonId);
+          isAffected = !!unitId && deepUnitIds.has(unitId);
+        }
+        break;
+      }
+      case 'track':
+        isAffected = trackIds.has(resource.trackId);
+        break;
+    }
+    if (isAffected) {
+      affected.push(resource.uri);
+    }
+  }
+  return affected;
+}
+
+/**
+ * Resolves the subscribed URIs a change affects and returns the function
+ * that notifies them
+ */
+async function prepareChangeUpdates(
+  source: string,
+  change: ContentChange | null | undefined,
+  context: { userId: string; brainloopService: BrainloopService },
+): Promise<(() => Promise<void>) | undefined> {
+  const handler = getMCPHandlerInstance();
+  if (!change || !handler) {
+    return undefined;
+  }
+
+  const subscribed = handler.getSubscribedUris(context.userId)
+    .map(parseSubscribedUri)
+    .filter((resource): resource is SubscribedResource => resource !== null);
+
+  let affected: string[] = [];
+  if (subscribed.length > 0) {
+    try {
+      affected = await findAffectedUris(change, subscribed, context.brainloopService);
+    } catch (error) {
+      logger.warn(`Failed to resolve resources affected by ${source}`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (affected.length === 0 && !change.listChanged) {
+    return undefined;
+  }
+
+  return async () => {
+    logger.debug(`🔔 Notifying resource changes after ${source}`, { uris: affected, listChanged: !!change.listChanged });
+    if (affected.length > 0) {
+      await handler.notifyResourcesUpdated(context.userId, affected);
+    }
+    if (change.listChanged) {
+      await handler.notifyResourceListChanged(context.userId);
+    }
+  };
+}
+
+/**
+ * Prepares the notifications for a tool call, before the tool runs.
+ *
+ * @param toolName - The tool being called
+ * @param args - The validated tool arguments
+ * @param context - The user and their service
+ * @returns A function that sends the notifications once the tool has
+ * succeeded, or undefined if the call changes nothing anyone watches
+ */
+export async function prepareResourceUpdates(
+  toolName: string,
+  args: unknown,
+  context: { userId: string; brainloopService: BrainloopService },
+): Promise<(() => Promise<void>) | undefined> {
+  return prepareChangeUpdates(toolName, CONTENT_CHANGES[toolName]?.(args ?? {}), context);
+}
+
+/**
+ * Prepares the notifications for a sampling callback, before its handler runs.
+ *
+ * @param callbackName - The callback from `_meta.callback`
+ * @param args - The validated `_meta.callbackArgs`
+ * @param context - The user and their service
+ * @returns A function that sends the notifications once the callback has
+ * run, or undefined if it changes nothing anyone watches
+ */
+export async function prepareCallbackResourceUpdates(
+  callbackName: string,
+  args: unknown,
+  context: { userId: string; brainloopService: BrainloopService },
+): Promise<(() => Promise<void>) | undefined> {
+  return prepareChangeUpdates(`${callbackName} callback`, CALLBACK_CONTENT_CHANGES[callbackName]?.(args ?? {}), context);
+}
@@ -5,7 +5,8 @@
  * @remarks
  * This module implements the MCP sampling feature, which allows the server
  * to request LLM completions from the client. This is used to generate
- * Reddit content (posts, comments, messages) with AI assistance.
+ * BRAINLOOP content (lesson drafts, prompts, course outlines) and next-step
+ * suggestions with AI assistance.
  * 
  * Complete MCP Sampling Flow (8 steps):
  * @see https://modelcontextprotocol.io/specification/2025-06-18/client/sampling
@@ -23,17 +24,16 @@
  * - Human-in-the-loop approval at every step
  * - Support for model preferences and generation parameters
  * - Callback-based response handling for different content types
- * - Integration with Reddit API for posting generated content
+ * - Responses validated against JSON Schemas before they are used
  */
 
 import type { CreateMessageRequest, CreateMessageResult } from '@modelcontextprotocol/sdk/types.js';
-import { z } from 'zod';
 import { getMCPHandlerInstance } from '../server/mcp.js';
+import type { BrainloopService } from '../services/brainloop/brainloop-service.js';
 import { logger } from '../utils/logger.js';
+import { SamplingResponseError } from '../utils/sampling-response.js';
 
-import {
-  handleSuggestActionCallback,
-} from './callbacks.js';
+import { checkSamplingCallbackRequest, runSamplingCallback } from './callbacks.js';
 import { sendOperationNotification } from './notifications.js';
 
 /**
@@ -46,6 +46,23 @@ import { sendOperationNotification } from './notifications.js';
 interface SamplingContext {
   /** Unique session identifier for the current connection */
   sessionId: string;
+  /** Signed-in user, whose resource subscriptions are notified of callback changes */
+  userId?: string;
+  /** Service of the signed-in user, for callbacks that change content */
+  brainloopService?: BrainloopService;
+  /** Progress token of the tool call that sent the request */
+  progressToken?: string | number;
+}
+
+/**
+ * Checks whether the client of a session declared the sampling capability.
+ *
+ * @param sessionId - The session to check
+ * @returns True if sampling requests can be sent to the client
+ */
+export function clientSupportsSampling(sessionId: string): boolean {
+  const server = getMCPHandlerInstance()?.getServerForSession(sessionId);
+  return !!server?.getClientCapabilities()?.sampling;
 }
 
 /**
@@ -61,7 +78,7 @@ interface SamplingContext {
  * 3. Sends the sampling request to the client (Step 1)
  * 4. Waits for human-in-the-loop approval (Steps 2-7 happen on client)
  * 5. Receives the approved/modified response (Step 8)
- * 6. Dispatches to the appropriate callback based on metadata
+ * 6. Dispatches to the callback named in `_meta.callback`, if any
  * 
  * The sampling flow:
  * - Step 1: Server sends request (this function)
@@ -76,7 +93,7 @@ interface SamplingContext {
  * @param request - The sampling request with messages and parameters
  * @param context - Context containing the session ID
  * @returns Promise resolving to the generated message result
- * @throws Error if session is not found or sampling fails
+ * @throws Error if session is not found, the callback is unknown, or sampling fails
  */
 export async function sendSamplingRequest(
   request: CreateMessageRequest,
@@ -107,6 +124,17 @@ export async function sendSamplingRequest(
       throw new Error(`Session not found: ${sessionId}`);
     }
 
+    // Fail before the user reviews a request whose response nothing can handle
+    const callback = request.params._meta?.callback;
+    if (callback !== undefined) {
+      try {
+        checkSamplingCallbackRequest(String(callback), { ...context, args: request.params._meta?.callbackArgs });
+      } catch (error) {
+        logger.error('Invalid sampling callback', { callback, error: error instanceof Error ? error.message : String(error) });
+        throw error;
+      }
+    }
+
 
     /**
      * MCP Sampling Step 1: Construct sampling request
@@ -147,18 +175,17 @@ export async function sendSamplingRequest(
      */
     const result = await activeServer.createMessage(samplingRequest);
 
-    // Schema for validating callback names
-    const CallbackSchema = z.enum(['suggest_action']);
-    
-    const callback = request.params._meta?.callback;
-    if (callback) {
+    if (callback !== undefined) {
       try {
-        const validatedCallback = CallbackSchema.parse(callback);
-        await handleCallback(validatedCallback, result, sessionId);
+        await handleCallback(String(callback), result, {
+          ...context,
+          args: request.params._meta?.callbackArgs,
+        });
       } catch (error) {
-        logger.error('Invalid callback type', { 
-          callback, 
-          error: error instanceof z.ZodError ? error.errors : error 
+        // Already reported to the client by handleCallback
+        logger.error('Sampling callback failed', {
+          callback,
+          issues: error instanceof SamplingResponseError ? error.issues : undefined,
         });
       }
     }
@@ -189,49 +216,40 @@ export async function sendSamplingRequest(
  * @see https://modelcontextprotocol.io/specification/2025-06-18/client/sampling#handling-responses
  * 
  * After receiving the user-approved content from the client,
- * this function routes the result to the appropriate handler
- * based on the callback type specified in the request metadata.
+ * this function runs the registered callback named in the request
+ * metadata (see `handlers/callbacks/registry`).
  * 
  * This represents the server-side handling after the full
  * human-in-the-loop sampling flow is complete.
  * 
- * Supported callbacks:
- * - `create_post_callback`: Posts content to Reddit
- * - `create_comment_callback`: Creates a Reddit comment
- * - `suggest_action`: Analyzes and suggests Reddit actions
- * - `create_message_callback`: Sends a Reddit private message
+ * The registered callbacks are listed in the `sampling://callbacks`
+ * resource. Each run will:
+ * 1. Validate `_meta.callbackArgs` and the generated content against the
+ *    callback's JSON Schemas
+ * 2. Run the callback, which may change content through BrainloopService;
+ *    the user's sessions subscribed to the changed resources are notified
+ * 3. Send a notification with the result to the originating session only
  * 
- * Each callback handler will:
- * 1. Parse the generated content
- * 2. Perform the Reddit API operation
- * 3. Send a notification with the result
+ * A response that does not match its schema fails with a
+ * {@link SamplingResponseError} listing each problem, which is also sent
+ * to the client as the callback-failed notification.
  * 
  * @param callback - The callback type identifier
  * @param result - The user-approved LLM-generated content
- * @param sessionId - The session ID for authentication context
- * @param progressToken - Optional token for progress tracking
+ * @param context - Session, service, progress token and raw callback arguments
  * @returns Promise that resolves when the callback is complete
- * @throws Error if the callback type is unknown
+ * @throws Error if the callback type is unknown or its arguments are invalid
  */
 async function handleCallback(
   callback: string,
   result: CreateMessageResult,
-  sessionId: string,
-  _progressToken?: string | number,
+  context: SamplingContext & { args?: unknown },
 ): Promise<void> {
+  const { sessionId } = context;
 
   try {
     await sendOperationNotification(callback, `Callback started: ${callback}`, sessionId);
-
-    switch (callback) {
-      case 'suggest_action':
-        await handleSuggestActionCallback(result, sessionId);
-        break;
-      default:
-        logger.error('❌ Unknown callback type', { callback });
-        throw new Error(`Unknown callback type: ${callback}`);
-    }
-
+    await runSamplingCallback(callback, result, context);
   } catch (error) {
     logger.error('💥 CALLBACK HANDLER FAILED', {
       callback,
@@ -15,11 +15,15 @@ import type {
   CallToolResult,
   ListToolsRequest,
   ListToolsResult,
+  Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { TOOLS, TOOL_ERROR_MESSAGES } from '../constants/tools.js';
 import { BrainloopService } from '../services/brainloop/brainloop-service.js';
+import { GENERATABLE_PROMPT_TYPES } from '../services/brainloop/prompt-types.js';
+import { CodeTestCaseSchema, PromptSchema, formatValidationIssues } from '../services/brainloop/prompt-schema.js';
 import { logger } from '../utils/logger.js';
+import { formatSchemaIssue, validateJsonSchema, type JsonSchema } from '../utils/json-schema.js';
 import type { AuthInfo, MCPToolContext } from '../types/request-context.js';
 import {
   handleCreateBrainloop,
@@ -29,14 +33,17 @@ import {
   handleBrainloopProgress,
   handleGetUnitLessons,
   handleGetLesson,
+  handleSearchLessons,
   handleCreateInteraction,
   handleCreatePrompt,
   handleCreatePromptsBatch,
+  handleVerifyCodePrompt,
   handleGetLessonPrompts,
   handleUpdateLesson,
   handleUpdateUnit,
   handleDetectDuplicates,
   handleCleanupEmptyContent,
+  handleCoverageReport,
   handleReorderUnits,
   handleMoveLesson,
 } from './tools/brainloop-handlers.js';
@@ -47,6 +54,51 @@ import {
   handleAddCourseToTrack,
   handleEnrollInTrack,
 } from './tools/track-handlers.js';
+import {
+  handleBrowseCatalog,
+  handleEnrollInCourse,
+  handleCompleteLesson,
+  handleReviewQueue,
+  handleRecordReview,
+} from './tools/learner-handlers.js';
+import {
+  handleStartQuiz,
+  handleAnswerQuizPrompt,
+  handleFinishQuiz,
+} from './tools/quiz-handlers.js';
+import {
+  handlePlanBrainloop,
+  handleApplyBrainloop,
+} from './tools/spec-handlers.js';
+import {
+  handleExportBrainloop,
+  handleImportBrainloop,
+  handleExportQuiz,
+  handleImportQuiz,
+  handleExportFlashcards,
+} from './tools/interchange-handlers.js';
+import { handleGenerateInteractions, handleReviewLesson } from './tools/generation-handlers.js';
+import { prepareResourceUpdates } from './resource-updates.js';
+import { confirmDestructiveCall } from './confirmations.js';
+
+/**
+ * Zod schema for a declarative course spec, shared by plan_brainloop and apply_brainloop
+ */
+const CourseSpecSchema = z.object({
+  title: z.string().min(1).describe("Brainloop title"),
+  description: z.string().min(1).describe("Brainloop description"),
+  isPublic: z.boolean().optional().describe("Make a newly created brainloop public"),
+  units: z.array(z.object({
+    title: z.string().min(1).describe("Unit title"),
+    description: z.string().optional().describe("Unit description"),
+    lessons: z.array(z.object({
+      title: z.string().min(1).describe("Lesson title"),
+      content: z.string().min(1).describe("Lesson content"),
+      videoUrl: z.string().optional().describe("Video URL"),
+      prompts: z.array(PromptSchema).optional().describe("Prompts for the lesson's interaction"),
+    })).describe("Lessons in order"),
+  })).min(1).describe("Units in order"),
+});
 
 /**
  * Zod schemas for brainloop tool validation
@@ -58,6 +110,7 @@ const ToolSchemas = {
     topics: z.array(z.string()).min(1).describe("List of topics/units for the brainloop"),
     isPublic: z.boolean().optional().describe("Make brainloop public"),
     isPublished: z.boolean().optional().describe("Publish brainloop immediately"),
+    rollback: z.boolean().optional().describe("Undo already-created content if a later step fails"),
   }),
   view_brainloops: z.object({}),
   get_brainloop: z.object({
@@ -73,6 +126,8 @@ const ToolSchemas = {
         content: z.string().min(1).describe("Lesson content"),
       })).min(1).describe("Lessons for this unit"),
     })).min(1).describe("Units to add"),
+    upsertMode: z.boolean().optional().describe("Match existing units and lessons by title instead of duplicating them"),
+    rollback: z.boolean().optional().describe("Undo already-applied changes if a later step fails"),
   }),
   brainloop_progress: z.object({
     brainloopId: z.string().optional().describe("Specific brainloop ID (optional)"),
@@ -83,34 +138,21 @@ const ToolSchemas = {
   }),
   create_prompt: z.object({
     interactionId: z.string().min(1).describe("The ID of the interaction"),
-    question: z.string().min(1).describe("The question text"),
-    type: z.string().min(1).describe("Prompt type (multiple-choice, single-choice, short-answer, etc.)"),
-    options: z.array(z.string()).optional().describe("Options for choice questions"),
-    answer: z.any().optional().describe("The correct answer"),
-    explanation: z.string().optional().describe("Explanation of the answer"),
-    codeLanguage: z.string().optional().describe("Programming language for code questions"),
-    codeStarterCode: z.string().optional().describe("Starter code for code questions"),
-    codeExpectedOutput: z.string().optional().describe("Expected output for code questions"),
-    codeTestCases: z.any().optional().describe("Test cases for code questions"),
-    codeTimeLimit: z.number().optional().describe("Time limit for code execution"),
-    codeMemoryLimit: z.number().optional().describe("Memory limit for code execution"),
-    componentType: z.string().optional().describe("Interactive component type"),
-    componentConfig: z.any().optional().describe("Component configuration"),
-    componentAnswer: z.any().optional().describe("Expected component answer"),
-  }),
+    verify: z.boolean().optional().describe("Verify a code prompt's reference solution before creating it"),
+  }).and(PromptSchema),
   create_prompts_batch: z.object({
     interactionId: z.string().min(1).describe("The ID of the interaction"),
-    prompts: z.array(z.object({
-      question: z.string().min(1).describe("The question text"),
-      type: z.string().min(1).describe("Prompt type"),
-      options: z.array(z.string()).optional().describe("Options for choice questions"),
-      answer: z.any().optional().describe("The correct answer"),
-      explanation: z.string().optional().describe("Explanation of the answer"),
-      codeLanguage: z.string().optional().describe("Programming language for code questions"),
-      codeStarterCode: z.string().optional().describe("Starter code for code questions"),
-      componentType: z.string().optional().describe("Interactive component type"),
-      componentConfig: z.any().optional().describe("Component configuration"),
-    })).min(1).describe("Array of prompts to create"),
+    prompts: z.array(PromptSchema).min(1).describe("Array of prompts to create"),
+  }),
+  verify_code_prompt: z.object({
+    lessonId: z.string().min(1).optional().describe("The ID of the lesson of an existing prompt"),
+    promptId: z.string().min(1).optional().describe("The ID of an existing code prompt"),
+    solution: z.string().min(1).optional().describe("The reference solution"),
+    codeLanguage: z.string().min(1).optional().describe("Programming language of the solution"),
+    codeExpectedOutput: z.string().optional().describe("Expected output"),
+    codeTestCases: z.array(CodeTestCaseSchema).min(1).optional().describe("Test cases to run"),
+    codeTimeLimit: z.number().int().positive().optional().describe("Time limit per test case in milliseconds"),
+    codeMemoryLimit: z.number().int().positive().optional().describe("Memory limit in MB"),
   }),
   get_lesson_prompts: z.object({
     lessonId: z.string().min(1).describe("The ID of the lesson"),
@@ -120,11 +162,13 @@ const ToolSchemas = {
     title: z.string().optional().describe("New lesson title"),
     content: z.string().optional().describe("New lesson content"),
     videoUrl: z.string().optional().describe("New video URL"),
+    confirm: z.boolean().optional().describe("Confirms the changes when the client cannot ask the user"),
   }),
   update_unit: z.object({
     unitId: z.string().min(1).describe("The ID of the unit to update"),
     title: z.string().optional().describe("New unit title"),
     description: z.string().optional().describe("New unit description"),
+    confirm: z.boolean().optional().describe("Confirms the changes when the client cannot ask the user"),
   }),
   get_unit_lessons: z.object({
     unitId: z.string().min(1).describe("The ID of the unit"),
@@ -132,21 +176,91 @@ const ToolSchemas = {
   get_lesson: z.object({
     lessonId: z.string().min(1).describe("The ID of the lesson to retrieve full content"),
   }),
+  search_lessons: z.object({
+    query: z.string().min(1).describe("Search text"),
+    courseId: z.string().min(1).optional().describe("Only return lessons from this course"),
+    trackId: z.string().min(1).optional().describe("Only return lessons from courses in this track"),
+    unitId: z.string().min(1).optional().describe("Only return lessons from this unit"),
+    limit: z.number().int().min(1).max(50).optional().describe("Maximum number of results"),
+    offset: z.number().int().min(0).optional().describe("Number of ranked results to skip"),
+  }),
   detect_duplicates: z.object({
     courseId: z.string().min(1).describe("The ID of the course to check for duplicates"),
   }),
   cleanup_empty_content: z.object({
     courseId: z.string().min(1).describe("The ID of the course to clean up"),
     dryRun: z.boolean().optional().describe("Preview mode - show what would be deleted without actually deleting"),
+    confirm: z.boolean().optional().describe("Confirms the changes when the client cannot ask the user"),
+  }),
+  generate_interactions: z.object({
+    brainloopId: z.string().min(1).describe("The ID of the brainloop to fill"),
+    unitId: z.string().min(1).optional().describe("Only fill lessons of this unit"),
+    targetPrompts: z.number().int().min(1).optional().describe("Prompts each lesson should have"),
+    promptTypes: z.array(z.enum(GENERATABLE_PROMPT_TYPES)).min(1).optional().describe("Prompt types the model may use"),
+    maxLessons: z.number().int().min(1).optional().describe("Maximum number of lessons to fill in this call"),
+    dryRun: z.boolean().optional().describe("Preview the generated prompts without creating them"),
+    previewId: z.string().min(1).optional().describe("Create the prompts of this earlier preview"),
+  }),
+  review_lesson: z.object({
+    lessonId: z.string().min(1).describe("The ID of the lesson to review"),
+    reviewId: z.string().min(1).optional().describe("Apply the edits of this earlier review"),
+    applyEdits: z.array(z.number().int().min(1)).min(1).optional().describe("Numbers of the edits to apply"),
+    confirm: z.boolean().optional().describe("Confirms the changes when the client cannot ask the user"),
+  }),
+  coverage_report: z.object({
+    brainloopId: z.string().min(1).describe("The ID of the brainloop to check"),
+    targetPrompts: z.number().int().min(1).optional().describe("Prompts each lesson should have"),
   }),
   reorder_units: z.object({
     brainloopId: z.string().min(1).describe("The course ID containing the units to reorder"),
     unitIds: z.array(z.string()).min(1).describe("Array of unit IDs in desired order"),
+    confirm: z.boolean().optional().describe("Confirms the changes when the client cannot ask the user"),
   }),
   move_lesson: z.object({
     lessonId: z.string().min(1).describe("The ID of the lesson to move"),
     targetUnitId: z.string().min(1).describe("The ID of the target unit"),
     newOrder: z.number().int().min(0).optional().describe("Optional new order position in target unit"),
+    confirm: z.boolean().optional().describe("Confirms the changes when the client cannot ask the user"),
+  }),
+  // Course spec tool schemas
+  plan_brainloop: z.object({
+    spec: CourseSpecSchema,
+    brainloopId: z.string().min(1).optional().describe("The ID of the existing brainloop to compare against"),
+  }),
+  apply_brainloop: z.object({
+    spec: CourseSpecSchema,
+    brainloopId: z.string().min(1).optional().describe("The ID of the existing brainloop to update"),
+    fingerprint: z.string().min(1).optional().describe("Fingerprint of the reviewed plan"),
+    rollback: z.boolean().optional().describe("Undo already-created content if a later step fails"),
+    confirm: z.boolean().optional().describe("Confirms the changes when the client cannot ask the user"),
+  }),
+  // Interchange tool schemas
+  export_brainloop: z.object({
+    brainloopId: z.string().min(1).describe("The ID of the brainloop to export"),
+    format: z.enum(["document", "bundle"]).optional().describe("Single document or multi-file bundle"),
+  }),
+  import_brainloop: z.object({
+    markdown: z.string().min(1).describe("The Markdown document to import"),
+    isPublic: z.boolean().optional().describe("Make the brainloop public"),
+    dryRun: z.boolean().optional().describe("Only validate and preview the import"),
+    rollback: z.boolean().optional().describe("Undo already-created content if a later step fails"),
+  }),
+  export_quiz: z.object({
+    format: z.enum(["gift", "qti"]).describe("Question bank format"),
+    lessonId: z.string().min(1).optional().describe("The ID of the lesson to export"),
+    brainloopId: z.string().min(1).optional().describe("The ID of the brainloop to export"),
+  }),
+  import_quiz: z.object({
+    format: z.enum(["gift", "qti", "aiken"]).describe("Question bank format"),
+    content: z.string().min(1).describe("The question bank text or XML"),
+    lessonId: z.string().min(1).optional().describe("The ID of the lesson to import into"),
+    interactionId: z.string().min(1).optional().describe("The ID of the interaction to import into"),
+    dryRun: z.boolean().optional().describe("Only parse and preview the import"),
+  }),
+  export_flashcards: z.object({
+    brainloopId: z.string().min(1).describe("The ID of the brainloop to export"),
+    format: z.enum(["tsv", "csv"]).optional().describe("Tab- or comma-separated output"),
+    includeLessonContent: z.boolean().optional().describe("Also create cards from lesson content"),
   }),
   // BrainTrack tool schemas
   create_track: z.object({
@@ -168,6 +282,45 @@ const ToolSchemas = {
   enroll_in_track: z.object({
     trackId: z.string().min(1).describe("The ID of the track to enroll in"),
   }),
+  // Learner tool schemas
+  browse_catalog: z.object({
+    query: z.string().optional().describe("Keyword to match against titles and descriptions"),
+    sortBy: z.enum(["enrollments", "recent"]).optional().describe("Sort order"),
+    limit: z.number().int().min(1).max(50).optional().describe("Maximum number of brainloops to return"),
+  }),
+  enroll_in_course: z.object({
+    brainloopId: z.string().min(1).describe("The ID of the brainloop to enroll in"),
+  }),
+  complete_lesson: z.object({
+    lessonId: z.string().min(1).describe("The ID of the lesson to mark as complete"),
+    brainloopId: z.string().min(1).optional().describe("The ID of the brainloop the lesson belongs to"),
+  }),
+  review_queue: z.object({
+    includePrompts: z.boolean().optional().describe("Also schedule and list prompts"),
+    limit: z.number().int().min(1).max(100).optional().describe("Maximum items per section"),
+  }),
+  record_review: z.object({
+    lessonId: z.string().min(1).optional().describe("The ID of the reviewed lesson"),
+    promptId: z.string().min(1).optional().describe("The ID of the reviewed prompt"),
+    grade: z.number().int().min(0).max(5).describe("Recall grade from 0 to 5"),
+  }),
+  // Quiz tool schemas
+  start_quiz: z.object({
+    lessonId: z.string().min(1).describe("The ID of the lesson to take the quiz on"),
+    shuffle: z.boolean().optional().describe("Ask the questions in random order"),
+    passThreshold: z.number().min(0).max(100).optional().describe("Percentage needed to pass"),
+    completeOnPass: z.boolean().optional().describe("Mark the lesson complete when passed (default: false)"),
+  }),
+  answer_quiz_prompt: z.object({
+    answer: z.union([
+      z.string(),
+      z.number(),
+      z.boolean(),
+      z.array(z.union([z.string(), z.number()])),
+      z.record(z.union([z.string(), z.number()])),
+    ]).describe("The learner's answer"),
+  }),
+  finish_quiz: z.object({}),
 };
 
 /**
@@ -185,6 +338,7 @@ type ToolArgs = {
   brainloop_progress: any;
   get_unit_lessons: any;
   get_lesson: any;
+  search_lessons: any;
   create_interaction: any;
   create_prompt: any;
   create_prompts_batch: any;
@@ -266,6 +420,31 @@ function extractAndValidateCredentials(authInfo: AuthInfo): BrainloopCredentials
   }
 }
 
+/**
+ * Checks a tool result's structured content against the tool's output schema.
+ *
+ * @remarks
+ * A mismatch is a bug in the handler, not in the request, so it is logged
+ * and the result is still returned. Error results carry no structured content.
+ */
+function checkStructuredContent(tool: Tool, result: CallToolResult): void {
+  if (!tool.outputSchema || result.isError) {
+    return;
+  }
+  if (!result.structuredContent) {
+    logger.error("Tool result has no structured content", { toolName: tool.name });
+    return;
+  }
+
+  const issues = validateJsonSchema(tool.outputSchema as unknown as JsonSchema, result.structuredContent);
+  if (issues.length > 0) {
+    logger.error("Tool result does not match its output schema", {
+      toolName: tool.name,
+      issues: issues.map(formatSchemaIssue),
+    });
+  }
+}
+
 /**
  * Handles MCP tool invocation requests.
  * 
@@ -275,8 +454,10 @@ function extractAndValidateCredentials(authInfo: AuthInfo): BrainloopCredentials
  * 2. Extracts and validates authentication credentials
  * 3. Validates tool arguments against the tool's input schema
  * 4. Creates a Brainloop service instance
- * 5. Dispatches to the appropriate tool handler
- * 6. Returns the tool result or error
+ * 5. Confirms destructive calls with the user
+ * 6. Dispatches to the appropriate tool handler
+ * 7. Checks the structured content against the tool's output schema
+ * 8. Returns the tool result or error
  * 
  * @param request - The tool invocation request containing tool name and arguments
  * @param context - MCP context containing authentication and session information
@@ -327,7 +508,7 @@ export async function handleToolCall(
           errors: error.errors,
           arguments: request.params.arguments 
         });
-        throw new Error(`Invalid arguments for tool ${toolName}: ${JSON.stringify(error.errors)}`);
+        throw new Error(`Invalid arguments for tool ${toolName}:\n${formatValidationIssues(error.errors, request.params.arguments)}`);
       }
       throw error;
     }
@@ -354,8 +535,17 @@ export async function handleToolCall(
       brainloopService,
       userId: credentials.userId,
       sessionId: context.sessionId,
+      progressToken: request.params._meta?.progressToken,
     };
 
+    const refusal = await confirmDestructiveCall(toolName, args, brainloopContext);
+    if (refusal) {
+      return refusal;
+    }
+
+    // Resolved before the call, while moved or removed content can still be traced
+    const sendResourceUpdates = await prepareResourceUpdates(toolName, args, brainloopContext);
+
     logger.info(`🎯 [TOOL DISPATCH] Calling handler for ${toolName}`);
 
     switch (request.params.name) {
@@ -380,6 +570,9 @@ export async function handleToolCall(
       case "get_lesson":
         result = await handleGetLesson(args as any, brainloopContext);
         break;
+      case "search_lessons":
+        result = await handleSearchLessons(args as any, brainloopContext);
+        break;
       case "create_interaction":
         result = await handleCreateInteraction(args as any, brainloopContext);
         break;
@@ -389,6 +582,9 @@ export async function handleToolCall(
       case "create_prompts_batch":
         result = await handleCreatePromptsBatch(args as any, brainloopContext);
         break;
+      case "verify_code_prompt":
+        result = await handleVerifyCodePrompt(args as any, brainloopContext);
+        break;
       case "get_lesson_prompts":
         result = await handleGetLessonPrompts(args as any, brainloopContext);
         break;
@@ -404,6 +600,15 @@ export async function handleToolCall(
       case "cleanup_empty_content":
         result = await handleCleanupEmptyContent(args as any, brainloopContext);
         break;
+      case "generate_interactions":
+        result = await handleGenerateInteractions(args as any, brainloopContext);
+        break;
+      case "review_lesson":
+        result = await handleReviewLesson(args as any, brainloopContext);
+        break;
+      case "coverage_report":
+        result = await handleCoverageReport(args as any, brainloopContext);
+        break;
       case "reorder_units":
         result = await handleReorderUnits(args as any, brainloopContext);
         break;
@@ -426,11 +631,67 @@ export async function handleToolCall(
       case "enroll_in_track":
         result = await handleEnrollInTrack(args as any, brainloopContext);
         break;
+      // Learner tools
+      case "browse_catalog":
+        result = await handleBrowseCatalog(args as any, brainloopContext);
+        break;
+      case "enroll_in_course":
+        result = await handleEnrollInCourse(args as any, brainloopContext);
+        break;
+      case "complete_lesson":
+        result = await handleCompleteLesson(args as any, brainloopContext);
+        break;
+      case "review_queue":
+        result = await handleReviewQueue(args as any, brainloopContext);
+        break;
+      case "record_review":
+        result = await handleRecordReview(args as any, brainloopContext);
+        break;
+      // Quiz tools
+      case "start_quiz":
+        result = await handleStartQuiz(args as any, brainloopContext);
+        break;
+      case "answer_quiz_prompt":
+        result = await handleAnswerQuizPrompt(args as any, brainloopContext);
+        break;
+      case "finish_quiz":
+        result = await handleFinishQuiz(args as any, brainloopContext);
+        break;
+      // Course spec tools
+      case "plan_brainloop":
+        result = await handlePlanBrainloop(args as any, brainloopContext);
+        break;
+      case "apply_brainloop":
+        result = await handleApplyBrainloop(args as any, brainloopContext);
+        break;
+      // Interchange tools
+      case "export_brainloop":
+        result = await handleExportBrainloop(args as any, brainloopContext);
+        break;
+      case "import_brainloop":
+        result = await handleImportBrainloop(args as any, brainloopContext);
+        break;
+      case "export_quiz":
+        result = await handleExportQuiz(args as any, brainloopContext);
+        break;
+      case "import_quiz":
+        result = await handleImportQuiz(args as any, brainloopContext);
+        break;
+      case "export_flashcards":
+        result = await handleExportFlashcards(args as any, brainloopContext);
+        break;
       default:
         logger.error("Unsupported tool in switch statement", { toolName: request.params.name });
         throw new Error(`${TOOL_ERROR_MESSAGES.UNKNOWN_TOOL} ${request.params.name}`);
     }
 
+    checkStructuredContent(tool, result);
+
+    // Also after error results: a partially applied change still changed content
+    if (sendResourceUpdates) {
+      await sendResourceUpdates();
+    }
+
     logger.info(`✅ [TOOL CALL COMPLETE] ${toolName}`, {
       hasResult: !!result,
       contentBlocks: result?.content?.length || 0
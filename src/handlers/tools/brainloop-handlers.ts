@@ -10,9 +10,19 @@
  */
 
 import { logger } from '../../utils/logger.js';
-import type { BrainloopService } from '../../services/brainloop/brainloop-service.js';
+import type { BrainloopService, Lesson, LessonPrompt, LessonSearchHit, PromptInput, Unit } from '../../services/brainloop/brainloop-service.js';
+import { clozeGapIds, countBlanks } from '../../services/brainloop/prompt-types.js';
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
 import { RESOURCE_CONTENT } from '../../constants/resources.js';
+import { rankLessons } from '../../utils/lesson-search.js';
+import { isContentEmpty, normalizeTitle } from '../../utils/content-matching.js';
+import { OperationJournal } from '../../services/brainloop/operation-journal.js';
+import { handleJournaledFailure } from './journal-failure.js';
+import { verifyCodeSolution, type CodeTestCase, type VerificationReport } from '../../services/sandbox/code-runner.js';
+import { loadCourseSnapshot } from '../../services/brainloop/course-planner.js';
+import { buildCoverageReport, DEFAULT_TARGET_PROMPTS } from '../../services/brainloop/coverage-report.js';
+import { formatToolResponse } from './types.js';
+import { summarizeBrainloop, summarizeLesson, summarizePrompt, summarizeUnit } from './summaries.js';
 
 interface BrainloopToolContext {
   brainloopService: BrainloopService;
@@ -20,6 +30,13 @@ interface BrainloopToolContext {
   sessionId: string;
 }
 
+/**
+ * Format a course → unit → lesson path for display
+ */
+function formatBreadcrumb(...titles: string[]): string {
+  return titles.join(' → ');
+}
+
 /**
  * Create a complete brainloop (course with units and lessons)
  * This is the main "create a brainloop about X" tool
@@ -31,9 +48,12 @@ export async function handleCreateBrainloop(
     topics: string[];
     isPublic?: boolean;
     isPublished?: boolean;
+    rollback?: boolean;
   },
   context: BrainloopToolContext
 ): Promise<CallToolResult> {
+  const journal = new OperationJournal(context.brainloopService);
+
   try {
     logger.info(`🧠 Creating brainloop: "${args.title}" for user ${context.userId}`);
 
@@ -44,6 +64,7 @@ export async function handleCreateBrainloop(
       isPrivate: !(args.isPublic ?? false),
     }]);
 
+    journal.recordCreated('course', course);
     logger.info(`✅ Brainloop created with ID: ${course.id}`);
 
     // Step 2: Create units for each topic
@@ -56,24 +77,26 @@ export async function handleCreateBrainloop(
       }))
     );
 
+    units.forEach(unit => journal.recordCreated('unit', unit));
     logger.info(`✅ Created ${units.length} units for brainloop`);
 
-    return {
-      content: [{
-        type: 'text',
-        text: `🎉 **Brainloop Created Successfully!**\n\n` +
-          `**${course.title}**\n` +
-          `${course.description}\n\n` +
-          `**Brainloop ID:** ${course.id}\n` +
-          `**Visibility:** ${!course.isPrivate ? '🌍 Public' : '🔒 Private'}\n\n` +
-          `**Learning Path (${units.length} topics):**\n` +
-          units.map((unit, i) => `${i + 1}. ${unit.title} (Unit ID: ${unit.id})`).join('\n') +
-          `\n\n💡 **Next steps:** You can now expand this brainloop by adding lessons to each unit using \`expand_brainloop\`.`
-      }]
-    };
+    return formatToolResponse({
+      message: `🎉 **Brainloop Created Successfully!**\n\n` +
+        `**${course.title}**\n` +
+        `${course.description}\n\n` +
+        `**Brainloop ID:** ${course.id}\n` +
+        `**Visibility:** ${!course.isPrivate ? '🌍 Public' : '🔒 Private'}\n\n` +
+        `**Learning Path (${units.length} topics):**\n` +
+        units.map((unit, i) => `${i + 1}. ${unit.title} (Unit ID: ${unit.id})`).join('\n') +
+        `\n\n💡 **Next steps:** You can now expand this brainloop by adding lessons to each unit using \`expand_brainloop\`.`,
+      result: {
+        brainloop: summarizeBrainloop(course),
+        units: units.map(summarizeUnit),
+      },
+    });
   } catch (error) {
     logger.error('Failed to create brainloop', { error, title: args.title });
-    throw new Error(`Failed to create brainloop: ${error instanceof Error ? error.message : String(error)}`);
+    return handleJournaledFailure('create brainloop', journal, error, args.rollback ?? true);
   }
 }
 
@@ -88,22 +111,23 @@ export async function handleViewBrainloops(
     logger.info(`📚 Viewing brainloops for user ${context.userId}`);
     const courses = await context.brainloopService.getMyCourses();
 
-    return {
-      content: [{
-        type: 'text',
-        text: `🧠 **Your Brainloops** (${courses.length} total)\n\n` +
-          (courses.length === 0
-            ? `No brainloops yet. Create one with \`create_brainloop\`!`
-            : courses.map(course =>
-              `**${course.title}**\n` +
-              `  📝 ${course.description}\n` +
-              `  🆔 ID: ${course.id}\n` +
-              `  ${!course.isPrivate ? '🌍 Public' : '🔒 Private'}\n` +
-              (course._count ? `  📊 ${course._count.units} units • ${course._count.enrollments} learners\n` : '') +
-              `  👤 By: ${course.user.name}\n`
-            ).join('\n'))
-      }]
-    };
+    return formatToolResponse({
+      message: `🧠 **Your Brainloops** (${courses.length} total)\n\n` +
+        (courses.length === 0
+          ? `No brainloops yet. Create one with \`create_brainloop\`!`
+          : courses.map(course =>
+            `**${course.title}**\n` +
+            `  📝 ${course.description}\n` +
+            `  🆔 ID: ${course.id}\n` +
+            `  ${!course.isPrivate ? '🌍 Public' : '🔒 Private'}\n` +
+            (course._count ? `  📊 ${course._count.units} units • ${course._count.enrollments} learners\n` : '') +
+            `  👤 By: ${course.user.name}\n`
+          ).join('\n')),
+      result: {
+        brainloops: courses.map(summarizeBrainloop),
+        total: courses.length,
+      },
+    });
   } catch (error) {
     logger.error('Failed to view brainloops', { error, userId: context.userId });
     throw new Error(`Failed to view brainloops: ${error instanceof Error ? error.message : String(error)}`);
@@ -122,33 +146,60 @@ export async function handleGetBrainloop(
     const course = await context.brainloopService.getCourse(args.brainloopId);
     const units = await context.brainloopService.getCourseUnits(args.brainloopId);
 
-    return {
-      content: [{
-        type: 'text',
-        text: `🧠 **${course.title}**\n\n` +
-          `📝 ${course.description}\n\n` +
-          `**Details:**\n` +
-          `• Brainloop ID: ${course.id}\n` +
-          `• Visibility: ${!course.isPrivate ? '🌍 Public' : '🔒 Private'}\n` +
-          `• Created: ${new Date(course.createdAt).toLocaleDateString()}\n` +
-          `• Author: ${course.user.name} (${course.user.email})\n\n` +
-          `**Learning Path (${units.length} units):**\n` +
-          units.map(unit =>
-            `${unit.order}. **${unit.title}**\n` +
-            `   ${unit.description || 'No description'}\n` +
-            `   Unit ID: ${unit.id}\n` +
-            (unit._count ? `   ${unit._count.lessons} lessons\n` : '')
-          ).join('\n')
-      }]
-    };
+    return formatToolResponse({
+      message: `🧠 **${course.title}**\n\n` +
+        `📝 ${course.description}\n\n` +
+        `**Details:**\n` +
+        `• Brainloop ID: ${course.id}\n` +
+        `• Visibility: ${!course.isPrivate ? '🌍 Public' : '🔒 Private'}\n` +
+        `• Created: ${new Date(course.createdAt).toLocaleDateString()}\n` +
+        `• Author: ${course.user.name} (${course.user.email})\n\n` +
+        `**Learning Path (${units.length} units):**\n` +
+        units.map(unit =>
+          `${unit.order}. **${unit.title}**\n` +
+          `   ${unit.description || 'No description'}\n` +
+          `   Unit ID: ${unit.id}\n` +
+          (unit._count ? `   ${unit._count.lessons} lessons\n` : '')
+        ).join('\n'),
+      result: {
+        brainloop: summarizeBrainloop(course),
+        units: units.map(summarizeUnit),
+      },
+    });
   } catch (error) {
     logger.error('Failed to get brainloop', { error, brainloopId: args.brainloopId });
     throw new Error(`Failed to get brainloop: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
+/**
+ * Outcome of creating or reusing a single unit or lesson
+ */
+interface UpsertReportItem {
+  action: 'created' | 'updated' | 'skipped';
+  /** Missing for lessons skipped as duplicates within the request */
+  id?: string;
+  title: string;
+  reason?: string;
+}
+
+const UPSERT_ACTION_ICONS: Record<UpsertReportItem['action'], string> = {
+  created: '✨',
+  updated: '✏️',
+  skipped: '⏭️',
+};
+
+function formatUpsertItem(item: UpsertReportItem): string {
+  return `${UPSERT_ACTION_ICONS[item.action]} ${item.action}: ${item.title} (ID: ${item.id ?? '-'})` +
+    (item.reason ? ` - ${item.reason}` : '');
+}
+
 /**
  * Expand brainloop with more content
+ *
+ * In upsert mode (the default) units and lessons are matched by normalized
+ * title, so retrying the same call reuses existing IDs, fills lessons that
+ * were left empty and skips lessons that already have content.
  */
 export async function handleExpandBrainloop(
   args: {
@@ -158,59 +209,128 @@ export async function handleExpandBrainloop(
       description: string;
       lessons: Array<{ title: string; content: string }>;
     }>;
+    upsertMode?: boolean;
+    rollback?: boolean;
   },
   context: BrainloopToolContext
 ): Promise<CallToolResult> {
+  const journal = new OperationJournal(context.brainloopService);
+
   try {
-    logger.info(`🔧 Expanding brainloop ${args.brainloopId} with ${args.units.length} units`);
+    const upsertMode = args.upsertMode ?? true;
+    logger.info(`🔧 Expanding brainloop ${args.brainloopId} with ${args.units.length} units`, { upsertMode });
 
-    const results = [];
+    const existingUnits = upsertMode
+      ? await context.brainloopService.getCourseUnits(args.brainloopId)
+      : [];
+    const unitsByTitle = new Map<string, Unit>(
+      existingUnits.map(unit => [normalizeTitle(unit.title), unit])
+    );
+
+    const results: Array<{ unit: UpsertReportItem; lessons: UpsertReportItem[] }> = [];
 
     for (const unitData of args.units) {
-      // Create the unit
-      const [unit] = await context.brainloopService.createUnitsBatch(args.brainloopId, [{
-        title: unitData.title,
-        description: unitData.description,
-        order: 999, // Will be reordered by API
-      }]);
-
-      // Create lessons for the unit
-      const lessons = await context.brainloopService.createLessonsBatch(
-        unit.id,
-        unitData.lessons.map((lesson, index) => ({
-          title: lesson.title,
-          content: lesson.content,
-          order: index + 1,
-        }))
+      let unit = unitsByTitle.get(normalizeTitle(unitData.title));
+      let unitReport: UpsertReportItem;
+      let existingLessons: Lesson[] = [];
+
+      if (unit) {
+        unitReport = { action: 'skipped', id: unit.id, title: unit.title, reason: 'unit already exists, reusing it' };
+        existingLessons = await context.brainloopService.getUnitLessons(unit.id);
+      } else {
+        // Create the unit
+        [unit] = await context.brainloopService.createUnitsBatch(args.brainloopId, [{
+          title: unitData.title,
+          description: unitData.description,
+          order: 999, // Will be reordered by API
+        }]);
+        journal.recordCreated('unit', unit);
+        unitReport = { action: 'created', id: unit.id, title: unit.title };
+        if (upsertMode) {
+          unitsByTitle.set(normalizeTitle(unit.title), unit);
+        }
+      }
+
+      const lessonsByTitle = new Map<string, Lesson>(
+        existingLessons.map(lesson => [normalizeTitle(lesson.title), lesson])
       );
+      const lessonReports: Array<UpsertReportItem | undefined> = [];
+      const pending: Array<{ index: number; title: string; content: string }> = [];
+      const pendingTitles = new Set<string>();
 
-      results.push({ unit, lessons });
-    }
+      for (const lessonData of unitData.lessons) {
+        const key = normalizeTitle(lessonData.title);
+        const existing = lessonsByTitle.get(key);
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `🎉 **Brainloop Expanded Successfully!**\n\n` +
-            `Added ${results.length} new units to brainloop ${args.brainloopId}:\n\n` +
-            results.map(({ unit, lessons }) =>
-              `**${unit.title}**\n` +
-              `  Unit ID: ${unit.id}\n` +
-              `  Lessons: ${lessons.length}\n` +
-              lessons.map((l, i) => `  ${i + 1}. ${l.title} (ID: ${l.id})`).join('\n')
-            ).join('\n\n') +
-            `\n\n💡 **Next steps:** You can now create interactions and add questions to these lessons using their IDs.`
-        },
-        {
-          type: 'text',
-          text: `\n\n---\n\n` +
-            RESOURCE_CONTENT.LESSON_TEMPLATE_CONDENSED
+        if (existing && isContentEmpty(existing.content)) {
+          await context.brainloopService.updateLesson(existing.id, { content: lessonData.content });
+          journal.recordLessonUpdated(existing, { content: existing.content });
+          lessonReports.push({ action: 'updated', id: existing.id, title: existing.title, reason: 'filled empty content' });
+        } else if (existing) {
+          lessonReports.push({ action: 'skipped', id: existing.id, title: existing.title, reason: 'already has content' });
+        } else if (upsertMode && pendingTitles.has(key)) {
+          lessonReports.push({ action: 'skipped', title: lessonData.title, reason: 'duplicate title in this request' });
+        } else {
+          pendingTitles.add(key);
+          pending.push({ index: lessonReports.length, ...lessonData });
+          lessonReports.push(undefined);
         }
-      ]
-    };
+      }
+
+      // Create new lessons for the unit, appended after any existing ones
+      if (pending.length > 0) {
+        const created = await context.brainloopService.createLessonsBatch(
+          unit.id,
+          pending.map((lesson, index) => ({
+            title: lesson.title,
+            content: lesson.content,
+            order: existingLessons.length + index + 1,
+          }))
+        );
+        created.forEach((lesson, i) => {
+          journal.recordCreated('lesson', lesson);
+          lessonReports[pending[i].index] = { action: 'created', id: lesson.id, title: lesson.title };
+        });
+      }
+
+      results.push({
+        unit: unitReport,
+        lessons: lessonReports.filter((item): item is UpsertReportItem => item !== undefined),
+      });
+    }
+
+    const allItems = results.flatMap(({ unit, lessons }) => [unit, ...lessons]);
+    const count = (action: UpsertReportItem['action']) => allItems.filter(item => item.action === action).length;
+
+    return formatToolResponse({
+      message: `🎉 **Brainloop Expanded Successfully!**\n\n` +
+        `Processed ${results.length} unit(s) for brainloop ${args.brainloopId}` +
+        (upsertMode ? ` (upsert mode)` : '') + `:\n` +
+        `✨ ${count('created')} created • ✏️ ${count('updated')} updated • ⏭️ ${count('skipped')} skipped\n\n` +
+        results.map(({ unit, lessons }) =>
+          `**${unit.title}**\n` +
+          `  Unit ID: ${unit.id}\n` +
+          `  ${formatUpsertItem(unit)}\n` +
+          `  Lessons: ${lessons.length}\n` +
+          lessons.map((l, i) => `  ${i + 1}. ${formatUpsertItem(l)}`).join('\n')
+        ).join('\n\n') +
+        `\n\n💡 **Next steps:** You can now create interactions and add questions to these lessons using their IDs.` +
+        (upsertMode ? ` Retrying this call is safe: existing units and lessons are reused, not duplicated.` : ''),
+      result: {
+        brainloopId: args.brainloopId,
+        upsertMode,
+        counts: { created: count('created'), updated: count('updated'), skipped: count('skipped') },
+        units: results.map(({ unit, lessons }) => ({ ...unit, lessons })),
+      },
+      attachments: [{
+        type: 'text',
+        text: `\n\n---\n\n` +
+          RESOURCE_CONTENT.LESSON_TEMPLATE_CONDENSED
+      }],
+    });
   } catch (error) {
     logger.error('Failed to expand brainloop', { error, brainloopId: args.brainloopId });
-    throw new Error(`Failed to expand brainloop: ${error instanceof Error ? error.message : String(error)}`);
+    return handleJournaledFailure('expand brainloop', journal, error, args.rollback ?? true);
   }
 }
 
@@ -232,28 +352,39 @@ export async function handleBrainloopProgress(
       ? ((completed.length / progress.length) * 100).toFixed(1)
       : '0';
 
-    return {
-      content: [{
-        type: 'text',
-        text: `📊 **Brainloop Progress**\n\n` +
-          `**Overall:** ${completionRate}% complete (${completed.length}/${progress.length} lessons)\n\n` +
-          (completed.length > 0
-            ? `**Completed Lessons:**\n` +
-            completed.map(p =>
-              `✅ ${p.lesson.title}\n` +
-              `   🧠 ${p.lesson.unit.course.title} → ${p.lesson.unit.title}\n` +
-              `   📅 ${p.completedAt ? new Date(p.completedAt).toLocaleDateString() : 'N/A'}\n`
-            ).join('\n')
-            : '') +
-          (progress.length > completed.length
-            ? `\n**In Progress:**\n` +
-            progress.filter(p => !p.isCompleted).map(p =>
-              `⏳ ${p.lesson.title}\n` +
-              `   🧠 ${p.lesson.unit.course.title} → ${p.lesson.unit.title}\n`
-            ).join('\n')
-            : '')
-      }]
-    };
+    return formatToolResponse({
+      message: `📊 **Brainloop Progress**\n\n` +
+        `**Overall:** ${completionRate}% complete (${completed.length}/${progress.length} lessons)\n\n` +
+        (completed.length > 0
+          ? `**Completed Lessons:**\n` +
+          completed.map(p =>
+            `✅ ${p.lesson.title}\n` +
+            `   🧠 ${formatBreadcrumb(p.lesson.unit.course.title, p.lesson.unit.title)}\n` +
+            `   📅 ${p.completedAt ? new Date(p.completedAt).toLocaleDateString() : 'N/A'}\n`
+          ).join('\n')
+          : '') +
+        (progress.length > completed.length
+          ? `\n**In Progress:**\n` +
+          progress.filter(p => !p.isCompleted).map(p =>
+            `⏳ ${p.lesson.title}\n` +
+            `   🧠 ${formatBreadcrumb(p.lesson.unit.course.title, p.lesson.unit.title)}\n`
+          ).join('\n')
+          : ''),
+      result: {
+        ...(args.brainloopId && { brainloopId: args.brainloopId }),
+        completionRate: Number(completionRate),
+        completedLessons: completed.length,
+        totalLessons: progress.length,
+        lessons: progress.map(p => ({
+          lessonId: p.lessonId,
+          title: p.lesson.title,
+          unitTitle: p.lesson.unit.title,
+          brainloopTitle: p.lesson.unit.course.title,
+          isCompleted: p.isCompleted,
+          ...(p.completedAt && { completedAt: p.completedAt }),
+        })),
+      },
+    });
   } catch (error) {
     logger.error('Failed to get brainloop progress', { error, userId: context.userId });
     throw new Error(`Failed to get brainloop progress: ${error instanceof Error ? error.message : String(error)}`);
@@ -271,16 +402,16 @@ export async function handleCreateInteraction(
     logger.info(`🎯 Creating interaction for lesson ${args.lessonId}`);
     const result = await context.brainloopService.createInteraction(args.lessonId);
 
-    return {
-      content: [{
-        type: 'text',
-        text: `✅ **Interaction Created Successfully!**\n\n` +
-          `**Interaction ID:** ${result.id}\n` +
-          `**Lesson ID:** ${result.lessonId}\n` +
-          `**Type:** ${result.type}\n\n` +
-          `💡 You can now add prompts (questions/exercises) to this interaction using \`create_prompt\` or \`create_prompts_batch\`.`
-      }]
-    };
+    return formatToolResponse({
+      message: `✅ **Interaction Created Successfully!**\n\n` +
+        `**Interaction ID:** ${result.id}\n` +
+        `**Lesson ID:** ${result.lessonId}\n` +
+        `**Type:** ${result.type}\n\n` +
+        `💡 You can now add prompts (questions/exercises) to this interaction using \`create_prompt\` or \`create_prompts_batch\`.`,
+      result: {
+        interaction: { id: result.id, lessonId: result.lessonId, type: result.type },
+      },
+    });
   } catch (error) {
     logger.error('Failed to create interaction', { error, lessonId: args.lessonId });
     throw new Error(`Failed to create interaction: ${error instanceof Error ? error.message : String(error)}`);
@@ -291,43 +422,168 @@ export async function handleCreateInteraction(
  * Create a single prompt for an interaction
  */
 export async function handleCreatePrompt(
-  args: {
+  args: PromptInput & {
     interactionId: string;
-    question: string;
-    type: string;
-    options?: string[];
-    answer?: any;
-    explanation?: string;
+    verify?: boolean;
+  },
+  context: BrainloopToolContext
+): Promise<CallToolResult> {
+  try {
+    const { verify, ...promptData } = args;
+    let verification: VerificationReport | undefined;
+
+    if (verify) {
+      if (args.type !== 'code') {
+        throw new Error('verify can only be used with code prompts');
+      }
+      if (typeof args.answer !== 'string' || !args.answer.trim()) {
+        throw new Error('verify needs the reference solution as a string in answer');
+      }
+      logger.info(`🧪 Verifying code prompt solution for interaction ${args.interactionId}`, { language: args.codeLanguage });
+      verification = await verifyCodeSolution({
+        language: args.codeLanguage || '',
+        solution: args.answer,
+        testCases: args.codeTestCases,
+        expectedOutput: args.codeExpectedOutput,
+        timeLimitMs: args.codeTimeLimit,
+        memoryLimitMb: args.codeMemoryLimit,
+      });
+
+      if (!verification.passed) {
+        return {
+          content: [{
+            type: 'text',
+            text: `🚫 **Prompt Not Created**\n\n` +
+              (verification.supported
+                ? `The reference solution did not pass verification.\n\n`
+                : `The reference solution could not be verified. Create the prompt without \`verify\` to skip verification.\n\n`) +
+              formatVerificationReport(verification)
+          }],
+          isError: true,
+        };
+      }
+    }
+
+    logger.info(`📝 Creating prompt for interaction ${args.interactionId}`);
+    const result = await context.brainloopService.createPrompt(promptData);
+
+    return formatToolResponse({
+      message: `✅ **Prompt Created Successfully!**\n\n` +
+        `**Prompt ID:** ${result.prompt.id}\n` +
+        `**Question:** ${result.prompt.question}\n` +
+        `**Type:** ${result.prompt.type}\n` +
+        `**Interaction ID:** ${result.prompt.interactionId}\n\n` +
+        `📊 **Lesson now has ${result.lesson.promptCount} prompt(s)**` +
+        (verification ? `\n\n${formatVerificationReport(verification)}` : ''),
+      result: {
+        prompt: summarizePrompt(result.prompt),
+        interactionId: result.prompt.interactionId,
+        lessonPromptCount: result.lesson.promptCount,
+        ...(verification && { verification }),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to create prompt', { error, interactionId: args.interactionId });
+    throw new Error(`Failed to create prompt: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Format a code verification report
+ */
+function formatVerificationReport(report: VerificationReport): string {
+  if (!report.supported) {
+    return `⚠️ **Not verified:** ${report.reason}`;
+  }
+
+  const passedCount = report.results.filter(result => result.passed).length;
+  const block = (text: string) => `\`\`\`\n${text || '(no output)'}\n\`\`\``;
+  return `🧪 **Verification (${report.language}): ${passedCount}/${report.results.length} test cases passed**\n\n` +
+    report.results.map(result => {
+      const label = `${result.passed ? '✅' : '❌'} **Test ${result.index + 1}**` +
+        (result.description ? ` - ${result.description}` : '') +
+        ` (${result.durationMs} ms)`;
+      if (result.passed) {
+        return label;
+      }
+      return `${label}\n` +
+        (result.error ? `Error: ${result.error}\n` : '') +
+        `Expected:\n${block(result.expectedOutput)}\nGot:\n${block(result.actualOutput)}`;
+    }).join('\n\n');
+}
+
+/**
+ * Run a code prompt's reference solution against its test cases
+ */
+export async function handleVerifyCodePrompt(
+  args: {
+    lessonId?: string;
+    promptId?: string;
+    solution?: string;
     codeLanguage?: string;
-    codeStarterCode?: string;
     codeExpectedOutput?: string;
-    codeTestCases?: any;
+    codeTestCases?: CodeTestCase[];
     codeTimeLimit?: number;
     codeMemoryLimit?: number;
-    componentType?: string;
-    componentConfig?: any;
-    componentAnswer?: any;
   },
   context: BrainloopToolContext
 ): Promise<CallToolResult> {
   try {
-    logger.info(`📝 Creating prompt for interaction ${args.interactionId}`);
-    const result = await context.brainloopService.createPrompt(args);
+    let fields = { ...args };
 
-    return {
-      content: [{
-        type: 'text',
-        text: `✅ **Prompt Created Successfully!**\n\n` +
-          `**Prompt ID:** ${result.prompt.id}\n` +
-          `**Question:** ${result.prompt.question}\n` +
-          `**Type:** ${result.prompt.type}\n` +
-          `**Interaction ID:** ${result.prompt.interactionId}\n\n` +
-          `📊 **Lesson now has ${result.lesson.promptCount} prompt(s)**`
-      }]
-    };
+    if (args.promptId) {
+      if (!args.lessonId) {
+        throw new Error('lessonId is required to look up a prompt');
+      }
+      const { prompts } = await context.brainloopService.getLessonPrompts(args.lessonId);
+      const prompt = prompts.find(p => p.id === args.promptId);
+      if (!prompt) {
+        throw new Error(`Prompt ${args.promptId} was not found in lesson ${args.lessonId}`);
+      }
+      if (prompt.type !== 'code') {
+        throw new Error(`Prompt ${args.promptId} is a ${prompt.type} prompt, not a code prompt`);
+      }
+      // Arguments override the stored prompt, so fixes can be tried before updating it
+      fields = {
+        solution: typeof prompt.answer === 'string' ? prompt.answer : undefined,
+        codeLanguage: prompt.codeLanguage,
+        codeExpectedOutput: prompt.codeExpectedOutput,
+        codeTestCases: prompt.codeTestCases,
+        codeTimeLimit: prompt.codeTimeLimit,
+        codeMemoryLimit: prompt.codeMemoryLimit,
+        ...Object.fromEntries(Object.entries(args).filter(([, value]) => value !== undefined)),
+      };
+    }
+
+    if (!fields.codeLanguage) {
+      throw new Error('codeLanguage is required');
+    }
+    if (!fields.solution?.trim()) {
+      throw new Error('A reference solution is required');
+    }
+
+    logger.info(`🧪 Verifying ${fields.codeLanguage} solution for user ${context.userId}`, { promptId: args.promptId });
+    const report = await verifyCodeSolution({
+      language: fields.codeLanguage,
+      solution: fields.solution,
+      testCases: fields.codeTestCases,
+      expectedOutput: fields.codeExpectedOutput,
+      timeLimitMs: fields.codeTimeLimit,
+      memoryLimitMb: fields.codeMemoryLimit,
+    });
+
+    return formatToolResponse({
+      message: formatVerificationReport(report) +
+        (report.passed
+          ? `\n\n✅ The solution passes every test case.`
+          : report.supported
+            ? `\n\n💡 Fix the solution or the test cases before saving the prompt.`
+            : ''),
+      result: { verification: report },
+    });
   } catch (error) {
-    logger.error('Failed to create prompt', { error, interactionId: args.interactionId });
-    throw new Error(`Failed to create prompt: ${error instanceof Error ? error.message : String(error)}`);
+    logger.error('Failed to verify code prompt', { error, promptId: args.promptId });
+    throw new Error(`Failed to verify code prompt: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
@@ -337,17 +593,7 @@ export async function handleCreatePrompt(
 export async function handleCreatePromptsBatch(
   args: {
     interactionId: string;
-    prompts: Array<{
-      question: string;
-      type: string;
-      options?: string[];
-      answer?: any;
-      explanation?: string;
-      codeLanguage?: string;
-      codeStarterCode?: string;
-      componentType?: string;
-      componentConfig?: any;
-    }>;
+    prompts: PromptInput[];
   },
   context: BrainloopToolContext
 ): Promise<CallToolResult> {
@@ -355,25 +601,48 @@ export async function handleCreatePromptsBatch(
     logger.info(`📝 Creating ${args.prompts.length} prompts for interaction ${args.interactionId}`);
     const result = await context.brainloopService.createPromptsBatch(args.interactionId, args.prompts);
 
-    return {
-      content: [{
-        type: 'text',
-        text: `✅ **${result.metadata.totalCreated} Prompts Created Successfully!**\n\n` +
-          `**Interaction ID:** ${result.interaction.id}\n` +
-          `**Lesson:** ${result.lesson.title}\n` +
-          `**Total Prompts Now:** ${result.metadata.totalPromptsNow}\n\n` +
-          `**Created Prompts:**\n` +
-          result.prompts.map((p: any, i: number) =>
-            `${i + 1}. ${p.question.substring(0, 60)}${p.question.length > 60 ? '...' : ''} (${p.type})`
-          ).join('\n')
-      }]
-    };
+    return formatToolResponse({
+      message: `✅ **${result.metadata.totalCreated} Prompts Created Successfully!**\n\n` +
+        `**Interaction ID:** ${result.interaction.id}\n` +
+        `**Lesson:** ${result.lesson.title}\n` +
+        `**Total Prompts Now:** ${result.metadata.totalPromptsNow}\n\n` +
+        `**Created Prompts:**\n` +
+        result.prompts.map((p: any, i: number) =>
+          `${i + 1}. ${p.question.substring(0, 60)}${p.question.length > 60 ? '...' : ''} (${p.type})`
+        ).join('\n'),
+      result: {
+        interactionId: result.interaction.id,
+        lessonTitle: result.lesson.title,
+        createdCount: result.metadata.totalCreated,
+        lessonPromptCount: result.metadata.totalPromptsNow,
+        prompts: result.prompts.map(summarizePrompt),
+      },
+    });
   } catch (error) {
     logger.error('Failed to create prompts batch', { error, interactionId: args.interactionId });
     throw new Error(`Failed to create prompts batch: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
+/**
+ * Describe the items, pairs or blanks of a prompt
+ */
+function formatPromptStructure(prompt: LessonPrompt): string {
+  const answer = prompt.answer;
+  switch (prompt.type) {
+    case 'ordering':
+      return prompt.options ? `   Items to order: ${prompt.options.length}\n` : '';
+    case 'matching':
+      return answer && typeof answer === 'object' ? `   Pairs: ${Object.keys(answer).length}\n` : '';
+    case 'fill-in-the-blank':
+      return `   Blanks: ${countBlanks(prompt.question)}\n`;
+    case 'cloze':
+      return `   Gaps: ${clozeGapIds(prompt.question).map(gap => `{{${gap}}}`).join(', ') || 'none'}\n`;
+    default:
+      return prompt.options ? `   Options: ${prompt.options.length}\n` : '';
+  }
+}
+
 /**
  * Get all prompts for a lesson
  */
@@ -385,36 +654,39 @@ export async function handleGetLessonPrompts(
     logger.info(`📚 Getting prompts for lesson ${args.lessonId}`);
     const result = await context.brainloopService.getLessonPrompts(args.lessonId);
 
+    const structured = {
+      lesson: { id: result.lesson.id, title: result.lesson.title },
+      ...(result.interaction && { interactionId: result.interaction.id }),
+      needsInteraction: result.metadata.needsInteraction,
+      prompts: result.prompts.map(summarizePrompt),
+    };
+
     if (result.metadata.totalPrompts === 0) {
-      return {
-        content: [{
-          type: 'text',
-          text: `📭 **No prompts found for this lesson**\n\n` +
-            `**Lesson:** ${result.lesson.title}\n` +
-            `**Has Interaction:** ${result.lesson.hasInteraction ? 'Yes' : 'No'}\n\n` +
-            (result.metadata.needsInteraction
-              ? `💡 Create an interaction first with \`create_interaction\``
-              : `💡 Add prompts with \`create_prompt\` or \`create_prompts_batch\``)
-        }]
-      };
+      return formatToolResponse({
+        message: `📭 **No prompts found for this lesson**\n\n` +
+          `**Lesson:** ${result.lesson.title}\n` +
+          `**Has Interaction:** ${result.lesson.hasInteraction ? 'Yes' : 'No'}\n\n` +
+          (result.metadata.needsInteraction
+            ? `💡 Create an interaction first with \`create_interaction\``
+            : `💡 Add prompts with \`create_prompt\` or \`create_prompts_batch\``),
+        result: structured,
+      });
     }
 
-    return {
-      content: [{
-        type: 'text',
-        text: `📚 **Lesson Prompts** (${result.metadata.totalPrompts} total)\n\n` +
-          `**Lesson:** ${result.lesson.title}\n` +
-          `**Interaction ID:** ${result.interaction.id}\n\n` +
-          `**Prompts:**\n` +
-          result.prompts.map((p: any, i: number) =>
-            `${i + 1}. **${p.question}**\n` +
-            `   Type: ${p.type}\n` +
-            `   ID: ${p.id}\n` +
-            (p.options ? `   Options: ${p.options.length}\n` : '') +
-            (p.explanation ? `   Has explanation: Yes\n` : '')
-          ).join('\n')
-      }]
-    };
+    return formatToolResponse({
+      message: `📚 **Lesson Prompts** (${result.metadata.totalPrompts} total)\n\n` +
+        `**Lesson:** ${result.lesson.title}\n` +
+        `**Interaction ID:** ${result.interaction?.id}\n\n` +
+        `**Prompts:**\n` +
+        result.prompts.map((p: any, i: number) =>
+          `${i + 1}. **${p.question}**\n` +
+          `   Type: ${p.type}\n` +
+          `   ID: ${p.id}\n` +
+          formatPromptStructure(p) +
+          (p.explanation ? `   Has explanation: Yes\n` : '')
+        ).join('\n'),
+      result: structured,
+    });
   } catch (error) {
     logger.error('Failed to get lesson prompts', { error, lessonId: args.lessonId });
     throw new Error(`Failed to get lesson prompts: ${error instanceof Error ? error.message : String(error)}`);
@@ -441,18 +713,16 @@ export async function handleUpdateLesson(
       videoUrl: args.videoUrl,
     });
 
-    return {
-      content: [{
-        type: 'text',
-        text: `✅ **Lesson Updated Successfully!**\n\n` +
-          `**Lesson ID:** ${result.lesson.id}\n` +
-          `**Title:** ${result.lesson.title}\n` +
-          `**Content Length:** ${result.lesson.content?.length || 0} characters\n` +
-          (result.lesson.videoUrl ? `**Video:** ${result.lesson.videoUrl}\n` : '') +
-          (result.lesson.updatedAt ? `**Last Updated:** ${new Date(result.lesson.updatedAt).toLocaleString()}\n\n` : '\n') +
-          `💡 Changes saved successfully. The lesson content has been updated.`
-      }]
-    };
+    return formatToolResponse({
+      message: `✅ **Lesson Updated Successfully!**\n\n` +
+        `**Lesson ID:** ${result.lesson.id}\n` +
+        `**Title:** ${result.lesson.title}\n` +
+        `**Content Length:** ${result.lesson.content?.length || 0} characters\n` +
+        (result.lesson.videoUrl ? `**Video:** ${result.lesson.videoUrl}\n` : '') +
+        (result.lesson.updatedAt ? `**Last Updated:** ${new Date(result.lesson.updatedAt).toLocaleString()}\n\n` : '\n') +
+        `💡 Changes saved successfully. The lesson content has been updated.`,
+      result: { lesson: summarizeLesson(result.lesson) },
+    });
   } catch (error) {
     logger.error('Failed to update lesson', { error, lessonId: args.lessonId });
     throw new Error(`Failed to update lesson: ${error instanceof Error ? error.message : String(error)}`);
@@ -477,18 +747,16 @@ export async function handleUpdateUnit(
       description: args.description,
     });
 
-    return {
-      content: [{
-        type: 'text',
-        text: `✅ **Unit Updated Successfully!**\n\n` +
-          `**Unit ID:** ${result.unit.id}\n` +
-          `**Title:** ${result.unit.title}\n` +
-          `**Description:** ${result.unit.description}\n` +
-          `**Lesson Count:** ${result.unit._count?.lessons || 0}\n` +
-          (result.unit.updatedAt ? `**Last Updated:** ${new Date(result.unit.updatedAt).toLocaleString()}\n\n` : '\n') +
-          `💡 Changes saved successfully. The unit details have been updated.`
-      }]
-    };
+    return formatToolResponse({
+      message: `✅ **Unit Updated Successfully!**\n\n` +
+        `**Unit ID:** ${result.unit.id}\n` +
+        `**Title:** ${result.unit.title}\n` +
+        `**Description:** ${result.unit.description}\n` +
+        `**Lesson Count:** ${result.unit._count?.lessons || 0}\n` +
+        (result.unit.updatedAt ? `**Last Updated:** ${new Date(result.unit.updatedAt).toLocaleString()}\n\n` : '\n') +
+        `💡 Changes saved successfully. The unit details have been updated.`,
+      result: { unit: summarizeUnit(result.unit) },
+    });
   } catch (error) {
     logger.error('Failed to update unit', { error, unitId: args.unitId });
     throw new Error(`Failed to update unit: ${error instanceof Error ? error.message : String(error)}`);
@@ -506,32 +774,33 @@ export async function handleGetUnitLessons(
     logger.info(`📚 Getting lessons for unit ${args.unitId}`);
     const lessons = await context.brainloopService.getUnitLessons(args.unitId);
 
+    const result = {
+      unitId: args.unitId,
+      lessons: lessons.map(summarizeLesson),
+    };
+
     if (lessons.length === 0) {
-      return {
-        content: [{
-          type: 'text',
-          text: `📭 **No lessons found in this unit**\n\n` +
-            `**Unit ID:** ${args.unitId}\n\n` +
-            `💡 Use \`expand_brainloop\` to add lessons to this unit.`
-        }]
-      };
+      return formatToolResponse({
+        message: `📭 **No lessons found in this unit**\n\n` +
+          `**Unit ID:** ${args.unitId}\n\n` +
+          `💡 Use \`expand_brainloop\` to add lessons to this unit.`,
+        result,
+      });
     }
 
-    return {
-      content: [{
-        type: 'text',
-        text: `📚 **Unit Lessons** (${lessons.length} total)\n\n` +
-          `**Lessons:**\n` +
-          lessons.map((lesson, i) =>
-            `${i + 1}. **${lesson.title}**\n` +
-            `   Lesson ID: ${lesson.id}\n` +
-            `   Order: ${lesson.order}\n` +
-            `   Content Length: ${lesson.content?.length || 0} characters\n` +
-            (lesson.videoUrl ? `   Video: ${lesson.videoUrl}\n` : '')
-          ).join('\n') +
-          `\n\n💡 Use these lesson IDs to create interactions and add questions.`
-      }]
-    };
+    return formatToolResponse({
+      message: `📚 **Unit Lessons** (${lessons.length} total)\n\n` +
+        `**Lessons:**\n` +
+        lessons.map((lesson, i) =>
+          `${i + 1}. **${lesson.title}**\n` +
+          `   Lesson ID: ${lesson.id}\n` +
+          `   Order: ${lesson.order}\n` +
+          `   Content Length: ${lesson.content?.length || 0} characters\n` +
+          (lesson.videoUrl ? `   Video: ${lesson.videoUrl}\n` : '')
+        ).join('\n') +
+        `\n\n💡 Use these lesson IDs to create interactions and add questions.`,
+      result,
+    });
   } catch (error) {
     logger.error('Failed to get unit lessons', { error, unitId: args.unitId });
     throw new Error(`Failed to get unit lessons: ${error instanceof Error ? error.message : String(error)}`);
@@ -549,27 +818,161 @@ export async function handleGetLesson(
     logger.info(`📖 Getting lesson content for ${args.lessonId}`);
     const lesson = await context.brainloopService.getLesson(args.lessonId);
 
-    return {
-      content: [{
-        type: 'text',
-        text: `📖 **${lesson.title}**\n\n` +
-          `**Lesson ID:** ${lesson.id}\n` +
-          `**Order:** ${lesson.order}\n` +
-          (lesson.videoUrl ? `**Video:** ${lesson.videoUrl}\n` : '') +
-          `**Content Length:** ${lesson.content?.length || 0} characters\n` +
-          (lesson.updatedAt ? `**Last Updated:** ${new Date(lesson.updatedAt).toLocaleString()}\n\n` : '\n') +
-          `---\n\n` +
-          `**Content:**\n\n${lesson.content || '*No content available*'}\n\n` +
-          `---\n\n` +
-          `💡 Use \`update_lesson\` to modify this lesson's content.`
-      }]
-    };
+    return formatToolResponse({
+      message: `📖 **${lesson.title}**\n\n` +
+        `**Lesson ID:** ${lesson.id}\n` +
+        `**Order:** ${lesson.order}\n` +
+        (lesson.videoUrl ? `**Video:** ${lesson.videoUrl}\n` : '') +
+        `**Content Length:** ${lesson.content?.length || 0} characters\n` +
+        (lesson.updatedAt ? `**Last Updated:** ${new Date(lesson.updatedAt).toLocaleString()}\n\n` : '\n') +
+        `---\n\n` +
+        `**Content:**\n\n${lesson.content || '*No content available*'}\n\n` +
+        `---\n\n` +
+        `💡 Use \`update_lesson\` to modify this lesson's content.`,
+      result: {
+        lesson: { ...summarizeLesson(lesson), content: lesson.content ?? '' },
+      },
+    });
   } catch (error) {
     logger.error('Failed to get lesson', { error, lessonId: args.lessonId });
     throw new Error(`Failed to get lesson: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
+/**
+ * Search lessons with ranked, optionally scoped results
+ */
+export async function handleSearchLessons(
+  args: {
+    query: string;
+    courseId?: string;
+    trackId?: string;
+    unitId?: string;
+    limit?: number;
+    offset?: number;
+  },
+  context: BrainloopToolContext
+): Promise<CallToolResult> {
+  try {
+    logger.info(`🔎 Searching lessons for "${args.query}"`, {
+      courseId: args.courseId,
+      trackId: args.trackId,
+      unitId: args.unitId,
+    });
+
+    const limit = args.limit ?? 10;
+    const offset = args.offset ?? 0;
+    const hits = await context.brainloopService.searchLessons(args.query);
+
+    // Resolve the course scope so hits can be filtered and given a full breadcrumb
+    const courseTitles = new Map<string, string>();
+    if (args.trackId) {
+      const track = await context.brainloopService.getTrack(args.trackId);
+      for (const tc of track.trackCourses || []) {
+        if (!args.courseId || tc.course.id === args.courseId) {
+          courseTitles.set(tc.course.id, tc.course.title);
+        }
+      }
+    } else if (args.courseId) {
+      const course = await context.brainloopService.getCourse(args.courseId);
+      courseTitles.set(course.id, course.title);
+    }
+
+    const unitsById = new Map<string, { title: string; courseId: string }>();
+    const scoped = args.courseId !== undefined || args.trackId !== undefined;
+    if (scoped) {
+      const unitLists = await Promise.all(
+        [...courseTitles.keys()].map(courseId => context.brainloopService.getCourseUnits(courseId))
+      );
+      for (const unit of unitLists.flat()) {
+        unitsById.set(unit.id, { title: unit.title, courseId: unit.courseId });
+      }
+    }
+
+    const courseIdFor = (hit: LessonSearchHit): string | undefined =>
+      hit.unit?.course.id ?? unitsById.get(hit.unitId)?.courseId;
+
+    const filtered = hits.filter(hit => {
+      if (args.unitId && hit.unitId !== args.unitId) {
+        return false;
+      }
+      if (scoped) {
+        const courseId = courseIdFor(hit);
+        return courseId !== undefined && courseTitles.has(courseId);
+      }
+      return true;
+    });
+
+    const ranked = rankLessons(filtered, args.query);
+    const page = ranked.slice(offset, offset + limit);
+    const nextOffset = offset + page.length;
+
+    const brainloopTitleFor = (hit: LessonSearchHit): string | undefined => {
+      const courseId = courseIdFor(hit);
+      return hit.unit?.course.title ?? (courseId ? courseTitles.get(courseId) : undefined);
+    };
+    const unitTitleFor = (hit: LessonSearchHit): string | undefined =>
+      hit.unit?.title ?? unitsById.get(hit.unitId)?.title;
+
+    const result = {
+      query: args.query,
+      total: ranked.length,
+      offset,
+      ...(nextOffset < ranked.length && { nextOffset }),
+      results: page.map(({ lesson, snippet }) => {
+        const brainloopId = courseIdFor(lesson);
+        const brainloopTitle = brainloopTitleFor(lesson);
+        const unitTitle = unitTitleFor(lesson);
+        return {
+          lesson: summarizeLesson(lesson),
+          ...(unitTitle && { unitTitle }),
+          ...(brainloopId && { brainloopId }),
+          ...(brainloopTitle && { brainloopTitle }),
+          ...(snippet && { snippet }),
+        };
+      }),
+    };
+
+    if (page.length === 0) {
+      return formatToolResponse({
+        message: `🔎 **No lessons found for "${args.query}"**\n\n` +
+          (ranked.length > 0
+            ? `There are only ${ranked.length} result(s); try a smaller offset.`
+            : scoped || args.unitId
+              ? `💡 Try removing the course, track or unit filter.`
+              : `💡 Try different or fewer search terms.`),
+        result,
+      });
+    }
+
+    const breadcrumbFor = (hit: LessonSearchHit): string => formatBreadcrumb(
+      brainloopTitleFor(hit) ?? 'Unknown brainloop',
+      unitTitleFor(hit) ?? `Unit ${hit.unitId}`,
+      hit.title
+    );
+
+    return formatToolResponse({
+      message: `🔎 **Lesson Search Results** for "${args.query}"\n\n` +
+        `Showing ${offset + 1}-${nextOffset} of ${ranked.length} result(s)\n\n` +
+        page.map(({ lesson, snippet }, i) =>
+          `${offset + i + 1}. **${lesson.title}**\n` +
+          `   🧠 ${breadcrumbFor(lesson)}\n` +
+          `   Lesson ID: ${lesson.id} • Unit ID: ${lesson.unitId}` +
+          (courseIdFor(lesson) ? ` • Brainloop ID: ${courseIdFor(lesson)}` : '') +
+          `\n` +
+          (snippet ? `   > ${snippet}\n` : '')
+        ).join('\n') +
+        (nextOffset < ranked.length
+          ? `\n💡 More results available. Call \`search_lessons\` again with offset=${nextOffset}.`
+          : `\n💡 Use \`get_lesson\` with a lesson ID to read the full content.`),
+      result,
+    });
+  } catch (error) {
+    logger.error('Failed to search lessons', { error, query: args.query });
+    throw new Error(`Failed to search lessons: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 /**
  * Detect duplicate units and empty lessons
  */
@@ -619,18 +1022,126 @@ export async function handleDetectDuplicates(
       responseText += `✅ No empty units found.`;
     }
 
-    return {
-      content: [{
-        type: 'text',
-        text: responseText
-      }]
-    };
+    return formatToolResponse({
+      message: responseText,
+      result: {
+        brainloopId: result.courseId,
+        brainloopTitle: result.courseTitle,
+        summary: {
+          totalUnits: result.summary.totalUnits,
+          duplicateGroups: result.summary.duplicateGroups,
+          emptyUnits: result.summary.emptyUnits,
+        },
+        duplicates: result.duplicates.map((group: any) => ({
+          normalizedTitle: group.normalizedTitle,
+          units: group.units.map((unit: any) => ({
+            id: unit.id,
+            title: unit.title,
+            order: unit.order,
+            lessonCount: unit.lessonCount,
+            emptyLessonCount: unit.emptyLessonCount,
+          })),
+        })),
+        emptyUnits: result.emptyUnits.map((unit: any) => ({
+          id: unit.id,
+          title: unit.title,
+          order: unit.order,
+          lessonCount: unit.lessonCount,
+          emptyLessons: unit.lessons.map((lesson: any) => ({ id: lesson.id, title: lesson.title })),
+        })),
+      },
+    });
   } catch (error) {
     logger.error('Failed to detect duplicates', { error, courseId: args.courseId });
     throw new Error(`Failed to detect duplicates: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
+function formatTypeMix(typeMix: Record<string, number>): string {
+  const entries = Object.entries(typeMix).sort(([a], [b]) => a.localeCompare(b));
+  return entries.length > 0 ? entries.map(([type, count]) => `${type} ×${count}`).join(', ') : 'none';
+}
+
+/**
+ * Check every lesson of a brainloop against the prompts-per-lesson target
+ */
+export async function handleCoverageReport(
+  args: { brainloopId: string; targetPrompts?: number },
+  context: BrainloopToolContext
+): Promise<CallToolResult> {
+  try {
+    logger.info(`📊 Building coverage report for brainloop ${args.brainloopId}`);
+    const snapshot = await loadCourseSnapshot(context.brainloopService, args.brainloopId);
+    const report = buildCoverageReport(snapshot, args.targetPrompts ?? DEFAULT_TARGET_PROMPTS);
+    const { summary, targetPrompts } = report;
+
+    let responseText = `📊 **Interaction Coverage Report**\n\n`;
+    responseText += `**Brainloop:** ${report.courseTitle}\n`;
+    responseText += `**Brainloop ID:** ${report.courseId}\n`;
+    responseText += `**Target:** ${targetPrompts} prompts per lesson, each with an explanation\n\n`;
+
+    if (summary.totalLessons === 0) {
+      responseText += `This brainloop has no lessons yet. Use expand_brainloop to add them.`;
+      return formatToolResponse({ message: responseText, result: { report } });
+    }
+
+    responseText += `**Summary:**\n`;
+    responseText += `- Lessons: ${summary.totalLessons} (${summary.compliantLessons} complete)\n`;
+    responseText += `- Without an interaction: ${summary.lessonsWithoutInteraction}\n`;
+    responseText += `- Below ${targetPrompts} prompts: ${summary.lessonsBelowTarget}\n`;
+    responseText += `- Prompts missing explanations: ${summary.promptsMissingExplanations} of ${summary.totalPrompts}\n`;
+    responseText += `- Prompt types: ${formatTypeMix(summary.typeMix)}\n\n`;
+
+    const incomplete = report.lessons.filter(lesson => !lesson.compliant);
+    if (incomplete.length > 0) {
+      responseText += `**📋 Checklist:**\n`;
+      let unitId: string | undefined;
+      for (const lesson of incomplete) {
+        if (lesson.unitId !== unitId) {
+          unitId = lesson.unitId;
+          responseText += `\n**${lesson.unitTitle}**\n`;
+        }
+        responseText += `- [ ] **${lesson.lessonTitle}** (Lesson ID: ${lesson.lessonId})\n`;
+        if (!lesson.hasInteraction) {
+          responseText += `  - Create an interaction (create_interaction), then add ${targetPrompts} prompts\n`;
+        } else if (lesson.promptCount < targetPrompts) {
+          responseText += `  - Add ${targetPrompts - lesson.promptCount} more prompt(s) (has ${lesson.promptCount} of ${targetPrompts})\n`;
+        }
+        if (lesson.missingExplanations.length > 0) {
+          responseText += `  - Add explanations to prompts: ${lesson.missingExplanations.join(', ')}\n`;
+        }
+        if (lesson.promptCount > 0) {
+          responseText += `  - Prompt types: ${formatTypeMix(lesson.typeMix)}\n`;
+        }
+      }
+      responseText += `\n`;
+    }
+
+    const complete = report.lessons.filter(lesson => lesson.compliant);
+    if (complete.length > 0) {
+      responseText += `**✅ Complete Lessons:**\n`;
+      for (const lesson of complete) {
+        responseText += `- ${lesson.lessonTitle} (Lesson ID: ${lesson.lessonId}): ${lesson.promptCount} prompts — ${formatTypeMix(lesson.typeMix)}\n`;
+      }
+      responseText += `\n`;
+    }
+
+    if (incomplete.length === 0) {
+      responseText += `🎉 Every lesson meets the target!`;
+    } else {
+      responseText += `💡 Use create_prompts_batch with a lesson's interaction to add prompts.`;
+      if (summary.promptsMissingExplanations > 0) {
+        responseText += ` Prompts cannot be edited in place, so a prompt missing its explanation has to be recreated with one.`;
+      }
+    }
+
+    return formatToolResponse({ message: responseText, result: { report } });
+  } catch (error) {
+    logger.error('Failed to build coverage report', { error, brainloopId: args.brainloopId });
+    throw new Error(`Failed to build coverage report: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 /**
  * Reorder units in a course
  */
@@ -652,12 +1163,14 @@ export async function handleReorderUnits(
       responseText += `   Lessons: ${unit._count.lessons}\n`;
     }
 
-    return {
-      content: [{
-        type: 'text',
-        text: responseText
-      }]
-    };
+    return formatToolResponse({
+      message: responseText,
+      result: {
+        brainloopId: result.course.id,
+        brainloopTitle: result.course.title,
+        units: result.units.map(summarizeUnit),
+      },
+    });
   } catch (error) {
     logger.error('Failed to reorder units', { error, brainloopId: args.brainloopId });
     throw new Error(`Failed to reorder units: ${error instanceof Error ? error.message : String(error)}`);
@@ -686,12 +1199,10 @@ export async function handleMoveLesson(
     responseText += `**New Order:** ${result.order}\n\n`;
     responseText += `💡 The lesson has been moved to the target unit. Other lessons in both units have been automatically reordered.`;
 
-    return {
-      content: [{
-        type: 'text',
-        text: responseText
-      }]
-    };
+    return formatToolResponse({
+      message: responseText,
+      result: { lesson: summarizeLesson(result) },
+    });
   } catch (error) {
     logger.error('Failed to move lesson', { error, lessonId: args.lessonId, targetUnitId: args.targetUnitId });
     throw new Error(`Failed to move lesson: ${error instanceof Error ? error.message : String(error)}`);
@@ -757,12 +1268,22 @@ export async function handleCleanupEmptyContent(
       responseText += `\n🎉 Course cleaned up successfully!`;
     }
 
-    return {
-      content: [{
-        type: 'text',
-        text: responseText
-      }]
-    };
+    const units: any[] = result.dryRun ? result.unitsToDelete : result.deletedUnits;
+    return formatToolResponse({
+      message: responseText,
+      result: {
+        dryRun: !!result.dryRun,
+        brainloopId: result.courseId,
+        brainloopTitle: result.courseTitle,
+        unitsDeleted: result.dryRun ? result.summary.unitsToDelete : result.summary.unitsDeleted,
+        lessonsDeleted: result.dryRun ? result.summary.lessonsToDelete : result.summary.lessonsDeleted,
+        units: units.map(unit => ({
+          ...(unit.id && { id: unit.id }),
+          title: unit.title,
+          lessonCount: unit.lessonCount,
+        })),
+      },
+    });
   } catch (error) {
     logger.error('Failed to cleanup empty content', { error, courseId: args.courseId });
     throw new Error(`Failed to cleanup empty content: ${error instanceof Error ? error.message : String(error)}`);
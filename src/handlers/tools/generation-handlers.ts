@@ -0,0 +1,520 @@
+/**
+ * @file Tool handlers that generate course content through MCP sampling
+ * @module handlers/tools/generation-handlers
+ *
+ * @remarks
+ * These handlers ask the client's model to write content, then validate it
+ * before anything is created:
+ * - Generate prompts for every lesson below the prompts-per-lesson target,
+ *   or create the prompts of an earlier preview once the user has seen them
+ * - Review a lesson against the lesson template, and apply the suggested
+ *   edits once the user has seen them
+ *
+ * Every sampling request goes through the client, so the user can review
+ * or reject each one.
+ */
+
+import { randomUUID } from 'crypto';
+import { logger } from '../../utils/logger.js';
+import { parseSamplingResponse } from '../../utils/sampling-response.js';
+import type { BrainloopService, PromptInput } from '../../services/brainloop/brainloop-service.js';
+import { loadCourseSnapshot } from '../../services/brainloop/course-planner.js';
+import { DEFAULT_TARGET_PROMPTS } from '../../services/brainloop/coverage-report.js';
+import {
+  buildGenerationRequest,
+  getGenerationPreview,
+  parseGeneratedPrompts,
+  removeGenerationPreviews,
+  saveGenerationPreview,
+  type GenerationPreview,
+  type GenerationTarget,
+} from '../../services/brainloop/interaction-generator.js';
+import { GENERATABLE_PROMPT_TYPES, type GeneratablePromptType } from '../../services/brainloop/prompt-types.js';
+import type { ValidatedPrompt } from '../../services/brainloop/prompt-schema.js';
+import {
+  applyLessonEdits,
+  buildLessonReviewRequest,
+  getLessonReview,
+  hashLessonContent,
+  removeLessonReviews,
+  saveLessonReview,
+  type LessonReview,
+} from '../../services/brainloop/lesson-review.js';
+import { LESSON_CRITIQUE_RESPONSE_SCHEMA, LESSON_REVIEW_CRITERIA, type LessonCritique } from '../../types/sampling-schemas.js';
+import { normalizeTitle } from '../../utils/content-matching.js';
+import { clientSupportsSampling, sendSamplingRequest } from '../sampling.js';
+import { sendProgressNotification } from '../notifications.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { formatToolResponse } from './types.js';
+
+interface BrainloopToolContext {
+  brainloopService: BrainloopService;
+  userId: string;
+  sessionId: string;
+  progressToken?: string | number;
+}
+
+/**
+ * Lessons handled per call unless the caller asks for more, so one call
+ * does not queue dozens of sampling requests for the user to review
+ */
+const DEFAULT_MAX_LESSONS = 10;
+
+interface LessonGenerationResult {
+  lessonId: string;
+  lessonTitle: string;
+  status: 'created' | 'preview' | 'failed';
+  prompts: ValidatedPrompt[];
+  errors: string[];
+  notes: string[];
+}
+
+const STATUS_ICONS: Record<LessonGenerationResult['status'], string> = {
+  created: '✅',
+  preview: '👀',
+  failed: '❌',
+};
+
+function formatGeneratedPrompt(prompt: ValidatedPrompt, index: number): string {
+  return `  ${index + 1}. (${prompt.type}) ${prompt.question}\n` +
+    ('options' in prompt ? `     Options: ${prompt.options.map((option, i) => `${i}) ${option}`).join(' | ')}\n` : '') +
+    `     Answer: ${JSON.stringify(prompt.answer)}\n`;
+}
+
+function formatLessonResult(lessonResult: LessonGenerationResult, showPrompts: boolean): string {
+  let text = `${STATUS_ICONS[lessonResult.status]} **${lessonResult.lessonTitle}** (Lesson ID: ${lessonResult.lessonId})`;
+  text += lessonResult.status === 'failed' ? ` — not changed\n` : ` — ${lessonResult.prompts.length} prompts\n`;
+  if (showPrompts) {
+    text += lessonResult.prompts.map(formatGeneratedPrompt).join('');
+  }
+  text += lessonResult.errors.map(error => `  - ⚠️ ${error}\n`).join('');
+  text += lessonResult.notes.map(note => `  - ${note}\n`).join('');
+  return text;
+}
+
+/**
+ * Generate prompts with the client's model for lessons below the target, or
+ * create the prompts of an earlier preview
+ */
+export async function handleGenerateInteractions(
+  args: {
+    brainloopId: string;
+    unitId?: string;
+    targetPrompts?: number;
+    promptTypes?: GeneratablePromptType[];
+    maxLessons?: number;
+    dryRun?: boolean;
+    previewId?: string;
+  },
+  context: BrainloopToolContext
+): Promise<CallToolResult> {
+  try {
+    if (args.previewId) {
+      if (args.dryRun) {
+        throw new Error('previewId creates the prompts of an earlier preview; leave out dryRun');
+      }
+      return await createPreviewedPrompts({ brainloopId: args.brainloopId, previewId: args.previewId }, context);
+    }
+
+    const targetPrompts = args.targetPrompts ?? DEFAULT_TARGET_PROMPTS;
+    const promptTypes = args.promptTypes?.length ? [...new Set(args.promptTypes)] : [...GENERATABLE_PROMPT_TYPES];
+    const dryRun = args.dryRun ?? false;
+    logger.info(`🪄 ${dryRun ? 'Previewing' : 'Generating'} interactions for brainloop ${args.brainloopId}`, { unitId: args.unitId, targetPrompts });
+
+    if (!clientSupportsSampling(context.sessionId)) {
+      throw new Error('The connected client does not support sampling, so prompts cannot be generated; write them with create_prompts_batch instead');
+    }
+
+    const snapshot = await loadCourseSnapshot(context.brainloopService, args.brainloopId);
+    const units = args.unitId ? snapshot.units.filter(({ unit }) => unit.id === args.unitId) : snapshot.units;
+    if (args.unitId && units.length === 0) {
+      throw new Error(`Unit ${args.unitId} is not part of brainloop "${snapshot.course.title}"`);
+    }
+
+    const underCovered = units.flatMap(({ lessons }) => lessons)
+      .filter(({ prompts }) => prompts.prompts.length < targetPrompts);
+    const selected = underCovered.slice(0, args.maxLessons ?? DEFAULT_MAX_LESSONS);
+
+    const results: LessonGenerationResult[] = [];
+    for (const [index, { lesson, prompts: lessonPrompts }] of selected.entries()) {
+      if (context.progressToken !== undefined) {
+        await sendProgressNotification(context.progressToken, index, selected.length, context.sessionId);
+      }
+
+      const result: LessonGenerationResult = {
+        lessonId: lesson.id,
+        lessonTitle: lesson.title,
+        status: 'failed',
+        prompts: [],
+        errors: [],
+        notes: [],
+      };
+      results.push(result);
+
+      try {
+        const fullLesson = await context.brainloopService.getLesson(lesson.id);
+        const target: GenerationTarget = {
+          lesson: fullLesson,
+          existingQuestions: lessonPrompts.prompts.map(prompt => prompt.question),
+          count: targetPrompts - lessonPrompts.prompts.length,
+          promptTypes,
+        };
+
+        const samplingResult = await sendSamplingRequest(buildGenerationRequest(target), context);
+        const outcome = parseGeneratedPrompts(samplingResult, target);
+        result.notes = outcome.notes;
+        if (outcome.errors.length > 0) {
+          result.errors = outcome.errors;
+          continue;
+        }
+        if (outcome.prompts.length === 0) {
+          result.errors = ['The model returned no new prompts'];
+          continue;
+        }
+        result.prompts = outcome.prompts;
+
+        if (dryRun) {
+          result.status = 'preview';
+          continue;
+        }
+
+        const interactionId = lessonPrompts.interaction?.id
+          ?? (await context.brainloopService.createInteraction(lesson.id)).id;
+        await context.brainloopService.createPromptsBatch(interactionId, outcome.prompts as PromptInput[]);
+        result.status = 'created';
+        logger.info(`✅ Generated ${outcome.prompts.length} prompts for lesson ${lesson.id}`);
+      } catch (error) {
+        logger.warn('Failed to generate prompts for lesson', { error, lessonId: lesson.id });
+        result.errors = [error instanceof Error ? error.message : String(error)];
+      }
+    }
+
+    if (context.progressToken !== undefined && selected.length > 0) {
+      await sendProgressNotification(context.progressToken, selected.length, selected.length, context.sessionId);
+    }
+
+    // Keep the previewed prompts so they can be created without asking the model again
+    const previewed = results.filter(lessonResult => lessonResult.status === 'preview');
+    const preview: GenerationPreview | undefined = dryRun && previewed.length > 0
+      ? {
+        previewId: randomUUID(),
+        brainloopId: args.brainloopId,
+        brainloopTitle: snapshot.course.title,
+        targetPrompts,
+        promptTypes,
+        lessons: previewed.map(({ lessonId, lessonTitle, prompts }) => ({ lessonId, lessonTitle, prompts })),
+        remainingLessons: underCovered.length - selected.length,
+        createdAt: new Date(),
+      }
+      : undefined;
+    if (preview) {
+      saveGenerationPreview(context.sessionId, preview);
+    }
+
+    const result = {
+      brainloopId: args.brainloopId,
+      brainloopTitle: snapshot.course.title,
+      dryRun,
+      targetPrompts,
+      promptTypes,
+      ...(preview && { previewId: preview.previewId }),
+      lessons: results,
+      remainingLessons: underCovered.length - selected.length,
+    };
+
+    let responseText = `🪄 **${dryRun ? 'Interaction Generation Preview' : 'Interaction Generation'}**\n\n`;
+    responseText += `**Brainloop:** ${snapshot.course.title}\n`;
+    responseText += `**Target:** ${targetPrompts} prompts per lesson\n`;
+    responseText += `**Prompt types:** ${promptTypes.join(', ')}\n\n`;
+
+    if (underCovered.length === 0) {
+      responseText += `✅ Every lesson${args.unitId ? ' in this unit' : ''} already has at least ${targetPrompts} prompts.`;
+      return formatToolResponse({ message: responseText, result });
+    }
+
+    const succeeded = results.filter(lessonResult => lessonResult.status !== 'failed');
+    const promptCount = succeeded.reduce((sum, lessonResult) => sum + lessonResult.prompts.length, 0);
+    responseText += dryRun
+      ? `Generated ${promptCount} prompts for ${succeeded.length} of ${results.length} lessons. Nothing was created.\n\n`
+      : `Created ${promptCount} prompts for ${succeeded.length} of ${results.length} lessons.\n\n`;
+
+    responseText += results.map(lessonResult => formatLessonResult(lessonResult, dryRun)).join('');
+
+    if (underCovered.length > selected.length) {
+      responseText += `\n⏭️ ${underCovered.length - selected.length} more lessons are below the target. Run generate_interactions again to continue.`;
+    }
+    if (preview) {
+      responseText += `\n💡 Nothing has been created yet. To create exactly these prompts, confirm with the user, then call \`generate_interactions\` with brainloopId ${args.brainloopId}` +
+        ` and previewId \`${preview.previewId}\`.`;
+    }
+
+    return formatToolResponse({ message: responseText, result });
+  } catch (error) {
+    logger.error('Failed to generate interactions', { error, brainloopId: args.brainloopId });
+    throw new Error(`Failed to generate interactions: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Create the prompts of a preview, as the user saw them
+ */
+async function createPreviewedPrompts(
+  args: { brainloopId: string; previewId: string },
+  context: BrainloopToolContext
+): Promise<CallToolResult> {
+  const preview = getGenerationPreview(context.sessionId, args.previewId);
+  if (!preview || preview.brainloopId !== args.brainloopId) {
+    throw new Error(`Preview ${args.previewId} of brainloop ${args.brainloopId} was not found in this session or has expired; run generate_interactions with dryRun again`);
+  }
+  logger.info(`🪄 Creating previewed interactions for brainloop ${args.brainloopId}`, { previewId: args.previewId });
+
+  const results: LessonGenerationResult[] = [];
+  for (const [index, lesson] of preview.lessons.entries()) {
+    if (context.progressToken !== undefined) {
+      await sendProgressNotification(context.progressToken, index, preview.lessons.length, context.sessionId);
+    }
+
+    const result: LessonGenerationResult = {
+      lessonId: lesson.lessonId,
+      lessonTitle: lesson.lessonTitle,
+      status: 'failed',
+      prompts: [],
+      errors: [],
+      notes: [],
+    };
+    results.push(result);
+
+    try {
+      // The lesson may have gained prompts or an interaction since the preview
+      const existing = await context.brainloopService.getLessonPrompts(lesson.lessonId);
+      const questions = new Set(existing.prompts.map(prompt => normalizeTitle(prompt.question)));
+      const prompts = lesson.prompts.filter(prompt => !questions.has(normalizeTitle(prompt.question)));
+      if (prompts.length < lesson.prompts.length) {
+        result.notes.push(`Skipped ${lesson.prompts.length - prompts.length} question(s) the lesson already has`);
+      }
+      if (prompts.length > 0) {
+        const interactionId = existing.interaction?.id
+          ?? (await context.brainloopService.createInteraction(lesson.lessonId)).id;
+        await context.brainloopService.createPromptsBatch(interactionId, prompts as PromptInput[]);
+      }
+      result.prompts = prompts;
+      result.status = 'created';
+    } catch (error) {
+      logger.warn('Failed to create previewed prompts for lesson', { error, lessonId: lesson.lessonId });
+      result.errors = [error instanceof Error ? error.message : String(error)];
+    }
+  }
+
+  if (context.progressToken !== undefined && preview.lessons.length > 0) {
+    await sendProgressNotification(context.progressToken, preview.lessons.length, preview.lessons.length, context.sessionId);
+  }
+
+  // Keep the lessons that failed so the same preview can be retried
+  const failed = preview.lessons.filter((_lesson, index) => results[index].status === 'failed');
+  if (failed.length > 0) {
+    saveGenerationPreview(context.sessionId, { ...preview, lessons: failed });
+  } else {
+    removeGenerationPreviews(context.sessionId, preview.previewId);
+  }
+
+  const created = results.filter(lessonResult => lessonResult.status === 'created');
+  const promptCount = created.reduce((sum, lessonResult) => sum + lessonResult.prompts.length, 0);
+
+  let responseText = `🪄 **Interaction Generation**\n\n`;
+  responseText += `**Brainloop:** ${preview.brainloopTitle}\n`;
+  responseText += `**Preview ID:** \`${preview.previewId}\`\n\n`;
+  responseText += `Created ${promptCount} previewed prompts for ${created.length} of ${results.length} lessons.\n\n`;
+  responseText += results.map(lessonResult => formatLessonResult(lessonResult, false)).join('');
+  if (failed.length > 0) {
+    responseText += `\n💡 The ${failed.length} failed lesson(s) are kept in the preview; call \`generate_interactions\` with the same previewId to retry them.`;
+  } else if (preview.remainingLessons > 0) {
+    responseText += `\n⏭️ ${preview.remainingLessons} more lessons were below the target. Run generate_interactions again to continue.`;
+  }
+
+  return formatToolResponse({
+    message: responseText,
+    result: {
+      brainloopId: preview.brainloopId,
+      brainloopTitle: preview.brainloopTitle,
+      dryRun: false,
+      targetPrompts: preview.targetPrompts,
+      promptTypes: preview.promptTypes,
+      previewId: preview.previewId,
+      lessons: results,
+      remainingLessons: preview.remainingLessons,
+    },
+  });
+}
+
+function quote(text: string): string {
+  return text.split('\n').map(line => `     > ${line}`).join('\n');
+}
+
+/**
+ * A review as structured content
+ */
+function summarizeLessonReview(review: LessonReview, saved: boolean) {
+  const { critique } = review;
+  return {
+    mode: 'review' as const,
+    lesson: { id: review.lessonId, title: review.lessonTitle },
+    ...(saved && { reviewId: review.reviewId }),
+    score: LESSON_REVIEW_CRITERIA.reduce((sum, criterion) => sum + critique.scores[criterion].score, 0),
+    maxScore: LESSON_REVIEW_CRITERIA.length * 5,
+    summary: critique.summary,
+    scores: critique.scores,
+    edits: critique.edits.map((edit, index) => ({ number: index + 1, ...edit })),
+  };
+}
+
+function formatLessonReview(review: LessonReview): string {
+  const { critique } = review;
+  const total = LESSON_REVIEW_CRITERIA.reduce((sum, criterion) => sum + critique.scores[criterion].score, 0);
+
+  let text = `**Lesson:** ${review.lessonTitle} (Lesson ID: ${review.lessonId})\n`;
+  text += `**Review ID:** \`${review.reviewId}\`\n`;
+  text += `**Score:** ${total}/${LESSON_REVIEW_CRITERIA.length * 5}\n\n`;
+  text += `${critique.summary}\n\n`;
+
+  text += `| Criterion | Score | Comment |\n|---|---|---|\n`;
+  for (const criterion of LESSON_REVIEW_CRITERIA) {
+    const { score, comment } = critique.scores[criterion];
+    text += `| ${criterion} | ${score}/5 | ${comment.replace(/\|/g, '\\|').replace(/\n/g, ' ')} |\n`;
+  }
+
+  if (critique.edits.length === 0) {
+    text += `\n✅ No edits suggested.\n`;
+    return text;
+  }
+
+  text += `\n**Suggested edits (${critique.edits.length}):**\n`;
+  critique.edits.forEach((edit, index) => {
+    text += `${index + 1}. [${edit.criterion}] ${edit.reason}\n`;
+    text += `   Replace:\n${quote(edit.find)}\n`;
+    text += edit.replace ? `   With:\n${quote(edit.replace)}\n` : `   With: (delete)\n`;
+  });
+  return text;
+}
+
+/**
+ * Review a lesson with the client's model, or apply the edits of an earlier review
+ */
+export async function handleReviewLesson(
+  args: {
+    lessonId: string;
+    reviewId?: string;
+    applyEdits?: number[];
+  },
+  context: BrainloopToolContext
+): Promise<CallToolResult> {
+  try {
+    if (args.reviewId) {
+      return await applyLessonReview({ ...args, reviewId: args.reviewId }, context);
+    }
+    if (args.applyEdits) {
+      throw new Error('applyEdits needs the reviewId of the review the edits come from');
+    }
+
+    logger.info(`🔍 Reviewing lesson ${args.lessonId}`);
+    if (!clientSupportsSampling(context.sessionId)) {
+      throw new Error('The connected client does not support sampling, so the lesson cannot be reviewed');
+    }
+
+    const lesson = await context.brainloopService.getLesson(args.lessonId);
+    const samplingResult = await sendSamplingRequest(buildLessonReviewRequest(lesson), context);
+    const critique = parseSamplingResponse<LessonCritique>(samplingResult, LESSON_CRITIQUE_RESPONSE_SCHEMA, 'lesson review');
+
+    const review: LessonReview = {
+      reviewId: randomUUID(),
+      lessonId: lesson.id,
+      lessonTitle: lesson.title,
+      contentHash: hashLessonContent(lesson.content),
+      critique,
+      createdAt: new Date(),
+    };
+    if (critique.edits.length > 0) {
+      saveLessonReview(context.sessionId, review);
+    }
+
+    let responseText = `🔍 **Lesson Review**\n\n` + formatLessonReview(review);
+    if (critique.edits.length > 0) {
+      responseText += `\n💡 Nothing has been changed yet. To apply the edits, confirm with the user, then call \`review_lesson\` with lessonId ${lesson.id}` +
+        ` and reviewId \`${review.reviewId}\` (add applyEdits, e.g. [1, 3], to apply only some of them).`;
+    }
+
+    return formatToolResponse({
+      message: responseText,
+      result: summarizeLessonReview(review, critique.edits.length > 0),
+    });
+  } catch (error) {
+    logger.error('Failed to review lesson', { error, lessonId: args.lessonId });
+    throw new Error(`Failed to review lesson: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function applyLessonReview(
+  args: { lessonId: string; reviewId: string; applyEdits?: number[] },
+  context: BrainloopToolContext
+): Promise<CallToolResult> {
+  const review = getLessonReview(context.sessionId, args.reviewId);
+  if (!review || review.lessonId !== args.lessonId) {
+    throw new Error(`Review ${args.reviewId} of lesson ${args.lessonId} was not found in this session or has expired; run review_lesson again`);
+  }
+
+  const { edits } = review.critique;
+  const selected = args.applyEdits ? [...new Set(args.applyEdits)].sort((a, b) => a - b) : edits.map((_, index) => index + 1);
+  const unknown = selected.filter(number => number > edits.length);
+  if (unknown.length > 0) {
+    throw new Error(`The review has ${edits.length} edits; there is no edit ${unknown.join(', ')}`);
+  }
+
+  logger.info(`✏️ Applying ${selected.length} review edits to lesson ${args.lessonId}`, { reviewId: args.reviewId });
+
+  // Edits quote the reviewed content, so they are only safe on that version
+  const lesson = await context.brainloopService.getLesson(args.lessonId);
+  if (hashLessonContent(lesson.content) !== review.contentHash) {
+    removeLessonReviews(context.sessionId, review.reviewId);
+    return formatToolResponse({
+      message: `⚠️ **Lesson Changed Since Review**\n\n` +
+        `The content of "${lesson.title}" changed after review ${review.reviewId}, so none of its edits were applied.\n\n` +
+        `💡 Run \`review_lesson\` with lessonId ${lesson.id} again to review the current version.`,
+      result: {
+        mode: 'apply',
+        lesson: { id: lesson.id, title: lesson.title },
+        reviewId: review.reviewId,
+        lessonChanged: true,
+        applied: [],
+        skipped: [],
+      },
+    });
+  }
+
+  const outcome = applyLessonEdits(lesson.content, selected.map(number => ({ number, ...edits[number - 1] })));
+  if (outcome.applied.length > 0) {
+    await context.brainloopService.updateLesson(lesson.id, { content: outcome.content });
+  }
+  removeLessonReviews(context.sessionId, review.reviewId);
+
+  let responseText = outcome.applied.length > 0 ? `✅ **Review Edits Applied**\n\n` : `⚠️ **No Review Edits Applied**\n\n`;
+  responseText += `**Lesson:** ${lesson.title} (Lesson ID: ${lesson.id})\n`;
+  responseText += `**Applied:** ${outcome.applied.length > 0 ? outcome.applied.join(', ') : 'none'}\n`;
+  if (outcome.applied.length > 0) {
+    responseText += `**Content Length:** ${lesson.content.length} → ${outcome.content.length} characters\n`;
+  }
+  if (outcome.skipped.length > 0) {
+    responseText += `\n**Skipped (${outcome.skipped.length}):**\n`;
+    responseText += outcome.skipped.map(({ edit, reason }) => `- Edit ${edit}: ${reason}`).join('\n') + '\n';
+  }
+
+  return formatToolResponse({
+    message: responseText,
+    result: {
+      mode: 'apply',
+      lesson: { id: lesson.id, title: lesson.title },
+      reviewId: review.reviewId,
+      lessonChanged: false,
+      applied: outcome.applied,
+      skipped: outcome.skipped,
+    },
+  });
+}
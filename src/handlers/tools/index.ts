@@ -1,6 +1,11 @@
 export * from './types.js';
 export * from './brainloop-handlers.js';
 export * from './track-handlers.js';
+export * from './learner-handlers.js';
+export * from './quiz-handlers.js';
+export * from './spec-handlers.js';
+export * from './interchange-handlers.js';
+export * from './generation-handlers.js';
 
 export type {
   ToolHandler,
@@ -14,14 +19,17 @@ export {
   handleBrainloopProgress,
   handleGetUnitLessons,
   handleGetLesson,
+  handleSearchLessons,
   handleCreateInteraction,
   handleCreatePrompt,
   handleCreatePromptsBatch,
+  handleVerifyCodePrompt,
   handleGetLessonPrompts,
   handleUpdateLesson,
   handleUpdateUnit,
   handleDetectDuplicates,
   handleCleanupEmptyContent,
+  handleCoverageReport,
   handleReorderUnits
 } from './brainloop-handlers.js';
 export {
@@ -31,3 +39,30 @@ export {
   handleAddCourseToTrack,
   handleEnrollInTrack
 } from './track-handlers.js';
+export {
+  handleBrowseCatalog,
+  handleEnrollInCourse,
+  handleCompleteLesson,
+  handleReviewQueue,
+  handleRecordReview
+} from './learner-handlers.js';
+export {
+  handleStartQuiz,
+  handleAnswerQuizPrompt,
+  handleFinishQuiz
+} from './quiz-handlers.js';
+export {
+  handlePlanBrainloop,
+  handleApplyBrainloop
+} from './spec-handlers.js';
+export {
+  handleExportBrainloop,
+  handleImportBrainloop,
+  handleExportQuiz,
+  handleImportQuiz,
+  handleExportFlashcards
+} from './interchange-handlers.js';
+export {
+  handleGenerateInteractions,
+  handleReviewLesson
+} from './generation-handlers.js';
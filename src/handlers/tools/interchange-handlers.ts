@@ -0,0 +1,486 @@
+/**
+ * @file Content interchange tool handlers
+ * @module handlers/tools/interchange-handlers
+ *
+ * @remarks
+ * These handlers move brainloop content in and out of BRAINLOOP:
+ * - Export a brainloop to a Markdown document or bundle
+ * - Import a new brainloop from a Markdown document
+ * - Export and import prompts as LMS question banks (GIFT, QTI 2.1, Aiken)
+ * - Export prompts and lesson content as Anki flashcards
+ */
+
+import { logger } from '../../utils/logger.js';
+import type { BrainloopService } from '../../services/brainloop/brainloop-service.js';
+import { loadCourseSnapshot } from '../../services/brainloop/course-planner.js';
+import {
+  parseCourseMarkdown,
+  renderCourseBundle,
+  renderCourseMarkdown,
+  type MarkdownIssue,
+} from '../../services/brainloop/course-markdown.js';
+import { createCourseFromSpec } from '../../services/brainloop/course-import.js';
+import { OperationJournal } from '../../services/brainloop/operation-journal.js';
+import {
+  exportGift,
+  exportQti,
+  parseAiken,
+  parseGift,
+  parseQti,
+  type QuizExportItem,
+  type QuizImportResult,
+  type SkippedQuestion,
+} from '../../services/brainloop/quiz-interchange.js';
+import { buildFlashcards, formatAnkiFile } from '../../services/brainloop/flashcards.js';
+import { PromptSchema, formatValidationIssues } from '../../services/brainloop/prompt-schema.js';
+import { normalizeTitle } from '../../utils/content-matching.js';
+import { handleJournaledFailure } from './journal-failure.js';
+import { EXPORT_URI_PREFIX } from '../../constants/resources.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { formatToolResponse } from './types.js';
+
+interface BrainloopToolContext {
+  brainloopService: BrainloopService;
+  userId: string;
+  sessionId: string;
+}
+
+/**
+ * Export a brainloop to Markdown
+ */
+export async function handleExportBrainloop(
+  args: {
+    brainloopId: string;
+    format?: 'document' | 'bundle';
+  },
+  context: BrainloopToolContext
+): Promise<CallToolResult> {
+  try {
+    const format = args.format ?? 'document';
+    logger.info(`📦 Exporting brainloop ${args.brainloopId} as ${format} for user ${context.userId}`);
+
+    const snapshot = await loadCourseSnapshot(context.brainloopService, args.brainloopId);
+    const lessonCount = snapshot.units.reduce((sum, entry) => sum + entry.lessons.length, 0);
+    const promptCount = snapshot.units.reduce((sum, entry) =>
+      sum + entry.lessons.reduce((lessonSum, lesson) => lessonSum + lesson.prompts.prompts.length, 0), 0);
+
+    const files = format === 'bundle'
+      ? renderCourseBundle(snapshot).map(file => ({
+        uri: `${EXPORT_URI_PREFIX}${args.brainloopId}/${file.path}`,
+        text: file.text,
+      }))
+      : [{ uri: `${EXPORT_URI_PREFIX}${args.brainloopId}`, text: renderCourseMarkdown(snapshot) }];
+
+    let text = `📦 **Exported: ${snapshot.course.title}**\n\n`;
+    text += `**Brainloop ID:** ${args.brainloopId}\n`;
+    text += `**Format:** ${format === 'bundle' ? `bundle (${files.length} files)` : 'single document'}\n`;
+    text += `**Contents:** ${snapshot.units.length} units, ${lessonCount} lessons, ${promptCount} prompts\n\n`;
+    if (format === 'bundle') {
+      text += `**Files:**\n${files.map(file => `- ${file.uri.substring(`${EXPORT_URI_PREFIX}${args.brainloopId}/`.length)}`).join('\n')}\n\n`;
+    }
+    text += `💡 The export is deterministic: re-export after changes and diff the files to review what changed.`;
+
+    return formatToolResponse({
+      message: text,
+      result: {
+        brainloopId: args.brainloopId,
+        title: snapshot.course.title,
+        format,
+        counts: { units: snapshot.units.length, lessons: lessonCount, prompts: promptCount },
+        files: files.map(file => ({ uri: file.uri, mimeType: 'text/markdown' })),
+      },
+      attachments: files.map(file => ({
+        type: 'resource' as const,
+        resource: {
+          uri: file.uri,
+          mimeType: 'text/markdown',
+          text: file.text,
+        },
+      })),
+    });
+  } catch (error) {
+    logger.error('Failed to export brainloop', { error, userId: context.userId, brainloopId: args.brainloopId });
+    throw new Error(`Failed to export brainloop: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+function formatIssues(issues: MarkdownIssue[]): string {
+  return issues.map(issue => `- Line ${issue.line}: ${issue.message}`).join('\n');
+}
+
+/**
+ * Import a new brainloop from a Markdown document
+ */
+export async function handleImportBrainloop(
+  args: {
+    markdown: string;
+    isPublic?: boolean;
+    dryRun?: boolean;
+    rollback?: boolean;
+  },
+  context: BrainloopToolContext
+): Promise<CallToolResult> {
+  const journal = new OperationJournal(context.brainloopService);
+
+  try {
+    logger.info(`📥 Importing brainloop from Markdown for user ${context.userId}`, {
+      length: args.markdown.length,
+      dryRun: args.dryRun,
+    });
+
+    const { spec, errors, warnings } = parseCourseMarkdown(args.markdown);
+    const warningText = warnings.length > 0
+      ? `\n⚠️ **Warnings (${warnings.length}):**\n${formatIssues(warnings)}\n`
+      : '';
+
+    if (!spec) {
+      return {
+        isError: true,
+        content: [{
+          type: 'text',
+          text: `❌ **Import failed: ${errors.length} problem(s) in the Markdown**\n\n` +
+            `${formatIssues(errors)}\n` +
+            warningText +
+            `\n💡 Nothing was created. Fix the lines above and import again.`
+        }]
+      };
+    }
+
+    if (args.isPublic !== undefined) {
+      spec.isPublic = args.isPublic;
+    }
+
+    const lessonCount = spec.units.reduce((sum, unit) => sum + unit.lessons.length, 0);
+    const promptCount = spec.units.reduce((sum, unit) =>
+      sum + unit.lessons.reduce((lessonSum, lesson) => lessonSum + (lesson.prompts?.length ?? 0), 0), 0);
+
+    const summary = {
+      title: spec.title,
+      isPublic: spec.isPublic ?? false,
+      units: spec.units.map(unit => ({
+        title: unit.title,
+        lessons: unit.lessons.map(lesson => ({ title: lesson.title, promptCount: lesson.prompts?.length ?? 0 })),
+      })),
+      warnings,
+    };
+
+    let outline = '';
+    spec.units.forEach((unit, i) => {
+      outline += `${i + 1}. **${unit.title}** (${unit.lessons.length} lessons)\n`;
+      unit.lessons.forEach(lesson => {
+        outline += `   - ${lesson.title}${lesson.prompts?.length ? ` (${lesson.prompts.length} prompts)` : ''}\n`;
+      });
+    });
+
+    if (args.dryRun) {
+      return formatToolResponse({
+        message: `🔍 **Import Preview: ${spec.title}**\n\n` +
+          `The document is valid. Importing it would create ${spec.units.length} units, ${lessonCount} lessons and ${promptCount} prompts` +
+          ` as a ${spec.isPublic ? 'public' : 'private'} brainloop:\n\n${outline}` +
+          warningText +
+          `\n💡 Nothing was created. Run again without dryRun to import.`,
+        result: {
+          dryRun: true,
+          ...summary,
+          counts: { units: spec.units.length, lessons: lessonCount, prompts: promptCount },
+        },
+      });
+    }
+
+    const result = await createCourseFromSpec(context.brainloopService, spec, journal);
+
+    return formatToolResponse({
+      message: `📥 **Imported: ${spec.title}**\n\n` +
+        `**Brainloop ID:** ${result.course.id}\n` +
+        `**Visibility:** ${spec.isPublic ? 'Public' : 'Private'}\n` +
+        `**Created:** ${result.units} units, ${result.lessons} lessons, ${result.prompts} prompts in ${result.interactions} interactions\n\n` +
+        outline +
+        warningText +
+        `\n💡 Use \`get_brainloop\` with ID ${result.course.id} to review the imported brainloop.`,
+      result: {
+        dryRun: false,
+        brainloopId: result.course.id,
+        ...summary,
+        counts: { units: result.units, lessons: result.lessons, prompts: result.prompts, interactions: result.interactions },
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to import brainloop', { error, userId: context.userId });
+    return handleJournaledFailure('import brainloop', journal, error, args.rollback ?? true);
+  }
+}
+
+function formatSkipped(skipped: SkippedQuestion[]): string {
+  return skipped.map(question => `- ${question.label}: ${question.reason}`).join('\n');
+}
+
+/**
+ * Export prompts to Moodle GIFT or IMS QTI 2.1
+ */
+export async function handleExportQuiz(
+  args: {
+    format: 'gift' | 'qti';
+    lessonId?: string;
+    brainloopId?: string;
+  },
+  context: BrainloopToolContext
+): Promise<CallToolResult> {
+  try {
+    if (!args.lessonId === !args.brainloopId) {
+      throw new Error('Provide either lessonId or brainloopId');
+    }
+    logger.info(`📤 Exporting quiz as ${args.format} for user ${context.userId}`, {
+      lessonId: args.lessonId,
+      brainloopId: args.brainloopId,
+    });
+
+    let scope: { kind: 'lesson' | 'brainloop'; id: string; title: string };
+    let items: QuizExportItem[];
+    if (args.lessonId) {
+      const result = await context.brainloopService.getLessonPrompts(args.lessonId);
+      scope = { kind: 'lesson', id: args.lessonId, title: result.lesson.title };
+      items = result.prompts.map(prompt => ({ prompt, lessonTitle: result.lesson.title }));
+    } else {
+      const snapshot = await loadCourseSnapshot(context.brainloopService, args.brainloopId!);
+      scope = { kind: 'brainloop', id: args.brainloopId!, title: snapshot.course.title };
+      items = snapshot.units.flatMap(({ unit, lessons }) => lessons.flatMap(({ lesson, prompts }) =>
+        prompts.prompts.map(prompt => ({ prompt, lessonTitle: lesson.title, unitTitle: unit.title }))
+      ));
+    }
+
+    const baseUri = `quiz://${scope.kind}/${scope.id}`;
+    let files: Array<{ uri: string; mimeType: string; text: string }>;
+    let skipped: SkippedQuestion[];
+    if (args.format === 'gift') {
+      const gift = exportGift(items);
+      files = gift.exported > 0 ? [{ uri: `${baseUri}/questions.gift`, mimeType: 'text/plain', text: gift.text }] : [];
+      skipped = gift.skipped;
+    } else {
+      const qti = exportQti(items, scope.id);
+      files = qti.files.length > 1
+        ? qti.files.map(file => ({ uri: `${baseUri}/${file.path}`, mimeType: 'application/xml', text: file.text }))
+        : [];
+      skipped = qti.skipped;
+    }
+    const exported = items.length - skipped.length;
+
+    let text = `📤 **Quiz Export: ${scope.title}**\n\n`;
+    text += `**Format:** ${args.format === 'gift' ? 'Moodle GIFT' : 'IMS QTI 2.1 content package'}\n`;
+    text += `**Exported:** ${exported} of ${items.length} prompts\n`;
+    if (files.length > 1) {
+      text += `**Files:** ${files.length} (imsmanifest.xml + ${files.length - 1} items)\n`;
+    }
+    if (skipped.length > 0) {
+      text += `\n⚠️ **Not exported (${skipped.length}):**\n${formatSkipped(skipped)}\n`;
+    }
+    if (files.length === 0) {
+      text += `\n💡 No prompts could be exported.`;
+    }
+
+    return formatToolResponse({
+      message: text,
+      result: {
+        format: args.format,
+        scope,
+        exported,
+        total: items.length,
+        files: files.map(({ uri, mimeType }) => ({ uri, mimeType })),
+        skipped,
+      },
+      attachments: files.map(file => ({ type: 'resource' as const, resource: file })),
+    });
+  } catch (error) {
+    logger.error('Failed to export quiz', { error, userId: context.userId, lessonId: args.lessonId, brainloopId: args.brainloopId });
+    throw new Error(`Failed to export quiz: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Import prompts from Moodle GIFT, IMS QTI 2.1 or Aiken
+ */
+export async function handleImportQuiz(
+  args: {
+    format: 'gift' | 'qti' | 'aiken';
+    content: string;
+    lessonId?: string;
+    interactionId?: string;
+    dryRun?: boolean;
+  },
+  context: BrainloopToolContext
+): Promise<CallToolResult> {
+  try {
+    if (!args.lessonId === !args.interactionId) {
+      throw new Error('Provide either lessonId or interactionId');
+    }
+    logger.info(`📥 Importing ${args.format} quiz for user ${context.userId}`, {
+      lessonId: args.lessonId,
+      interactionId: args.interactionId,
+      dryRun: args.dryRun,
+    });
+
+    const parsed: QuizImportResult = args.format === 'gift'
+      ? parseGift(args.content)
+      : args.format === 'qti'
+        ? parseQti(args.content)
+        : parseAiken(args.content);
+    const skipped = [...parsed.skipped];
+    let prompts = parsed.prompts;
+
+    // Skip questions the lesson already has so re-imports do not duplicate prompts
+    let interactionId = args.interactionId;
+    if (args.lessonId) {
+      const existing = await context.brainloopService.getLessonPrompts(args.lessonId);
+      interactionId = existing.interaction?.id;
+      const questions = new Set(existing.prompts.map(prompt => normalizeTitle(prompt.question)));
+      prompts = prompts.filter(prompt => {
+        const duplicate = questions.has(normalizeTitle(prompt.question));
+        if (duplicate) {
+          skipped.push({ label: prompt.question, reason: 'the lesson already has this question' });
+        }
+        questions.add(normalizeTitle(prompt.question));
+        return !duplicate;
+      });
+    }
+
+    const skippedText = skipped.length > 0
+      ? `\n⚠️ **Not imported (${skipped.length}):**\n${formatSkipped(skipped)}\n`
+      : '';
+
+    // Converted questions must still meet the rules of their prompt type
+    const issues = prompts.flatMap((prompt, index) => {
+      const checked = PromptSchema.safeParse(prompt);
+      return checked.success
+        ? []
+        : checked.error.errors.map(issue => ({ ...issue, path: ['prompts', index, ...issue.path] }));
+    });
+    if (issues.length > 0) {
+      return {
+        isError: true,
+        content: [{
+          type: 'text',
+          text: `❌ **Invalid prompts in the ${args.format.toUpperCase()} content**\n\n` +
+            `${formatValidationIssues(issues, { prompts })}\n` +
+            skippedText +
+            `\n💡 Fix these questions in the source and import again.`
+        }]
+      };
+    }
+
+    const preview = prompts.map((prompt, i) => `${i + 1}. [${prompt.type}] ${prompt.question}`).join('\n');
+    const summary = {
+      prompts: prompts.map(prompt => ({ type: prompt.type, question: prompt.question })),
+      skipped,
+    };
+
+    if (prompts.length === 0) {
+      const text = `⚠️ **Nothing to import**\n\n` +
+        (parsed.prompts.length === 0
+          ? `No importable questions were found in the ${args.format.toUpperCase()} content.\n`
+          : `All ${parsed.prompts.length} question(s) are already in the lesson.\n`) +
+        skippedText;
+      if (parsed.prompts.length === 0) {
+        return {
+          isError: true,
+          content: [{ type: 'text', text }]
+        };
+      }
+      return formatToolResponse({
+        message: text,
+        result: { dryRun: args.dryRun ?? false, imported: 0, ...summary },
+      });
+    }
+
+    if (args.dryRun) {
+      return formatToolResponse({
+        message: `🔍 **Quiz Import Preview**\n\n${prompts.length} prompt(s) would be imported:\n\n${preview}\n` +
+          skippedText +
+          `\n💡 Nothing was created. Run again without dryRun to import.`,
+        result: { dryRun: true, imported: 0, ...summary },
+      });
+    }
+
+    if (!interactionId) {
+      const interaction = await context.brainloopService.createInteraction(args.lessonId!);
+      interactionId = interaction.id;
+    }
+    await context.brainloopService.createPromptsBatch(interactionId, prompts);
+
+    return formatToolResponse({
+      message: `📥 **Quiz Imported**\n\n` +
+        `**Interaction ID:** ${interactionId}\n` +
+        `**Imported:** ${prompts.length} prompt(s)\n\n${preview}\n` +
+        skippedText,
+      result: { dryRun: false, interactionId, imported: prompts.length, ...summary },
+    });
+  } catch (error) {
+    logger.error('Failed to import quiz', { error, userId: context.userId, lessonId: args.lessonId, interactionId: args.interactionId });
+    throw new Error(`Failed to import quiz: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Export a brainloop as Anki flashcards
+ */
+export async function handleExportFlashcards(
+  args: {
+    brainloopId: string;
+    format?: 'tsv' | 'csv';
+    includeLessonContent?: boolean;
+  },
+  context: BrainloopToolContext
+): Promise<CallToolResult> {
+  try {
+    const format = args.format ?? 'tsv';
+    logger.info(`🃏 Exporting flashcards for brainloop ${args.brainloopId} as ${format} for user ${context.userId}`);
+
+    const snapshot = await loadCourseSnapshot(context.brainloopService, args.brainloopId);
+    const { cards, skipped } = buildFlashcards(snapshot, { includeLessonContent: args.includeLessonContent });
+    const promptCards = cards.filter(card => card.guid.startsWith('brainloop-prompt-')).length;
+
+    let text = `🃏 **Flashcards: ${snapshot.course.title}**\n\n`;
+    text += `**Cards:** ${cards.length} (${promptCards} from prompts`;
+    text += args.includeLessonContent ? `, ${cards.length - promptCards} from lesson content)\n` : ')\n';
+    text += `**Format:** Anki text import (${format.toUpperCase()}, note type Basic)\n`;
+    if (skipped.length > 0) {
+      text += `\n⚠️ **Prompts without an answer or explanation, not exported (${skipped.length}):**\n`;
+      text += skipped.map(({ prompt, lessonTitle }) => `- ${lessonTitle}: ${prompt.question} (ID: ${prompt.id})`).join('\n') + '\n';
+    }
+    text += `\n💡 In Anki use File → Import. Decks, tags and note IDs are read from the file header, so re-importing a newer export updates existing cards.`;
+
+    const result = {
+      brainloopId: args.brainloopId,
+      title: snapshot.course.title,
+      format,
+      cardCount: cards.length,
+      promptCardCount: promptCards,
+      lessonCardCount: cards.length - promptCards,
+      skipped: skipped.map(({ prompt, lessonTitle }) => ({ promptId: prompt.id, question: prompt.question, lessonTitle })),
+    };
+
+    if (cards.length === 0) {
+      return formatToolResponse({
+        message: text + `\n\nNo cards could be created for this brainloop.`,
+        result,
+      });
+    }
+
+    const file = {
+      uri: `flashcards://brainloop/${args.brainloopId}/cards.${format}`,
+      mimeType: format === 'tsv' ? 'text/tab-separated-values' : 'text/csv',
+    };
+    return formatToolResponse({
+      message: text,
+      result: { ...result, file },
+      attachments: [{
+        type: 'resource',
+        resource: {
+          ...file,
+          text: formatAnkiFile(cards, format),
+        },
+      }],
+    });
+  } catch (error) {
+    logger.error('Failed to export flashcards', { error, userId: context.userId, brainloopId: args.brainloopId });
+    throw new Error(`Failed to export flashcards: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
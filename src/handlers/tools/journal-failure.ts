@@ -0,0 +1,63 @@
+/**
+ * @file Failure handling for journaled multi-step tools
+ * @module handlers/tools/journal-failure
+ *
+ * @remarks
+ * Shared by every tool that records its changes in an
+ * {@link OperationJournal}, so rollback and "partially applied" reports
+ * look the same whichever tool failed.
+ */
+
+import { logger } from '../../utils/logger.js';
+import { OperationJournal, formatJournalEntries } from '../../services/brainloop/operation-journal.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Handle a failed multi-step operation using its journal.
+ *
+ * With rollback enabled every recorded change is compensated and the
+ * original error is rethrown with a rollback summary. Without rollback a
+ * "partially applied" report listing the IDs that now exist is returned.
+ */
+export async function handleJournaledFailure(
+  operation: string,
+  journal: OperationJournal,
+  error: unknown,
+  rollback: boolean
+): Promise<CallToolResult> {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (journal.isEmpty()) {
+    throw new Error(`Failed to ${operation}: ${message}`);
+  }
+
+  if (rollback) {
+    const result = await journal.rollback();
+    logger.info(`↩️ Rolled back ${result.reverted.length} change(s) after failed ${operation}`, {
+      failed: result.failed.length,
+    });
+
+    throw new Error(
+      `Failed to ${operation}: ${message}. ` +
+      (result.failed.length === 0
+        ? `All ${result.reverted.length} change(s) made before the failure were rolled back.`
+        : `Rolled back ${result.reverted.length} change(s), but ${result.failed.length} could not be rolled back and remain applied:\n` +
+          result.failed.map(({ entry, error: rollbackError }) =>
+            `- ${entry.action} ${entry.type}: ${entry.title} (ID: ${entry.id}) - ${rollbackError}`
+          ).join('\n'))
+    );
+  }
+
+  const entries = journal.getEntries();
+  return {
+    isError: true,
+    content: [{
+      type: 'text',
+      text: `⚠️ **Partially Applied: failed to ${operation}**\n\n` +
+        `**Error:** ${message}\n\n` +
+        `**Changes that were applied before the failure (${entries.length}):**\n` +
+        formatJournalEntries(entries) +
+        `\n\n💡 Nothing was rolled back (rollback=false). Retry the call to continue, or remove these items manually.`
+    }]
+  };
+}
@@ -0,0 +1,454 @@
+/**
+ * @file Learner tool handlers
+ * @module handlers/tools/learner-handlers
+ *
+ * @remarks
+ * These handlers let learners drive their own study where they can:
+ * - Browse the public brainloop catalog
+ * - Enroll in a brainloop
+ * - Mark lessons as complete and see updated progress
+ * - Review completed lessons and prompts on a spaced-repetition schedule
+ */
+
+import { logger } from '../../utils/logger.js';
+import type { BrainloopService, Course, Progress, Unit } from '../../services/brainloop/brainloop-service.js';
+import { ReviewStore, reviewItemKey, type ReviewItem } from '../../services/review/review-store.js';
+import { RECALL_GRADES, applyGrade, dueBucket, newSchedule, type DueBucket } from '../../services/review/sm2.js';
+import { DEFAULT_API_CONCURRENCY, findWithConcurrency, mapWithConcurrency } from '../../utils/concurrency.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { formatToolResponse } from './types.js';
+import { summarizeBrainloop } from './summaries.js';
+
+interface BrainloopToolContext {
+  brainloopService: BrainloopService;
+  userId: string;
+  sessionId: string;
+}
+
+/**
+ * Browse public brainloops
+ */
+export async function handleBrowseCatalog(
+  args: {
+    query?: string;
+    sortBy?: 'enrollments' | 'recent';
+    limit?: number;
+  },
+  context: BrainloopToolContext
+): Promise<CallToolResult> {
+  try {
+    logger.info(`🛍️ Browsing public catalog for user ${context.userId}`, { query: args.query, sortBy: args.sortBy });
+    const courses = await context.brainloopService.getPublicCourses();
+
+    const keyword = args.query?.trim().toLowerCase();
+    const matching = keyword
+      ? courses.filter((course: Course) =>
+        course.title.toLowerCase().includes(keyword) ||
+        (course.description || '').toLowerCase().includes(keyword)
+      )
+      : courses;
+
+    const sortBy = args.sortBy ?? 'enrollments';
+    const sorted = [...matching].sort((a, b) =>
+      sortBy === 'recent'
+        ? new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+        : (b._count?.enrollments || 0) - (a._count?.enrollments || 0)
+    );
+    const shown = sorted.slice(0, args.limit ?? 20);
+
+    return formatToolResponse({
+      message: `🛍️ **Brainloop Catalog** (${shown.length} of ${matching.length}` +
+        `${keyword ? ` matching "${args.query}"` : ''}, sorted by ${sortBy === 'recent' ? 'newest' : 'most learners'})\n\n` +
+        (shown.length === 0
+          ? `No public brainloops found${keyword ? ` for "${args.query}"` : ''}.`
+          : shown.map(course =>
+            `**${course.title}**\n` +
+            `  📝 ${course.description}\n` +
+            `  🆔 ID: ${course.id}\n` +
+            (course._count ? `  📊 ${course._count.units} units • ${course._count.enrollments} learners\n` : '') +
+            `  📅 Created: ${new Date(course.createdAt).toLocaleDateString()}\n` +
+            `  👤 By: ${course.user.name}\n`
+          ).join('\n') +
+          `\n💡 Use \`enroll_in_course\` with a brainloop ID to start learning.`),
+      result: {
+        brainloops: shown.map(summarizeBrainloop),
+        total: matching.length,
+        sortBy,
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to browse catalog', { error, query: args.query });
+    throw new Error(`Failed to browse catalog: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Enroll in a brainloop
+ */
+export async function handleEnrollInCourse(
+  args: { brainloopId: string },
+  context: BrainloopToolContext
+): Promise<CallToolResult> {
+  try {
+    logger.info(`📝 Enrolling user ${context.userId} in brainloop ${args.brainloopId}`);
+    const result = await context.brainloopService.enrollInCourse(args.brainloopId);
+
+    if (!result.success) {
+      throw new Error('Enrollment was not confirmed by BRAINLOOP');
+    }
+
+    const course = await context.brainloopService.getCourse(args.brainloopId);
+
+    return formatToolResponse({
+      message: `🎉 **Successfully Enrolled in Brainloop!**\n\n` +
+        `**Brainloop:** ${course.title}\n` +
+        `**Brainloop ID:** ${course.id}\n` +
+        (course._count ? `**Units:** ${course._count.units}\n` : '') +
+        `\n✅ Your progress in this brainloop is now tracked.\n\n` +
+        `💡 Use \`get_brainloop\` to see the learning path and \`complete_lesson\` as you finish lessons.`,
+      result: { brainloop: summarizeBrainloop(course) },
+    });
+  } catch (error) {
+    logger.error('Failed to enroll in brainloop', { error, brainloopId: args.brainloopId });
+    throw new Error(`Failed to enroll in brainloop: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Find which of the user's enrolled courses a unit belongs to, stopping at the first match
+ */
+async function findCourseOfUnit(
+  service: BrainloopService,
+  unitId: string
+): Promise<{ course: Course; units: Unit[] } | undefined> {
+  const courses = await service.getMyCourses();
+  const match = await findWithConcurrency(courses, DEFAULT_API_CONCURRENCY, async course => {
+    const units = await service.getCourseUnits(course.id);
+    return units.some(unit => unit.id === unitId) ? units : undefined;
+  });
+  return match && { course: match.item, units: match.value };
+}
+
+/**
+ * Mark a lesson as complete and report updated course progress
+ */
+export async function handleCompleteLesson(
+  args: { lessonId: string; brainloopId?: string },
+  context: BrainloopToolContext
+): Promise<CallToolResult> {
+  try {
+    logger.info(`✅ Completing lesson ${args.lessonId} for user ${context.userId}`);
+    const result = await context.brainloopService.completeLesson(args.lessonId);
+
+    if (!result.success) {
+      throw new Error('Lesson completion was not confirmed by BRAINLOOP');
+    }
+
+    const lesson = await context.brainloopService.getLesson(args.lessonId);
+
+    // Without a brainloop ID, find the enrolled course whose units hold the lesson
+    const owner = args.brainloopId
+      ? undefined
+      : await findCourseOfUnit(context.brainloopService, lesson.unitId);
+    const brainloopId = args.brainloopId ?? owner?.course.id;
+
+    let courseTitle: string | undefined;
+    let courseProgress: Progress[] = [];
+    let totalLessons = 0;
+
+    if (brainloopId) {
+      const [course, units, progress] = await Promise.all([
+        owner ? owner.course : context.brainloopService.getCourse(brainloopId),
+        owner ? owner.units : context.brainloopService.getCourseUnits(brainloopId),
+        context.brainloopService.getCourseProgress(brainloopId),
+      ]);
+      courseTitle = course.title;
+      courseProgress = progress;
+      totalLessons = units.reduce((sum, unit) => sum + (unit._count?.lessons || 0), 0) || progress.length;
+    }
+
+    const completed = courseProgress.filter(p => p.isCompleted).length;
+    const completionRate = totalLessons > 0
+      ? ((completed / totalLessons) * 100).toFixed(1)
+      : '0';
+
+    return formatToolResponse({
+      message: `🎉 **Lesson Completed!**\n\n` +
+        `**Lesson:** ${lesson.title}\n` +
+        `**Lesson ID:** ${lesson.id}\n\n` +
+        (courseTitle
+          ? `📊 **${courseTitle} Progress:** ${completionRate}% complete (${completed}/${totalLessons} lessons)\n\n` +
+          (completed >= totalLessons && totalLessons > 0
+            ? `🏆 You have completed every lesson in this brainloop!`
+            : `💡 Use \`brainloop_progress\` to see which lessons are left.`)
+          : `💡 Use \`brainloop_progress\` to see your updated progress.`),
+      result: {
+        lesson: { id: lesson.id, title: lesson.title },
+        ...(courseTitle && {
+          progress: {
+            ...(brainloopId && { brainloopId }),
+            brainloopTitle: courseTitle,
+            completionRate: Number(completionRate),
+            completedLessons: completed,
+            totalLessons,
+          },
+        }),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to complete lesson', { error, lessonId: args.lessonId });
+    throw new Error(`Failed to complete lesson: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function summarizeReviewItem(item: ReviewItem) {
+  return {
+    kind: item.kind,
+    id: item.id,
+    title: item.title,
+    lessonId: item.lessonId,
+    lessonTitle: item.lessonTitle,
+    ...(item.courseTitle && { brainloopTitle: item.courseTitle }),
+    dueAt: item.dueAt,
+    interval: item.interval,
+  };
+}
+
+function formatReviewItem(item: ReviewItem): string {
+  const due = item.dueAt.substring(0, 10);
+  if (item.kind === 'lesson') {
+    return `- 📖 **${item.title}**${item.courseTitle ? ` (${item.courseTitle})` : ''} - due ${due}, interval ${item.interval}d (Lesson ID: ${item.id})`;
+  }
+  return `- ❓ ${item.title} _(${item.lessonTitle})_ - due ${due} (Prompt ID: ${item.id}, Lesson ID: ${item.lessonId})`;
+}
+
+/**
+ * Show the lessons and prompts due for review
+ */
+export async function handleReviewQueue(
+  args: {
+    includePrompts?: boolean;
+    limit?: number;
+  },
+  context: BrainloopToolContext
+): Promise<CallToolResult> {
+  try {
+    const includePrompts = args.includePrompts ?? true;
+    const limit = args.limit ?? 20;
+    logger.info(`🔁 Building review queue for user ${context.userId}`, { includePrompts });
+
+    const store = ReviewStore.getInstance();
+    const [progress, current] = await Promise.all([
+      context.brainloopService.getProgress(),
+      store.load(context.userId),
+    ]);
+    const completed = progress.filter(p => p.isCompleted);
+
+    // Prompts of completed lessons join the schedule the first time the lesson is seen
+    const needPrompts = includePrompts
+      ? completed.filter(p => !current.items[reviewItemKey('lesson', p.lessonId)]?.promptsScheduled)
+      : [];
+    const lessonPrompts = await mapWithConcurrency(needPrompts, DEFAULT_API_CONCURRENCY, p =>
+      context.brainloopService.getLessonPrompts(p.lessonId)
+    );
+
+    const now = new Date();
+    const { items, added } = await store.update(context.userId, state => {
+      let added = 0;
+      for (const entry of completed) {
+        const key = reviewItemKey('lesson', entry.lessonId);
+        if (!state.items[key]) {
+          state.items[key] = {
+            kind: 'lesson',
+            id: entry.lessonId,
+            title: entry.lesson.title,
+            lessonId: entry.lessonId,
+            lessonTitle: entry.lesson.title,
+            courseTitle: entry.lesson.unit.course.title,
+            ...newSchedule(entry.completedAt ? new Date(entry.completedAt) : now),
+          };
+          added++;
+        }
+      }
+
+      needPrompts.forEach((entry, i) => {
+        const lessonItem = state.items[reviewItemKey('lesson', entry.lessonId)];
+        for (const prompt of lessonPrompts[i].prompts) {
+          const key = reviewItemKey('prompt', prompt.id);
+          if (!state.items[key]) {
+            state.items[key] = {
+              kind: 'prompt',
+              id: prompt.id,
+              title: prompt.question,
+              lessonId: entry.lessonId,
+              lessonTitle: entry.lesson.title,
+              courseTitle: entry.lesson.unit.course.title,
+              easeFactor: lessonItem.easeFactor,
+              interval: lessonItem.interval,
+              repetitions: 0,
+              dueAt: lessonItem.dueAt,
+            };
+            added++;
+          }
+        }
+        lessonItem.promptsScheduled = true;
+      });
+
+      return { items: Object.values(state.items), added };
+    });
+
+    const buckets: Record<DueBucket, ReviewItem[]> = { overdue: [], today: [], upcoming: [], later: [] };
+    for (const item of items) {
+      if (item.kind === 'prompt' && !includePrompts) {
+        continue;
+      }
+      buckets[dueBucket(item.dueAt, now)].push(item);
+    }
+    for (const bucket of Object.values(buckets)) {
+      bucket.sort((a, b) => a.dueAt.localeCompare(b.dueAt) || a.title.localeCompare(b.title));
+    }
+
+    const section = (title: string, list: ReviewItem[]) => {
+      if (list.length === 0) {
+        return '';
+      }
+      let text = `**${title} (${list.length}):**\n${list.slice(0, limit).map(formatReviewItem).join('\n')}\n`;
+      if (list.length > limit) {
+        text += `...and ${list.length - limit} more\n`;
+      }
+      return text + '\n';
+    };
+
+    let text = `🔁 **Review Queue** (${now.toISOString().substring(0, 10)}, UTC)\n\n`;
+    if (added > 0) {
+      text += `Added ${added} newly completed item(s) to your schedule.\n\n`;
+    }
+
+    if (items.length === 0) {
+      text += `Nothing to review yet. Complete lessons with \`complete_lesson\` and they will be scheduled for review.`;
+    } else {
+      text += section('🔴 Overdue', buckets.overdue);
+      text += section('🟡 Due today', buckets.today);
+      text += section('🗓️ Coming up this week', buckets.upcoming);
+      if (buckets.later.length > 0) {
+        text += `${buckets.later.length} item(s) are scheduled further out.\n\n`;
+      }
+      if (buckets.overdue.length + buckets.today.length === 0) {
+        text += `✅ Nothing is due today.\n\n`;
+      }
+      text += `💡 After reviewing, call \`record_review\` with the lesson or prompt ID and how well you recalled it:\n`;
+      text += Object.entries(RECALL_GRADES).map(([grade, meaning]) => `- ${grade}: ${meaning}`).join('\n');
+    }
+
+    return formatToolResponse({
+      message: text,
+      result: {
+        date: now.toISOString().substring(0, 10),
+        added,
+        overdue: buckets.overdue.slice(0, limit).map(summarizeReviewItem),
+        today: buckets.today.slice(0, limit).map(summarizeReviewItem),
+        upcoming: buckets.upcoming.slice(0, limit).map(summarizeReviewItem),
+        counts: {
+          overdue: buckets.overdue.length,
+          today: buckets.today.length,
+          upcoming: buckets.upcoming.length,
+          later: buckets.later.length,
+        },
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to build review queue', { error, userId: context.userId });
+    throw new Error(`Failed to build review queue: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Record a recall grade for a lesson or prompt and reschedule it
+ */
+export async function handleRecordReview(
+  args: {
+    lessonId?: string;
+    promptId?: string;
+    grade: number;
+  },
+  context: BrainloopToolContext
+): Promise<CallToolResult> {
+  try {
+    if (!args.promptId && !args.lessonId) {
+      throw new Error('Provide a lessonId or a promptId');
+    }
+    const key = args.promptId ? reviewItemKey('prompt', args.promptId) : reviewItemKey('lesson', args.lessonId!);
+    logger.info(`🔁 Recording review grade ${args.grade} for ${key}, user ${context.userId}`);
+
+    const store = ReviewStore.getInstance();
+    const now = new Date();
+
+    // Items that are not scheduled yet are looked up so they can be added
+    let fresh: ReviewItem | undefined;
+    if (!(await store.load(context.userId)).items[key]) {
+      if (args.promptId) {
+        if (!args.lessonId) {
+          throw new Error(`Prompt ${args.promptId} is not on your review schedule yet; pass its lessonId as well`);
+        }
+        const result = await context.brainloopService.getLessonPrompts(args.lessonId);
+        const prompt = result.prompts.find(candidate => candidate.id === args.promptId);
+        if (!prompt) {
+          throw new Error(`Prompt ${args.promptId} was not found in lesson ${args.lessonId}`);
+        }
+        fresh = {
+          kind: 'prompt',
+          id: prompt.id,
+          title: prompt.question,
+          lessonId: args.lessonId,
+          lessonTitle: result.lesson.title,
+          ...newSchedule(now),
+        };
+      } else {
+        const lesson = await context.brainloopService.getLesson(args.lessonId!);
+        fresh = {
+          kind: 'lesson',
+          id: lesson.id,
+          title: lesson.title,
+          lessonId: lesson.id,
+          lessonTitle: lesson.title,
+          ...newSchedule(now),
+        };
+      }
+    }
+
+    const item = await store.update(context.userId, state => {
+      const existing = state.items[key] ?? fresh!;
+      const updated: ReviewItem = {
+        ...existing,
+        ...applyGrade(existing, args.grade, now),
+        lastReviewedAt: now.toISOString(),
+        lastGrade: args.grade,
+      };
+      state.items[key] = updated;
+      return updated;
+    });
+
+    return formatToolResponse({
+      message: `${args.grade >= 3 ? '✅' : '🔄'} **Review Recorded**\n\n` +
+        `**${item.kind === 'lesson' ? 'Lesson' : 'Prompt'}:** ${item.title}\n` +
+        `**Grade:** ${args.grade} (${RECALL_GRADES[args.grade]})\n` +
+        `**Next review:** ${item.dueAt.substring(0, 10)} (in ${item.interval} day${item.interval === 1 ? '' : 's'})\n` +
+        `**Ease factor:** ${item.easeFactor}\n` +
+        `**Successful repetitions in a row:** ${item.repetitions}\n\n` +
+        (args.grade >= 3
+          ? `💡 Nice work! Use \`review_queue\` to see what else is due.`
+          : `💡 This item starts over and is due again tomorrow. Revisit it with \`get_lesson\` before then.`),
+      result: {
+        item: {
+          ...summarizeReviewItem(item),
+          easeFactor: item.easeFactor,
+          repetitions: item.repetitions,
+        },
+        grade: args.grade,
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to record review', { error, userId: context.userId, lessonId: args.lessonId, promptId: args.promptId });
+    throw new Error(`Failed to record review: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,314 @@
+/**
+ * @file In-chat quiz tool handlers
+ * @module handlers/tools/quiz-handlers
+ *
+ * @remarks
+ * These handlers let a learner take a lesson's prompts as a quiz:
+ * - Start a quiz and see the first question
+ * - Answer questions one at a time
+ * - Finish the quiz for a score and per-question feedback
+ *
+ * The quiz is tracked per MCP session. Answers are kept on the server and
+ * are only revealed when the quiz is finished.
+ */
+
+import { randomUUID } from 'crypto';
+import { logger } from '../../utils/logger.js';
+import type { BrainloopService, LessonPrompt } from '../../services/brainloop/brainloop-service.js';
+import { clozeGapIds, countBlanks, fillQuestion, matchingChoices } from '../../services/brainloop/prompt-types.js';
+import { gradeAnswer, type GradeResult } from '../../services/quiz/grading.js';
+import { getQuiz, removeQuiz, setQuiz, type QuizSession } from '../../services/quiz/quiz-sessions.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { formatToolResponse } from './types.js';
+
+interface BrainloopToolContext {
+  brainloopService: BrainloopService;
+  userId: string;
+  sessionId: string;
+}
+
+const DEFAULT_PASS_THRESHOLD = 70;
+
+const OUTCOME_ICONS: Record<GradeResult['outcome'], string> = {
+  correct: '✅',
+  incorrect: '❌',
+  ungraded: '📝',
+};
+
+function shuffled<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+function questionText(prompt: LessonPrompt): string {
+  return prompt.type === 'cloze'
+    ? fillQuestion(prompt.question, gap => `[${gap}: ____]`)
+    : prompt.question;
+}
+
+/**
+ * Describe the current question without its answer
+ */
+function summarizeQuestion(quiz: QuizSession) {
+  const index = quiz.answers.length;
+  const prompt = quiz.prompts[index];
+  const isMatching = prompt.type === 'matching' && prompt.answer && typeof prompt.answer === 'object';
+  return {
+    number: index + 1,
+    total: quiz.prompts.length,
+    promptId: prompt.id,
+    type: prompt.type,
+    question: questionText(prompt),
+    ...(isMatching
+      ? { items: Object.keys(prompt.answer), choices: matchingChoices(prompt.answer) }
+      : prompt.options?.length ? { options: prompt.options } : {}),
+    ...(prompt.type === 'code' && prompt.codeLanguage && { codeLanguage: prompt.codeLanguage }),
+    ...(prompt.type === 'code' && prompt.codeStarterCode && { codeStarterCode: prompt.codeStarterCode }),
+  };
+}
+
+/**
+ * Format a question without its answer
+ */
+function formatQuestion(quiz: QuizSession): string {
+  const index = quiz.answers.length;
+  const prompt = quiz.prompts[index];
+  const question = questionText(prompt);
+  let text = `**Question ${index + 1} of ${quiz.prompts.length}** (${prompt.type})\n\n${question}\n`;
+
+  if (prompt.type === 'ordering' && prompt.options?.length) {
+    text += '\n' + prompt.options.map((option, i) => `${String.fromCharCode(65 + i)}) ${option}`).join('\n') + '\n';
+    text += `\n💡 Answer with the letters in the correct order, e.g. \`["C", "A", "B"]\`.\n`;
+  } else if (prompt.type === 'matching' && prompt.answer && typeof prompt.answer === 'object') {
+    const items = Object.keys(prompt.answer);
+    const choices = matchingChoices(prompt.answer);
+    text += '\n' + items.map((item, i) => `${i + 1}. ${item}`).join('\n') + '\n\n' +
+      choices.map((choice, i) => `${String.fromCharCode(65 + i)}) ${choice}`).join('\n') + '\n';
+    text += `\n💡 Answer with the letter matching each numbered item, e.g. \`{"1": "B", "2": "A"}\`.\n`;
+  } else if (prompt.type === 'fill-in-the-blank') {
+    text += countBlanks(prompt.question) > 1
+      ? `\n💡 Answer with one entry per blank, in order, e.g. \`["first", "second"]\`.\n`
+      : `\n💡 Answer with the missing word or phrase.\n`;
+  } else if (prompt.type === 'cloze') {
+    const gaps = clozeGapIds(prompt.question);
+    text += gaps.length > 1
+      ? `\n💡 Answer with the text for each gap, e.g. \`${JSON.stringify(Object.fromEntries(gaps.map(gap => [gap, '...'])))}\`.\n`
+      : `\n💡 Answer with the missing word or phrase.\n`;
+  } else if (prompt.type === 'true-false') {
+    text += `\n💡 Answer with \`true\` or \`false\`.\n`;
+  } else if (prompt.options?.length) {
+    text += '\n' + prompt.options.map((option, i) => `${String.fromCharCode(65 + i)}) ${option}`).join('\n') + '\n';
+    text += prompt.type === 'multiple-choice'
+      ? `\n💡 Answer with every correct letter, e.g. \`["A", "C"]\`.\n`
+      : `\n💡 Answer with a letter.\n`;
+  } else if (prompt.type === 'code') {
+    if (prompt.codeStarterCode) {
+      text += `\n\`\`\`${prompt.codeLanguage || ''}\n${prompt.codeStarterCode}\n\`\`\`\n`;
+    }
+    text += `\n💡 Code answers are not graded automatically; you will see the reference solution at the end.\n`;
+  } else if (prompt.type === 'interactive-component') {
+    text += `\n💡 Interactive components are not graded in chat; describe your answer.\n`;
+  }
+
+  return text;
+}
+
+function formatResponse(response: unknown): string {
+  if (response === undefined) {
+    return '_not answered_';
+  }
+  return typeof response === 'string' ? response : JSON.stringify(response);
+}
+
+/**
+ * Start a quiz on a lesson's prompts
+ */
+export async function handleStartQuiz(
+  args: {
+    lessonId: string;
+    shuffle?: boolean;
+    passThreshold?: number;
+    completeOnPass?: boolean;
+  },
+  context: BrainloopToolContext
+): Promise<CallToolResult> {
+  try {
+    logger.info(`🎯 Starting quiz on lesson ${args.lessonId} for user ${context.userId}`, { sessionId: context.sessionId });
+    const lessonPrompts = await context.brainloopService.getLessonPrompts(args.lessonId);
+
+    if (lessonPrompts.prompts.length === 0) {
+      throw new Error(`Lesson "${lessonPrompts.lesson.title}" has no prompts to quiz on`);
+    }
+
+    const ordered = [...lessonPrompts.prompts].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+    const now = new Date();
+    const quiz: QuizSession = {
+      quizId: randomUUID(),
+      lessonId: args.lessonId,
+      lessonTitle: lessonPrompts.lesson.title,
+      prompts: args.shuffle ? shuffled(ordered) : ordered,
+      answers: [],
+      passThreshold: args.passThreshold ?? DEFAULT_PASS_THRESHOLD,
+      completeOnPass: args.completeOnPass ?? false,
+      startedAt: now,
+      lastActivity: now,
+    };
+    const replaced = setQuiz(context.sessionId, quiz);
+
+    return formatToolResponse({
+      message: `🎯 **Quiz: ${quiz.lessonTitle}**\n\n` +
+        (replaced ? `⚠️ The unfinished quiz on "${replaced.lessonTitle}" was discarded.\n\n` : '') +
+        `${quiz.prompts.length} questions, ${quiz.passThreshold}% to pass.\n\n` +
+        formatQuestion(quiz) +
+        `\nUse \`answer_quiz_prompt\` to answer.`,
+      result: {
+        quizId: quiz.quizId,
+        lessonId: quiz.lessonId,
+        lessonTitle: quiz.lessonTitle,
+        questionCount: quiz.prompts.length,
+        passThreshold: quiz.passThreshold,
+        ...(replaced && { discardedQuizLessonTitle: replaced.lessonTitle }),
+        question: summarizeQuestion(quiz),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to start quiz', { error, lessonId: args.lessonId });
+    throw new Error(`Failed to start quiz: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Answer the current quiz question and show the next one
+ */
+export async function handleAnswerQuizPrompt(
+  args: { answer: unknown },
+  context: BrainloopToolContext
+): Promise<CallToolResult> {
+  try {
+    const quiz = getQuiz(context.sessionId);
+    if (!quiz) {
+      throw new Error('No quiz is running in this session; use start_quiz first');
+    }
+    if (quiz.answers.length >= quiz.prompts.length) {
+      throw new Error('All questions have been answered; use finish_quiz to see your score');
+    }
+
+    const prompt: LessonPrompt = quiz.prompts[quiz.answers.length];
+    logger.info(`✏️ Answering quiz question ${quiz.answers.length + 1} for user ${context.userId}`, { quizId: quiz.quizId, promptId: prompt.id });
+    quiz.answers.push({ promptId: prompt.id, response: args.answer, result: gradeAnswer(prompt, args.answer) });
+
+    const done = quiz.answers.length >= quiz.prompts.length;
+    return formatToolResponse({
+      message: `📨 Answer recorded (${quiz.answers.length} of ${quiz.prompts.length}).\n\n` +
+        (done
+          ? `🏁 That was the last question. Use \`finish_quiz\` to see your score.`
+          : formatQuestion(quiz)),
+      result: {
+        quizId: quiz.quizId,
+        answered: quiz.answers.length,
+        questionCount: quiz.prompts.length,
+        done,
+        ...(!done && { question: summarizeQuestion(quiz) }),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to answer quiz prompt', { error, sessionId: context.sessionId });
+    throw new Error(`Failed to answer quiz prompt: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Finish the quiz, grade it and optionally complete the lesson
+ */
+export async function handleFinishQuiz(
+  _args: Record<string, never>,
+  context: BrainloopToolContext
+): Promise<CallToolResult> {
+  try {
+    const quiz = getQuiz(context.sessionId);
+    if (!quiz) {
+      throw new Error('No quiz is running in this session; use start_quiz first');
+    }
+    logger.info(`🏁 Finishing quiz on lesson ${quiz.lessonId} for user ${context.userId}`, { quizId: quiz.quizId });
+
+    // Unanswered questions count as incorrect unless they could not be graded anyway
+    const results = quiz.prompts.map((prompt, index) => {
+      const answer = quiz.answers[index];
+      const result = answer?.result ?? gradeAnswer(prompt, undefined);
+      return {
+        prompt,
+        response: answer?.response,
+        result: !answer && result.outcome !== 'ungraded' ? { ...result, outcome: 'incorrect' as const } : result,
+      };
+    });
+
+    const graded = results.filter(r => r.result.outcome !== 'ungraded');
+    const correct = graded.filter(r => r.result.outcome === 'correct').length;
+    const score = graded.length > 0 ? Math.round((correct / graded.length) * 100) : 0;
+    const passed = graded.length > 0 && score >= quiz.passThreshold;
+
+    let completion = '';
+    let lessonCompleted = false;
+    if (passed && quiz.completeOnPass) {
+      try {
+        const result = await context.brainloopService.completeLesson(quiz.lessonId);
+        lessonCompleted = result.success;
+        completion = result.success
+          ? `\n✅ Lesson "${quiz.lessonTitle}" marked as complete.\n`
+          : `\n⚠️ Lesson completion was not confirmed by BRAINLOOP.\n`;
+      } catch (error) {
+        logger.warn('Failed to complete lesson after passing quiz', { error, lessonId: quiz.lessonId });
+        completion = `\n⚠️ Could not mark the lesson complete: ${error instanceof Error ? error.message : String(error)}\n`;
+      }
+    }
+
+    removeQuiz(context.sessionId);
+
+    const feedback = results.map(({ prompt, response, result }, index) =>
+      `${OUTCOME_ICONS[result.outcome]} **${index + 1}. ${prompt.question}**\n` +
+      `   Your answer: ${formatResponse(response)}\n` +
+      `   Expected: ${result.expected}\n` +
+      (result.note ? `   Note: ${result.note}\n` : '') +
+      (prompt.explanation ? `   💡 ${prompt.explanation}\n` : '')
+    ).join('\n');
+
+    const ungraded = results.length - graded.length;
+    return formatToolResponse({
+      message: `🏁 **Quiz Results: ${quiz.lessonTitle}**\n\n` +
+        (graded.length > 0
+          ? `**Score:** ${correct}/${graded.length} (${score}%) — ${passed ? '🎉 Passed' : `Not passed (${quiz.passThreshold}% needed)`}\n`
+          : `**Score:** no questions could be graded automatically\n`) +
+        (ungraded > 0 ? `**Ungraded:** ${ungraded} (compare with the reference answers below)\n` : '') +
+        completion +
+        `\n${feedback}`,
+      result: {
+        quizId: quiz.quizId,
+        lessonId: quiz.lessonId,
+        lessonTitle: quiz.lessonTitle,
+        correct,
+        graded: graded.length,
+        ungraded,
+        score,
+        passThreshold: quiz.passThreshold,
+        passed,
+        lessonCompleted,
+        results: results.map(({ prompt, response, result }) => ({
+          promptId: prompt.id,
+          question: prompt.question,
+          outcome: result.outcome,
+          ...(response !== undefined && { response }),
+          expected: result.expected,
+          ...(result.note && { note: result.note }),
+          ...(prompt.explanation && { explanation: prompt.explanation }),
+        })),
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to finish quiz', { error, sessionId: context.sessionId });
+    throw new Error(`Failed to finish quiz: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
@@ -0,0 +1,248 @@
+/**
+ * @file Declarative course spec tool handlers
+ * @module handlers/tools/spec-handlers
+ *
+ * @remarks
+ * These handlers let authors describe a whole brainloop as a spec and
+ * converge the live brainloop towards it:
+ * - Plan the changes needed to match a spec (read-only)
+ * - Apply a reviewed plan, journaled so failures can be rolled back
+ *
+ * Applying a spec without a brainloop ID creates a new brainloop. A retry of
+ * that same create is refused and points at the brainloop already created.
+ */
+
+import { logger } from '../../utils/logger.js';
+import type { BrainloopService } from '../../services/brainloop/brainloop-service.js';
+import { OperationJournal, formatJournalEntries } from '../../services/brainloop/operation-journal.js';
+import {
+  applyCoursePlan,
+  getCreatedCourse,
+  loadCourseSnapshot,
+  planCourse,
+  removeCreatedCourse,
+  saveCreatedCourse,
+} from '../../services/brainloop/course-planner.js';
+import type { CoursePlan, CourseSpec } from '../../types/course-spec.js';
+import { handleJournaledFailure } from './journal-failure.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { formatToolResponse } from './types.js';
+
+interface BrainloopToolContext {
+  brainloopService: BrainloopService;
+  userId: string;
+  sessionId: string;
+}
+
+/**
+ * Build the plan for a spec against the live brainloop (or a new one)
+ */
+async function buildPlan(
+  spec: CourseSpec,
+  brainloopId: string | undefined,
+  context: BrainloopToolContext
+): Promise<CoursePlan> {
+  const snapshot = brainloopId
+    ? await loadCourseSnapshot(context.brainloopService, brainloopId)
+    : null;
+  return planCourse(spec, snapshot);
+}
+
+/**
+ * The plan without the operation details, for structured content
+ */
+function summarizePlan(plan: CoursePlan) {
+  return {
+    ...(plan.courseId && { brainloopId: plan.courseId }),
+    fingerprint: plan.fingerprint,
+    operations: plan.operations.map(operation => ({ kind: operation.kind, summary: operation.summary })),
+    warnings: plan.warnings,
+    untouched: plan.untouched,
+  };
+}
+
+/**
+ * Format a plan as markdown
+ */
+function formatPlan(plan: CoursePlan): string {
+  let text = `**Brainloop:** ${plan.courseId ? `ID ${plan.courseId}` : 'new brainloop'}\n`;
+  text += `**Fingerprint:** \`${plan.fingerprint}\`\n\n`;
+
+  if (plan.operations.length === 0) {
+    text += `✅ No changes needed - the brainloop already matches the spec.\n`;
+  } else {
+    text += `**Changes (${plan.operations.length}):**\n`;
+    plan.operations.forEach((operation, index) => {
+      text += `${index + 1}. ${operation.summary}\n`;
+    });
+  }
+
+  if (plan.warnings.length > 0) {
+    text += `\n⚠️ **Warnings (${plan.warnings.length}):**\n`;
+    text += plan.warnings.map(warning => `- ${warning}`).join('\n') + '\n';
+  }
+
+  if (plan.untouched.length > 0) {
+    text += `\n📌 **Not in spec, left untouched (${plan.untouched.length}):**\n`;
+    text += plan.untouched.map(item => `- ${item}`).join('\n') + '\n';
+  }
+
+  return text;
+}
+
+/**
+ * Preview the changes needed to make a brainloop match a spec
+ */
+export async function handlePlanBrainloop(
+  args: {
+    spec: CourseSpec;
+    brainloopId?: string;
+  },
+  context: BrainloopToolContext
+): Promise<CallToolResult> {
+  try {
+    logger.info(`📐 Planning brainloop spec "${args.spec.title}" for user ${context.userId}`, {
+      brainloopId: args.brainloopId,
+    });
+
+    const plan = await buildPlan(args.spec, args.brainloopId, context);
+
+    let text = `📐 **Plan: ${args.spec.title}**\n\n` + formatPlan(plan);
+    const created = plan.courseId ? undefined : getCreatedCourse(context.userId, plan.fingerprint);
+    if (created) {
+      text += `\n⚠️ You already created brainloop ${created.courseId} from this spec. Plan with brainloopId ${created.courseId} to update it instead.\n`;
+    }
+    if (plan.operations.length > 0) {
+      text += `\n💡 Nothing has been changed yet. To apply this plan, call \`apply_brainloop\` with the same spec` +
+        `${args.brainloopId ? ` and brainloopId` : ''} and fingerprint \`${plan.fingerprint}\`.`;
+    }
+
+    return formatToolResponse({ message: text, result: { plan: summarizePlan(plan) } });
+  } catch (error) {
+    logger.error('Failed to plan brainloop', { error, userId: context.userId, brainloopId: args.brainloopId });
+    throw new Error(`Failed to plan brainloop: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Apply a spec to a brainloop
+ */
+export async function handleApplyBrainloop(
+  args: {
+    spec: CourseSpec;
+    brainloopId?: string;
+    fingerprint?: string;
+    rollback?: boolean;
+  },
+  context: BrainloopToolContext
+): Promise<CallToolResult> {
+  const journal = new OperationJournal(context.brainloopService);
+
+  try {
+    logger.info(`🚀 Applying brainloop spec "${args.spec.title}" for user ${context.userId}`, {
+      brainloopId: args.brainloopId,
+      fingerprint: args.fingerprint,
+    });
+
+    // Re-plan against the live brainloop so changes made since the review are not overwritten
+    const plan = await buildPlan(args.spec, args.brainloopId, context);
+
+    if (args.fingerprint && args.fingerprint !== plan.fingerprint) {
+      return {
+        isError: true,
+        content: [{
+          type: 'text',
+          text: `⚠️ **Plan changed since review**\n\n` +
+            `The brainloop no longer matches the reviewed plan (fingerprint \`${args.fingerprint}\`). Nothing was applied.\n\n` +
+            formatPlan(plan) +
+            `\n💡 Review the updated plan, then call \`apply_brainloop\` again with fingerprint \`${plan.fingerprint}\`.`
+        }]
+      };
+    }
+
+    // A create that already ran (e.g. a retry after a lost response) must not create a second copy
+    if (!plan.courseId) {
+      const created = getCreatedCourse(context.userId, plan.fingerprint);
+      if (created) {
+        const myCourses = await context.brainloopService.getMyCourses();
+        if (myCourses.some(course => course.id === created.courseId)) {
+          return {
+            isError: true,
+            content: [{
+              type: 'text',
+              text: `⚠️ **Already created**\n\n` +
+                `This spec was already applied as a new brainloop on ${created.createdAt.toISOString()}. Nothing was applied.\n\n` +
+                `**Brainloop:** ${created.title}\n` +
+                `**Brainloop ID:** ${created.courseId}\n\n` +
+                `💡 To update that brainloop, call \`plan_brainloop\` and \`apply_brainloop\` with brainloopId ${created.courseId}. ` +
+                `To create a separate brainloop, give the spec a different title.`
+            }]
+          };
+        }
+        removeCreatedCourse(context.userId, plan.fingerprint);
+      }
+    }
+
+    if (plan.operations.length === 0) {
+      return formatToolResponse({
+        message: `✅ **${args.spec.title}** is already up to date (ID: ${plan.courseId}). Nothing was applied.` +
+          (plan.warnings.length > 0
+            ? `\n\n⚠️ **Warnings:**\n${plan.warnings.map(warning => `- ${warning}`).join('\n')}`
+            : ''),
+        result: {
+          ...(plan.courseId && { brainloopId: plan.courseId }),
+          applied: false,
+          operations: [],
+          changes: [],
+          warnings: plan.warnings,
+        },
+      });
+    }
+
+    const courseId = await applyCoursePlan(context.brainloopService, plan, journal);
+    const entries = journal.getEntries();
+
+    if (!plan.courseId) {
+      saveCreatedCourse(context.userId, plan.fingerprint, {
+        courseId,
+        title: args.spec.title,
+        createdAt: new Date(),
+      });
+    }
+
+    let text = `🚀 **Applied: ${args.spec.title}**\n\n`;
+    text += `**Brainloop ID:** ${courseId}\n`;
+    if (!plan.courseId) {
+      text += `\n📌 A new brainloop was created. Pass brainloopId ${courseId} to any later \`plan_brainloop\` or \`apply_brainloop\` call for it, including retries.\n\n`;
+    }
+    text += `**Operations applied:** ${plan.operations.length}\n\n`;
+    plan.operations.forEach((operation, index) => {
+      text += `${index + 1}. ${operation.summary}\n`;
+    });
+
+    if (entries.length > 0) {
+      text += `\n**Created or updated (${entries.length}):**\n${formatJournalEntries(entries)}\n`;
+    }
+
+    if (plan.warnings.length > 0) {
+      text += `\n⚠️ **Warnings (${plan.warnings.length}):**\n`;
+      text += plan.warnings.map(warning => `- ${warning}`).join('\n') + '\n';
+    }
+
+    text += `\n💡 Run \`plan_brainloop\` with brainloopId ${courseId} to confirm the brainloop now matches the spec.`;
+
+    return formatToolResponse({
+      message: text,
+      result: {
+        brainloopId: courseId,
+        applied: true,
+        operations: summarizePlan(plan).operations,
+        changes: entries.map(({ action, type, id, title }) => ({ action, type, id, title })),
+        warnings: plan.warnings,
+      },
+    });
+  } catch (error) {
+    logger.error('Failed to apply brainloop', { error, userId: context.userId, brainloopId: args.brainloopId });
+    return handleJournaledFailure('apply brainloop', journal, error, args.rollback ?? true);
+  }
+}
@@ -0,0 +1,137 @@
+/**
+ * @file Structured summaries of BRAINLOOP content
+ * @module handlers/tools/summaries
+ *
+ * @remarks
+ * Tools return these objects in their structured content instead of the raw
+ * API records, so the results match the shared schemas in
+ * `constants/tool/output-schemas` whatever the API adds or leaves out.
+ * Optional fields the API sends as null are left out.
+ */
+
+import type { Course, Lesson, LessonPrompt, Track, Unit } from '../../services/brainloop/brainloop-service.js';
+
+export interface BrainloopSummary {
+  id: string;
+  title: string;
+  description: string;
+  isPublic: boolean;
+  author?: string;
+  unitCount?: number;
+  learnerCount?: number;
+  createdAt?: string;
+}
+
+export interface UnitSummary {
+  id: string;
+  title: string;
+  description?: string;
+  order: number;
+  lessonCount?: number;
+}
+
+export interface LessonSummary {
+  id: string;
+  title: string;
+  unitId: string;
+  order: number;
+  contentLength: number;
+  videoUrl?: string;
+  updatedAt?: string;
+}
+
+export interface PromptSummary {
+  id: string;
+  question: string;
+  type: string;
+  options?: string[];
+  answer?: unknown;
+  explanation?: string;
+  order?: number;
+}
+
+export interface TrackSummary {
+  id: string;
+  title: string;
+  description: string;
+  slug: string;
+  isPublic: boolean;
+  icon?: string;
+  author?: string;
+  courseCount?: number;
+  learnerCount?: number;
+  isOwner?: boolean;
+  isEnrolled?: boolean;
+}
+
+/**
+ * Copy the fields that are set, dropping null and undefined values
+ */
+function defined<T extends object>(fields: T): T {
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => value !== undefined && value !== null)
+  ) as T;
+}
+
+export function summarizeBrainloop(course: Course): BrainloopSummary {
+  return defined({
+    id: course.id,
+    title: course.title,
+    description: course.description ?? '',
+    isPublic: !course.isPrivate,
+    author: course.user?.name,
+    unitCount: course._count?.units,
+    learnerCount: course._count?.enrollments,
+    createdAt: course.createdAt,
+  });
+}
+
+export function summarizeUnit(unit: Unit): UnitSummary {
+  return defined({
+    id: unit.id,
+    title: unit.title,
+    description: unit.description,
+    order: unit.order,
+    lessonCount: unit._count?.lessons,
+  });
+}
+
+export function summarizeLesson(lesson: Lesson): LessonSummary {
+  return defined({
+    id: lesson.id,
+    title: lesson.title,
+    unitId: lesson.unitId,
+    order: lesson.order,
+    contentLength: lesson.content?.length ?? 0,
+    videoUrl: lesson.videoUrl,
+    updatedAt: lesson.updatedAt,
+  });
+}
+
+export function summarizePrompt(prompt: LessonPrompt): PromptSummary {
+  return defined({
+    id: prompt.id,
+    question: prompt.question,
+    type: prompt.type,
+    options: prompt.options,
+    answer: prompt.answer,
+    explanation: prompt.explanation,
+    order: prompt.order,
+  });
+}
+
+export function summarizeTrack(track: Track): TrackSummary {
+  return defined({
+    id: track.id,
+    title: track.title,
+    description: track.description ?? '',
+    slug: track.slug,
+    isPublic: !track.isPrivate,
+    icon: track.icon,
+    author: track.user?.name,
+    courseCount: track._count?.trackCourses,
+    learnerCount: track._count?.enrollments,
+    isOwner: track.isOwner,
+    isEnrolled: track.isEnrolled,
+  });
+}
@@ -13,6 +13,8 @@
 import { logger } from '../../utils/logger.js';
 import type { BrainloopService, Track, TrackCourse } from '../../services/brainloop/brainloop-service.js';
 import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { formatToolResponse } from './types.js';
+import { summarizeBrainloop, summarizeTrack } from './summaries.js';
 
 interface BrainloopToolContext {
   brainloopService: BrainloopService;
@@ -48,19 +50,17 @@ export async function handleCreateTrack(
 
     logger.info(`✅ Track created with ID: ${track.id}`);
 
-    return {
-      content: [{
-        type: 'text',
-        text: `🎉 **Track Created Successfully!**\n\n` +
-          `**${track.title}**\n` +
-          `${track.description}\n\n` +
-          `**Track ID:** ${track.id}\n` +
-          `**Slug:** ${track.slug}\n` +
-          `**Visibility:** ${track.isPrivate ? '🔒 Private' : '🌍 Public'}\n` +
-          (track.icon ? `**Icon:** ${track.icon}\n` : '') +
-          `\n💡 **Next steps:** Add courses to this track using \`add_course_to_track\`.`
-      }]
-    };
+    return formatToolResponse({
+      message: `🎉 **Track Created Successfully!**\n\n` +
+        `**${track.title}**\n` +
+        `${track.description}\n\n` +
+        `**Track ID:** ${track.id}\n` +
+        `**Slug:** ${track.slug}\n` +
+        `**Visibility:** ${track.isPrivate ? '🔒 Private' : '🌍 Public'}\n` +
+        (track.icon ? `**Icon:** ${track.icon}\n` : '') +
+        `\n💡 **Next steps:** Add courses to this track using \`add_course_to_track\`.`,
+      result: { track: summarizeTrack(track) },
+    });
   } catch (error) {
     logger.error('Failed to create track', { error, title: args.title });
     throw new Error(`Failed to create track: ${error instanceof Error ? error.message : String(error)}`);
@@ -78,22 +78,23 @@ export async function handleViewTracks(
     logger.info(`📚 Viewing tracks for user ${context.userId}`);
     const tracks = await context.brainloopService.getTracks();
 
-    return {
-      content: [{
-        type: 'text',
-        text: `🎯 **Your BrainTracks** (${tracks.length} total)\n\n` +
-          (tracks.length === 0
-            ? `No tracks yet. Create one with \`create_track\`!`
-            : tracks.map((track: Track) =>
-              `${track.icon || '🎯'} **${track.title}**\n` +
-              `  📝 ${track.description}\n` +
-              `  🆔 ID: ${track.id}\n` +
-              `  📚 Courses: ${track._count?.trackCourses || 0}\n` +
-              `  👥 Learners: ${track._count?.enrollments || 0}\n` +
-              `  ${track.isPrivate ? '🔒 Private' : '🌍 Public'}${track.isOwner ? ' • 👑 Owner' : ''}${track.isEnrolled ? ' • ✅ Enrolled' : ''}\n`
-            ).join('\n'))
-      }]
-    };
+    return formatToolResponse({
+      message: `🎯 **Your BrainTracks** (${tracks.length} total)\n\n` +
+        (tracks.length === 0
+          ? `No tracks yet. Create one with \`create_track\`!`
+          : tracks.map((track: Track) =>
+            `${track.icon || '🎯'} **${track.title}**\n` +
+            `  📝 ${track.description}\n` +
+            `  🆔 ID: ${track.id}\n` +
+            `  📚 Courses: ${track._count?.trackCourses || 0}\n` +
+            `  👥 Learners: ${track._count?.enrollments || 0}\n` +
+            `  ${track.isPrivate ? '🔒 Private' : '🌍 Public'}${track.isOwner ? ' • 👑 Owner' : ''}${track.isEnrolled ? ' • ✅ Enrolled' : ''}\n`
+          ).join('\n')),
+      result: {
+        tracks: tracks.map(summarizeTrack),
+        total: tracks.length,
+      },
+    });
   } catch (error) {
     logger.error('Failed to view tracks', { error });
     throw new Error(`Failed to view tracks: ${error instanceof Error ? error.message : String(error)}`);
@@ -133,12 +134,13 @@ export async function handleGetTrack(
       responseText += `**No courses yet.** Add courses using \`add_course_to_track\`.`;
     }
 
-    return {
-      content: [{
-        type: 'text',
-        text: responseText
-      }]
-    };
+    return formatToolResponse({
+      message: responseText,
+      result: {
+        track: summarizeTrack(track),
+        brainloops: (track.trackCourses || []).map(tc => summarizeBrainloop(tc.course)),
+      },
+    });
   } catch (error) {
     logger.error('Failed to get track', { error, trackId: args.trackId });
     throw new Error(`Failed to get track: ${error instanceof Error ? error.message : String(error)}`);
@@ -156,16 +158,18 @@ export async function handleAddCourseToTrack(
     logger.info(`➕ Adding course ${args.courseId} to track ${args.trackId}`);
     const result = await context.brainloopService.addCourseToTrack(args.trackId, args.courseId);
 
-    return {
-      content: [{
-        type: 'text',
-        text: `✅ **Course Added to Track!**\n\n` +
-          `**Course:** ${result.trackCourse.course.title}\n` +
-          `**Track:** ${result.track.title}\n` +
-          `**Position:** #${result.trackCourse.order}\n\n` +
-          `This course is now part of the learning path!`
-      }]
-    };
+    return formatToolResponse({
+      message: `✅ **Course Added to Track!**\n\n` +
+        `**Course:** ${result.trackCourse.course.title}\n` +
+        `**Track:** ${result.track.title}\n` +
+        `**Position:** #${result.trackCourse.order}\n\n` +
+        `This course is now part of the learning path!`,
+      result: {
+        track: summarizeTrack(result.track),
+        brainloop: summarizeBrainloop(result.trackCourse.course),
+        position: result.trackCourse.order,
+      },
+    });
   } catch (error) {
     logger.error('Failed to add course to track', { error, trackId: args.trackId, courseId: args.courseId });
     throw new Error(`Failed to add course to track: ${error instanceof Error ? error.message : String(error)}`);
@@ -183,16 +187,17 @@ export async function handleEnrollInTrack(
     logger.info(`📝 Enrolling user ${context.userId} in track ${args.trackId}`);
     const result = await context.brainloopService.enrollInTrack(args.trackId);
 
-    return {
-      content: [{
-        type: 'text',
-        text: `🎉 **Successfully Enrolled in Track!**\n\n` +
-          `**Track:** ${result.track.title}\n` +
-          `**Courses:** ${result.track._count?.trackCourses || 0}\n\n` +
-          `✅ You are now enrolled in all ${result.track._count?.trackCourses || 0} courses in this track!\n\n` +
-          result.message
-      }]
-    };
+    return formatToolResponse({
+      message: `🎉 **Successfully Enrolled in Track!**\n\n` +
+        `**Track:** ${result.track.title}\n` +
+        `**Courses:** ${result.track._count?.trackCourses || 0}\n\n` +
+        `✅ You are now enrolled in all ${result.track._count?.trackCourses || 0} courses in this track!\n\n` +
+        result.message,
+      result: {
+        track: summarizeTrack(result.track),
+        message: result.message,
+      },
+    });
   } catch (error) {
     logger.error('Failed to enroll in track', { error, trackId: args.trackId });
     throw new Error(`Failed to enroll in track: ${error instanceof Error ? error.message : String(error)}`);
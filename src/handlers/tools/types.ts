@@ -14,34 +14,28 @@ export type ToolHandler<T = any> = (
   context: ToolHandlerContext,
 ) => Promise<CallToolResult>;
 
-// Standard response type for all tool handlers
-export interface ToolResponse<T = any> {
-  status: "success" | "error";
+// Standard response of a successful tool call
+export interface ToolResponse<T extends object = Record<string, unknown>> {
+  // Concise text rendering, for clients that do not read structured content
   message: string;
-  result?: T;
-  error?: {
-    type: string;
-    details?: any;
-  };
+  // Structured result, matching the tool's outputSchema
+  result: T;
+  // Content blocks shown after the message, e.g. exported files
+  attachments?: CallToolResult["content"];
 }
 
 // Helper function to format tool responses
-export function formatToolResponse<T>(
-  response: Partial<ToolResponse<T>> & Pick<ToolResponse<T>, "message">,
+export function formatToolResponse<T extends object>(
+  response: ToolResponse<T>,
 ): CallToolResult {
-  const standardResponse: ToolResponse<T> = {
-    status: response.status || "success",
-    message: response.message,
-    ...(response.result && { result: response.result }),
-    ...(response.error && { error: response.error }),
-  };
-
   return {
     content: [
       {
         type: "text",
-        text: JSON.stringify(standardResponse, null, 2),
+        text: response.message,
       },
+      ...(response.attachments ?? []),
     ],
+    structuredContent: response.result as Record<string, unknown>,
   };
 }
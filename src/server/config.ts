@@ -18,6 +18,7 @@
  * - OAUTH_ISSUER: Base URL for OAuth endpoints
  * - REDIRECT_URL: OAuth callback URL
  * - PORT: Server port (default: 3000)
+ * - DATA_DIR: Directory for locally persisted data such as review schedules (default: .data)
  */
 
 import dotenv from "dotenv";
@@ -47,6 +48,8 @@ export interface ServerConfig {
   REDIRECT_URL: string;
   /** Server port number */
   PORT: string;
+  /** Directory for locally persisted data */
+  DATA_DIR: string;
 }
 
 /**
@@ -72,6 +75,7 @@ export const CONFIG: ServerConfig = {
     process.env.REDIRECT_URL ||
     `${process.env.OAUTH_ISSUER || `http://localhost:${process.env.PORT || "3000"}`}/oauth/google/callback`,
   PORT: process.env.PORT || "3000",
+  DATA_DIR: process.env.DATA_DIR || ".data",
 } as const;
 
 /**
@@ -13,20 +13,29 @@ import express from "express";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
 import {
+  CompleteRequestSchema,
   CreateMessageRequestSchema,
   ListToolsRequestSchema,
   CallToolRequestSchema,
   ListPromptsRequestSchema,
   GetPromptRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 
 import { serverConfig, serverCapabilities } from "../constants/server/server-config.js";
 import { sendSamplingRequest } from "../handlers/sampling.js";
 import { handleListTools, handleToolCall } from "../handlers/tool-handlers.js";
 import { handleListPrompts, handleGetPrompt } from "../handlers/prompt-handlers.js";
-import { handleListResources, handleResourceCall } from "../handlers/resource-handlers.js";
+import { handleListResources, handleListResourceTemplates, handleResourceCall } from "../handlers/resource-handlers.js";
+import { clearCompletionCache, handleComplete } from "../handlers/completion-handlers.js";
+import { BrainloopService } from "../services/brainloop/brainloop-service.js";
+import { removeQuiz } from "../services/quiz/quiz-sessions.js";
+import { removeLessonReviews } from "../services/brainloop/lesson-review.js";
+import { removeGenerationPreviews } from "../services/brainloop/interaction-generator.js";
 import { logger } from "../utils/logger.js";
 import { rateLimitMiddleware, validateProtocolVersion, requestSizeLimit } from "./middleware.js";
 import type { AuthInfo } from "../types/request-context.js";
@@ -43,6 +52,8 @@ interface SessionInfo {
   server: Server;
   transport: StreamableHTTPServerTransport;
   auth?: SessionAuth;
+  /** URIs of the resources the client subscribed to */
+  subscriptions: Set<string>;
   createdAt: Date;
   lastAccessed: Date;
 }
@@ -54,6 +65,9 @@ export interface IMCPHandler {
   getAllServers(): Server[];
   getServer(): Server;
   cleanupSession(sessionId: string): void;
+  getSubscribedUris(userId: string): string[];
+  notifyResourcesUpdated(userId: string, uris: string[]): Promise<void>;
+  notifyResourceListChanged(userId: string): Promise<void>;
   getActiveSessionCount(): number;
   shutdown(): void;
 }
@@ -79,6 +93,39 @@ export class MCPHandler implements IMCPHandler {
     );
   }
 
+  /**
+   * Create the token refresh callback for a session, if the OAuth provider
+   * can refresh its Google access token
+   */
+  private createRefreshTokenCallback(sessionId: string, sessionAuth: SessionAuth): (() => Promise<string>) | undefined {
+    return this.oauthProvider && sessionAuth.refreshToken
+      ? async () => {
+          try {
+            logger.info(`Refreshing Google access token for session ${sessionId}`);
+            const newTokens = await this.oauthProvider!.refreshGoogleAccessToken(sessionAuth.refreshToken);
+
+            // Update session with new tokens
+            sessionAuth.accessToken = newTokens.accessToken;
+            sessionAuth.refreshToken = newTokens.refreshToken;
+
+            // Update session info
+            const session = this.sessions.get(sessionId);
+            if (session) {
+              session.auth = sessionAuth;
+            }
+
+            logger.info(`Successfully refreshed token for session ${sessionId}`);
+            return newTokens.accessToken;
+          } catch (error) {
+            logger.error(`Failed to refresh token for session ${sessionId}`, {
+              error: error instanceof Error ? error.message : String(error),
+            });
+            throw error;
+          }
+        }
+      : undefined;
+  }
+
   /**
    * Creates a new server instance with handlers
    */
@@ -115,33 +162,7 @@ export class MCPHandler implements IMCPHandler {
         },
       };
 
-      // Create token refresh callback if OAuth provider is available
-      const refreshTokenCallback = this.oauthProvider && sessionAuth.refreshToken
-        ? async () => {
-            try {
-              logger.info(`Refreshing Google access token for session ${sessionId}`);
-              const newTokens = await this.oauthProvider!.refreshGoogleAccessToken(sessionAuth.refreshToken);
-
-              // Update session with new tokens
-              sessionAuth.accessToken = newTokens.accessToken;
-              sessionAuth.refreshToken = newTokens.refreshToken;
-
-              // Update session info
-              const session = this.sessions.get(sessionId);
-              if (session) {
-                session.auth = sessionAuth;
-              }
-
-              logger.info(`Successfully refreshed token for session ${sessionId}`);
-              return newTokens.accessToken;
-            } catch (error) {
-              logger.error(`Failed to refresh token for session ${sessionId}`, {
-                error: error instanceof Error ? error.message : String(error),
-              });
-              throw error;
-            }
-          }
-        : undefined;
+      const refreshTokenCallback = this.createRefreshTokenCallback(sessionId, sessionAuth);
 
       try {
         const result = await handleToolCall(request, { sessionId, authInfo, refreshTokenCallback });
@@ -178,6 +199,23 @@ export class MCPHandler implements IMCPHandler {
       return handleListResources();
     });
 
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, () => {
+      logger.debug(`📋 [${sessionId}] Listing resource templates`);
+      return handleListResourceTemplates();
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, (request) => {
+      logger.debug(`🔔 [${sessionId}] Subscribing to resource: ${request.params.uri}`);
+      this.sessions.get(sessionId)?.subscriptions.add(request.params.uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+      logger.debug(`🔕 [${sessionId}] Unsubscribing from resource: ${request.params.uri}`);
+      this.sessions.get(sessionId)?.subscriptions.delete(request.params.uri);
+      return {};
+    });
+
     server.setRequestHandler(ReadResourceRequestSchema, (request) => {
       logger.debug(`📖 [${sessionId}] Reading resource: ${request.params.uri}`);
 
@@ -197,9 +235,41 @@ export class MCPHandler implements IMCPHandler {
       return handleResourceCall(request, authInfo ? { authInfo } : undefined);
     });
 
+    // Completions
+    server.setRequestHandler(CompleteRequestSchema, (request) => {
+      logger.debug(`⌨️ [${sessionId}] Completing ${request.params.argument.name}`);
+
+      const authInfo: AuthInfo | undefined = sessionAuth
+        ? {
+            token: sessionAuth.accessToken,
+            clientId: "mcp-client",
+            scopes: ["read"],
+            extra: {
+              userId: sessionAuth.username,
+            },
+          }
+        : undefined;
+
+      return handleComplete(request, { sessionId, authInfo });
+    });
+
     // Sampling
     server.setRequestHandler(CreateMessageRequestSchema, (request) => {
-      return sendSamplingRequest(request, { sessionId });
+      // Callbacks that change content act as the signed-in user of the session
+      const brainloopService = sessionAuth
+        ? new BrainloopService({
+            accessToken: sessionAuth.accessToken,
+            userId: sessionAuth.username,
+            refreshTokenCallback: this.createRefreshTokenCallback(sessionId, sessionAuth),
+          })
+        : undefined;
+
+      return sendSamplingRequest(request, {
+        sessionId,
+        userId: sessionAuth?.username,
+        brainloopService,
+        progressToken: request.params._meta?.progressToken,
+      });
     });
 
     return server;
@@ -327,6 +397,7 @@ export class MCPHandler implements IMCPHandler {
           server,
           transport,
           auth: sessionAuth,
+          subscriptions: new Set(),
           createdAt: new Date(),
           lastAccessed: new Date(),
         };
@@ -507,6 +578,10 @@ export class MCPHandler implements IMCPHandler {
         sessionInfo.server.close();
         sessionInfo.transport.close();
         this.sessions.delete(sessionId);
+        removeQuiz(sessionId);
+        removeLessonReviews(sessionId);
+        removeGenerationPreviews(sessionId);
+        clearCompletionCache(sessionId);
         cleaned++;
       }
     }
@@ -552,10 +627,63 @@ export class MCPHandler implements IMCPHandler {
       sessionInfo.server.close();
       sessionInfo.transport.close();
       this.sessions.delete(sessionId);
+      removeQuiz(sessionId);
+      removeLessonReviews(sessionId);
+      removeGenerationPreviews(sessionId);
+      clearCompletionCache(sessionId);
       logger.debug(`🧹 Cleaned up session: ${sessionId}`);
     }
   }
 
+  /**
+   * Get the sessions signed in as a user
+   */
+  private getUserSessions(userId: string): SessionInfo[] {
+    return Array.from(this.sessions.values()).filter((info) => info.auth?.username === userId);
+  }
+
+  /**
+   * Get the resource URIs any session of a user is subscribed to
+   */
+  getSubscribedUris(userId: string): string[] {
+    const uris = new Set<string>();
+    for (const sessionInfo of this.getUserSessions(userId)) {
+      sessionInfo.subscriptions.forEach((uri) => uris.add(uri));
+    }
+    return Array.from(uris);
+  }
+
+  /**
+   * Send notifications/resources/updated for the given URIs to the sessions
+   * of a user that subscribed to them
+   */
+  async notifyResourcesUpdated(userId: string, uris: string[]): Promise<void> {
+    const notifications = this.getUserSessions(userId).flatMap((sessionInfo) =>
+      uris
+        .filter((uri) => sessionInfo.subscriptions.has(uri))
+        .map((uri) => sessionInfo.server.sendResourceUpdated({ uri }).catch((error: unknown) => {
+          logger.warn("Failed to send resource update notification", {
+            uri,
+            error: error instanceof Error ? error.message : String(error),
+          });
+        })),
+    );
+    await Promise.all(notifications);
+  }
+
+  /**
+   * Send notifications/resources/list_changed to every session of a user
+   */
+  async notifyResourceListChanged(userId: string): Promise<void> {
+    await Promise.all(this.getUserSessions(userId).map((sessionInfo) =>
+      sessionInfo.server.sendResourceListChanged().catch((error: unknown) => {
+        logger.warn("Failed to send resource list changed notification", {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }),
+    ));
+  }
+
   /**
    * Get active session count
    */
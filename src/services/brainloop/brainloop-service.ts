@@ -9,6 +9,8 @@
 
 import { logger } from '../../utils/logger.js';
 import { CONFIG } from '../../server/config.js';
+import type { CodeTestCase } from '../sandbox/code-runner.js';
+import type { PromptAnswer, PromptType } from './prompt-types.js';
 
 export interface BrainloopUser {
   id: string;
@@ -62,6 +64,75 @@ export interface Lesson {
   updatedAt?: string;
 }
 
+export interface LessonPrompt {
+  id: string;
+  interactionId: string;
+  question: string;
+  type: string;
+  options?: string[];
+  answer?: any;
+  explanation?: string;
+  codeLanguage?: string;
+  codeStarterCode?: string;
+  codeExpectedOutput?: string;
+  codeTestCases?: any;
+  codeTimeLimit?: number;
+  codeMemoryLimit?: number;
+  componentType?: string;
+  componentConfig?: any;
+  componentAnswer?: any;
+  order?: number;
+}
+
+/**
+ * Prompt fields sent when creating a prompt.
+ *
+ * See {@link PromptAnswer} for the answer shape of each prompt type.
+ */
+export interface PromptInput {
+  question: string;
+  type: PromptType;
+  options?: string[];
+  answer?: PromptAnswer;
+  explanation?: string;
+  codeLanguage?: string;
+  codeStarterCode?: string;
+  codeExpectedOutput?: string;
+  codeTestCases?: CodeTestCase[];
+  codeTimeLimit?: number;
+  codeMemoryLimit?: number;
+  componentType?: string;
+  componentConfig?: any;
+  componentAnswer?: any;
+}
+
+export interface LessonPrompts {
+  lesson: {
+    id: string;
+    title: string;
+    hasInteraction: boolean;
+  };
+  interaction: {
+    id: string;
+  } | null;
+  prompts: LessonPrompt[];
+  metadata: {
+    totalPrompts: number;
+    needsInteraction: boolean;
+  };
+}
+
+export interface LessonSearchHit extends Lesson {
+  unit?: {
+    id: string;
+    title: string;
+    course: {
+      id: string;
+      title: string;
+    };
+  };
+}
+
 export interface Progress {
   id: string;
   userId: string;
@@ -314,8 +385,8 @@ export class BrainloopService {
   /**
    * Search lessons
    */
-  async searchLessons(query: string): Promise<Lesson[]> {
-    return this.makeRequest<Lesson[]>(`/mcp/lessons/search?q=${encodeURIComponent(query)}`);
+  async searchLessons(query: string): Promise<LessonSearchHit[]> {
+    return this.makeRequest<LessonSearchHit[]>(`/mcp/lessons/search?q=${encodeURIComponent(query)}`);
   }
 
   /**
@@ -394,23 +465,7 @@ export class BrainloopService {
   /**
    * Create a single prompt for an interaction
    */
-  async createPrompt(promptData: {
-    interactionId: string;
-    question: string;
-    type: string;
-    options?: string[];
-    answer?: any;
-    explanation?: string;
-    codeLanguage?: string;
-    codeStarterCode?: string;
-    codeExpectedOutput?: string;
-    codeTestCases?: any;
-    codeTimeLimit?: number;
-    codeMemoryLimit?: number;
-    componentType?: string;
-    componentConfig?: any;
-    componentAnswer?: any;
-  }): Promise<any> {
+  async createPrompt(promptData: PromptInput & { interactionId: string }): Promise<any> {
     return this.makeRequest<any>('/mcp/prompts', {
       method: 'POST',
       body: JSON.stringify(promptData),
@@ -420,17 +475,7 @@ export class BrainloopService {
   /**
    * Create multiple prompts in batch
    */
-  async createPromptsBatch(interactionId: string, prompts: Array<{
-    question: string;
-    type: string;
-    options?: string[];
-    answer?: any;
-    explanation?: string;
-    codeLanguage?: string;
-    codeStarterCode?: string;
-    componentType?: string;
-    componentConfig?: any;
-  }>): Promise<any> {
+  async createPromptsBatch(interactionId: string, prompts: PromptInput[]): Promise<any> {
     return this.makeRequest<any>('/mcp/prompts/batch', {
       method: 'POST',
       body: JSON.stringify({
@@ -443,8 +488,8 @@ export class BrainloopService {
   /**
    * Get all prompts for a lesson
    */
-  async getLessonPrompts(lessonId: string): Promise<any> {
-    return this.makeRequest<any>(`/mcp/lessons/${lessonId}/prompts`);
+  async getLessonPrompts(lessonId: string): Promise<LessonPrompts> {
+    return this.makeRequest<LessonPrompts>(`/mcp/lessons/${lessonId}/prompts`);
   }
 
   /**
@@ -502,7 +547,9 @@ export class BrainloopService {
   }
 
   /**
-   * Move a lesson from one unit to another
+   * Move a lesson from one unit to another. `newOrder` is a 0-based
+   * position in the target unit, unlike the 1-based `order` of lessons;
+   * without it the lesson is appended.
    */
   async moveLesson(lessonId: string, targetUnitId: string, newOrder?: number): Promise<Lesson> {
     return this.makeRequest<Lesson>(`/mcp/lessons/${lessonId}/move`, {
@@ -511,6 +558,33 @@ export class BrainloopService {
     });
   }
 
+  /**
+   * Delete a course with all of its units and lessons
+   */
+  async deleteCourse(courseId: string): Promise<{ success: boolean }> {
+    return this.makeRequest<{ success: boolean }>(`/mcp/courses/${courseId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Delete a unit with all of its lessons
+   */
+  async deleteUnit(unitId: string): Promise<{ success: boolean }> {
+    return this.makeRequest<{ success: boolean }>(`/mcp/units/${unitId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  /**
+   * Delete a lesson
+   */
+  async deleteLesson(lessonId: string): Promise<{ success: boolean }> {
+    return this.makeRequest<{ success: boolean }>(`/mcp/lessons/${lessonId}`, {
+      method: 'DELETE',
+    });
+  }
+
   /**
    * Create a new track
    */
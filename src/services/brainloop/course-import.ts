@@ -0,0 +1,86 @@
+/**
+ * @file Create a new brainloop from a course spec
+ * @module services/brainloop/course-import
+ *
+ * @remarks
+ * Imports create everything from scratch, so instead of one call per entity
+ * the whole course is created with batch calls: the course, then all units,
+ * then the lessons of each unit, then an interaction and its prompts for
+ * every lesson that has prompts. Every created entity is recorded in the
+ * journal so a failed import can be rolled back.
+ */
+
+import { logger } from '../../utils/logger.js';
+import type { BrainloopService, Course } from './brainloop-service.js';
+import type { OperationJournal } from './operation-journal.js';
+import type { CourseSpec } from '../../types/course-spec.js';
+
+/**
+ * Counts of what an import created
+ */
+export interface CourseImportResult {
+  course: Course;
+  units: number;
+  lessons: number;
+  interactions: number;
+  prompts: number;
+}
+
+/**
+ * Create a new brainloop with all units, lessons and prompts of a spec
+ */
+export async function createCourseFromSpec(
+  brainloopService: BrainloopService,
+  spec: CourseSpec,
+  journal: OperationJournal
+): Promise<CourseImportResult> {
+  const [course] = await brainloopService.createCoursesBatch([{
+    title: spec.title,
+    description: spec.description,
+    isPrivate: !(spec.isPublic ?? false),
+  }]);
+  journal.recordCreated('course', course);
+  logger.info(`📥 Imported course ${course.id}, creating ${spec.units.length} units`);
+
+  const units = await brainloopService.createUnitsBatch(course.id, spec.units.map((unit, i) => ({
+    title: unit.title,
+    description: unit.description ?? `Learn about ${unit.title}`,
+    order: i + 1,
+  })));
+  units.forEach(unit => journal.recordCreated('unit', unit));
+  if (units.length !== spec.units.length) {
+    throw new Error(`Expected ${spec.units.length} units to be created, got ${units.length}`);
+  }
+
+  const result: CourseImportResult = { course, units: units.length, lessons: 0, interactions: 0, prompts: 0 };
+
+  for (const [i, unitSpec] of spec.units.entries()) {
+    if (unitSpec.lessons.length === 0) {
+      continue;
+    }
+
+    const lessons = await brainloopService.createLessonsBatch(units[i].id, unitSpec.lessons.map((lesson, j) => ({
+      title: lesson.title,
+      content: lesson.content,
+      order: j + 1,
+      videoUrl: lesson.videoUrl,
+    })));
+    lessons.forEach(lesson => journal.recordCreated('lesson', lesson));
+    if (lessons.length !== unitSpec.lessons.length) {
+      throw new Error(`Expected ${unitSpec.lessons.length} lessons to be created in unit "${unitSpec.title}", got ${lessons.length}`);
+    }
+    result.lessons += lessons.length;
+
+    for (const [j, lessonSpec] of unitSpec.lessons.entries()) {
+      if (!lessonSpec.prompts?.length) {
+        continue;
+      }
+      const interaction = await brainloopService.createInteraction(lessons[j].id);
+      await brainloopService.createPromptsBatch(interaction.id, lessonSpec.prompts);
+      result.interactions++;
+      result.prompts += lessonSpec.prompts.length;
+    }
+  }
+
+  return result;
+}
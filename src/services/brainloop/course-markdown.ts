@@ -0,0 +1,634 @@
+/**
+ * @file Markdown rendering of a whole brainloop
+ * @module services/brainloop/course-markdown
+ *
+ * @remarks
+ * Turns a {@link CourseSnapshot} into portable Markdown for backups, code
+ * review of course content and offline reading. Two layouts are supported:
+ *
+ * - A single document: H1 = course, H2 = unit, H3 = lesson. Headings inside
+ *   lesson content are shifted down three levels so they stay below the
+ *   lesson heading; those pushed past h6 are escaped. IDs and order are
+ *   carried in a `<!-- brainloop: {...} -->` comment right after each unit
+ *   and lesson heading.
+ * - A bundle: a `course.md` index plus one file per lesson with YAML
+ *   front-matter and the lesson content unchanged.
+ *
+ * In both layouts each prompt is a fenced `quiz` block with one
+ * `key: value` line per field. Values are written as plain text when that
+ * is unambiguous and as JSON otherwise.
+ *
+ * Output is deterministic: the same course always renders to the same text,
+ * so exports can be diffed and committed to git.
+ *
+ * {@link parseCourseMarkdown} reads the single document layout back into a
+ * {@link CourseSpec}, so an export (or a hand-written draft following the
+ * same structure) can be imported as a new brainloop.
+ */
+
+import type { LessonPrompt } from './brainloop-service.js';
+import type { CourseSnapshot } from './course-planner.js';
+import { PROMPT_TYPES, isPromptType } from './prompt-types.js';
+import { PromptSchema } from './prompt-schema.js';
+import type { CourseSpec, LessonSpec, PromptSpec, UnitSpec } from '../../types/course-spec.js';
+
+/**
+ * Identifies Markdown produced by this module in the front-matter
+ */
+export const COURSE_MARKDOWN_FORMAT = 'brainloop-markdown';
+
+/**
+ * Version of the Markdown layout, bumped on incompatible changes
+ */
+export const COURSE_MARKDOWN_VERSION = 1;
+
+/**
+ * Number of levels lesson headings are shifted by in the single document
+ */
+export const LESSON_HEADING_SHIFT = 3;
+
+/**
+ * Prompt fields written to `quiz` blocks, in output order
+ */
+export const QUIZ_FIELDS = [
+  'id',
+  'type',
+  'question',
+  'options',
+  'answer',
+  'explanation',
+  'codeLanguage',
+  'codeStarterCode',
+  'codeExpectedOutput',
+  'codeTestCases',
+  'codeTimeLimit',
+  'codeMemoryLimit',
+  'componentType',
+  'componentConfig',
+  'componentAnswer',
+] as const;
+
+/**
+ * A file of a Markdown bundle
+ */
+export interface MarkdownBundleFile {
+  /** Path relative to the bundle root, using `/` separators */
+  path: string;
+  text: string;
+}
+
+/**
+ * Format a value for a front-matter or `quiz` line.
+ *
+ * Strings are written as-is unless they would read back as something else
+ * (JSON literals, surrounding whitespace, line breaks); everything else is
+ * written as JSON.
+ */
+export function formatMarkdownValue(value: unknown): string {
+  if (typeof value !== 'string') {
+    return JSON.stringify(value);
+  }
+  if (value === '' || value !== value.trim() || /[\r\n]/.test(value)) {
+    return JSON.stringify(value);
+  }
+  try {
+    JSON.parse(value);
+    return JSON.stringify(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Render YAML front-matter; undefined fields are omitted
+ */
+export function formatFrontMatter(fields: Record<string, unknown>): string {
+  const lines = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}: ${JSON.stringify(value)}`);
+  return `---\n${lines.join('\n')}\n---`;
+}
+
+/**
+ * Render a metadata comment placed after a unit or lesson heading
+ */
+function formatMetadataComment(fields: Record<string, unknown>): string {
+  return `<!-- brainloop: ${JSON.stringify(fields)} -->`;
+}
+
+/**
+ * Render a prompt as a fenced `quiz` block
+ */
+export function formatQuizBlock(prompt: Partial<LessonPrompt>): string {
+  const lines = QUIZ_FIELDS
+    .filter(field => prompt[field] !== undefined && prompt[field] !== null)
+    .map(field => `${field}: ${formatMarkdownValue(prompt[field])}`);
+  return '```quiz\n' + lines.join('\n') + '\n```';
+}
+
+/**
+ * Shift ATX headings by a number of levels, leaving fenced code untouched.
+ *
+ * Markdown has no heading below h6, so a heading shifted past it is written
+ * escaped (`\#######`) and shown as text. Shifting back up restores it, so
+ * deep lesson headings survive an export and import.
+ */
+export function shiftHeadings(content: string, levels: number): string {
+  let fence: string | null = null;
+
+  return content.split('\n').map(line => {
+    const fenceMatch = line.match(/^\s{0,3}(`{3,}|~{3,})/);
+    if (fenceMatch) {
+      if (fence === null) {
+        fence = fenceMatch[1];
+      } else if (fenceMatch[1][0] === fence[0] && fenceMatch[1].length >= fence.length) {
+        fence = null;
+      }
+      return line;
+    }
+    if (fence !== null) {
+      return line;
+    }
+
+    const heading = line.match(/^(#{1,6})(\s.*|$)/) ?? (levels < 0 ? line.match(/^\\(#{7,})(\s.*|$)/) : null);
+    if (!heading) {
+      return line;
+    }
+    const level = Math.max(1, heading[1].length + levels);
+    return (level > 6 ? '\\' : '') + '#'.repeat(level) + heading[2];
+  }).join('\n');
+}
+
+/**
+ * Lower-case, dash-separated file name for a title
+ */
+function slugify(title: string): string {
+  const slug = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, 50)
+    .replace(/-+$/, '');
+  return slug || 'untitled';
+}
+
+/**
+ * Zero-padded 1-based position, wide enough for the number of siblings
+ */
+function position(index: number, count: number): string {
+  return String(index + 1).padStart(Math.max(2, String(count).length), '0');
+}
+
+function prompts(entry: CourseSnapshot['units'][number]['lessons'][number]): LessonPrompt[] {
+  return [...entry.prompts.prompts].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+}
+
+function courseFrontMatter(snapshot: CourseSnapshot): string {
+  return formatFrontMatter({
+    format: COURSE_MARKDOWN_FORMAT,
+    version: COURSE_MARKDOWN_VERSION,
+    id: snapshot.course.id,
+    title: snapshot.course.title,
+    isPrivate: snapshot.course.isPrivate,
+  });
+}
+
+/**
+ * Render a course as a single Markdown document
+ */
+export function renderCourseMarkdown(snapshot: CourseSnapshot): string {
+  const sections: string[] = [
+    courseFrontMatter(snapshot),
+    `# ${snapshot.course.title}`,
+  ];
+  if (snapshot.course.description) {
+    sections.push(snapshot.course.description.trim());
+  }
+
+  for (const { unit, lessons } of snapshot.units) {
+    sections.push(`## ${unit.title}\n${formatMetadataComment({ id: unit.id, order: unit.order })}`);
+    if (unit.description) {
+      sections.push(unit.description.trim());
+    }
+
+    for (const entry of lessons) {
+      const { lesson } = entry;
+      sections.push(`### ${lesson.title}\n${formatMetadataComment({
+        id: lesson.id,
+        order: lesson.order,
+        videoUrl: lesson.videoUrl || undefined,
+        interactionId: entry.prompts.interaction?.id,
+      })}`);
+      if (lesson.content?.trim()) {
+        sections.push(shiftHeadings(lesson.content.trim(), LESSON_HEADING_SHIFT));
+      }
+      for (const prompt of prompts(entry)) {
+        sections.push(formatQuizBlock(prompt));
+      }
+    }
+  }
+
+  return sections.join('\n\n') + '\n';
+}
+
+/**
+ * Render a course as a bundle of Markdown files.
+ *
+ * `course.md` holds the course and unit details and links to one file per
+ * lesson under `units/<NN-unit>/<NN-lesson>.md`.
+ */
+export function renderCourseBundle(snapshot: CourseSnapshot): MarkdownBundleFile[] {
+  const files: MarkdownBundleFile[] = [];
+  const index: string[] = [
+    courseFrontMatter(snapshot),
+    `# ${snapshot.course.title}`,
+  ];
+  if (snapshot.course.description) {
+    index.push(snapshot.course.description.trim());
+  }
+
+  snapshot.units.forEach(({ unit, lessons }, unitIndex) => {
+    const unitDir = `units/${position(unitIndex, snapshot.units.length)}-${slugify(unit.title)}`;
+    const unitSection = [`## ${unit.title}\n${formatMetadataComment({ id: unit.id, order: unit.order })}`];
+    if (unit.description) {
+      unitSection.push(unit.description.trim());
+    }
+
+    const links: string[] = [];
+    lessons.forEach((entry, lessonIndex) => {
+      const { lesson } = entry;
+      const path = `${unitDir}/${position(lessonIndex, lessons.length)}-${slugify(lesson.title)}.md`;
+      links.push(`- [${lesson.title}](${path})`);
+
+      const body = [formatFrontMatter({
+        id: lesson.id,
+        title: lesson.title,
+        unitId: unit.id,
+        unit: unit.title,
+        order: lesson.order,
+        videoUrl: lesson.videoUrl || undefined,
+        interactionId: entry.prompts.interaction?.id,
+      })];
+      if (lesson.content?.trim()) {
+        body.push(lesson.content.trim());
+      }
+      for (const prompt of prompts(entry)) {
+        body.push(formatQuizBlock(prompt));
+      }
+      files.push({ path, text: body.join('\n\n') + '\n' });
+    });
+
+    if (links.length > 0) {
+      unitSection.push(links.join('\n'));
+    }
+    index.push(unitSection.join('\n\n'));
+  });
+
+  return [{ path: 'course.md', text: index.join('\n\n') + '\n' }, ...files];
+}
+
+/**
+ * A problem found while parsing Markdown, with its 1-based line number
+ */
+export interface MarkdownIssue {
+  line: number;
+  message: string;
+}
+
+/**
+ * Result of parsing a course Markdown document
+ */
+export interface ParsedCourseMarkdown {
+  /** The parsed spec, or null when there are errors */
+  spec: CourseSpec | null;
+  /** Structural problems that prevent an import */
+  errors: MarkdownIssue[];
+  /** Content that is ignored on import */
+  warnings: MarkdownIssue[];
+}
+
+/**
+ * Prompt fields that can be imported through `createPromptsBatch`
+ */
+const IMPORTABLE_QUIZ_FIELDS = new Set<string>([
+  'type',
+  'question',
+  'options',
+  'answer',
+  'explanation',
+  'codeLanguage',
+  'codeStarterCode',
+  'componentType',
+  'componentConfig',
+]);
+
+/**
+ * Parse a value written by {@link formatMarkdownValue}.
+ *
+ * Values that look like JSON must be valid JSON; anything else is plain text.
+ */
+export function parseMarkdownValue(raw: string): { value: unknown } | { error: string } {
+  const text = raw.trim();
+  try {
+    return { value: JSON.parse(text) };
+  } catch (error) {
+    if (/^["[{]/.test(text)) {
+      return { error: `invalid JSON value: ${error instanceof Error ? error.message : String(error)}` };
+    }
+    return { value: text };
+  }
+}
+
+/**
+ * Quiz fields that hold text even when written as a JSON literal
+ */
+const TEXT_QUIZ_FIELDS = ['type', 'question', 'explanation', 'codeLanguage', 'codeStarterCode', 'componentType'] as const;
+
+const METADATA_COMMENT = /^\s*<!--\s*brainloop:\s*(.*?)\s*-->\s*$/;
+
+/**
+ * Parse a single Markdown document into a course spec.
+ *
+ * Structure: optional front-matter, then `# Course` followed by its
+ * description, `## Unit` headings with optional descriptions, and
+ * `### Lesson` headings followed by the lesson content. Headings inside
+ * lesson content are written three levels deeper (`####` for a lesson's
+ * `#`) and promoted back on import. Fenced `quiz` blocks inside a lesson
+ * become prompts of the lesson's interaction.
+ */
+export function parseCourseMarkdown(markdown: string): ParsedCourseMarkdown {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const errors: MarkdownIssue[] = [];
+  const warnings: MarkdownIssue[] = [];
+
+  let isPublic: boolean | undefined;
+  let course: { title: string; line: number; description: string[] } | null = null;
+  const units: Array<{ spec: UnitSpec; line: number; description: string[] }> = [];
+  let lesson: { spec: LessonSpec; line: number; content: string[] } | null = null;
+
+  let index = 0;
+
+  // Front-matter
+  if (lines[0]?.trim() === '---') {
+    const end = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+    if (end === -1) {
+      errors.push({ line: 1, message: 'Front-matter is not closed with "---"' });
+      return { spec: null, errors, warnings };
+    }
+    for (let i = 1; i < end; i++) {
+      const match = lines[i].match(/^([A-Za-z][\w-]*):\s*(.*)$/);
+      if (!match) {
+        continue;
+      }
+      const parsed = parseMarkdownValue(match[2]);
+      if ('error' in parsed) {
+        errors.push({ line: i + 1, message: `Front-matter "${match[1]}": ${parsed.error}` });
+      } else if (match[1] === 'isPublic' && typeof parsed.value === 'boolean') {
+        isPublic = parsed.value;
+      } else if (match[1] === 'isPrivate' && typeof parsed.value === 'boolean') {
+        isPublic = !parsed.value;
+      }
+    }
+    index = end + 1;
+  }
+
+  const finishLesson = () => {
+    if (!lesson) {
+      return;
+    }
+    const content = shiftHeadings(lesson.content.join('\n').trim(), -LESSON_HEADING_SHIFT);
+    if (!content) {
+      errors.push({ line: lesson.line, message: `Lesson "${lesson.spec.title}" has no content` });
+    }
+    lesson.spec.content = content;
+    lesson = null;
+  };
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+    const lineNumber = index + 1;
+
+    // Fenced blocks: quiz blocks become prompts, anything else is content
+    const fence = line.match(/^\s{0,3}(`{3,}|~{3,})\s*([\w-]*)/);
+    if (fence) {
+      const close = lines.findIndex((candidate, i) => {
+        if (i <= index) {
+          return false;
+        }
+        const closing = candidate.match(/^\s{0,3}(`{3,}|~{3,})\s*$/);
+        return !!closing && closing[1][0] === fence[1][0] && closing[1].length >= fence[1].length;
+      });
+      if (close === -1) {
+        errors.push({ line: lineNumber, message: 'Fenced block is not closed' });
+        break;
+      }
+
+      if (fence[2] === 'quiz') {
+        if (!lesson) {
+          errors.push({ line: lineNumber, message: 'Quiz block must be inside a lesson (### heading)' });
+        } else {
+          const prompt = parseQuizBlock(lines, index + 1, close, errors, warnings);
+          if (prompt) {
+            lesson.spec.prompts = [...(lesson.spec.prompts ?? []), prompt];
+          }
+        }
+      } else {
+        const block = lines.slice(index, close + 1);
+        if (lesson) {
+          lesson.content.push(...block);
+        } else if (units.length > 0) {
+          units[units.length - 1].description.push(...block);
+        } else if (course) {
+          course.description.push(...block);
+        } else {
+          errors.push({ line: lineNumber, message: 'Content before the course title (# heading)' });
+        }
+      }
+      index = close;
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,3})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      const level = heading[1].length;
+      const title = heading[2].trim();
+      finishLesson();
+
+      if (!title) {
+        errors.push({ line: lineNumber, message: 'Heading has no title' });
+        continue;
+      }
+
+      if (level === 1) {
+        if (course) {
+          errors.push({ line: lineNumber, message: `Only one course (# heading) is allowed; the first is on line ${course.line}` });
+        } else {
+          course = { title, line: lineNumber, description: [] };
+        }
+      } else if (!course) {
+        errors.push({ line: lineNumber, message: `${level === 2 ? 'Unit' : 'Lesson'} "${title}" appears before the course title (# heading)` });
+      } else if (level === 2) {
+        units.push({ spec: { title, lessons: [] }, line: lineNumber, description: [] });
+      } else if (units.length === 0) {
+        errors.push({ line: lineNumber, message: `Lesson "${title}" is not inside a unit (## heading)` });
+      } else {
+        lesson = { spec: { title, content: '' }, line: lineNumber, content: [] };
+        units[units.length - 1].spec.lessons.push(lesson.spec);
+
+        // Metadata comment written by the exporter
+        const metadata = lines[index + 1]?.match(METADATA_COMMENT);
+        if (metadata) {
+          index++;
+          try {
+            const fields = JSON.parse(metadata[1]);
+            if (typeof fields?.videoUrl === 'string') {
+              lesson.spec.videoUrl = fields.videoUrl;
+            }
+          } catch {
+            warnings.push({ line: lineNumber + 1, message: 'Unreadable brainloop metadata comment ignored' });
+          }
+        }
+      }
+      continue;
+    }
+
+    if (METADATA_COMMENT.test(line)) {
+      continue;
+    }
+
+    if (lesson) {
+      lesson.content.push(line);
+    } else if (units.length > 0) {
+      units[units.length - 1].description.push(line);
+    } else if (course) {
+      course.description.push(line);
+    } else if (line.trim()) {
+      errors.push({ line: lineNumber, message: 'Content before the course title (# heading)' });
+    }
+  }
+  finishLesson();
+
+  if (!course) {
+    errors.unshift({ line: 1, message: 'Missing course title (# heading)' });
+    return { spec: null, errors, warnings };
+  }
+
+  const description = course.description.join('\n').trim();
+  if (!description) {
+    errors.push({ line: course.line, message: 'Course has no description (text between # and the first ## heading)' });
+  }
+  if (units.length === 0) {
+    errors.push({ line: course.line, message: 'Course has no units (## headings)' });
+  }
+  for (const unit of units) {
+    const unitDescription = unit.description.join('\n').trim();
+    if (unitDescription) {
+      unit.spec.description = unitDescription;
+    }
+    if (unit.spec.lessons.length === 0) {
+      warnings.push({ line: unit.line, message: `Unit "${unit.spec.title}" has no lessons (### headings)` });
+    }
+  }
+
+  errors.sort((a, b) => a.line - b.line);
+  warnings.sort((a, b) => a.line - b.line);
+
+  if (errors.length > 0) {
+    return { spec: null, errors, warnings };
+  }
+
+  return {
+    spec: {
+      title: course.title,
+      description,
+      isPublic,
+      units: units.map(unit => unit.spec),
+    },
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Parse the lines of a `quiz` block between its fences
+ */
+function parseQuizBlock(
+  lines: string[],
+  start: number,
+  end: number,
+  errors: MarkdownIssue[],
+  warnings: MarkdownIssue[]
+): PromptSpec | null {
+  const fields: Record<string, unknown> = {};
+  let valid = true;
+
+  for (let i = start; i < end; i++) {
+    if (!lines[i].trim()) {
+      continue;
+    }
+    const match = lines[i].match(/^\s*([A-Za-z]\w*):\s*(.*)$/);
+    if (!match) {
+      errors.push({ line: i + 1, message: 'Quiz lines must look like "field: value"' });
+      valid = false;
+      continue;
+    }
+    const [, key, raw] = match;
+    if (!(QUIZ_FIELDS as readonly string[]).includes(key)) {
+      errors.push({ line: i + 1, message: `Unknown quiz field "${key}"` });
+      valid = false;
+      continue;
+    }
+    if (!IMPORTABLE_QUIZ_FIELDS.has(key)) {
+      if (key !== 'id') {
+        warnings.push({ line: i + 1, message: `Quiz field "${key}" cannot be imported and is ignored` });
+      }
+      continue;
+    }
+
+    const parsed = parseMarkdownValue(raw);
+    if ('error' in parsed) {
+      errors.push({ line: i + 1, message: `Quiz field "${key}": ${parsed.error}` });
+      valid = false;
+      continue;
+    }
+    fields[key] = parsed.value;
+  }
+
+  const blockLine = start;
+  for (const key of TEXT_QUIZ_FIELDS) {
+    if (typeof fields[key] === 'number' || typeof fields[key] === 'boolean') {
+      fields[key] = String(fields[key]);
+    }
+  }
+  for (const required of ['type', 'question'] as const) {
+    if (typeof fields[required] !== 'string' || !(fields[required] as string).trim()) {
+      errors.push({ line: blockLine, message: `Quiz block is missing "${required}"` });
+      valid = false;
+    }
+  }
+  if (typeof fields.type === 'string' && fields.type.trim() && !isPromptType(fields.type)) {
+    errors.push({ line: blockLine, message: `Unknown quiz type "${fields.type}"; expected one of ${PROMPT_TYPES.join(', ')}` });
+    valid = false;
+  }
+  if (fields.options !== undefined &&
+    (!Array.isArray(fields.options) || fields.options.some(option => typeof option !== 'string'))) {
+    errors.push({ line: blockLine, message: 'Quiz "options" must be a JSON array of strings' });
+    valid = false;
+  }
+
+  if (!valid) {
+    return null;
+  }
+
+  // Check the answer shape and rules of the prompt's type, as create_prompts_batch does
+  const checked = PromptSchema.safeParse(fields);
+  if (!checked.success) {
+    for (const issue of checked.error.errors) {
+      errors.push({ line: blockLine, message: `Quiz ${issue.path.length > 0 ? `"${issue.path.join('.')}"` : 'block'}: ${issue.message}` });
+    }
+    return null;
+  }
+  return checked.data as PromptSpec;
+}
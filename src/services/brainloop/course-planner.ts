@@ -0,0 +1,588 @@
+/**
+ * @file Plan/apply diffing between a course spec and a live brainloop
+ * @module services/brainloop/course-planner
+ *
+ * @remarks
+ * Authors describe a whole brainloop declaratively (see {@link CourseSpec}).
+ * This module loads the live course, computes the operations needed to make
+ * it match the spec, and applies them through {@link BrainloopService}.
+ *
+ * Units and lessons are matched by normalized title. Lessons are matched
+ * across the whole course, so a lesson that appears under a different unit
+ * in the spec is moved rather than recreated. Prompts are matched by
+ * question text; since prompts cannot be updated in place, differing
+ * prompts are reported as warnings. Live content that is not in the spec is
+ * never deleted, only listed as untouched.
+ *
+ * Plans that create a new brainloop are remembered per user by fingerprint
+ * for {@link CREATED_COURSE_TTL_MS}, so a retried create can be pointed at
+ * the brainloop it already created instead of creating a duplicate.
+ */
+
+import { createHash } from 'crypto';
+import { logger } from '../../utils/logger.js';
+import { normalizeTitle } from '../../utils/content-matching.js';
+import { DEFAULT_API_CONCURRENCY, mapWithConcurrency } from '../../utils/concurrency.js';
+import type { BrainloopService, Course, Lesson, LessonPrompts, Unit } from './brainloop-service.js';
+import type { OperationJournal } from './operation-journal.js';
+import type {
+  CoursePlan,
+  CourseSpec,
+  EntityRef,
+  PlanOperation,
+  PromptSpec,
+} from '../../types/course-spec.js';
+
+/**
+ * Creates older than this are no longer matched against retries
+ */
+export const CREATED_COURSE_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A live course with its units, lessons and lesson prompts, in display order
+ */
+export interface CourseSnapshot {
+  course: Course;
+  units: Array<{
+    unit: Unit;
+    lessons: Array<{
+      lesson: Lesson;
+      prompts: LessonPrompts;
+    }>;
+  }>;
+}
+
+/**
+ * Load a course with all units, lessons and prompts.
+ *
+ * API calls for units and lessons run with bounded concurrency.
+ */
+export async function loadCourseSnapshot(
+  brainloopService: BrainloopService,
+  courseId: string
+): Promise<CourseSnapshot> {
+  const [course, units] = await Promise.all([
+    brainloopService.getCourse(courseId),
+    brainloopService.getCourseUnits(courseId),
+  ]);
+
+  const sortedUnits = [...units].sort((a, b) => a.order - b.order);
+  const unitLessons = await mapWithConcurrency(sortedUnits, DEFAULT_API_CONCURRENCY, async unit =>
+    [...await brainloopService.getUnitLessons(unit.id)].sort((a, b) => a.order - b.order)
+  );
+
+  const lessons = unitLessons.flat();
+  const prompts = await mapWithConcurrency(lessons, DEFAULT_API_CONCURRENCY, lesson =>
+    brainloopService.getLessonPrompts(lesson.id)
+  );
+  const promptsByLesson = new Map(lessons.map((lesson, i) => [lesson.id, prompts[i]]));
+
+  return {
+    course,
+    units: sortedUnits.map((unit, i) => ({
+      unit,
+      lessons: unitLessons[i].map(lesson => ({
+        lesson,
+        prompts: promptsByLesson.get(lesson.id)!,
+      })),
+    })),
+  };
+}
+
+function refKey(ref: EntityRef): string {
+  return 'id' in ref ? ref.id : ref.ref;
+}
+
+function sameSequence(a: EntityRef[], b: EntityRef[]): boolean {
+  return a.length === b.length && a.every((ref, i) => refKey(ref) === refKey(b[i]));
+}
+
+function truncate(text: string, length = 60): string {
+  return text.length > length ? `${text.substring(0, length)}...` : text;
+}
+
+/**
+ * Fields of a live prompt that differ from its spec
+ */
+function promptDifferences(spec: PromptSpec, live: LessonPrompts['prompts'][number]): string[] {
+  const differences: string[] = [];
+  if (spec.type !== live.type) {
+    differences.push('type');
+  }
+  if (spec.options !== undefined && JSON.stringify(spec.options) !== JSON.stringify(live.options ?? [])) {
+    differences.push('options');
+  }
+  if (spec.answer !== undefined && JSON.stringify(spec.answer) !== JSON.stringify(live.answer)) {
+    differences.push('answer');
+  }
+  if (spec.explanation !== undefined && spec.explanation !== (live.explanation ?? '')) {
+    differences.push('explanation');
+  }
+  return differences;
+}
+
+/**
+ * Compute the operations that make the live course match the spec.
+ *
+ * @param spec - Desired state of the brainloop
+ * @param snapshot - Live course, or null to plan a brand new brainloop
+ * @returns The plan, including warnings and untouched live content
+ */
+export function planCourse(spec: CourseSpec, snapshot: CourseSnapshot | null): CoursePlan {
+  const operations: PlanOperation[] = [];
+  const warnings: string[] = [];
+  const untouched: string[] = [];
+
+  const courseRef: EntityRef = snapshot ? { id: snapshot.course.id } : { ref: 'course' };
+  if (!snapshot) {
+    operations.push({
+      kind: 'create_course',
+      ref: 'course',
+      title: spec.title,
+      description: spec.description,
+      isPrivate: !(spec.isPublic ?? false),
+      summary: `+ create brainloop "${spec.title}"`,
+    });
+  } else if (spec.title !== snapshot.course.title || spec.description !== snapshot.course.description) {
+    warnings.push('The brainloop title/description differ from the spec. Updating course details is not supported; they are left unchanged.');
+  }
+
+  const liveUnits = snapshot?.units ?? [];
+
+  // Units: match by normalized title, first live unit wins
+  const unitsByTitle = new Map<string, CourseSnapshot['units'][number]>();
+  for (const entry of liveUnits) {
+    const key = normalizeTitle(entry.unit.title);
+    if (!unitsByTitle.has(key)) {
+      unitsByTitle.set(key, entry);
+    }
+  }
+
+  const matchedUnits: Array<CourseSnapshot['units'][number] | undefined> = [];
+  const matchedUnitIds = new Set<string>();
+  for (const unitSpec of spec.units) {
+    const live = unitsByTitle.get(normalizeTitle(unitSpec.title));
+    if (live && !matchedUnitIds.has(live.unit.id)) {
+      matchedUnitIds.add(live.unit.id);
+      matchedUnits.push(live);
+    } else {
+      matchedUnits.push(undefined);
+    }
+  }
+
+  // Lessons: match across the whole course so moves between units are detected
+  type LiveLesson = CourseSnapshot['units'][number]['lessons'][number] & { unitId: string };
+  const lessonsByTitle = new Map<string, LiveLesson>();
+  for (const entry of liveUnits) {
+    for (const lessonEntry of entry.lessons) {
+      const key = normalizeTitle(lessonEntry.lesson.title);
+      if (!lessonsByTitle.has(key)) {
+        lessonsByTitle.set(key, { ...lessonEntry, unitId: entry.unit.id });
+      }
+    }
+  }
+
+  const matchedLessons: Array<Array<LiveLesson | undefined>> = [];
+  const matchedLessonIds = new Set<string>();
+  for (const unitSpec of spec.units) {
+    matchedLessons.push(unitSpec.lessons.map(lessonSpec => {
+      const live = lessonsByTitle.get(normalizeTitle(lessonSpec.title));
+      if (live && !matchedLessonIds.has(live.lesson.id)) {
+        matchedLessonIds.add(live.lesson.id);
+        return live;
+      }
+      return undefined;
+    }));
+  }
+  // Unit each matched live lesson should end up in
+  const targetUnitIndex = new Map<string, number>();
+  matchedLessons.forEach((lessons, i) => lessons.forEach(live => live && targetUnitIndex.set(live.lesson.id, i)));
+
+  // Unit operations
+  const unitRefs: EntityRef[] = [];
+  let createdUnits = 0;
+  spec.units.forEach((unitSpec, i) => {
+    const live = matchedUnits[i];
+    if (live) {
+      unitRefs.push({ id: live.unit.id });
+      const changes: { title?: string; description?: string } = {};
+      if (unitSpec.title !== live.unit.title) {
+        changes.title = unitSpec.title;
+      }
+      if (unitSpec.description !== undefined && unitSpec.description !== (live.unit.description ?? '')) {
+        changes.description = unitSpec.description;
+      }
+      if (Object.keys(changes).length > 0) {
+        operations.push({
+          kind: 'update_unit',
+          unitId: live.unit.id,
+          ...changes,
+          summary: `~ update unit "${unitSpec.title}" (${Object.keys(changes).join(', ')})`,
+        });
+      }
+    } else {
+      const ref = `unit:${i}`;
+      unitRefs.push({ ref });
+      createdUnits++;
+      operations.push({
+        kind: 'create_unit',
+        ref,
+        course: courseRef,
+        title: unitSpec.title,
+        description: unitSpec.description ?? `Learn about ${unitSpec.title}`,
+        order: liveUnits.length + createdUnits,
+        summary: `+ create unit "${unitSpec.title}"`,
+      });
+    }
+  });
+
+  // Unit order: spec units first, then live units that are not in the spec
+  const extraUnits = liveUnits.filter(entry => !matchedUnitIds.has(entry.unit.id));
+  extraUnits.forEach(entry => untouched.push(`unit "${entry.unit.title}" (ID: ${entry.unit.id})`));
+  if (snapshot) {
+    const desiredUnits: EntityRef[] = [...unitRefs, ...extraUnits.map(entry => ({ id: entry.unit.id }))];
+    const expectedUnits: EntityRef[] = [
+      ...liveUnits.map(entry => ({ id: entry.unit.id })),
+      ...unitRefs.filter(ref => 'ref' in ref),
+    ];
+    if (!sameSequence(desiredUnits, expectedUnits)) {
+      operations.push({
+        kind: 'reorder_units',
+        course: courseRef,
+        units: desiredUnits,
+        summary: `↕ reorder units: ${spec.units.map(unit => `"${unit.title}"`).join(', ')}`,
+      });
+    }
+  }
+
+  // Lesson operations, unit by unit. Reordering runs after every move so
+  // lessons leaving a unit no longer affect positions in it.
+  const lessonRefs: EntityRef[][] = [];
+  const orderOperations: PlanOperation[] = [];
+  spec.units.forEach((unitSpec, i) => {
+    const unitRef = unitRefs[i];
+    const liveHere = matchedUnits[i]?.lessons ?? [];
+
+    // Live lessons that remain in this unit (matched here or not in the spec at all)
+    const staying = liveHere.filter(entry => {
+      const target = targetUnitIndex.get(entry.lesson.id);
+      return target === undefined || target === i;
+    });
+    const extras = staying.filter(entry => !matchedLessonIds.has(entry.lesson.id));
+    extras.forEach(entry => untouched.push(`lesson "${entry.lesson.title}" in unit "${unitSpec.title}" (ID: ${entry.lesson.id})`));
+
+    const refs: EntityRef[] = [];
+    const movedIn: EntityRef[] = [];
+    const created: EntityRef[] = [];
+
+    unitSpec.lessons.forEach((lessonSpec, j) => {
+      const live = matchedLessons[i][j];
+      if (!live) {
+        const ref = `lesson:${i}:${j}`;
+        refs.push({ ref });
+        created.push({ ref });
+        operations.push({
+          kind: 'create_lesson',
+          ref,
+          unit: unitRef,
+          title: lessonSpec.title,
+          content: lessonSpec.content,
+          videoUrl: lessonSpec.videoUrl,
+          order: staying.length + movedIn.length + created.length,
+          summary: `+ create lesson "${lessonSpec.title}" in unit "${unitSpec.title}"`,
+        });
+        return;
+      }
+
+      refs.push({ id: live.lesson.id });
+      if (live.unitId !== refKey(unitRef)) {
+        movedIn.push({ id: live.lesson.id });
+        operations.push({
+          kind: 'move_lesson',
+          lessonId: live.lesson.id,
+          unit: unitRef,
+          summary: `→ move lesson "${lessonSpec.title}" to unit "${unitSpec.title}"`,
+        });
+      }
+
+      const changes: { title?: string; content?: string; videoUrl?: string } = {};
+      if (lessonSpec.title !== live.lesson.title) {
+        changes.title = lessonSpec.title;
+      }
+      if (lessonSpec.content.trim() !== (live.lesson.content ?? '').trim()) {
+        changes.content = lessonSpec.content;
+      }
+      if (lessonSpec.videoUrl !== undefined && lessonSpec.videoUrl !== (live.lesson.videoUrl ?? '')) {
+        changes.videoUrl = lessonSpec.videoUrl;
+      }
+      if (Object.keys(changes).length > 0) {
+        operations.push({
+          kind: 'update_lesson',
+          lessonId: live.lesson.id,
+          ...changes,
+          previous: {
+            title: live.lesson.title,
+            content: live.lesson.content ?? '',
+            videoUrl: live.lesson.videoUrl,
+          },
+          summary: `~ update lesson "${lessonSpec.title}" (${Object.keys(changes).join(', ')})`,
+        });
+      }
+    });
+
+    // Moved and created lessons are appended; fix up the order if that is not what the spec says
+    const current: EntityRef[] = [
+      ...staying.map(entry => ({ id: entry.lesson.id })),
+      ...movedIn,
+      ...created,
+    ];
+    const desired: EntityRef[] = [...refs, ...extras.map(entry => ({ id: entry.lesson.id }))];
+    if (!sameSequence(current, desired)) {
+      orderOperations.push({
+        kind: 'order_lessons',
+        unit: unitRef,
+        current,
+        lessons: desired,
+        summary: `↕ reorder lessons in unit "${unitSpec.title}"`,
+      });
+    }
+
+    lessonRefs.push(refs);
+  });
+  operations.push(...orderOperations);
+
+  // Prompts, for lessons whose spec lists them
+  spec.units.forEach((unitSpec, i) => {
+    unitSpec.lessons.forEach((lessonSpec, j) => {
+      if (!lessonSpec.prompts) {
+        return;
+      }
+      const live = matchedLessons[i][j];
+      const livePrompts = live?.prompts.prompts ?? [];
+      const livePromptsByQuestion = new Map(livePrompts.map(prompt => [normalizeTitle(prompt.question), prompt]));
+      const matchedPromptIds = new Set<string>();
+      const missing: PromptSpec[] = [];
+
+      for (const promptSpec of lessonSpec.prompts) {
+        const livePrompt = livePromptsByQuestion.get(normalizeTitle(promptSpec.question));
+        if (!livePrompt || matchedPromptIds.has(livePrompt.id)) {
+          missing.push(promptSpec);
+          continue;
+        }
+        matchedPromptIds.add(livePrompt.id);
+        const differences = promptDifferences(promptSpec, livePrompt);
+        if (differences.length > 0) {
+          warnings.push(
+            `Prompt "${truncate(promptSpec.question)}" in lesson "${lessonSpec.title}" differs from the spec ` +
+            `(${differences.join(', ')}). Prompts cannot be updated in place; it is left unchanged (ID: ${livePrompt.id}).`
+          );
+        }
+      }
+
+      livePrompts
+        .filter(prompt => !matchedPromptIds.has(prompt.id))
+        .forEach(prompt => untouched.push(`prompt "${truncate(prompt.question)}" in lesson "${lessonSpec.title}" (ID: ${prompt.id})`));
+
+      if (missing.length === 0) {
+        return;
+      }
+
+      const lessonRef = lessonRefs[i][j];
+      const interactionId = live?.prompts.interaction?.id;
+      if (!interactionId) {
+        operations.push({
+          kind: 'create_interaction',
+          lesson: lessonRef,
+          summary: `+ create interaction for lesson "${lessonSpec.title}"`,
+        });
+      }
+      operations.push({
+        kind: 'create_prompts',
+        lesson: lessonRef,
+        interactionId,
+        prompts: missing,
+        summary: `+ add ${missing.length} prompt(s) to lesson "${lessonSpec.title}"`,
+      });
+    });
+  });
+
+  const fingerprint = createHash('sha256')
+    .update(JSON.stringify(operations))
+    .digest('hex')
+    .substring(0, 12);
+
+  return {
+    courseId: snapshot?.course.id ?? null,
+    operations,
+    warnings,
+    untouched,
+    fingerprint,
+  };
+}
+
+/**
+ * Apply a plan's operations in order.
+ *
+ * Created entities and lesson updates are recorded in the journal so the
+ * caller can roll them back or report them if a later operation fails.
+ *
+ * @returns The ID of the (possibly newly created) course
+ */
+export async function applyCoursePlan(
+  brainloopService: BrainloopService,
+  plan: CoursePlan,
+  journal: OperationJournal
+): Promise<string> {
+  const ids = new Map<string, string>();
+  const interactionIds = new Map<string, string>();
+
+  const resolve = (ref: EntityRef): string => {
+    if ('id' in ref) {
+      return ref.id;
+    }
+    const id = ids.get(ref.ref);
+    if (!id) {
+      throw new Error(`Plan references "${ref.ref}" before it was created`);
+    }
+    return id;
+  };
+
+  for (const op of plan.operations) {
+    logger.info(`🛠️ Applying plan operation: ${op.summary}`);
+
+    switch (op.kind) {
+      case 'create_course': {
+        const [course] = await brainloopService.createCoursesBatch([{
+          title: op.title,
+          description: op.description,
+          isPrivate: op.isPrivate,
+        }]);
+        journal.recordCreated('course', course);
+        ids.set(op.ref, course.id);
+        break;
+      }
+      case 'create_unit': {
+        const [unit] = await brainloopService.createUnitsBatch(resolve(op.course), [{
+          title: op.title,
+          description: op.description,
+          order: op.order,
+        }]);
+        journal.recordCreated('unit', unit);
+        ids.set(op.ref, unit.id);
+        break;
+      }
+      case 'update_unit':
+        await brainloopService.updateUnit(op.unitId, { title: op.title, description: op.description });
+        break;
+      case 'reorder_units':
+        await brainloopService.reorderUnits(resolve(op.course), op.units.map(resolve));
+        break;
+      case 'create_lesson': {
+        const [lesson] = await brainloopService.createLessonsBatch(resolve(op.unit), [{
+          title: op.title,
+          content: op.content,
+          order: op.order,
+          videoUrl: op.videoUrl,
+        }]);
+        journal.recordCreated('lesson', lesson);
+        ids.set(op.ref, lesson.id);
+        break;
+      }
+      case 'update_lesson':
+        await brainloopService.updateLesson(op.lessonId, {
+          title: op.title,
+          content: op.content,
+          videoUrl: op.videoUrl,
+        });
+        journal.recordLessonUpdated({ id: op.lessonId, title: op.previous.title }, op.previous);
+        break;
+      case 'move_lesson':
+        await brainloopService.moveLesson(op.lessonId, resolve(op.unit));
+        break;
+      case 'order_lessons': {
+        // Place each lesson at its target position, skipping those already in
+        // place. moveLesson takes the 0-based index, not the 1-based lesson order
+        const unitId = resolve(op.unit);
+        const current = op.current.map(resolve);
+        const desired = op.lessons.map(resolve);
+        for (let position = 0; position < desired.length; position++) {
+          if (current[position] === desired[position]) {
+            continue;
+          }
+          await brainloopService.moveLesson(desired[position], unitId, position);
+          current.splice(current.indexOf(desired[position]), 1);
+          current.splice(position, 0, desired[position]);
+        }
+        break;
+      }
+      case 'create_interaction': {
+        const interaction = await brainloopService.createInteraction(resolve(op.lesson));
+        interactionIds.set(refKey(op.lesson), interaction.id);
+        break;
+      }
+      case 'create_prompts': {
+        const interactionId = op.interactionId ?? interactionIds.get(refKey(op.lesson));
+        if (!interactionId) {
+          throw new Error(`No interaction available for lesson "${refKey(op.lesson)}"`);
+        }
+        await brainloopService.createPromptsBatch(interactionId, op.prompts);
+        break;
+      }
+    }
+  }
+
+  return plan.courseId ?? ids.get('course')!;
+}
+
+/**
+ * A brainloop created by applying a plan
+ */
+export interface CreatedCourse {
+  courseId: string;
+  title: string;
+  createdAt: Date;
+}
+
+// userId -> plan fingerprint -> created brainloop
+const createdCourses = new Map<string, Map<string, CreatedCourse>>();
+
+/**
+ * Drop remembered creates that are past their TTL
+ */
+function pruneCreatedCourses(now = Date.now()): void {
+  for (const [userId, userCourses] of createdCourses.entries()) {
+    for (const [fingerprint, created] of userCourses.entries()) {
+      if (now - created.createdAt.getTime() > CREATED_COURSE_TTL_MS) {
+        userCourses.delete(fingerprint);
+      }
+    }
+    if (userCourses.size === 0) {
+      createdCourses.delete(userId);
+    }
+  }
+}
+
+/**
+ * Remember the brainloop a user created by applying a plan
+ */
+export function saveCreatedCourse(userId: string, fingerprint: string, created: CreatedCourse): void {
+  pruneCreatedCourses();
+  const userCourses = createdCourses.get(userId) ?? new Map<string, CreatedCourse>();
+  userCourses.set(fingerprint, created);
+  createdCourses.set(userId, userCourses);
+}
+
+/**
+ * Get the brainloop a user already created from a plan with this fingerprint
+ */
+export function getCreatedCourse(userId: string, fingerprint: string): CreatedCourse | undefined {
+  pruneCreatedCourses();
+  return createdCourses.get(userId)?.get(fingerprint);
+}
+
+/**
+ * Forget a remembered create, e.g. once its brainloop has been deleted
+ */
+export function removeCreatedCourse(userId: string, fingerprint: string): void {
+  createdCourses.get(userId)?.delete(fingerprint);
+}
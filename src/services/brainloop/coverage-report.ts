@@ -0,0 +1,106 @@
+/**
+ * @file Interaction coverage of a brainloop
+ * @module services/brainloop/coverage-report
+ *
+ * @remarks
+ * The authoring workflow asks for one interaction with 5 prompts per
+ * lesson, each prompt with an explanation. This module checks a loaded
+ * course against that target and lists what each lesson is missing.
+ */
+
+import type { CourseSnapshot } from './course-planner.js';
+
+/**
+ * Prompts each lesson should have unless the author asks for another number
+ */
+export const DEFAULT_TARGET_PROMPTS = 5;
+
+/**
+ * Coverage of one lesson
+ */
+export interface LessonCoverage {
+  unitId: string;
+  unitTitle: string;
+  lessonId: string;
+  lessonTitle: string;
+  hasInteraction: boolean;
+  promptCount: number;
+  /** Number of prompts of each type */
+  typeMix: Record<string, number>;
+  /** IDs of prompts without an explanation */
+  missingExplanations: string[];
+  /** True when the lesson has an interaction, enough prompts and every explanation */
+  compliant: boolean;
+}
+
+export interface CoverageReport {
+  courseId: string;
+  courseTitle: string;
+  targetPrompts: number;
+  lessons: LessonCoverage[];
+  summary: {
+    totalLessons: number;
+    compliantLessons: number;
+    lessonsWithoutInteraction: number;
+    lessonsBelowTarget: number;
+    promptsMissingExplanations: number;
+    totalPrompts: number;
+    /** Number of prompts of each type across the course */
+    typeMix: Record<string, number>;
+  };
+}
+
+function countTypes(types: string[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const type of types) {
+    counts[type] = (counts[type] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Check every lesson of a course against the prompt target.
+ *
+ * @param targetPrompts - Prompts each lesson should have
+ */
+export function buildCoverageReport(snapshot: CourseSnapshot, targetPrompts = DEFAULT_TARGET_PROMPTS): CoverageReport {
+  const lessons: LessonCoverage[] = snapshot.units.flatMap(({ unit, lessons }) =>
+    lessons.map(({ lesson, prompts }) => {
+      const hasInteraction = prompts.lesson.hasInteraction || prompts.interaction !== null;
+      const missingExplanations = prompts.prompts
+        .filter(prompt => !prompt.explanation?.trim())
+        .map(prompt => prompt.id);
+      return {
+        unitId: unit.id,
+        unitTitle: unit.title,
+        lessonId: lesson.id,
+        lessonTitle: lesson.title,
+        hasInteraction,
+        promptCount: prompts.prompts.length,
+        typeMix: countTypes(prompts.prompts.map(prompt => prompt.type)),
+        missingExplanations,
+        compliant: hasInteraction && prompts.prompts.length >= targetPrompts && missingExplanations.length === 0,
+      };
+    })
+  );
+
+  const allTypes = snapshot.units.flatMap(({ lessons }) =>
+    lessons.flatMap(({ prompts }) => prompts.prompts.map(prompt => prompt.type))
+  );
+
+  return {
+    courseId: snapshot.course.id,
+    courseTitle: snapshot.course.title,
+    targetPrompts,
+    lessons,
+    summary: {
+      totalLessons: lessons.length,
+      compliantLessons: lessons.filter(lesson => lesson.compliant).length,
+      lessonsWithoutInteraction: lessons.filter(lesson => !lesson.hasInteraction).length,
+      lessonsBelowTarget: lessons.filter(lesson => lesson.promptCount < targetPrompts).length,
+      promptsMissingExplanations: lessons.reduce((sum, lesson) => sum + lesson.missingExplanations.length, 0),
+      totalPrompts: allTypes.length,
+      typeMix: countTypes(allTypes),
+    },
+  };
+}
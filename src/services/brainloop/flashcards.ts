@@ -0,0 +1,334 @@
+/**
+ * @file Anki-compatible flashcard export
+ * @module services/brainloop/flashcards
+ *
+ * @remarks
+ * Turns a brainloop's prompts (and optionally lesson sections and bold-term
+ * definitions) into notes for spaced-repetition apps, written as an Anki
+ * text import file. The file starts with Anki's `#` header lines so the
+ * separator, deck, tags and GUID columns are picked up automatically.
+ *
+ * Every note carries a GUID derived from the prompt or lesson ID. When a
+ * re-exported file is imported again, Anki updates the existing notes instead
+ * of adding duplicates.
+ */
+
+import { createHash } from 'crypto';
+import type { LessonPrompt } from './brainloop-service.js';
+import type { CourseSnapshot } from './course-planner.js';
+import { fillQuestion } from './prompt-types.js';
+import { choiceIndex, correctChoiceIndices, trueFalseAnswer } from './quiz-interchange.js';
+
+/**
+ * A single flashcard note
+ */
+export interface Flashcard {
+  /** Stable note ID, used by Anki to update notes on re-import */
+  guid: string;
+  /** Anki deck path (`Course::Unit::Lesson`) */
+  deck: string;
+  /** Front of the card (HTML) */
+  front: string;
+  /** Back of the card (HTML) */
+  back: string;
+  /** Anki tags (no spaces) */
+  tags: string[];
+}
+
+/**
+ * Options for building flashcards
+ */
+export interface FlashcardOptions {
+  /** Also create cards from lesson sections and bold-term definitions */
+  includeLessonContent?: boolean;
+}
+
+/**
+ * Sections of the lesson template that make poor flashcards
+ */
+const BOILERPLATE_SECTIONS = new Set([
+  "what you'll learn",
+  'what you will learn',
+  'key takeaways',
+  'introduction',
+  'summary',
+  'check your understanding',
+  'practice exercise',
+  'next steps',
+]);
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Anki deck names use `::` as the hierarchy separator
+ */
+function deckName(...parts: string[]): string {
+  return parts.map(part => part.replace(/::/g, ':').replace(/\s+/g, ' ').trim()).join('::');
+}
+
+/**
+ * Anki tags cannot contain spaces
+ */
+function tagName(prefix: string, title: string): string {
+  const tag = title.trim().replace(/\s+/g, '_').replace(/::/g, '_').replace(/["]/g, '');
+  return `${prefix}::${tag || 'untitled'}`;
+}
+
+function shortHash(text: string): string {
+  return createHash('sha1').update(text).digest('hex').substring(0, 10);
+}
+
+/**
+ * Back of the card for a prompt, or null if the prompt has no usable answer
+ */
+function promptBack(prompt: LessonPrompt): string | null {
+  let answer: string | null = null;
+
+  if (prompt.type === 'true-false') {
+    const value = trueFalseAnswer(prompt.answer);
+    answer = value === null ? null : value ? 'True' : 'False';
+  } else if (prompt.type === 'ordering') {
+    const options = prompt.options ?? [];
+    const order = Array.isArray(prompt.answer) ? prompt.answer.map(value => choiceIndex(value, options)) : [];
+    answer = order.length > 0 && order.every(index => index !== null)
+      ? (order as number[]).map((index, i) => `${i + 1}. ${options[index]}`).join('\n')
+      : null;
+  } else if (prompt.type === 'matching') {
+    answer = isTextRecord(prompt.answer)
+      ? Object.entries(prompt.answer).map(([item, match]) => `${item} → ${match}`).join('\n')
+      : null;
+  } else if (prompt.type === 'fill-in-the-blank' || prompt.type === 'cloze') {
+    const answers = prompt.answer;
+    const first = (key: number | string) => {
+      const accepted = Array.isArray(answers) || (answers && typeof answers === 'object') ? answers[key] : undefined;
+      return Array.isArray(accepted) && typeof accepted[0] === 'string' ? accepted[0] : null;
+    };
+    let complete = true;
+    const filled = fillQuestion(prompt.question, key => {
+      const value = first(key);
+      complete = complete && value !== null;
+      return value ?? '___';
+    });
+    answer = complete ? filled : null;
+  } else if (prompt.options?.length) {
+    const indices = correctChoiceIndices(prompt);
+    answer = indices
+      ? indices.map(index => `${String.fromCharCode(65 + index)}) ${prompt.options![index]}`).join('\n')
+      : null;
+  } else if (typeof prompt.answer === 'string' && prompt.answer.trim()) {
+    answer = prompt.answer.trim();
+  } else if (Array.isArray(prompt.answer) && prompt.answer.every(value => typeof value === 'string')) {
+    answer = prompt.answer.join('\n');
+  } else if (prompt.codeExpectedOutput) {
+    answer = prompt.codeExpectedOutput;
+  }
+
+  if (answer === null && !prompt.explanation) {
+    return null;
+  }
+  const parts = [];
+  if (answer !== null) {
+    parts.push(escapeHtml(answer));
+  }
+  if (prompt.explanation) {
+    parts.push(`<i>${escapeHtml(prompt.explanation)}</i>`);
+  }
+  return parts.join('<br><br>');
+}
+
+function isTextRecord(value: unknown): value is Record<string, string> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(item => typeof item === 'string');
+}
+
+function promptFront(prompt: LessonPrompt): string {
+  let front = escapeHtml(prompt.type === 'cloze'
+    ? fillQuestion(prompt.question, () => '[...]')
+    : prompt.question);
+  if (prompt.type === 'matching' && isTextRecord(prompt.answer)) {
+    front += '<br>' + Object.keys(prompt.answer)
+      .map((item, index) => `${index + 1}. ${escapeHtml(item)}`)
+      .join('<br>');
+  }
+  if (prompt.type !== 'true-false' && prompt.options?.length) {
+    front += '<br>' + prompt.options
+      .map((option, index) => `${String.fromCharCode(65 + index)}) ${escapeHtml(option)}`)
+      .join('<br>');
+  }
+  if (prompt.codeStarterCode) {
+    front += `<br><pre>${escapeHtml(prompt.codeStarterCode)}</pre>`;
+  }
+  return front;
+}
+
+/**
+ * Strip inline Markdown emphasis, code and links
+ */
+function plainText(markdown: string): string {
+  return markdown
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/(\*\*|__|\*|_|`)(.+?)\1/g, '$2')
+    .trim();
+}
+
+/**
+ * Cards from a lesson's bold-term definitions and content sections
+ */
+function lessonCards(content: string): Array<{ key: string; front: string; back: string }> {
+  const cards: Array<{ key: string; front: string; back: string }> = [];
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  let inFence = false;
+
+  lines.forEach((line, index) => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    if (inFence) {
+      return;
+    }
+
+    // "**Term**: definition" or "- **Term** - definition"
+    const definition = line.match(/^\s*(?:[-*]\s+)?\*\*([^*]+)\*\*\s*(?::|-|—|–)\s*(.+)$/);
+    if (definition) {
+      const term = definition[1].replace(/:$/, '').trim();
+      cards.push({
+        key: `definition:${term.toLowerCase()}`,
+        front: escapeHtml(term),
+        back: escapeHtml(plainText(definition[2])),
+      });
+      return;
+    }
+
+    // "## Section" followed by its first paragraph
+    const heading = line.match(/^#{2,3}\s+(.+?)\s*#*\s*$/);
+    if (!heading) {
+      return;
+    }
+    const title = plainText(heading[1]).replace(/^[^\p{L}\p{N}]+/u, '').trim();
+    if (!title || BOILERPLATE_SECTIONS.has(title.toLowerCase())) {
+      return;
+    }
+    const paragraph: string[] = [];
+    for (const next of lines.slice(index + 1)) {
+      if (/^#{1,6}\s/.test(next) || /^\s*(```|~~~)/.test(next)) {
+        break;
+      }
+      if (!next.trim()) {
+        if (paragraph.length > 0) {
+          break;
+        }
+        continue;
+      }
+      paragraph.push(plainText(next));
+    }
+    if (paragraph.length > 0) {
+      cards.push({
+        key: `section:${title.toLowerCase()}`,
+        front: escapeHtml(title),
+        back: escapeHtml(paragraph.join('\n')),
+      });
+    }
+  });
+
+  return cards;
+}
+
+/**
+ * Build flashcards for a course.
+ *
+ * @returns The cards and the prompts that had no answer or explanation to
+ * put on the back of a card
+ */
+export function buildFlashcards(
+  snapshot: CourseSnapshot,
+  options: FlashcardOptions = {}
+): { cards: Flashcard[]; skipped: Array<{ prompt: LessonPrompt; lessonTitle: string }> } {
+  const cards: Flashcard[] = [];
+  const skipped: Array<{ prompt: LessonPrompt; lessonTitle: string }> = [];
+  const courseTitle = snapshot.course.title;
+
+  for (const { unit, lessons } of snapshot.units) {
+    for (const { lesson, prompts } of lessons) {
+      const deck = deckName(courseTitle, unit.title, lesson.title);
+      const tags = [
+        tagName('brainloop', courseTitle),
+        tagName('unit', unit.title),
+        tagName('lesson', lesson.title),
+      ];
+
+      if (options.includeLessonContent && lesson.content) {
+        const seen = new Set<string>();
+        for (const card of lessonCards(lesson.content)) {
+          if (seen.has(card.key)) {
+            continue;
+          }
+          seen.add(card.key);
+          cards.push({
+            guid: `brainloop-lesson-${lesson.id}-${shortHash(card.key)}`,
+            deck,
+            front: card.front,
+            back: card.back,
+            tags: [...tags, card.key.startsWith('definition:') ? 'definition' : 'section'],
+          });
+        }
+      }
+
+      const sortedPrompts = [...prompts.prompts].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+      for (const prompt of sortedPrompts) {
+        const back = promptBack(prompt);
+        if (back === null) {
+          skipped.push({ prompt, lessonTitle: lesson.title });
+          continue;
+        }
+        cards.push({
+          guid: `brainloop-prompt-${prompt.id}`,
+          deck,
+          front: promptFront(prompt),
+          back,
+          tags: [...tags, 'prompt', prompt.type.replace(/\s+/g, '_')],
+        });
+      }
+    }
+  }
+
+  return { cards, skipped };
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Write cards as an Anki text import file.
+ *
+ * Columns: GUID, deck, front, back, tags. Fields are HTML, so tabs and line
+ * breaks never appear inside a field.
+ */
+export function formatAnkiFile(cards: Flashcard[], format: 'tsv' | 'csv'): string {
+  const separator = format === 'tsv' ? '\t' : ',';
+  const field = (value: string) => format === 'tsv'
+    ? value.replace(/\t/g, ' ').replace(/\r?\n/g, '<br>')
+    : csvField(value.replace(/\r?\n/g, '<br>'));
+
+  const header = [
+    `#separator:${format === 'tsv' ? 'Tab' : 'Comma'}`,
+    '#html:true',
+    '#notetype:Basic',
+    '#guid column:1',
+    '#deck column:2',
+    '#tags column:5',
+    '#columns:GUID' + separator + 'Deck' + separator + 'Front' + separator + 'Back' + separator + 'Tags',
+  ];
+  const rows = cards.map(card =>
+    [card.guid, card.deck, card.front, card.back, card.tags.join(' ')].map(field).join(separator)
+  );
+
+  return [...header, ...rows].join('\n') + '\n';
+}
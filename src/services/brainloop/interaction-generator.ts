@@ -0,0 +1,226 @@
+/**
+ * @file Prompt generation through MCP sampling
+ * @module services/brainloop/interaction-generator
+ *
+ * @remarks
+ * Builds the sampling request that asks the client's model for prompts on a
+ * lesson, and checks the model's answer. The model is asked for JSON that
+ * follows {@link PROMPT_BATCH_RESPONSE_SCHEMA}; the response is checked
+ * against that schema and then against the prompt-type rules of
+ * {@link PromptSchema}, so generated prompts meet the same bar as prompts
+ * created by hand.
+ *
+ * Previews are kept in memory per MCP session, so a later call can create
+ * exactly the prompts the user saw instead of asking the model again. They
+ * are dropped when the MCP session is cleaned up, or after
+ * {@link GENERATION_PREVIEW_TTL_MS}.
+ */
+
+import type { CreateMessageRequest, CreateMessageResult } from '@modelcontextprotocol/sdk/types.js';
+import { formatSchemaIssue } from '../../utils/json-schema.js';
+import { parseSamplingResponse, SamplingResponseError } from '../../utils/sampling-response.js';
+import { PROMPT_BATCH_RESPONSE_SCHEMA, type PromptBatchDraft } from '../../types/sampling-schemas.js';
+import { PromptSchema, type ValidatedPrompt } from './prompt-schema.js';
+import type { GeneratablePromptType } from './prompt-types.js';
+import type { Lesson } from './brainloop-service.js';
+
+/**
+ * Previews older than this can no longer be created
+ */
+export const GENERATION_PREVIEW_TTL_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * Longest lesson content sent to the model; longer content is cut off
+ */
+const MAX_LESSON_CONTENT_LENGTH = 20000;
+
+const SYSTEM_PROMPT = `You write assessment prompts (questions) for lessons on the BRAINLOOP learning platform.
+
+Reply with a single JSON object and nothing else: no prose, no Markdown code fences. It must follow this JSON Schema:
+
+${JSON.stringify(PROMPT_BATCH_RESPONSE_SCHEMA, null, 2)}
+
+Answer shapes by type:
+- multiple-choice: "options" and "answer" as the 0-based indices of every correct option, e.g. [0, 2]
+- single-choice: "options" and "answer" as the 0-based index of the correct option
+- true-false: "answer" true or false
+- short-answer: "answer" as the accepted answers, e.g. ["photosynthesis"]
+- ordering: "options" as the items and "answer" as every option index once, in the correct order
+- matching: "answer" as an object mapping each item to its match, with at least 2 pairs
+- fill-in-the-blank: mark each blank in the question with ___ and give "answer" as the accepted answers for each blank, in order, e.g. [["Paris"], ["Seine", "la Seine"]]
+- cloze: mark each gap in the question with {{id}} and give "answer" as an object of accepted answers per gap ID, e.g. {"capital": ["Paris"]}
+
+Rules:
+- Only ask about what the lesson content teaches.
+- Every prompt needs an explanation of why the answer is correct.
+- Options must not repeat, and wrong options should be plausible.
+- Do not repeat or rephrase the lesson's existing questions.`;
+
+/**
+ * What to generate for one lesson
+ */
+export interface GenerationTarget {
+  lesson: Pick<Lesson, 'title' | 'content'>;
+  /** Questions the lesson already has */
+  existingQuestions: string[];
+  count: number;
+  promptTypes: readonly GeneratablePromptType[];
+}
+
+export interface GenerationOutcome {
+  /** Valid prompts, at most the requested number */
+  prompts: ValidatedPrompt[];
+  /** Why the response was rejected; empty when it was accepted */
+  errors: string[];
+  /** Remarks on an accepted response, such as dropped duplicates */
+  notes: string[];
+}
+
+/**
+ * Build the sampling request for one lesson
+ */
+export function buildGenerationRequest(target: GenerationTarget): CreateMessageRequest {
+  const content = target.lesson.content.length > MAX_LESSON_CONTENT_LENGTH
+    ? `${target.lesson.content.substring(0, MAX_LESSON_CONTENT_LENGTH)}\n\n[Content truncated]`
+    : target.lesson.content;
+
+  const text = `Write exactly ${target.count} prompt(s) for the lesson below.\n\n` +
+    `Allowed types: ${target.promptTypes.join(', ')}. Mix the types where the content allows it.\n\n` +
+    (target.existingQuestions.length > 0
+      ? `Existing questions (do not repeat them):\n${target.existingQuestions.map(question => `- ${question}`).join('\n')}\n\n`
+      : '') +
+    `# ${target.lesson.title}\n\n${content}`;
+
+  return {
+    method: 'sampling/createMessage',
+    params: {
+      messages: [{ role: 'user', content: { type: 'text', text } }],
+      system: SYSTEM_PROMPT,
+      maxTokens: 4096,
+      temperature: 0.4,
+      modelPreferences: { intelligencePriority: 0.8 },
+    },
+  };
+}
+
+function normalizeQuestion(question: string): string {
+  return question.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Check the model's reply for one lesson.
+ *
+ * The reply is rejected as a whole if it is not valid JSON, does not follow
+ * the schema, or any prompt breaks the rules of its type. Prompts that
+ * repeat an existing question, and prompts beyond the requested number, are
+ * dropped with a note.
+ */
+export function parseGeneratedPrompts(result: CreateMessageResult, target: GenerationTarget): GenerationOutcome {
+  let draft: PromptBatchDraft;
+  try {
+    draft = parseSamplingResponse<PromptBatchDraft>(result, PROMPT_BATCH_RESPONSE_SCHEMA, 'prompt batch');
+  } catch (error) {
+    if (error instanceof SamplingResponseError) {
+      return { prompts: [], errors: error.issues.map(formatSchemaIssue), notes: [] };
+    }
+    throw error;
+  }
+
+  const errors: string[] = [];
+  const prompts: ValidatedPrompt[] = [];
+  draft.prompts.forEach((candidate, index) => {
+    const parsed = PromptSchema.safeParse(candidate);
+    if (parsed.success) {
+      prompts.push(parsed.data);
+    } else {
+      errors.push(...parsed.error.errors.map(issue =>
+        `prompts.${[index, ...issue.path].join('.')}: ${issue.message}`
+      ));
+    }
+  });
+  const disallowed = prompts.filter(prompt => !(target.promptTypes as readonly string[]).includes(prompt.type));
+  if (disallowed.length > 0) {
+    errors.push(`Prompt types not requested: ${[...new Set(disallowed.map(prompt => prompt.type))].join(', ')}`);
+  }
+  if (errors.length > 0) {
+    return { prompts: [], errors, notes: [] };
+  }
+
+  const notes: string[] = [];
+  const seen = new Set(target.existingQuestions.map(normalizeQuestion));
+  const unique = prompts.filter(prompt => {
+    const key = normalizeQuestion(prompt.question);
+    if (seen.has(key)) {
+      notes.push(`Dropped a repeated question: "${prompt.question}"`);
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+  if (unique.length > target.count) {
+    notes.push(`Kept the first ${target.count} of ${unique.length} prompts`);
+  } else if (unique.length < target.count) {
+    notes.push(`Generated ${unique.length} of the ${target.count} requested prompts`);
+  }
+
+  return { prompts: unique.slice(0, target.count), errors: [], notes };
+}
+
+/**
+ * Prompts generated for a dry run, waiting to be created
+ */
+export interface GenerationPreview {
+  previewId: string;
+  brainloopId: string;
+  brainloopTitle: string;
+  targetPrompts: number;
+  promptTypes: GeneratablePromptType[];
+  lessons: Array<{ lessonId: string; lessonTitle: string; prompts: ValidatedPrompt[] }>;
+  /** Lessons below the target that the preview left for a later call */
+  remainingLessons: number;
+  createdAt: Date;
+}
+
+const previews = new Map<string, Map<string, GenerationPreview>>();
+
+function pruneExpired(now = Date.now()): void {
+  for (const [sessionId, sessionPreviews] of previews.entries()) {
+    for (const [previewId, preview] of sessionPreviews.entries()) {
+      if (now - preview.createdAt.getTime() > GENERATION_PREVIEW_TTL_MS) {
+        sessionPreviews.delete(previewId);
+      }
+    }
+    if (sessionPreviews.size === 0) {
+      previews.delete(sessionId);
+    }
+  }
+}
+
+/**
+ * Keep a preview so a later call in the same session can create it
+ */
+export function saveGenerationPreview(sessionId: string, preview: GenerationPreview): void {
+  pruneExpired();
+  const sessionPreviews = previews.get(sessionId) ?? new Map<string, GenerationPreview>();
+  sessionPreviews.set(preview.previewId, preview);
+  previews.set(sessionId, sessionPreviews);
+}
+
+/**
+ * Get a preview made in a session
+ */
+export function getGenerationPreview(sessionId: string, previewId: string): GenerationPreview | undefined {
+  pruneExpired();
+  return previews.get(sessionId)?.get(previewId);
+}
+
+/**
+ * Drop one preview of a session, or all of them
+ */
+export function removeGenerationPreviews(sessionId: string, previewId?: string): void {
+  if (previewId === undefined) {
+    previews.delete(sessionId);
+    return;
+  }
+  previews.get(sessionId)?.delete(previewId);
+}
@@ -0,0 +1,184 @@
+/**
+ * @file Lesson critique through MCP sampling
+ * @module services/brainloop/lesson-review
+ *
+ * @remarks
+ * Builds the sampling request that asks the client's model to score a lesson
+ * against the lesson template and the learning design principles, and to
+ * suggest concrete edits. Edits are find-and-replace operations on the
+ * current content, so they can be applied without the model rewriting the
+ * lesson.
+ *
+ * Reviews are kept in memory per MCP session until their edits are applied,
+ * so the edits applied are exactly the ones the user saw. A review is only
+ * applied while the lesson content still matches the reviewed version.
+ * Reviews are dropped when the MCP session is cleaned up, or after
+ * {@link LESSON_REVIEW_TTL_MS}.
+ */
+
+import { createHash } from 'crypto';
+import type { CreateMessageRequest } from '@modelcontextprotocol/sdk/types.js';
+import { RESOURCE_CONTENT } from '../../constants/resources.js';
+import { LESSON_CRITIQUE_RESPONSE_SCHEMA, type LessonCritique } from '../../types/sampling-schemas.js';
+import type { Lesson } from './brainloop-service.js';
+
+/**
+ * Reviews older than this can no longer be applied
+ */
+export const LESSON_REVIEW_TTL_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * Longest lesson content sent to the model; longer lessons are not reviewed,
+ * because edits to the part the model did not see could not be checked
+ */
+export const MAX_REVIEW_CONTENT_LENGTH = 30000;
+
+const SYSTEM_PROMPT = `You review lessons on the BRAINLOOP learning platform against its lesson template and learning design principles.
+
+Reply with a single JSON object and nothing else: no prose, no Markdown code fences. It must follow this JSON Schema:
+
+${JSON.stringify(LESSON_CRITIQUE_RESPONSE_SCHEMA, null, 2)}
+
+Score each criterion from 1 (poor) to 5 (excellent):
+- objectives: the lesson states clear, measurable learning objectives up front
+- examples: concepts are shown with concrete, relevant examples
+- summary: the lesson ends with key takeaways that match the objectives
+- length: the lesson fits the template's length guidance without padding
+- clarity: terms are defined before use and the structure is easy to follow
+
+Rules for edits:
+- "find" must be copied exactly from the lesson content and occur in it only once.
+- Keep each edit small and focused on one problem; suggest at most 8 edits.
+- Keep the lesson's Markdown and any MDX components intact.
+- Only suggest edits that raise a score; an empty list is fine for a strong lesson.
+
+# Lesson Template
+
+${RESOURCE_CONTENT.LESSON_TEMPLATE}
+
+# Learning Design Principles
+
+${RESOURCE_CONTENT.LEARNING_DESIGN_PRINCIPLES}`;
+
+/**
+ * A critique waiting to be applied
+ */
+export interface LessonReview {
+  reviewId: string;
+  lessonId: string;
+  lessonTitle: string;
+  /** Hash of the content that was reviewed */
+  contentHash: string;
+  critique: LessonCritique;
+  createdAt: Date;
+}
+
+export interface EditOutcome {
+  content: string;
+  /** Numbers (1-based) of the edits that were applied */
+  applied: number[];
+  /** Edits that could not be applied, and why */
+  skipped: Array<{ edit: number; reason: string }>;
+}
+
+export function hashLessonContent(content: string): string {
+  return createHash('sha256').update(content).digest('hex').substring(0, 16);
+}
+
+/**
+ * Build the sampling request for a lesson
+ *
+ * @throws Error if the lesson is too long to review
+ */
+export function buildLessonReviewRequest(lesson: Pick<Lesson, 'title' | 'content'>): CreateMessageRequest {
+  if (lesson.content.length > MAX_REVIEW_CONTENT_LENGTH) {
+    throw new Error(`The lesson has ${lesson.content.length} characters; lessons longer than ${MAX_REVIEW_CONTENT_LENGTH} cannot be reviewed`);
+  }
+
+  return {
+    method: 'sampling/createMessage',
+    params: {
+      messages: [{
+        role: 'user',
+        content: { type: 'text', text: `Review this lesson.\n\n# ${lesson.title}\n\n${lesson.content}` },
+      }],
+      system: SYSTEM_PROMPT,
+      maxTokens: 4096,
+      temperature: 0.2,
+      modelPreferences: { intelligencePriority: 0.8 },
+    },
+  };
+}
+
+/**
+ * Apply edits in order. An edit whose passage does not occur exactly once
+ * in the content, as changed by the edits before it, is skipped.
+ *
+ * @param edits - The edits with their 1-based numbers
+ */
+export function applyLessonEdits(
+  content: string,
+  edits: Array<{ number: number; find: string; replace: string }>,
+): EditOutcome {
+  const outcome: EditOutcome = { content, applied: [], skipped: [] };
+
+  for (const edit of edits) {
+    const first = outcome.content.indexOf(edit.find);
+    if (first === -1) {
+      outcome.skipped.push({ edit: edit.number, reason: 'The passage is not in the lesson' });
+      continue;
+    }
+    if (outcome.content.indexOf(edit.find, first + 1) !== -1) {
+      outcome.skipped.push({ edit: edit.number, reason: 'The passage occurs more than once' });
+      continue;
+    }
+    outcome.content = outcome.content.substring(0, first) + edit.replace + outcome.content.substring(first + edit.find.length);
+    outcome.applied.push(edit.number);
+  }
+
+  return outcome;
+}
+
+const reviews = new Map<string, Map<string, LessonReview>>();
+
+function pruneExpired(now = Date.now()): void {
+  for (const [sessionId, sessionReviews] of reviews.entries()) {
+    for (const [reviewId, review] of sessionReviews.entries()) {
+      if (now - review.createdAt.getTime() > LESSON_REVIEW_TTL_MS) {
+        sessionReviews.delete(reviewId);
+      }
+    }
+    if (sessionReviews.size === 0) {
+      reviews.delete(sessionId);
+    }
+  }
+}
+
+/**
+ * Keep a review so a later call in the same session can apply it
+ */
+export function saveLessonReview(sessionId: string, review: LessonReview): void {
+  pruneExpired();
+  const sessionReviews = reviews.get(sessionId) ?? new Map<string, LessonReview>();
+  sessionReviews.set(review.reviewId, review);
+  reviews.set(sessionId, sessionReviews);
+}
+
+/**
+ * Get a review made in a session
+ */
+export function getLessonReview(sessionId: string, reviewId: string): LessonReview | undefined {
+  pruneExpired();
+  return reviews.get(sessionId)?.get(reviewId);
+}
+
+/**
+ * Drop one review of a session, or all of them
+ */
+export function removeLessonReviews(sessionId: string, reviewId?: string): void {
+  if (reviewId === undefined) {
+    reviews.delete(sessionId);
+    return;
+  }
+  reviews.get(sessionId)?.delete(reviewId);
+}
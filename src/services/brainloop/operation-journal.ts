@@ -0,0 +1,126 @@
+/**
+ * @file Operation journal for multi-step authoring tools
+ * @module services/brainloop/operation-journal
+ *
+ * @remarks
+ * Tools such as `create_brainloop` and `expand_brainloop` make several
+ * BRAINLOOP API calls in sequence. If a later call fails, the entities
+ * created by the earlier calls are left behind. The journal records every
+ * entity a tool call creates or modifies so that, on failure, the changes
+ * can be compensated in reverse order or reported precisely to the caller.
+ */
+
+import { logger } from '../../utils/logger.js';
+import type { BrainloopService } from './brainloop-service.js';
+
+/**
+ * Kinds of entities the journal can compensate
+ */
+export type JournalEntityType = 'course' | 'unit' | 'lesson';
+
+/**
+ * A single change made during a tool call
+ */
+export interface JournalEntry {
+  /** Whether the entity was created or an existing one was modified */
+  action: 'created' | 'updated';
+  type: JournalEntityType;
+  id: string;
+  title: string;
+  /** Lesson fields before the update, used to restore updated lessons */
+  previous?: {
+    title?: string;
+    content?: string;
+    videoUrl?: string;
+  };
+}
+
+/**
+ * Outcome of a rollback attempt
+ */
+export interface RollbackResult {
+  /** Entries that were successfully compensated */
+  reverted: JournalEntry[];
+  /** Entries that could not be compensated and are still applied */
+  failed: Array<{ entry: JournalEntry; error: string }>;
+}
+
+/**
+ * Records changes made during one tool call and compensates them on failure
+ */
+export class OperationJournal {
+  private readonly entries: JournalEntry[] = [];
+
+  constructor(private readonly brainloopService: BrainloopService) {}
+
+  /**
+   * Record a newly created entity
+   */
+  recordCreated(type: JournalEntityType, entity: { id: string; title: string }): void {
+    this.entries.push({ action: 'created', type, id: entity.id, title: entity.title });
+  }
+
+  /**
+   * Record an update to an existing lesson together with its previous values
+   */
+  recordLessonUpdated(
+    lesson: { id: string; title: string },
+    previous: NonNullable<JournalEntry['previous']>
+  ): void {
+    this.entries.push({ action: 'updated', type: 'lesson', id: lesson.id, title: lesson.title, previous });
+  }
+
+  /**
+   * All recorded entries, in the order they were applied
+   */
+  getEntries(): readonly JournalEntry[] {
+    return this.entries;
+  }
+
+  /**
+   * Whether any change has been recorded
+   */
+  isEmpty(): boolean {
+    return this.entries.length === 0;
+  }
+
+  /**
+   * Compensate all recorded changes in reverse order.
+   *
+   * Created entities are deleted and updated lessons are restored to their
+   * previous values. Compensation continues past individual failures so as
+   * much as possible is undone; failures are returned to the caller.
+   */
+  async rollback(): Promise<RollbackResult> {
+    const result: RollbackResult = { reverted: [], failed: [] };
+
+    for (const entry of [...this.entries].reverse()) {
+      try {
+        if (entry.action === 'updated') {
+          await this.brainloopService.updateLesson(entry.id, entry.previous ?? {});
+        } else if (entry.type === 'course') {
+          await this.brainloopService.deleteCourse(entry.id);
+        } else if (entry.type === 'unit') {
+          await this.brainloopService.deleteUnit(entry.id);
+        } else {
+          await this.brainloopService.deleteLesson(entry.id);
+        }
+        result.reverted.push(entry);
+      } catch (error) {
+        logger.error('Failed to roll back journal entry', { entry, error });
+        result.failed.push({ entry, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Format journal entries as a markdown list
+ */
+export function formatJournalEntries(entries: readonly JournalEntry[]): string {
+  return entries
+    .map(entry => `- ${entry.action} ${entry.type}: ${entry.title} (ID: ${entry.id})`)
+    .join('\n');
+}
@@ -0,0 +1,247 @@
+/**
+ * @file Validation of prompts before they are created
+ * @module services/brainloop/prompt-schema
+ *
+ * @remarks
+ * Each prompt type has its own required fields and answer shape (see
+ * prompt-types). Prompts submitted through create_prompt and
+ * create_prompts_batch, prompts in course specs and imports, and prompts
+ * generated through sampling, are all checked against these schemas before
+ * anything is sent to BRAINLOOP.
+ */
+
+import { z } from 'zod';
+import { clozeGapIds, countBlanks } from './prompt-types.js';
+import { validateComponentPrompt } from '../components/component-registry.js';
+
+/**
+ * Zod schema for a code prompt test case
+ */
+export const CodeTestCaseSchema = z.object({
+  input: z.string().optional().describe("Input given to the program"),
+  expectedOutput: z.string().describe("Output the program must produce"),
+  description: z.string().optional().describe("What the test case checks"),
+  hidden: z.boolean().optional().describe("Hide the test case from learners"),
+});
+
+const PromptBaseFields = {
+  question: z.string().min(1).describe("The question text"),
+  explanation: z.string().optional().describe("Explanation of the answer"),
+};
+
+const ChoiceIndexSchema = z.number().int().min(0).describe("0-based option index");
+
+/**
+ * Zod schema for a prompt, with the fields and answer shape of each prompt type
+ */
+const PromptVariantsSchema = z.discriminatedUnion("type", [
+  z.object({
+    ...PromptBaseFields,
+    type: z.literal("multiple-choice"),
+    options: z.array(z.string().min(1)).min(2).describe("Options to choose from"),
+    answer: z.union([ChoiceIndexSchema, z.array(ChoiceIndexSchema).min(1)]).describe("Index or indices of the correct options"),
+  }),
+  z.object({
+    ...PromptBaseFields,
+    type: z.literal("single-choice"),
+    options: z.array(z.string().min(1)).min(2).describe("Options to choose from"),
+    answer: ChoiceIndexSchema.describe("Index of the correct option"),
+  }),
+  z.object({
+    ...PromptBaseFields,
+    type: z.literal("true-false"),
+    answer: z.boolean().describe("Whether the statement is true"),
+  }),
+  z.object({
+    ...PromptBaseFields,
+    type: z.literal("short-answer"),
+    answer: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]).describe("Model answer or accepted answers"),
+  }),
+  z.object({
+    ...PromptBaseFields,
+    type: z.literal("code"),
+    answer: z.any().optional().describe("Reference solution"),
+    codeLanguage: z.string().min(1).describe("Programming language for code questions"),
+    codeStarterCode: z.string().optional().describe("Starter code for code questions"),
+    codeExpectedOutput: z.string().optional().describe("Expected output for code questions"),
+    codeTestCases: z.array(CodeTestCaseSchema).min(1).optional().describe("Test cases for code questions"),
+    codeTimeLimit: z.number().int().positive().optional().describe("Time limit for code execution in milliseconds"),
+    codeMemoryLimit: z.number().int().positive().optional().describe("Memory limit for code execution in MB"),
+  }),
+  z.object({
+    ...PromptBaseFields,
+    type: z.literal("interactive-component"),
+    answer: z.any().optional().describe("The correct answer"),
+    componentType: z.string().min(1).describe("Interactive component type, from the components://catalog resource"),
+    componentConfig: z.any().optional().describe("Component configuration, matching the component's configSchema"),
+    componentAnswer: z.any().optional().describe("Expected component answer, matching the component's answerSchema"),
+  }),
+  z.object({
+    ...PromptBaseFields,
+    type: z.literal("ordering"),
+    options: z.array(z.string().min(1)).min(2).describe("Items to put in order"),
+    answer: z.array(ChoiceIndexSchema).min(2).describe("Option indices in the correct order"),
+  }),
+  z.object({
+    ...PromptBaseFields,
+    type: z.literal("matching"),
+    answer: z.record(z.string().min(1)).describe("Map of each item to its match"),
+  }),
+  z.object({
+    ...PromptBaseFields,
+    type: z.literal("fill-in-the-blank"),
+    answer: z.array(z.array(z.string().min(1)).min(1)).min(1).describe("Accepted answers for each ___ blank, in order"),
+  }),
+  z.object({
+    ...PromptBaseFields,
+    type: z.literal("cloze"),
+    answer: z.record(z.array(z.string().min(1)).min(1)).describe("Accepted answers for each {{id}} gap, keyed by gap ID"),
+  }),
+]);
+
+function checkDuplicateOptions(options: string[], ctx: z.RefinementCtx): void {
+  const seen = new Map<string, number>();
+  options.forEach((option, index) => {
+    const key = option.trim().toLowerCase();
+    const first = seen.get(key);
+    if (first !== undefined) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["options", index],
+        message: `Duplicate of option ${first} ("${options[first]}")`,
+      });
+    } else {
+      seen.set(key, index);
+    }
+  });
+}
+
+function checkAnswerIndices(answers: number[], optionCount: number, inArray: boolean, ctx: z.RefinementCtx): void {
+  answers.forEach((answer, i) => {
+    if (answer >= optionCount) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: inArray ? ["answer", i] : ["answer"],
+        message: `Answer index ${answer} is out of range; the ${optionCount} options are numbered 0-${optionCount - 1}`,
+      });
+    }
+  });
+  if (new Set(answers).size !== answers.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["answer"],
+      message: "Answer lists the same option more than once",
+    });
+  }
+}
+
+/**
+ * Rules that span several fields of a prompt
+ */
+function checkPromptRules(prompt: z.infer<typeof PromptVariantsSchema>, ctx: z.RefinementCtx): void {
+  const issue = (path: (string | number)[], message: string) =>
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+
+  switch (prompt.type) {
+    case "multiple-choice":
+    case "single-choice":
+      checkDuplicateOptions(prompt.options, ctx);
+      checkAnswerIndices(Array.isArray(prompt.answer) ? prompt.answer : [prompt.answer], prompt.options.length, Array.isArray(prompt.answer), ctx);
+      break;
+    case "ordering":
+      checkDuplicateOptions(prompt.options, ctx);
+      checkAnswerIndices(prompt.answer, prompt.options.length, true, ctx);
+      if (prompt.answer.length !== prompt.options.length) {
+        issue(["answer"], `Answer must list all ${prompt.options.length} option indices once, in the correct order`);
+      }
+      break;
+    case "matching": {
+      const pairs = Object.entries(prompt.answer);
+      if (pairs.length < 2) {
+        issue(["answer"], "Matching prompts need at least 2 pairs");
+      }
+      const items = new Set<string>();
+      for (const [item] of pairs) {
+        const key = item.trim().toLowerCase();
+        if (!key) {
+          issue(["answer"], "Matching items cannot be empty");
+        } else if (items.has(key)) {
+          issue(["answer", item], `Item "${item}" is listed more than once`);
+        }
+        items.add(key);
+      }
+      break;
+    }
+    case "fill-in-the-blank": {
+      const blanks = countBlanks(prompt.question);
+      if (blanks === 0) {
+        issue(["question"], "Mark each blank in the question with ___");
+      } else if (blanks !== prompt.answer.length) {
+        issue(["answer"], `The question has ${blanks} blank(s) but the answer lists ${prompt.answer.length}`);
+      }
+      break;
+    }
+    case "cloze": {
+      const gaps = clozeGapIds(prompt.question);
+      if (gaps.length === 0) {
+        issue(["question"], "Mark each gap in the question with {{id}}, e.g. {{1}}");
+        break;
+      }
+      for (const gap of gaps.filter(gap => !(gap in prompt.answer))) {
+        issue(["answer"], `Gap {{${gap}}} has no accepted answers`);
+      }
+      for (const key of Object.keys(prompt.answer).filter(key => !gaps.includes(key))) {
+        issue(["answer", key], `The question has no gap {{${key}}}`);
+      }
+      break;
+    }
+    case "interactive-component":
+      for (const { path, message } of validateComponentPrompt(prompt)) {
+        issue(path, message);
+      }
+      break;
+  }
+}
+
+/**
+ * Zod schema for a prompt to create, checked against the rules of its type
+ */
+export const PromptSchema = PromptVariantsSchema.superRefine(checkPromptRules);
+
+export type ValidatedPrompt = z.infer<typeof PromptSchema>;
+
+/**
+ * Format Zod validation issues as one line per field.
+ *
+ * Issues inside `prompts[i]` are grouped per prompt, so a rejected batch
+ * says exactly which prompts to fix.
+ */
+export function formatValidationIssues(issues: z.ZodIssue[], args: Record<string, unknown>): string {
+  const general: string[] = [];
+  const byPrompt = new Map<number, string[]>();
+
+  for (const issue of issues) {
+    const [first, second, ...rest] = issue.path;
+    if (first === 'prompts' && typeof second === 'number') {
+      const field = rest.length > 0 ? `${rest.join('.')}: ` : '';
+      byPrompt.set(second, [...(byPrompt.get(second) ?? []), `${field}${issue.message}`]);
+    } else {
+      general.push(`- ${issue.path.length > 0 ? `${issue.path.join('.')}: ` : ''}${issue.message}`);
+    }
+  }
+
+  const prompts = Array.isArray(args.prompts) ? args.prompts : [];
+  const promptLines = [...byPrompt.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([index, messages]) => {
+      const type = prompts[index]?.type;
+      return `- Prompt ${index + 1}${typeof type === 'string' ? ` (${type})` : ''}:\n` +
+        messages.map(message => `    - ${message}`).join('\n');
+    });
+
+  const lines = [...general, ...promptLines];
+  if (byPrompt.size > 0) {
+    lines.push(`${byPrompt.size} of ${prompts.length} prompts are invalid; no prompts were created.`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,124 @@
+/**
+ * @file Prompt types and the shape of their answers
+ * @module services/brainloop/prompt-types
+ *
+ * @remarks
+ * Answers are stored in the prompt's `answer` field:
+ * - `multiple-choice`: option index or array of indices (0-based)
+ * - `single-choice`: option index
+ * - `true-false`: boolean
+ * - `short-answer`: model answer or array of accepted answers
+ * - `code`: optional reference solution
+ * - `ordering`: permutation of the option indices, in the correct order
+ * - `matching`: map of each item to its match, e.g. `{ "H2O": "Water" }`
+ * - `fill-in-the-blank`: accepted answers for each `___` blank in the
+ *   question, in order, e.g. `[["Paris"], ["Seine", "la Seine"]]`
+ * - `cloze`: accepted answers for each `{{id}}` gap in the question, keyed
+ *   by gap ID, e.g. `{ "1": ["Paris"], "river": ["Seine"] }`
+ */
+
+/**
+ * All prompt types
+ */
+export const PROMPT_TYPES = [
+  'multiple-choice',
+  'single-choice',
+  'short-answer',
+  'true-false',
+  'code',
+  'interactive-component',
+  'ordering',
+  'matching',
+  'fill-in-the-blank',
+  'cloze',
+] as const;
+
+export type PromptType = typeof PROMPT_TYPES[number];
+
+/**
+ * Prompt types a model can be asked to write. Code prompts need verified
+ * test cases and component prompts a component from the registry, so those
+ * are left to the author.
+ */
+export const GENERATABLE_PROMPT_TYPES = [
+  'multiple-choice',
+  'single-choice',
+  'true-false',
+  'short-answer',
+  'ordering',
+  'matching',
+  'fill-in-the-blank',
+  'cloze',
+] as const;
+
+export type GeneratablePromptType = typeof GENERATABLE_PROMPT_TYPES[number];
+
+/**
+ * Item → match pairs of a matching prompt
+ */
+export type MatchingAnswer = Record<string, string>;
+
+/**
+ * Accepted answers for each blank of a fill-in-the-blank prompt
+ */
+export type BlankAnswers = string[][];
+
+/**
+ * Accepted answers for each gap of a cloze prompt, keyed by gap ID
+ */
+export type ClozeAnswers = Record<string, string[]>;
+
+/**
+ * Any prompt answer
+ */
+export type PromptAnswer =
+  | number
+  | number[]
+  | boolean
+  | string
+  | string[]
+  | BlankAnswers
+  | MatchingAnswer
+  | ClozeAnswers;
+
+const BLANK_PATTERN = /_{3,}/g;
+const CLOZE_GAP_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+export function isPromptType(type: string): type is PromptType {
+  return (PROMPT_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Number of `___` blanks in a fill-in-the-blank question
+ */
+export function countBlanks(question: string): number {
+  return question.match(BLANK_PATTERN)?.length ?? 0;
+}
+
+/**
+ * IDs of the `{{id}}` gaps in a cloze question, in order of first use
+ */
+export function clozeGapIds(question: string): string[] {
+  return [...new Set([...question.matchAll(CLOZE_GAP_PATTERN)].map(match => match[1]))];
+}
+
+/**
+ * Replace each blank or gap of a question.
+ *
+ * @param replace - Called with the 0-based blank index (fill-in-the-blank)
+ * or the gap ID (cloze)
+ */
+export function fillQuestion(question: string, replace: (key: number | string) => string): string {
+  let index = 0;
+  return question
+    .replace(BLANK_PATTERN, () => replace(index++))
+    .replace(CLOZE_GAP_PATTERN, (_, id: string) => replace(id));
+}
+
+/**
+ * The matches of a matching prompt in the order they are shown: unique and
+ * sorted, so the correct order is not given away by the pair order
+ */
+export function matchingChoices(answer: MatchingAnswer): string[] {
+  return [...new Set(Object.values(answer))].sort((a, b) => a.localeCompare(b));
+}
@@ -0,0 +1,942 @@
+/**
+ * @file Quiz interchange with learning management systems
+ * @module services/brainloop/quiz-interchange
+ *
+ * @remarks
+ * Converts BRAINLOOP prompts to and from the question formats LMSs share
+ * question banks in:
+ *
+ * - Moodle GIFT (export and import)
+ * - IMS QTI 2.1 items and content package manifest (export and import)
+ * - Aiken (import only; it is a subset of what GIFT can express)
+ *
+ * Multiple-choice, single-choice, true-false, short-answer and matching
+ * prompts map to both formats; ordering prompts map to QTI order
+ * interactions. Anything else (code, interactive-component,
+ * fill-in-the-blank and cloze prompts, ordering prompts in GIFT, GIFT
+ * numerical/essay questions, QTI interactions other than choice, text
+ * entry, match and order) cannot be represented and is returned in a
+ * `skipped` list with the reason, so callers can report it.
+ */
+
+import type { LessonPrompt } from './brainloop-service.js';
+import type { PromptSpec } from '../../types/course-spec.js';
+
+/**
+ * A prompt to export, with the lesson it belongs to
+ */
+export interface QuizExportItem {
+  prompt: LessonPrompt;
+  lessonTitle: string;
+  unitTitle?: string;
+}
+
+/**
+ * A question that could not be converted
+ */
+export interface SkippedQuestion {
+  /** Prompt ID, question title or line number identifying the question */
+  label: string;
+  reason: string;
+}
+
+/**
+ * Prompts parsed from a question bank
+ */
+export interface QuizImportResult {
+  prompts: PromptSpec[];
+  skipped: SkippedQuestion[];
+}
+
+/**
+ * A file of a QTI content package
+ */
+export interface QtiPackageFile {
+  path: string;
+  text: string;
+}
+
+/**
+ * Prompt types each export format can represent
+ */
+export const INTERCHANGE_PROMPT_TYPES = {
+  gift: ['multiple-choice', 'single-choice', 'true-false', 'short-answer', 'matching'],
+  qti: ['multiple-choice', 'single-choice', 'true-false', 'short-answer', 'matching', 'ordering'],
+} as const;
+
+export type QuizExportFormat = keyof typeof INTERCHANGE_PROMPT_TYPES;
+
+const CHOICE_TYPES = new Set(['multiple-choice', 'single-choice']);
+
+function truncate(text: string, length = 60): string {
+  return text.length > length ? `${text.substring(0, length)}...` : text;
+}
+
+/**
+ * Resolve an index, numeric string, option letter or option text to a
+ * 0-based option index, or null if it does not identify an option
+ */
+export function choiceIndex(value: unknown, options: string[]): number | null {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) && value >= 0 && value < options.length ? value : null;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const text = value.trim();
+  const byText = options.findIndex(option => option.trim().toLowerCase() === text.toLowerCase());
+  if (byText !== -1) {
+    return byText;
+  }
+  if (/^\d+$/.test(text)) {
+    return choiceIndex(Number(text), options);
+  }
+  if (/^[A-Za-z]$/.test(text)) {
+    return choiceIndex(text.toUpperCase().charCodeAt(0) - 65, options);
+  }
+  return null;
+}
+
+/**
+ * Resolve a choice prompt's answer to 0-based option indices.
+ *
+ * Accepts an index, a numeric string, an option letter, the option text, or
+ * an array of those.
+ *
+ * @returns The indices, or null when the answer does not identify an option
+ */
+export function correctChoiceIndices(prompt: Pick<LessonPrompt, 'answer' | 'options'>): number[] | null {
+  const options = prompt.options ?? [];
+  const answers = Array.isArray(prompt.answer) ? prompt.answer : [prompt.answer];
+  const indices = answers.map(answer => choiceIndex(answer, options));
+  if (indices.length === 0 || indices.some(index => index === null)) {
+    return null;
+  }
+  return [...new Set(indices as number[])].sort((a, b) => a - b);
+}
+
+/**
+ * Resolve an ordering prompt's answer to 0-based option indices in the
+ * correct order.
+ *
+ * @returns The indices, or null unless the answer lists every option once
+ */
+export function orderIndices(prompt: Pick<LessonPrompt, 'answer' | 'options'>): number[] | null {
+  const options = prompt.options ?? [];
+  if (!Array.isArray(prompt.answer) || prompt.answer.length !== options.length) {
+    return null;
+  }
+  const indices = prompt.answer.map(answer => choiceIndex(answer, options));
+  return indices.every(index => index !== null) && new Set(indices).size === options.length
+    ? indices as number[]
+    : null;
+}
+
+/**
+ * Item → match pairs of a matching prompt, or null if its answer is not a
+ * map of text to text
+ */
+export function matchingPairs(answer: unknown): Array<[string, string]> | null {
+  if (!answer || typeof answer !== 'object' || Array.isArray(answer)) {
+    return null;
+  }
+  const pairs = Object.entries(answer);
+  return pairs.length > 0 && pairs.every(([, match]) => typeof match === 'string')
+    ? pairs as Array<[string, string]>
+    : null;
+}
+
+/**
+ * Resolve a true-false prompt's answer
+ */
+export function trueFalseAnswer(answer: unknown): boolean | null {
+  if (typeof answer === 'boolean') {
+    return answer;
+  }
+  if (typeof answer === 'string') {
+    const text = answer.trim().toLowerCase();
+    if (['true', 't'].includes(text)) {
+      return true;
+    }
+    if (['false', 'f'].includes(text)) {
+      return false;
+    }
+  }
+  return null;
+}
+
+/**
+ * Reason a prompt cannot be exported, or null if it can
+ */
+function unsupportedReason(prompt: LessonPrompt, format: QuizExportFormat): string | null {
+  if (!(INTERCHANGE_PROMPT_TYPES[format] as readonly string[]).includes(prompt.type)) {
+    return prompt.type === 'ordering'
+      ? 'GIFT has no ordering questions; export to QTI instead'
+      : `"${prompt.type}" prompts have no equivalent in LMS question formats`;
+  }
+  if (CHOICE_TYPES.has(prompt.type)) {
+    if (!prompt.options?.length) {
+      return 'choice prompt has no options';
+    }
+    if (!correctChoiceIndices(prompt)) {
+      return `answer ${JSON.stringify(prompt.answer)} does not identify an option`;
+    }
+  }
+  if (prompt.type === 'true-false' && trueFalseAnswer(prompt.answer) === null) {
+    return `answer ${JSON.stringify(prompt.answer)} is not true or false`;
+  }
+  if (prompt.type === 'short-answer' && typeof prompt.answer !== 'string' &&
+    !(Array.isArray(prompt.answer) && prompt.answer.every(answer => typeof answer === 'string'))) {
+    return 'short-answer prompt has no text answer';
+  }
+  if (prompt.type === 'ordering' && (!prompt.options?.length || !orderIndices(prompt))) {
+    return `answer ${JSON.stringify(prompt.answer)} does not list every option once`;
+  }
+  if (prompt.type === 'matching') {
+    const pairs = matchingPairs(prompt.answer);
+    if (!pairs) {
+      return 'matching prompt has no item → match pairs';
+    }
+    // GIFT has no escape for the pair separator
+    if (format === 'gift' && pairs.some(pair => pair.some(text => text.includes('->')))) {
+      return 'a matching pair contains "->", which GIFT cannot represent';
+    }
+  }
+  return null;
+}
+
+function itemLabel(item: QuizExportItem): string {
+  return `${item.lessonTitle}: ${truncate(item.prompt.question)} (ID: ${item.prompt.id})`;
+}
+
+function escapeGift(text: string): string {
+  return text
+    .replace(/([\\~=#{}:])/g, '\\$1')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Export prompts to Moodle GIFT text
+ */
+export function exportGift(items: QuizExportItem[]): { text: string; exported: number; skipped: SkippedQuestion[] } {
+  const questions: string[] = [];
+  const skipped: SkippedQuestion[] = [];
+  const counters = new Map<string, number>();
+
+  for (const item of items) {
+    const { prompt } = item;
+    const reason = unsupportedReason(prompt, 'gift');
+    if (reason) {
+      skipped.push({ label: itemLabel(item), reason });
+      continue;
+    }
+
+    const number = (counters.get(item.lessonTitle) ?? 0) + 1;
+    counters.set(item.lessonTitle, number);
+
+    const lines = [`// id: ${prompt.id}`];
+    lines.push(`// lesson: ${item.unitTitle ? `${item.unitTitle} → ` : ''}${item.lessonTitle}`.replace(/\r?\n/g, ' '));
+
+    const title = `::${escapeGift(`${item.lessonTitle} Q${number}`)}::`;
+    const question = escapeGift(prompt.question);
+    const feedback = prompt.explanation ? `\n####${escapeGift(prompt.explanation)}` : '';
+
+    if (prompt.type === 'true-false') {
+      lines.push(`${title}${question} {${trueFalseAnswer(prompt.answer) ? 'TRUE' : 'FALSE'}${feedback}}`);
+    } else if (prompt.type === 'short-answer') {
+      const answers = (Array.isArray(prompt.answer) ? prompt.answer : [prompt.answer]) as string[];
+      lines.push(`${title}${question} {\n${answers.map(answer => `=${escapeGift(answer)}`).join('\n')}${feedback}\n}`);
+    } else if (prompt.type === 'matching') {
+      const pairs = matchingPairs(prompt.answer)!;
+      lines.push(`${title}${question} {\n${pairs.map(([item, match]) => `=${escapeGift(item)} -> ${escapeGift(match)}`).join('\n')}${feedback}\n}`);
+    } else {
+      const correct = correctChoiceIndices(prompt)!;
+      const options = prompt.options!.map((option, index) => {
+        if (correct.length === 1) {
+          return `${correct[0] === index ? '=' : '~'}${escapeGift(option)}`;
+        }
+        const weight = correct.includes(index) ? `%${Number((100 / correct.length).toFixed(5))}%` : '%-100%';
+        return `~${weight}${escapeGift(option)}`;
+      });
+      lines.push(`${title}${question} {\n${options.join('\n')}${feedback}\n}`);
+    }
+
+    questions.push(lines.join('\n'));
+  }
+
+  return {
+    text: questions.length > 0 ? questions.join('\n\n') + '\n' : '',
+    exported: questions.length,
+    skipped,
+  };
+}
+
+/**
+ * Split GIFT text on unescaped occurrences of a marker
+ */
+function splitUnescaped(text: string, marker: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\' && i + 1 < text.length) {
+      current += text[i] + text[i + 1];
+      i++;
+    } else if (text.startsWith(marker, i)) {
+      parts.push(current);
+      current = '';
+      i += marker.length - 1;
+    } else {
+      current += text[i];
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Index of the first unescaped occurrence of a character, or -1
+ */
+function indexOfUnescaped(text: string, char: string, from = 0): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === char) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function unescapeGift(text: string): string {
+  return text
+    .replace(/\\(n|[\\~=#{}:])/g, (_, char: string) => char === 'n' ? '\n' : char)
+    .trim();
+}
+
+/**
+ * Split GIFT answer alternatives (`=` / `~` prefixed) into tokens
+ */
+function giftAnswerTokens(inner: string): Array<{ correct: boolean; weight: number | null; text: string; feedback?: string }> {
+  const tokens: Array<{ marker: string; raw: string }> = [];
+  for (let i = 0; i < inner.length; i++) {
+    if (inner[i] === '\\') {
+      if (tokens.length > 0) {
+        tokens[tokens.length - 1].raw += inner.substring(i, i + 2);
+      }
+      i++;
+    } else if (inner[i] === '=' || inner[i] === '~') {
+      tokens.push({ marker: inner[i], raw: '' });
+    } else if (tokens.length > 0) {
+      tokens[tokens.length - 1].raw += inner[i];
+    }
+  }
+
+  return tokens.map(({ marker, raw }) => {
+    const weightMatch = raw.match(/^\s*%(-?\d+(?:\.\d+)?)%/);
+    const weight = weightMatch ? Number(weightMatch[1]) : null;
+    const body = weightMatch ? raw.substring(weightMatch[0].length) : raw;
+    const [text, ...feedback] = splitUnescaped(body, '#');
+    return {
+      correct: marker === '=' || (weight !== null && weight > 0),
+      weight,
+      text: unescapeGift(text),
+      feedback: feedback.length > 0 ? unescapeGift(feedback.join('#')) : undefined,
+    };
+  });
+}
+
+/**
+ * Parse Moodle GIFT text into prompts
+ */
+export function parseGift(text: string): QuizImportResult {
+  const prompts: PromptSpec[] = [];
+  const skipped: SkippedQuestion[] = [];
+
+  // Group lines into questions; blank lines separate questions outside answer blocks
+  const blocks: Array<{ line: number; text: string }> = [];
+  let current: { line: number; lines: string[] } | null = null;
+  let depth = 0;
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  for (const [index, line] of lines.entries()) {
+    const trimmed = line.trim();
+    if (depth === 0 && (trimmed.startsWith('//') || trimmed.startsWith('$CATEGORY:'))) {
+      continue;
+    }
+    if (!trimmed && depth === 0) {
+      if (current) {
+        blocks.push({ line: current.line, text: current.lines.join('\n') });
+        current = null;
+      }
+      continue;
+    }
+    current = current ?? { line: index + 1, lines: [] };
+    current.lines.push(line);
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '\\') {
+        i++;
+      } else if (line[i] === '{') {
+        depth++;
+      } else if (line[i] === '}') {
+        depth = Math.max(0, depth - 1);
+      }
+    }
+  }
+  if (current) {
+    blocks.push({ line: current.line, text: current.lines.join('\n') });
+  }
+
+  for (const block of blocks) {
+    let source = block.text.trim();
+    let label = `Line ${block.line}`;
+
+    const titleMatch = source.match(/^::((?:\\.|[^:\\]|:(?!:))*)::/);
+    if (titleMatch) {
+      label = `${label} (${unescapeGift(titleMatch[1])})`;
+      source = source.substring(titleMatch[0].length);
+    }
+    source = source.replace(/^\s*\[\w+\]/, '');
+
+    const open = indexOfUnescaped(source, '{');
+    const close = open === -1 ? -1 : indexOfUnescaped(source, '}', open);
+    if (open === -1 || close === -1) {
+      skipped.push({ label, reason: 'no answer block ({...}) found' });
+      continue;
+    }
+
+    const before = unescapeGift(source.substring(0, open));
+    const after = unescapeGift(source.substring(close + 1));
+    const question = after ? `${before} _____ ${after}` : before;
+    let inner = source.substring(open + 1, close).trim();
+
+    if (!question) {
+      skipped.push({ label, reason: 'question text is empty' });
+      continue;
+    }
+    if (!inner) {
+      skipped.push({ label, reason: 'essay questions are not supported' });
+      continue;
+    }
+    if (inner.startsWith('#')) {
+      skipped.push({ label, reason: 'numerical questions are not supported' });
+      continue;
+    }
+
+    const [answers, ...general] = splitUnescaped(inner, '####');
+    inner = answers.trim();
+    const generalFeedback = general.length > 0 ? unescapeGift(general.join('####')) : '';
+
+    if (splitUnescaped(inner, '->').length > 1) {
+      const pairs = giftAnswerTokens(inner).map(token => token.text.split('->').map(part => part.trim()));
+      if (pairs.some(pair => pair.length !== 2 || !pair[1])) {
+        skipped.push({ label, reason: 'matching pairs must look like "=item -> match"' });
+      } else if (pairs.some(([item]) => !item)) {
+        skipped.push({ label, reason: 'matching distractors (pairs without an item) are not supported' });
+      } else {
+        prompts.push({
+          question,
+          type: 'matching',
+          answer: Object.fromEntries(pairs),
+          ...(generalFeedback && { explanation: generalFeedback }),
+        });
+      }
+      continue;
+    }
+
+    const trueFalse = inner.match(/^(TRUE|FALSE|T|F)\b/i);
+    if (trueFalse) {
+      const feedback = splitUnescaped(inner.substring(trueFalse[0].length), '#')
+        .slice(1)
+        .map(unescapeGift)
+        .filter(Boolean);
+      const explanation = [generalFeedback, ...feedback].filter(Boolean).join('\n');
+      prompts.push({
+        question,
+        type: 'true-false',
+        answer: trueFalse[1].toUpperCase().startsWith('T'),
+        ...(explanation && { explanation }),
+      });
+      continue;
+    }
+
+    const tokens = giftAnswerTokens(inner);
+    if (tokens.length === 0) {
+      skipped.push({ label, reason: 'answer block has no answers' });
+      continue;
+    }
+
+    const explanationParts = [generalFeedback];
+    if (tokens.every(token => token.correct && token.weight === null)) {
+      tokens.forEach(token => token.feedback && explanationParts.push(token.feedback));
+      const explanation = explanationParts.filter(Boolean).join('\n');
+      prompts.push({
+        question,
+        type: 'short-answer',
+        answer: tokens.length === 1 ? tokens[0].text : tokens.map(token => token.text),
+        ...(explanation && { explanation }),
+      });
+      continue;
+    }
+
+    const correct = tokens.flatMap((token, index) => token.correct ? [index] : []);
+    if (correct.length === 0) {
+      skipped.push({ label, reason: 'no correct answer is marked' });
+      continue;
+    }
+    tokens.forEach(token => {
+      if (token.feedback) {
+        explanationParts.push(token.correct ? token.feedback : `${token.text}: ${token.feedback}`);
+      }
+    });
+    const explanation = explanationParts.filter(Boolean).join('\n');
+    prompts.push({
+      question,
+      type: 'multiple-choice',
+      options: tokens.map(token => token.text),
+      answer: correct.length === 1 ? correct[0] : correct,
+      ...(explanation && { explanation }),
+    });
+  }
+
+  return { prompts, skipped };
+}
+
+/**
+ * Parse Aiken text into multiple-choice prompts
+ */
+export function parseAiken(text: string): QuizImportResult {
+  const prompts: PromptSpec[] = [];
+  const skipped: SkippedQuestion[] = [];
+
+  let current: { line: number; question: string[]; options: string[]; letters: string[] } | null = null;
+
+  const finish = (answerLetter?: string) => {
+    if (!current) {
+      return;
+    }
+    const label = `Line ${current.line} (${truncate(current.question.join(' '))})`;
+    if (!answerLetter) {
+      skipped.push({ label, reason: 'missing "ANSWER:" line' });
+    } else if (current.options.length < 2) {
+      skipped.push({ label, reason: 'needs at least two options' });
+    } else {
+      const index = current.letters.indexOf(answerLetter.toUpperCase());
+      if (index === -1) {
+        skipped.push({ label, reason: `answer "${answerLetter}" does not match an option letter` });
+      } else {
+        prompts.push({
+          question: current.question.join('\n').trim(),
+          type: 'multiple-choice',
+          options: current.options,
+          answer: index,
+        });
+      }
+    }
+    current = null;
+  };
+
+  text.replace(/\r\n?/g, '\n').split('\n').forEach((line, index) => {
+    const trimmed = line.trim();
+    const answer = trimmed.match(/^ANSWER:\s*([A-Za-z])\s*$/);
+    const option = trimmed.match(/^([A-Z])[.)]\s+(.*)$/);
+
+    if (answer) {
+      if (current) {
+        finish(answer[1]);
+      } else {
+        skipped.push({ label: `Line ${index + 1}`, reason: '"ANSWER:" line without a question' });
+      }
+    } else if (!trimmed) {
+      if (current && current.options.length === 0) {
+        current.question.push('');
+      }
+    } else if (option && current) {
+      current.letters.push(option[1]);
+      current.options.push(option[2].trim());
+    } else if (current && current.options.length === 0) {
+      current.question.push(trimmed);
+    } else {
+      finish();
+      current = { line: index + 1, question: [trimmed], options: [], letters: [] };
+    }
+  });
+  finish();
+
+  return { prompts, skipped };
+}
+
+const QTI_NAMESPACE = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+
+const QTI_IMPORTED_INTERACTIONS = new Set(['choiceInteraction', 'textEntryInteraction', 'matchInteraction', 'orderInteraction']);
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Text content of an XML fragment
+ */
+function xmlText(fragment: string): string {
+  return decodeXml(fragment
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, data: string) => escapeXml(data))
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div)>/gi, '\n')
+    .replace(/<[^>]+>/g, ''))
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\s*\n\s*/g, '\n')
+    .trim();
+}
+
+function xmlAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`\\b${name}\\s*=\\s*("([^"]*)"|'([^']*)')`));
+  return match ? decodeXml(match[2] ?? match[3]) : undefined;
+}
+
+/**
+ * QTI identifier (an XML NCName) for a prompt
+ */
+function qtiIdentifier(id: string): string {
+  return `ITEM_${id.replace(/[^A-Za-z0-9_.-]/g, '_')}`;
+}
+
+function qtiItem(item: QuizExportItem): string {
+  const { prompt } = item;
+  const identifier = qtiIdentifier(prompt.id);
+  const title = `${item.lessonTitle}: ${truncate(prompt.question)}`;
+
+  let declaration: string;
+  let body: string;
+  let scoring = `<match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match>`;
+
+  if (prompt.type === 'short-answer') {
+    // A single response has one correct value; every accepted answer is mapped to full marks
+    const answers = (Array.isArray(prompt.answer) ? prompt.answer : [prompt.answer]) as string[];
+    declaration =
+      `  <responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">\n` +
+      `    <correctResponse>\n      <value>${escapeXml(answers[0])}</value>\n    </correctResponse>\n` +
+      `    <mapping defaultValue="0">\n` +
+      answers.map(answer => `      <mapEntry mapKey="${escapeXml(answer)}" mappedValue="1" caseSensitive="false"/>`).join('\n') +
+      `\n    </mapping>\n` +
+      `  </responseDeclaration>`;
+    scoring = `<gt><mapResponse identifier="RESPONSE"/><baseValue baseType="float">0</baseValue></gt>`;
+    body =
+      `    <p>${escapeXml(prompt.question)}</p>\n` +
+      `    <p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="${Math.max(...answers.map(answer => answer.length), 10)}"/></p>`;
+  } else if (prompt.type === 'matching') {
+    // Items form the first match set and their distinct matches the second
+    const pairs = matchingPairs(prompt.answer)!;
+    const matches = [...new Set(pairs.map(([, match]) => match))];
+    declaration =
+      `  <responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="directedPair">\n` +
+      `    <correctResponse>\n${pairs.map(([, match], index) => `      <value>ITEM_${index} MATCH_${matches.indexOf(match)}</value>`).join('\n')}\n    </correctResponse>\n` +
+      `  </responseDeclaration>`;
+    body =
+      `    <matchInteraction responseIdentifier="RESPONSE" shuffle="false" maxAssociations="${pairs.length}">\n` +
+      `      <prompt>${escapeXml(prompt.question)}</prompt>\n` +
+      `      <simpleMatchSet>\n` +
+      pairs.map(([item], index) => `        <simpleAssociableChoice identifier="ITEM_${index}" matchMax="1">${escapeXml(item)}</simpleAssociableChoice>`).join('\n') +
+      `\n      </simpleMatchSet>\n` +
+      `      <simpleMatchSet>\n` +
+      matches.map((match, index) => `        <simpleAssociableChoice identifier="MATCH_${index}" matchMax="0">${escapeXml(match)}</simpleAssociableChoice>`).join('\n') +
+      `\n      </simpleMatchSet>\n` +
+      `    </matchInteraction>`;
+  } else if (prompt.type === 'ordering') {
+    const order = orderIndices(prompt)!;
+    declaration =
+      `  <responseDeclaration identifier="RESPONSE" cardinality="ordered" baseType="identifier">\n` +
+      `    <correctResponse>\n${order.map(index => `      <value>CHOICE_${index}</value>`).join('\n')}\n    </correctResponse>\n` +
+      `  </responseDeclaration>`;
+    body =
+      `    <orderInteraction responseIdentifier="RESPONSE" shuffle="false">\n` +
+      `      <prompt>${escapeXml(prompt.question)}</prompt>\n` +
+      prompt.options!.map((option, index) => `      <simpleChoice identifier="CHOICE_${index}">${escapeXml(option)}</simpleChoice>`).join('\n') +
+      `\n    </orderInteraction>`;
+  } else {
+    const options = prompt.type === 'true-false' ? ['True', 'False'] : prompt.options!;
+    const correct = prompt.type === 'true-false'
+      ? [trueFalseAnswer(prompt.answer) ? 0 : 1]
+      : correctChoiceIndices(prompt)!;
+    const multiple = correct.length > 1;
+    declaration =
+      `  <responseDeclaration identifier="RESPONSE" cardinality="${multiple ? 'multiple' : 'single'}" baseType="identifier">\n` +
+      `    <correctResponse>\n${correct.map(index => `      <value>CHOICE_${index}</value>`).join('\n')}\n    </correctResponse>\n` +
+      `  </responseDeclaration>`;
+    body =
+      `    <choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${multiple ? 0 : 1}">\n` +
+      `      <prompt>${escapeXml(prompt.question)}</prompt>\n` +
+      options.map((option, index) => `      <simpleChoice identifier="CHOICE_${index}">${escapeXml(option)}</simpleChoice>`).join('\n') +
+      `\n    </choiceInteraction>`;
+  }
+
+  const feedback = prompt.explanation
+    ? `\n  <modalFeedback outcomeIdentifier="FEEDBACK" identifier="EXPLANATION" showHide="show">${escapeXml(prompt.explanation)}</modalFeedback>`
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="${QTI_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_NAMESPACE} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd" identifier="${identifier}" title="${escapeXml(title)}" adaptive="false" timeDependent="false">
+${declaration}
+  <outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float">
+    <defaultValue><value>0</value></defaultValue>
+  </outcomeDeclaration>
+  <outcomeDeclaration identifier="FEEDBACK" cardinality="single" baseType="identifier"/>
+  <itemBody>
+${body}
+  </itemBody>
+  <responseProcessing>
+    <responseCondition>
+      <responseIf>
+        ${scoring}
+        <setOutcomeValue identifier="SCORE"><baseValue baseType="float">1</baseValue></setOutcomeValue>
+      </responseIf>
+    </responseCondition>
+    <setOutcomeValue identifier="FEEDBACK"><baseValue baseType="identifier">EXPLANATION</baseValue></setOutcomeValue>
+  </responseProcessing>${feedback}
+</assessmentItem>
+`;
+}
+
+/**
+ * Export prompts to an IMS QTI 2.1 content package: one item file per
+ * prompt plus an `imsmanifest.xml` listing them
+ */
+export function exportQti(items: QuizExportItem[], packageId: string): { files: QtiPackageFile[]; skipped: SkippedQuestion[] } {
+  const files: QtiPackageFile[] = [];
+  const skipped: SkippedQuestion[] = [];
+  const resources: string[] = [];
+
+  for (const item of items) {
+    const reason = unsupportedReason(item.prompt, 'qti');
+    if (reason) {
+      skipped.push({ label: itemLabel(item), reason });
+      continue;
+    }
+    const identifier = qtiIdentifier(item.prompt.id);
+    const path = `items/${identifier}.xml`;
+    files.push({ path, text: qtiItem(item) });
+    resources.push(
+      `    <resource identifier="${identifier}" type="imsqti_item_xmlv2p1" href="${path}">\n` +
+      `      <file href="${path}"/>\n` +
+      `    </resource>`
+    );
+  }
+
+  const manifest = `<?xml version="1.0" encoding="UTF-8"?>
+<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://www.imsglobal.org/xsd/imscp_v1p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/qtiv2p1_imscpv1p2_v1p0.xsd" identifier="MANIFEST_${packageId.replace(/[^A-Za-z0-9_.-]/g, '_')}">
+  <metadata>
+    <schema>QTIv2.1 Package</schema>
+    <schemaversion>1.0.0</schemaversion>
+  </metadata>
+  <organizations/>
+  <resources>
+${resources.join('\n')}
+  </resources>
+</manifest>
+`;
+
+  return { files: [{ path: 'imsmanifest.xml', text: manifest }, ...files], skipped };
+}
+
+/**
+ * Question text of an item: the interaction's prompt, or else the item body
+ * around the interaction
+ */
+function qtiQuestionText(body: string, interaction: string, interactionContent: string): string {
+  return xmlText(interactionContent.match(/<prompt\b[^>]*>([\s\S]*?)<\/prompt>/)?.[1] ?? '') ||
+    xmlText(body.replace(interaction, ''));
+}
+
+function qtiSimpleChoices(interactionContent: string): Array<{ identifier: string; text: string }> {
+  return [...interactionContent.matchAll(/<simpleChoice\b([^>]*)>([\s\S]*?)<\/simpleChoice>/g)]
+    .map(match => ({ identifier: xmlAttribute(match[1], 'identifier') ?? '', text: xmlText(match[2]) }));
+}
+
+/**
+ * Parse QTI 2.1 assessment items into prompts.
+ *
+ * Accepts one or more `assessmentItem` elements (for example several item
+ * files pasted together). Choice interactions with the options True/False
+ * become true-false prompts; text entry interactions become short-answer
+ * prompts accepting the correct response and every positively mapped value.
+ * Match interactions become matching prompts and order interactions
+ * ordering prompts.
+ */
+export function parseQti(xml: string): QuizImportResult {
+  const prompts: PromptSpec[] = [];
+  const skipped: SkippedQuestion[] = [];
+
+  // Namespace prefixes are irrelevant for the elements read here
+  const source = xml.replace(/<(\/?)[\w-]+:/g, '<$1');
+  const items = [...source.matchAll(/<assessmentItem\b([^>]*)>([\s\S]*?)<\/assessmentItem>/g)];
+
+  if (items.length === 0) {
+    skipped.push({
+      label: 'Document',
+      reason: /<manifest\b/.test(source)
+        ? 'a content package manifest only references item files; paste the item XML files instead'
+        : 'no assessmentItem elements found',
+    });
+    return { prompts, skipped };
+  }
+
+  for (const [, attributes, content] of items) {
+    const label = xmlAttribute(attributes, 'title') ?? xmlAttribute(attributes, 'identifier') ?? 'assessmentItem';
+
+    const correctValues = [...(content.match(/<correctResponse>([\s\S]*?)<\/correctResponse>/)?.[1] ?? '')
+      .matchAll(/<value\b[^>]*>([\s\S]*?)<\/value>/g)]
+      .map(match => xmlText(match[1]));
+    const mappedValues = [...(content.match(/<mapping\b[^>]*>([\s\S]*?)<\/mapping>/)?.[1] ?? '')
+      .matchAll(/<mapEntry\b([^>]*?)\/?>/g)]
+      .filter(match => Number(xmlAttribute(match[1], 'mappedValue') ?? 0) > 0)
+      .map(match => xmlAttribute(match[1], 'mapKey') ?? '')
+      .filter(Boolean);
+
+    const feedback = [...content.matchAll(/<(modalFeedback|feedbackBlock|feedbackInline)\b[^>]*>([\s\S]*?)<\/\1>/g)]
+      .map(match => xmlText(match[2]))
+      .filter(Boolean);
+    const explanation = feedback.join('\n');
+
+    const body = content.match(/<itemBody\b[^>]*>([\s\S]*?)<\/itemBody>/)?.[1] ?? '';
+    const interactions = [...body.matchAll(/<(\w+Interaction)\b/g)].map(match => match[1]);
+    const unsupported = interactions.filter(name => !QTI_IMPORTED_INTERACTIONS.has(name));
+
+    if (interactions.length === 0) {
+      skipped.push({ label, reason: 'item has no interaction' });
+      continue;
+    }
+    if (unsupported.length > 0) {
+      skipped.push({ label, reason: `${[...new Set(unsupported)].join(', ')} is not supported` });
+      continue;
+    }
+    if (interactions.length > 1) {
+      skipped.push({ label, reason: 'items with more than one interaction are not supported' });
+      continue;
+    }
+
+    const order = body.match(/<orderInteraction\b([^>]*)>([\s\S]*?)<\/orderInteraction>/);
+    if (order) {
+      const questionText = qtiQuestionText(body, order[0], order[2]);
+      const choices = qtiSimpleChoices(order[2]);
+      const answer = correctValues.map(value => choices.findIndex(candidate => candidate.identifier === value));
+
+      if (!questionText) {
+        skipped.push({ label, reason: 'question text is empty' });
+      } else if (choices.length < 2) {
+        skipped.push({ label, reason: 'needs at least two choices' });
+      } else if (answer.length !== choices.length || answer.includes(-1) || new Set(answer).size !== answer.length) {
+        skipped.push({ label, reason: 'the correct response does not list every choice once' });
+      } else {
+        prompts.push({
+          question: questionText,
+          type: 'ordering',
+          options: choices.map(candidate => candidate.text),
+          answer,
+          ...(explanation && { explanation }),
+        });
+      }
+      continue;
+    }
+
+    const matchInteraction = body.match(/<matchInteraction\b([^>]*)>([\s\S]*?)<\/matchInteraction>/);
+    if (matchInteraction) {
+      const questionText = qtiQuestionText(body, matchInteraction[0], matchInteraction[2]);
+      const sets = [...matchInteraction[2].matchAll(/<simpleMatchSet\b[^>]*>([\s\S]*?)<\/simpleMatchSet>/g)]
+        .map(set => new Map([...set[1].matchAll(/<simpleAssociableChoice\b([^>]*)>([\s\S]*?)<\/simpleAssociableChoice>/g)]
+          .map(match => [xmlAttribute(match[1], 'identifier') ?? '', xmlText(match[2])])));
+      const pairs = sets.length === 2
+        ? correctValues.map(value => {
+          const [source, target] = value.split(/\s+/);
+          return [sets[0].get(source), sets[1].get(target)];
+        })
+        : [];
+
+      if (!questionText) {
+        skipped.push({ label, reason: 'question text is empty' });
+      } else if (sets.length !== 2) {
+        skipped.push({ label, reason: 'match interactions need exactly two match sets' });
+      } else if (pairs.length === 0) {
+        skipped.push({ label, reason: 'no correct response is declared' });
+      } else if (pairs.some(pair => pair.some(text => !text))) {
+        skipped.push({ label, reason: 'the correct response pairs choices that are not in the match sets' });
+      } else if (new Set(pairs.map(([item]) => item)).size !== pairs.length) {
+        skipped.push({ label, reason: 'an item has more than one correct match' });
+      } else {
+        prompts.push({
+          question: questionText,
+          type: 'matching',
+          answer: Object.fromEntries(pairs),
+          ...(explanation && { explanation }),
+        });
+      }
+      continue;
+    }
+
+    const choice = body.match(/<choiceInteraction\b([^>]*)>([\s\S]*?)<\/choiceInteraction>/);
+    if (choice) {
+      const questionText = qtiQuestionText(body, choice[0], choice[2]);
+      const choices = qtiSimpleChoices(choice[2]);
+      const correct = correctValues
+        .map(value => choices.findIndex(candidate => candidate.identifier === value))
+        .filter(index => index !== -1);
+
+      if (!questionText) {
+        skipped.push({ label, reason: 'question text is empty' });
+      } else if (choices.length < 2) {
+        skipped.push({ label, reason: 'needs at least two choices' });
+      } else if (correct.length === 0) {
+        skipped.push({ label, reason: 'no correct response is declared' });
+      } else if (choices.length === 2 && correct.length === 1 &&
+        choices.map(candidate => candidate.text.toLowerCase()).join('/') === 'true/false') {
+        prompts.push({
+          question: questionText,
+          type: 'true-false',
+          answer: correct[0] === 0,
+          ...(explanation && { explanation }),
+        });
+      } else {
+        prompts.push({
+          question: questionText,
+          type: 'multiple-choice',
+          options: choices.map(candidate => candidate.text),
+          answer: correct.length === 1 ? correct[0] : correct,
+          ...(explanation && { explanation }),
+        });
+      }
+      continue;
+    }
+
+    const questionText = xmlText(body.replace(/<textEntryInteraction\b[^>]*\/>/g, ' _____ ')
+      .replace(/<textEntryInteraction\b[^>]*>[\s\S]*?<\/textEntryInteraction>/g, ' _____ '))
+      .replace(/\s*_____\s*$/, '');
+    if (!questionText) {
+      skipped.push({ label, reason: 'question text is empty' });
+    } else if (correctValues.length === 0 && mappedValues.length === 0) {
+      skipped.push({ label, reason: 'no correct response is declared' });
+    } else {
+      // Accepted answers may be declared as correct values, mapped values or both
+      const answers = [...new Set([...correctValues, ...mappedValues])];
+      prompts.push({
+        question: questionText,
+        type: 'short-answer',
+        answer: answers.length === 1 ? answers[0] : answers,
+        ...(explanation && { explanation }),
+      });
+    }
+  }
+
+  return { prompts, skipped };
+}
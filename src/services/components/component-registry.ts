@@ -0,0 +1,408 @@
+/**
+ * @file Registry of the interactive components prompts can use
+ * @module services/components/component-registry
+ *
+ * @remarks
+ * An `interactive-component` prompt names a component in `componentType`
+ * and configures it with `componentConfig`; `componentAnswer` is the answer
+ * the learner must give through the component. The frontend can only render
+ * the components and settings declared here, so prompts are validated
+ * against this registry before they are created.
+ *
+ * Planned components are listed so authors know what is coming, but
+ * prompts cannot use them until the frontend implements them.
+ */
+
+import { validateJsonSchema, type JsonSchema, type SchemaIssue } from '../../utils/json-schema.js';
+
+export type ComponentStatus = 'available' | 'planned';
+
+/**
+ * An interactive component and the shape of its configuration and answer
+ */
+export interface InteractiveComponent {
+  /** Value of the prompt's `componentType` */
+  type: string;
+  /** Name of the component when embedded in lesson MDX */
+  mdxName: string;
+  description: string;
+  status: ComponentStatus;
+  /** JSON Schema of `componentConfig` */
+  configSchema: JsonSchema;
+  /** JSON Schema of `componentAnswer` */
+  answerSchema: JsonSchema;
+  /** A complete, valid prompt using the component */
+  example: {
+    question: string;
+    componentConfig: unknown;
+    componentAnswer: unknown;
+  };
+  /** Rules that relate the answer to the configuration */
+  checkAnswer?: (config: any, answer: any) => SchemaIssue[];
+}
+
+const HEBREW_LETTER: JsonSchema = {
+  type: 'string',
+  pattern: '^[\\u05D0-\\u05EA]$',
+  description: 'A single Hebrew letter, e.g. "א"',
+};
+
+const LETTER: JsonSchema = {
+  type: 'string',
+  minLength: 1,
+  maxLength: 4,
+};
+
+const hebrewCircle: InteractiveComponent = {
+  type: 'hebrew-circle',
+  mdxName: 'HebrewCircle',
+  description: 'Hebrew letters arranged in concentric circles. The learner selects a letter, identifies a ring, or finds a sequence of letters.',
+  status: 'available',
+  configSchema: {
+    type: 'object',
+    properties: {
+      mode: { enum: ['select-letter', 'identify-ring', 'find-sequence'], description: 'What the learner has to do' },
+      targetLetter: { ...HEBREW_LETTER, description: 'Letter to find in select-letter mode' },
+      instruction: { type: 'string', minLength: 1, description: 'Instruction shown to the learner' },
+      size: { type: 'integer', minimum: 200, maximum: 800, default: 400, description: 'Circle size in pixels' },
+      backgroundColor: { type: 'string', pattern: '^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$', description: 'Hex background color' },
+      showTooltips: { type: 'boolean', description: 'Show letter names on hover' },
+      showGematria: { type: 'boolean', description: 'Show numerical values' },
+      showSectionHighlight: { type: 'boolean', description: 'Highlight sections' },
+      mysticalMode: { type: 'boolean', description: 'Enable mystical styling' },
+      respectfulMode: { type: 'boolean', description: 'Handle divine names respectfully' },
+    },
+    required: ['mode'],
+    additionalProperties: false,
+  },
+  answerSchema: {
+    oneOf: [
+      { ...HEBREW_LETTER, description: 'select-letter: the letter to select' },
+      { type: 'integer', minimum: 1, description: 'identify-ring: the ring number, counted from the center' },
+      { type: 'array', items: HEBREW_LETTER, minItems: 2, description: 'find-sequence: the letters in order' },
+    ],
+  },
+  example: {
+    question: 'Find the letter Aleph in the circle.',
+    componentConfig: {
+      mode: 'select-letter',
+      targetLetter: 'א',
+      instruction: 'Find the letter Aleph',
+      size: 400,
+      showTooltips: true,
+    },
+    componentAnswer: 'א',
+  },
+  checkAnswer: (config, answer) => {
+    const issues: SchemaIssue[] = [];
+    const expected = {
+      'select-letter': typeof answer === 'string',
+      'identify-ring': typeof answer === 'number',
+      'find-sequence': Array.isArray(answer),
+    }[config.mode as string];
+    if (expected === false) {
+      issues.push({ path: [], message: `Answer does not fit ${config.mode} mode; see the component's answer schema` });
+    }
+    if (config.mode === 'select-letter' && config.targetLetter && typeof answer === 'string' && answer !== config.targetLetter) {
+      issues.push({ path: [], message: `Answer "${answer}" differs from the configured targetLetter "${config.targetLetter}"` });
+    }
+    return issues;
+  },
+};
+
+const alphabet: InteractiveComponent = {
+  type: 'alphabet',
+  mdxName: 'AlphabetComponent',
+  description: 'A set of letters from one writing system, shown as a grid or a line. The learner selects one or more letters.',
+  status: 'available',
+  configSchema: {
+    type: 'object',
+    properties: {
+      language: { enum: ['hebrew', 'arabic', 'greek', 'cyrillic'], description: 'Writing system' },
+      letters: { type: 'array', items: LETTER, minItems: 1, uniqueItems: true, description: 'Letters to display' },
+      layout: { enum: ['grid', 'linear'], description: 'How the letters are laid out' },
+      showNames: { type: 'boolean', description: 'Show letter names' },
+      gridColumns: { type: 'integer', minimum: 1, maximum: 10, description: 'Columns in grid layout' },
+    },
+    required: ['language', 'letters'],
+    additionalProperties: false,
+  },
+  answerSchema: {
+    oneOf: [
+      { ...LETTER, description: 'The letter to select' },
+      { type: 'array', items: LETTER, minItems: 1, uniqueItems: true, description: 'Every letter to select' },
+    ],
+  },
+  example: {
+    question: 'Select the letter Gimel.',
+    componentConfig: {
+      language: 'hebrew',
+      letters: ['א', 'ב', 'ג', 'ד', 'ה'],
+      layout: 'grid',
+      showNames: false,
+      gridColumns: 5,
+    },
+    componentAnswer: 'ג',
+  },
+  checkAnswer: (config, answer) => {
+    const letters: string[] = config.letters;
+    const answers: string[] = Array.isArray(answer) ? answer : [answer];
+    return answers
+      .filter(letter => !letters.includes(letter))
+      .map(letter => ({ path: Array.isArray(answer) ? [answer.indexOf(letter)] : [], message: `"${letter}" is not one of the configured letters` }));
+  },
+};
+
+const worldMap: InteractiveComponent = {
+  type: 'world-map',
+  mdxName: 'WorldMap',
+  description: 'A world map on which the learner picks countries.',
+  status: 'planned',
+  configSchema: {
+    type: 'object',
+    properties: {
+      region: { type: 'string', minLength: 1, description: 'Region to show, e.g. "europe"' },
+      countries: { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1, description: 'Selectable countries' },
+      showLabels: { type: 'boolean' },
+      zoomLevel: { type: 'integer', minimum: 1 },
+    },
+    required: ['countries'],
+    additionalProperties: false,
+  },
+  answerSchema: {
+    oneOf: [
+      { type: 'string', minLength: 1 },
+      { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1 },
+    ],
+  },
+  example: {
+    question: 'Which of these countries borders Spain?',
+    componentConfig: { region: 'europe', countries: ['France', 'Germany', 'Italy'], showLabels: false },
+    componentAnswer: 'France',
+  },
+};
+
+const pianoKeyboard: InteractiveComponent = {
+  type: 'piano-keyboard',
+  mdxName: 'PianoKeyboard',
+  description: 'A piano keyboard on which the learner plays notes or chords.',
+  status: 'planned',
+  configSchema: {
+    type: 'object',
+    properties: {
+      startNote: { type: 'string', pattern: '^[A-G][#b]?[0-8]$', description: 'Lowest key, e.g. "C4"' },
+      endNote: { type: 'string', pattern: '^[A-G][#b]?[0-8]$', description: 'Highest key, e.g. "C5"' },
+      showLabels: { type: 'boolean' },
+      playSound: { type: 'boolean' },
+    },
+    required: ['startNote', 'endNote'],
+    additionalProperties: false,
+  },
+  answerSchema: {
+    oneOf: [
+      { type: 'string', pattern: '^[A-G][#b]?[0-8]$' },
+      { type: 'array', items: { type: 'string', pattern: '^[A-G][#b]?[0-8]$' }, minItems: 1 },
+    ],
+  },
+  example: {
+    question: 'Play a C major chord.',
+    componentConfig: { startNote: 'C4', endNote: 'C5', showLabels: true, playSound: true },
+    componentAnswer: ['C4', 'E4', 'G4'],
+  },
+};
+
+const diagramSelector: InteractiveComponent = {
+  type: 'diagram-selector',
+  mdxName: 'DiagramSelector',
+  description: 'A diagram whose labelled elements the learner selects.',
+  status: 'planned',
+  configSchema: {
+    type: 'object',
+    properties: {
+      diagramType: { type: 'string', minLength: 1, description: 'Diagram to show, e.g. "cell-structure"' },
+      elements: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', minLength: 1 },
+            label: { type: 'string', minLength: 1 },
+            x: { type: 'number' },
+            y: { type: 'number' },
+          },
+          required: ['id', 'label', 'x', 'y'],
+          additionalProperties: false,
+        },
+      },
+      showConnections: { type: 'boolean' },
+    },
+    required: ['diagramType', 'elements'],
+    additionalProperties: false,
+  },
+  answerSchema: {
+    oneOf: [
+      { type: 'string', minLength: 1, description: 'ID of the element to select' },
+      { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1, description: 'IDs of every element to select' },
+    ],
+  },
+  example: {
+    question: 'Select the nucleus.',
+    componentConfig: {
+      diagramType: 'cell-structure',
+      elements: [
+        { id: 'nucleus', label: 'Nucleus', x: 50, y: 50 },
+        { id: 'membrane', label: 'Cell Membrane', x: 100, y: 100 },
+      ],
+    },
+    componentAnswer: 'nucleus',
+  },
+};
+
+const timeline: InteractiveComponent = {
+  type: 'timeline',
+  mdxName: 'Timeline',
+  description: 'A timeline on which the learner places events in order.',
+  status: 'planned',
+  configSchema: {
+    type: 'object',
+    properties: {
+      events: {
+        type: 'array',
+        minItems: 2,
+        items: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', minLength: 1 },
+            date: { type: 'string', minLength: 1 },
+            title: { type: 'string', minLength: 1 },
+            description: { type: 'string' },
+          },
+          required: ['id', 'date', 'title'],
+          additionalProperties: false,
+        },
+      },
+    },
+    required: ['events'],
+    additionalProperties: false,
+  },
+  answerSchema: {
+    type: 'array',
+    items: { type: 'string', minLength: 1 },
+    minItems: 2,
+    description: 'Event IDs in chronological order',
+  },
+  example: {
+    question: 'Put these events in order.',
+    componentConfig: {
+      events: [
+        { id: '1', date: '1776', title: 'Independence' },
+        { id: '2', date: '1789', title: 'Constitution' },
+      ],
+    },
+    componentAnswer: ['1', '2'],
+  },
+};
+
+const periodicTable: InteractiveComponent = {
+  type: 'periodic-table',
+  mdxName: 'PeriodicTable',
+  description: 'A periodic table on which the learner selects elements.',
+  status: 'planned',
+  configSchema: {
+    type: 'object',
+    properties: {
+      elements: { type: 'array', items: { type: 'string', pattern: '^[A-Z][a-z]{0,2}$' }, minItems: 1, description: 'Element symbols to show' },
+      showDetails: { type: 'boolean' },
+      highlightGroups: { type: 'boolean' },
+    },
+    required: ['elements'],
+    additionalProperties: false,
+  },
+  answerSchema: {
+    oneOf: [
+      { type: 'string', pattern: '^[A-Z][a-z]{0,2}$' },
+      { type: 'array', items: { type: 'string', pattern: '^[A-Z][a-z]{0,2}$' }, minItems: 1 },
+    ],
+  },
+  example: {
+    question: 'Select the noble gas.',
+    componentConfig: { elements: ['H', 'He', 'Li', 'Be'], showDetails: true },
+    componentAnswer: 'He',
+  },
+};
+
+/**
+ * Every interactive component, available ones first
+ */
+export const INTERACTIVE_COMPONENTS: readonly InteractiveComponent[] = [
+  hebrewCircle,
+  alphabet,
+  worldMap,
+  pianoKeyboard,
+  diagramSelector,
+  timeline,
+  periodicTable,
+];
+
+export const COMPONENT_CATALOG_URI = 'components://catalog';
+
+export function getComponent(type: string): InteractiveComponent | undefined {
+  return INTERACTIVE_COMPONENTS.find(component => component.type === type);
+}
+
+/**
+ * Validate the component fields of an interactive-component prompt.
+ *
+ * @returns Issues with paths starting at `componentType`, `componentConfig`
+ * or `componentAnswer`; empty when the prompt is valid
+ */
+export function validateComponentPrompt(prompt: {
+  componentType: string;
+  componentConfig?: unknown;
+  componentAnswer?: unknown;
+}): SchemaIssue[] {
+  const component = getComponent(prompt.componentType);
+  const available = INTERACTIVE_COMPONENTS.filter(candidate => candidate.status === 'available').map(candidate => candidate.type);
+
+  if (!component) {
+    return [{
+      path: ['componentType'],
+      message: `Unknown component "${prompt.componentType}"; available components: ${available.join(', ')} (see ${COMPONENT_CATALOG_URI})`,
+    }];
+  }
+  if (component.status !== 'available') {
+    return [{
+      path: ['componentType'],
+      message: `Component "${component.type}" is planned but cannot be rendered yet; available components: ${available.join(', ')}`,
+    }];
+  }
+  if (prompt.componentConfig === undefined) {
+    return [{ path: ['componentConfig'], message: `Required for ${component.type}; see the example in ${COMPONENT_CATALOG_URI}` }];
+  }
+
+  const configIssues = validateJsonSchema(component.configSchema, prompt.componentConfig)
+    .map(issue => ({ ...issue, path: ['componentConfig', ...issue.path] }));
+  if (prompt.componentAnswer === undefined) {
+    return configIssues;
+  }
+
+  const answerIssues = validateJsonSchema(component.answerSchema, prompt.componentAnswer);
+  const ruleIssues = configIssues.length === 0 && answerIssues.length === 0 && component.checkAnswer
+    ? component.checkAnswer(prompt.componentConfig, prompt.componentAnswer)
+    : [];
+  return [
+    ...configIssues,
+    ...[...answerIssues, ...ruleIssues].map(issue => ({ ...issue, path: ['componentAnswer', ...issue.path] })),
+  ];
+}
+
+/**
+ * The registry as published in the components://catalog resource
+ */
+export function getComponentCatalog() {
+  return {
+    components: INTERACTIVE_COMPONENTS.map(({ checkAnswer: _checkAnswer, ...component }) => component),
+    usage: 'Create an interactive-component prompt with componentType set to an available component, componentConfig matching its configSchema and componentAnswer matching its answerSchema. Planned components cannot be used in prompts yet.',
+  };
+}
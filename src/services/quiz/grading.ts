@@ -0,0 +1,353 @@
+/**
+ * @file Grading of learner answers to prompts
+ * @module services/quiz/grading
+ *
+ * @remarks
+ * Answers are graded by prompt type:
+ * - Choice prompts by option index. The learner may answer with a letter,
+ *   the option text or a 0-based index, and multiple-answer prompts must
+ *   match the full set. A lone letter is read as the displayed label
+ *   (`A)`, `B)`, ...) even when an option's text is also that letter.
+ * - True-false prompts by boolean.
+ * - Short-answer prompts by normalized text. Near misses (typos) and, for
+ *   long model answers, answers that cover most of the key words also
+ *   count as correct.
+ * - Ordering prompts by the full sequence of items.
+ * - Matching prompts by every item's match.
+ * - Fill-in-the-blank and cloze prompts by each blank or gap, compared like
+ *   short answers against its accepted answers.
+ *
+ * Code and interactive-component prompts cannot be graded in chat. They
+ * are returned as ungraded together with the reference answer.
+ */
+
+import type { LessonPrompt } from '../brainloop/brainloop-service.js';
+import { choiceIndex, correctChoiceIndices, trueFalseAnswer } from '../brainloop/quiz-interchange.js';
+import { clozeGapIds, matchingChoices } from '../brainloop/prompt-types.js';
+
+/**
+ * Minimum similarity (0-1) for a short answer with a typo to count as correct
+ */
+export const SHORT_ANSWER_SIMILARITY = 0.85;
+
+/**
+ * Share of a long model answer's key words a short answer must contain
+ */
+export const SHORT_ANSWER_KEYWORD_COVERAGE = 0.6;
+
+/**
+ * Outcome of grading one answer
+ */
+export interface GradeResult {
+  outcome: 'correct' | 'incorrect' | 'ungraded';
+  /** The expected answer, formatted for display */
+  expected: string;
+  /** Why the answer was accepted or rejected, when not obvious */
+  note?: string;
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'is', 'are', 'it', 'its', 'be', 'by', 'with', 'as', 'that', 'this',
+]);
+
+/**
+ * Normalize a short answer for comparison
+ */
+export function normalizeAnswer(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word && !STOP_WORDS.has(word))
+    .join(' ');
+}
+
+/**
+ * Similarity of two strings from 0 to 1, based on Levenshtein distance
+ */
+export function similarity(a: string, b: string): number {
+  if (a === b) {
+    return 1;
+  }
+  if (!a || !b) {
+    return 0;
+  }
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length);
+}
+
+/**
+ * Resolve a learner's answer to a 0-based option index.
+ *
+ * Options are shown labelled `A)`, `B)`, ..., so a lone letter is read as a
+ * label first; option text and indices are matched as in {@link choiceIndex}.
+ */
+function answerIndex(value: unknown, options: string[]): number | null {
+  if (typeof value === 'string' && /^[A-Za-z]$/.test(value.trim())) {
+    const index = value.trim().toUpperCase().charCodeAt(0) - 65;
+    if (index < options.length) {
+      return index;
+    }
+  }
+  return choiceIndex(value, options);
+}
+
+/**
+ * Resolve a learner's answer, or a list of answers, to sorted option indices
+ */
+function answerIndices(response: unknown, options: string[]): number[] | null {
+  const answers = Array.isArray(response) ? response : [response];
+  const indices = answers.map(answer => answerIndex(answer, options));
+  if (indices.length === 0 || indices.some(index => index === null)) {
+    return null;
+  }
+  return [...new Set(indices as number[])].sort((a, b) => a - b);
+}
+
+function optionLabel(prompt: LessonPrompt, index: number): string {
+  return `${String.fromCharCode(65 + index)}) ${prompt.options![index]}`;
+}
+
+function gradeShortAnswer(expectedAnswers: string[], response: string): GradeResult {
+  const expected = expectedAnswers.join(' / ');
+  const given = normalizeAnswer(response);
+  if (!given) {
+    return { outcome: 'incorrect', expected, note: 'No answer given' };
+  }
+
+  for (const answer of expectedAnswers) {
+    const target = normalizeAnswer(answer);
+    if (given === target) {
+      return { outcome: 'correct', expected };
+    }
+    if (similarity(given, target) >= SHORT_ANSWER_SIMILARITY) {
+      return { outcome: 'correct', expected, note: 'Accepted as a close match; check the spelling' };
+    }
+
+    const keywords = [...new Set(target.split(' '))];
+    if (keywords.length > 5) {
+      const words = new Set(given.split(' '));
+      const covered = keywords.filter(word => words.has(word)).length / keywords.length;
+      if (covered >= SHORT_ANSWER_KEYWORD_COVERAGE) {
+        return { outcome: 'correct', expected, note: `Covers ${Math.round(covered * 100)}% of the key words in the model answer` };
+      }
+    }
+  }
+
+  return { outcome: 'incorrect', expected };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string');
+}
+
+/**
+ * One response value per key, from an array (by position), an object (by
+ * key or 1-based position) or text separated by `|`, `;`, `,` or new lines
+ */
+function responseValues(response: unknown, keys: string[]): string[] {
+  if (Array.isArray(response)) {
+    return response.map(value => String(value ?? ''));
+  }
+  if (isRecord(response)) {
+    return keys.map((key, i) => String(response[key] ?? response[String(i + 1)] ?? ''));
+  }
+  if (typeof response === 'string') {
+    return keys.length === 1 ? [response] : response.split(/\s*[|;,\n]\s*/);
+  }
+  return [];
+}
+
+function gradeOrdering(prompt: LessonPrompt, response: unknown): GradeResult {
+  const options = prompt.options ?? [];
+  const order = Array.isArray(prompt.answer) ? prompt.answer.map(value => choiceIndex(value, options)) : [];
+  if (options.length === 0 || order.length !== options.length || order.some(index => index === null)) {
+    return { outcome: 'ungraded', expected: JSON.stringify(prompt.answer ?? null), note: 'The prompt answer is not an order of its items' };
+  }
+  const expected = (order as number[]).map(index => optionLabel(prompt, index)).join(' → ');
+
+  let items: unknown[] = Array.isArray(response)
+    ? response
+    : typeof response === 'string' ? response.split(/\s*(?:,|;|\||->|→|>|\n)\s*/).filter(Boolean) : [];
+  // Letters written together, e.g. "CAB"
+  if (items.length === 1 && typeof items[0] === 'string' && items[0].length === options.length &&
+    /^[A-Za-z]+$/.test(items[0]) && choiceIndex(items[0], options) === null) {
+    items = [...items[0]];
+  }
+  const given = items.map(item => answerIndex(item, options));
+  if (given.length !== options.length || given.some(index => index === null)) {
+    return { outcome: 'incorrect', expected, note: `Answer with the letters of all ${options.length} items in order` };
+  }
+
+  const inPlace = given.filter((index, i) => index === order[i]).length;
+  return inPlace === options.length
+    ? { outcome: 'correct', expected }
+    : { outcome: 'incorrect', expected, note: `${inPlace} of ${options.length} items in the right position` };
+}
+
+function gradeMatching(prompt: LessonPrompt, response: unknown): GradeResult {
+  const answer = prompt.answer;
+  if (!isRecord(answer) || Object.keys(answer).length === 0 || Object.values(answer).some(value => typeof value !== 'string')) {
+    return { outcome: 'ungraded', expected: JSON.stringify(answer ?? null), note: 'The prompt has no matching pairs' };
+  }
+  const pairs = Object.entries(answer as Record<string, string>);
+  const items = pairs.map(([item]) => item);
+  const choices = matchingChoices(answer as Record<string, string>);
+  const expected = pairs.map(([item, match]) => `${item} → ${match}`).join('; ');
+  const same = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+  const resolveMatch = (value: unknown) => {
+    const index = answerIndex(value, choices);
+    return index === null ? String(value ?? '') : choices[index];
+  };
+
+  // Normalize "1-B, 2-A" or "H2O: Water" text to an object
+  let given: unknown = response;
+  if (typeof response === 'string') {
+    given = Object.fromEntries(response
+      .split(/\s*[,;|\n]\s*/)
+      .map(part => part.match(/^(.+?)\s*(?:->|→|=|:|-)\s*(.+)$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => [match[1], match[2]]));
+  }
+
+  const matches: string[] = new Array(items.length).fill('');
+  if (Array.isArray(given)) {
+    given.forEach((value, i) => {
+      if (i < items.length) {
+        matches[i] = resolveMatch(value);
+      }
+    });
+  } else if (isRecord(given)) {
+    for (const [key, value] of Object.entries(given)) {
+      const index = /^\d+$/.test(key.trim())
+        ? Number(key.trim()) - 1
+        : items.findIndex(item => same(item, key));
+      if (index >= 0 && index < items.length) {
+        matches[index] = resolveMatch(value);
+      }
+    }
+  }
+
+  const correct = pairs.filter(([, match], i) => same(matches[i], match)).length;
+  return correct === pairs.length
+    ? { outcome: 'correct', expected }
+    : { outcome: 'incorrect', expected, note: `${correct} of ${pairs.length} pairs matched correctly` };
+}
+
+/**
+ * Grade each blank or gap against its accepted answers
+ */
+function gradeBlanks(accepted: Array<{ label: string; answers: string[] }>, given: string[]): GradeResult {
+  const expected = accepted.map(({ label, answers }) => `${label}: ${answers.join(' / ')}`).join('; ');
+  const results = accepted.map(({ answers }, i) => gradeShortAnswer(answers, given[i] ?? ''));
+  const correct = results.filter(result => result.outcome === 'correct').length;
+
+  if (correct === accepted.length) {
+    return {
+      outcome: 'correct',
+      expected,
+      ...(results.some(result => result.note) && { note: 'Some answers were accepted as close matches; check the spelling' }),
+    };
+  }
+  return { outcome: 'incorrect', expected, note: `${correct} of ${accepted.length} blanks correct` };
+}
+
+/**
+ * Grade a learner's answer to a prompt
+ */
+export function gradeAnswer(prompt: LessonPrompt, response: unknown): GradeResult {
+  if (prompt.type === 'true-false') {
+    const expected = trueFalseAnswer(prompt.answer);
+    if (expected === null) {
+      return { outcome: 'ungraded', expected: String(prompt.answer ?? 'not set'), note: 'The prompt has no true/false answer' };
+    }
+    const given = trueFalseAnswer(typeof response === 'string' ? response.replace(/[.!]$/, '') : response);
+    return {
+      outcome: given === expected ? 'correct' : 'incorrect',
+      expected: expected ? 'True' : 'False',
+      ...(given === null && { note: 'Answer with true or false' }),
+    };
+  }
+
+  if ((prompt.type === 'multiple-choice' || prompt.type === 'single-choice') && prompt.options?.length) {
+    const correct = correctChoiceIndices(prompt);
+    if (!correct) {
+      return { outcome: 'ungraded', expected: JSON.stringify(prompt.answer), note: 'The prompt answer does not identify an option' };
+    }
+    const expected = correct.map(index => optionLabel(prompt, index)).join(', ');
+    const given = answerIndices(response, prompt.options);
+    if (!given) {
+      return { outcome: 'incorrect', expected, note: 'The answer does not match any option' };
+    }
+    const matches = given.length === correct.length && given.every((index, i) => index === correct[i]);
+    return {
+      outcome: matches ? 'correct' : 'incorrect',
+      expected,
+      ...(!matches && correct.length > 1 && { note: `Select all ${correct.length} correct options` }),
+    };
+  }
+
+  if (prompt.type === 'short-answer') {
+    const answers = Array.isArray(prompt.answer) ? prompt.answer : [prompt.answer];
+    if (answers.length === 0 || answers.some(answer => typeof answer !== 'string' || !answer.trim())) {
+      return { outcome: 'ungraded', expected: JSON.stringify(prompt.answer ?? null), note: 'The prompt has no model answer' };
+    }
+    return gradeShortAnswer(answers as string[], typeof response === 'string' ? response : String(response ?? ''));
+  }
+
+  if (prompt.type === 'ordering') {
+    return gradeOrdering(prompt, response);
+  }
+
+  if (prompt.type === 'matching') {
+    return gradeMatching(prompt, response);
+  }
+
+  if (prompt.type === 'fill-in-the-blank') {
+    const answer = prompt.answer;
+    if (!Array.isArray(answer) || answer.length === 0 || !answer.every(isStringList)) {
+      return { outcome: 'ungraded', expected: JSON.stringify(answer ?? null), note: 'The prompt has no accepted answers for its blanks' };
+    }
+    const keys = (answer as string[][]).map((_, i) => String(i + 1));
+    return gradeBlanks(
+      (answer as string[][]).map((answers, i) => ({ label: `Blank ${i + 1}`, answers })),
+      responseValues(response, keys)
+    );
+  }
+
+  if (prompt.type === 'cloze') {
+    const answer = prompt.answer;
+    const gaps = clozeGapIds(prompt.question).filter(gap => isRecord(answer) && isStringList(answer[gap]));
+    if (!isRecord(answer) || gaps.length === 0) {
+      return { outcome: 'ungraded', expected: JSON.stringify(answer ?? null), note: 'The prompt has no accepted answers for its gaps' };
+    }
+    return gradeBlanks(
+      gaps.map(gap => ({ label: `{{${gap}}}`, answers: answer[gap] as string[] })),
+      responseValues(response, gaps)
+    );
+  }
+
+  const reference = prompt.codeExpectedOutput ?? prompt.componentAnswer ?? prompt.answer;
+  return {
+    outcome: 'ungraded',
+    expected: reference === undefined ? 'not provided' : typeof reference === 'string' ? reference : JSON.stringify(reference),
+    note: `${prompt.type} prompts cannot be graded in chat; compare with the reference answer`,
+  };
+}
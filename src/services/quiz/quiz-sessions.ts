@@ -0,0 +1,88 @@
+/**
+ * @file In-memory quiz state per MCP session
+ * @module services/quiz/quiz-sessions
+ *
+ * @remarks
+ * Each MCP session can run one quiz at a time. The quiz keeps the lesson's
+ * prompts, including their answers, on the server, so only the current
+ * question is ever sent to the client. State lives in memory only. It is
+ * dropped when the quiz finishes, when the MCP session is cleaned up, or
+ * after {@link QUIZ_IDLE_TIMEOUT_MS} without activity.
+ */
+
+import type { LessonPrompt } from '../brainloop/brainloop-service.js';
+import type { GradeResult } from './grading.js';
+
+/**
+ * Quizzes idle for longer than this are discarded
+ */
+export const QUIZ_IDLE_TIMEOUT_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * A graded answer
+ */
+export interface QuizAnswer {
+  promptId: string;
+  response: unknown;
+  result: GradeResult;
+}
+
+/**
+ * A quiz in progress
+ */
+export interface QuizSession {
+  quizId: string;
+  lessonId: string;
+  lessonTitle: string;
+  /** Prompts in the order they are asked */
+  prompts: LessonPrompt[];
+  /** Answers so far; the next question is `prompts[answers.length]` */
+  answers: QuizAnswer[];
+  /** Score (percent of gradable questions) needed to pass */
+  passThreshold: number;
+  /** Mark the lesson complete when the quiz is passed */
+  completeOnPass: boolean;
+  startedAt: Date;
+  lastActivity: Date;
+}
+
+const quizzes = new Map<string, QuizSession>();
+
+function pruneIdle(now = Date.now()): void {
+  for (const [sessionId, quiz] of quizzes.entries()) {
+    if (now - quiz.lastActivity.getTime() > QUIZ_IDLE_TIMEOUT_MS) {
+      quizzes.delete(sessionId);
+    }
+  }
+}
+
+/**
+ * Start a quiz for a session, replacing any quiz already running
+ *
+ * @returns The quiz that was replaced, if any
+ */
+export function setQuiz(sessionId: string, quiz: QuizSession): QuizSession | undefined {
+  pruneIdle();
+  const previous = quizzes.get(sessionId);
+  quizzes.set(sessionId, quiz);
+  return previous;
+}
+
+/**
+ * Get the quiz running in a session
+ */
+export function getQuiz(sessionId: string): QuizSession | undefined {
+  pruneIdle();
+  const quiz = quizzes.get(sessionId);
+  if (quiz) {
+    quiz.lastActivity = new Date();
+  }
+  return quiz;
+}
+
+/**
+ * End the quiz of a session
+ */
+export function removeQuiz(sessionId: string): void {
+  quizzes.delete(sessionId);
+}
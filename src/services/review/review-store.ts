@@ -0,0 +1,129 @@
+/**
+ * @file Local persistent store for spaced-repetition review state
+ * @module services/review/review-store
+ *
+ * @remarks
+ * The BRAINLOOP API has no concept of review schedules, so they are kept on
+ * the MCP server's disk: one JSON file per user under
+ * `<DATA_DIR>/reviews/`. File names are a hash of the user ID. Writes go to
+ * a temporary file that is then renamed over the old one, and updates for
+ * the same user are serialized, so concurrent tool calls cannot lose
+ * reviews.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { CONFIG } from '../../server/config.js';
+import { logger } from '../../utils/logger.js';
+import type { ReviewSchedule } from './sm2.js';
+
+/**
+ * A lesson or prompt on a user's review schedule
+ */
+export interface ReviewItem extends ReviewSchedule {
+  kind: 'lesson' | 'prompt';
+  /** Lesson or prompt ID */
+  id: string;
+  /** Lesson title or prompt question */
+  title: string;
+  lessonId: string;
+  lessonTitle: string;
+  courseTitle?: string;
+  lastReviewedAt?: string;
+  lastGrade?: number;
+  /** For lessons: whether the lesson's prompts have been added to the schedule */
+  promptsScheduled?: boolean;
+}
+
+/**
+ * All review state of one user
+ */
+export interface ReviewState {
+  version: 1;
+  userId: string;
+  /** Items keyed by {@link reviewItemKey} */
+  items: Record<string, ReviewItem>;
+}
+
+/**
+ * Key of an item in {@link ReviewState.items}
+ */
+export function reviewItemKey(kind: ReviewItem['kind'], id: string): string {
+  return `${kind}:${id}`;
+}
+
+/**
+ * File-backed review state, one file per user
+ */
+export class ReviewStore {
+  private static instance: ReviewStore;
+  /** Pending update per user, so updates run one after another */
+  private readonly queues = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Shared store under the configured data directory
+   */
+  public static getInstance(): ReviewStore {
+    if (!ReviewStore.instance) {
+      ReviewStore.instance = new ReviewStore(join(CONFIG.DATA_DIR, 'reviews'));
+    }
+    return ReviewStore.instance;
+  }
+
+  private filePath(userId: string): string {
+    const name = createHash('sha256').update(userId).digest('hex').substring(0, 32);
+    return join(this.directory, `${name}.json`);
+  }
+
+  /**
+   * Read a user's review state; users without a file get an empty state
+   */
+  async load(userId: string): Promise<ReviewState> {
+    try {
+      const state = JSON.parse(await readFile(this.filePath(userId), 'utf8')) as ReviewState;
+      return { version: 1, userId, items: state.items ?? {} };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { version: 1, userId, items: {} };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Load, modify and save a user's review state.
+   *
+   * Updates for the same user run one at a time. The state is saved after
+   * `fn` resolves; if `fn` throws, nothing is written.
+   */
+  async update<T>(userId: string, fn: (state: ReviewState) => T | Promise<T>): Promise<T> {
+    const previous = this.queues.get(userId) ?? Promise.resolve();
+    const run = previous.catch(() => undefined).then(async () => {
+      const state = await this.load(userId);
+      const result = await fn(state);
+      await this.save(state);
+      return result;
+    });
+
+    this.queues.set(userId, run);
+    try {
+      return await run;
+    } finally {
+      if (this.queues.get(userId) === run) {
+        this.queues.delete(userId);
+      }
+    }
+  }
+
+  private async save(state: ReviewState): Promise<void> {
+    const path = this.filePath(state.userId);
+    const temporary = `${path}.${process.pid}.tmp`;
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(temporary, JSON.stringify(state, null, 2), 'utf8');
+    await rename(temporary, path);
+    logger.debug('Saved review state', { userId: state.userId, items: Object.keys(state.items).length });
+  }
+}
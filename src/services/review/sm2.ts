@@ -0,0 +1,123 @@
+/**
+ * @file SM-2 spaced-repetition scheduling
+ * @module services/review/sm2
+ *
+ * @remarks
+ * Implements the SuperMemo 2 algorithm. After each review the learner
+ * grades their recall from 0 (complete blackout) to 5 (perfect recall).
+ * Grades of 3 or more count as a successful repetition and grow the
+ * interval; lower grades restart the item at a one-day interval. The ease
+ * factor adapts to how hard the learner finds the item.
+ *
+ * @see {@link https://super-memory.com/english/ol/sm2.htm | SM-2 algorithm}
+ */
+
+/**
+ * Recall grades and their meaning, as shown to learners
+ */
+export const RECALL_GRADES: Record<number, string> = {
+  0: 'complete blackout',
+  1: 'wrong, but recognised the answer',
+  2: 'wrong, but the answer felt easy to recall',
+  3: 'correct with serious difficulty',
+  4: 'correct after some hesitation',
+  5: 'perfect recall',
+};
+
+/**
+ * Ease factor of a new item
+ */
+export const INITIAL_EASE_FACTOR = 2.5;
+
+/**
+ * Lowest ease factor SM-2 allows
+ */
+export const MIN_EASE_FACTOR = 1.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Scheduling state of a reviewable item
+ */
+export interface ReviewSchedule {
+  easeFactor: number;
+  /** Current interval in days */
+  interval: number;
+  /** Consecutive successful repetitions */
+  repetitions: number;
+  /** When the item is next due (ISO 8601) */
+  dueAt: string;
+}
+
+/**
+ * Where an item falls relative to today
+ */
+export type DueBucket = 'overdue' | 'today' | 'upcoming' | 'later';
+
+/**
+ * Schedule for an item first learned at `learnedAt`; it is due one day later
+ */
+export function newSchedule(learnedAt: Date): ReviewSchedule {
+  return {
+    easeFactor: INITIAL_EASE_FACTOR,
+    interval: 1,
+    repetitions: 0,
+    dueAt: new Date(learnedAt.getTime() + DAY_MS).toISOString(),
+  };
+}
+
+/**
+ * Apply a recall grade to a schedule.
+ *
+ * @param schedule - Current schedule
+ * @param grade - Recall grade from 0 to 5
+ * @param reviewedAt - When the review happened
+ * @returns The next schedule
+ */
+export function applyGrade(schedule: ReviewSchedule, grade: number, reviewedAt: Date): ReviewSchedule {
+  if (!Number.isInteger(grade) || grade < 0 || grade > 5) {
+    throw new Error(`Recall grade must be an integer from 0 to 5, got ${grade}`);
+  }
+
+  let { repetitions, interval } = schedule;
+  if (grade >= 3) {
+    interval = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(interval * schedule.easeFactor);
+    repetitions++;
+  } else {
+    repetitions = 0;
+    interval = 1;
+  }
+
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    schedule.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  );
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    interval,
+    repetitions,
+    dueAt: new Date(reviewedAt.getTime() + interval * DAY_MS).toISOString(),
+  };
+}
+
+/**
+ * Classify a due date relative to `now`, using UTC calendar days.
+ *
+ * Items due before today are overdue, items due any time today are due
+ * today, and items due within the next seven days are upcoming.
+ */
+export function dueBucket(dueAt: string, now: Date): DueBucket {
+  const startOfToday = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  const due = new Date(dueAt).getTime();
+  if (due < startOfToday) {
+    return 'overdue';
+  }
+  if (due < startOfToday + DAY_MS) {
+    return 'today';
+  }
+  if (due < startOfToday + 8 * DAY_MS) {
+    return 'upcoming';
+  }
+  return 'later';
+}
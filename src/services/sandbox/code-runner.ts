@@ -0,0 +1,300 @@
+/**
+ * @file Sandboxed verification of code prompt solutions
+ * @module services/sandbox/code-runner
+ *
+ * @remarks
+ * Runs a reference solution against a code prompt's test cases before the
+ * prompt reaches learners. Only JavaScript and TypeScript can be run;
+ * TypeScript is transpiled by stripping its types first.
+ *
+ * Each test case runs in its own worker thread with the prompt's memory
+ * limit. Inside the worker the solution runs in a fresh `vm` context whose
+ * only globals are `input` (the test case input) and a `console` that
+ * records output, so it cannot reach `require`, `process` or the file
+ * system through the globals. Code generation from strings is disabled and
+ * the worker is terminated when the time limit is exceeded.
+ *
+ * This keeps a broken or runaway solution from affecting the server. It is
+ * meant for solutions written by course authors; the `vm` module is not a
+ * security boundary against deliberately hostile code.
+ */
+
+import * as nodeModule from 'module';
+import { Worker } from 'worker_threads';
+
+/**
+ * Languages that can be verified
+ */
+export const VERIFIABLE_LANGUAGES = ['javascript', 'typescript'] as const;
+
+export const DEFAULT_TIME_LIMIT_MS = 2000;
+export const MAX_TIME_LIMIT_MS = 10000;
+export const DEFAULT_MEMORY_LIMIT_MB = 64;
+export const MAX_MEMORY_LIMIT_MB = 512;
+
+/**
+ * Extra time a worker gets to start before the time limit is enforced
+ */
+const WORKER_STARTUP_MS = 1000;
+
+const LANGUAGE_ALIASES: Record<string, typeof VERIFIABLE_LANGUAGES[number]> = {
+  javascript: 'javascript',
+  js: 'javascript',
+  node: 'javascript',
+  nodejs: 'javascript',
+  typescript: 'typescript',
+  ts: 'typescript',
+};
+
+/**
+ * A code prompt test case
+ */
+export interface CodeTestCase {
+  /** Input given to the program as the global `input` string */
+  input?: string;
+  /** Output the program must print */
+  expectedOutput: string;
+  description?: string;
+  hidden?: boolean;
+}
+
+/**
+ * Outcome of one test case
+ */
+export interface TestCaseResult {
+  /** 0-based index of the test case */
+  index: number;
+  description?: string;
+  passed: boolean;
+  expectedOutput: string;
+  actualOutput: string;
+  /** Runtime error, or the limit that was exceeded */
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Result of verifying a solution
+ */
+export interface VerificationReport {
+  /** Normalized language, or the language as given if it is not supported */
+  language: string;
+  /** False when the language cannot be run; nothing was executed */
+  supported: boolean;
+  /** Why nothing was executed */
+  reason?: string;
+  results: TestCaseResult[];
+  /** True only when the language is supported and every test case passed */
+  passed: boolean;
+}
+
+/**
+ * What to verify
+ */
+export interface VerificationRequest {
+  language: string;
+  solution: string;
+  testCases?: CodeTestCase[];
+  /** Used as a single test case without input when there are no test cases */
+  expectedOutput?: string;
+  timeLimitMs?: number;
+  memoryLimitMb?: number;
+}
+
+interface WorkerOutcome {
+  output: string;
+  error?: string;
+  durationMs: number;
+}
+
+/**
+ * Worker body, run as a CommonJS script. It receives the code, input and
+ * time limit as workerData and posts back `{ output, error?, durationMs }`.
+ */
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+
+const context = vm.createContext(Object.create(null), {
+  codeGeneration: { strings: false, wasm: false },
+});
+const lines = vm.runInContext(\`(() => {
+  const lines = [];
+  const format = value => typeof value === 'string' ? value : (() => {
+    try { return JSON.stringify(value) ?? String(value); } catch { return String(value); }
+  })();
+  const write = (...args) => { lines.push(args.map(format).join(' ')); };
+  globalThis.console = { log: write, info: write, debug: write, warn: () => {}, error: () => {} };
+  return lines;
+})()\`, context);
+context.input = workerData.input;
+
+const started = performance.now();
+const finish = error => parentPort.postMessage({
+  output: lines.join('\\n'),
+  error,
+  durationMs: Math.round(performance.now() - started),
+});
+const describe = error => error && typeof error === 'object' && 'message' in error
+  ? String(error.name || 'Error') + ': ' + String(error.message)
+  : 'Thrown: ' + String(error);
+
+try {
+  const result = vm.runInContext(workerData.code, context, { timeout: workerData.timeLimitMs });
+  if (result && typeof result.then === 'function') {
+    Promise.resolve(result).then(() => finish(), error => finish(describe(error)));
+  } else {
+    finish();
+  }
+} catch (error) {
+  finish(error && error.code === 'ERR_SCRIPT_EXECUTION_TIMEOUT'
+    ? 'Time limit of ' + workerData.timeLimitMs + ' ms exceeded'
+    : describe(error));
+}
+`;
+
+/**
+ * Normalize program output for comparison: line endings, trailing
+ * whitespace on each line and trailing blank lines are ignored
+ */
+function normalizeOutput(output: string): string {
+  return output
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/\n+$/, '');
+}
+
+/**
+ * Transpile TypeScript to JavaScript.
+ *
+ * Uses Node's built-in type stripping where available and the `typescript`
+ * package otherwise.
+ *
+ * @returns The JavaScript, or null if no transpiler is available
+ */
+async function transpileTypeScript(code: string): Promise<string | null> {
+  if (typeof nodeModule.stripTypeScriptTypes === 'function') {
+    return nodeModule.stripTypeScriptTypes(code, { mode: 'transform' });
+  }
+  try {
+    const ts = (await import('typescript')).default;
+    return ts.transpileModule(code, {
+      compilerOptions: { target: ts.ScriptTarget.ES2022, module: ts.ModuleKind.None },
+    }).outputText;
+  } catch {
+    return null;
+  }
+}
+
+function runInWorker(code: string, input: string, timeLimitMs: number, memoryLimitMb: number): Promise<WorkerOutcome> {
+  return new Promise(resolve => {
+    const started = Date.now();
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { code, input, timeLimitMs },
+      resourceLimits: { maxOldGenerationSizeMb: memoryLimitMb, maxYoungGenerationSizeMb: Math.min(16, memoryLimitMb) },
+      env: {},
+      stdout: true,
+      stderr: true,
+    });
+
+    let settled = false;
+    const settle = (outcome: WorkerOutcome) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      clearTimeout(timer);
+      void worker.terminate();
+      resolve(outcome);
+    };
+    const elapsed = () => Date.now() - started;
+
+    const timer = setTimeout(
+      () => settle({ output: '', error: `Time limit of ${timeLimitMs} ms exceeded`, durationMs: elapsed() }),
+      timeLimitMs + WORKER_STARTUP_MS
+    );
+    worker.once('message', (outcome: WorkerOutcome) => settle(outcome));
+    worker.once('error', (error: NodeJS.ErrnoException) => settle({
+      output: '',
+      error: error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+        ? `Memory limit of ${memoryLimitMb} MB exceeded`
+        : error.message,
+      durationMs: elapsed(),
+    }));
+    worker.once('exit', exitCode => settle({ output: '', error: `Worker exited with code ${exitCode}`, durationMs: elapsed() }));
+  });
+}
+
+/**
+ * Normalize a language name to a verifiable language, if it is one
+ */
+export function verifiableLanguage(language: string): typeof VERIFIABLE_LANGUAGES[number] | null {
+  return LANGUAGE_ALIASES[language.trim().toLowerCase()] ?? null;
+}
+
+/**
+ * Run a reference solution against test cases.
+ *
+ * A test case passes when the solution finishes within the limits without
+ * throwing and prints the expected output.
+ */
+export async function verifyCodeSolution(request: VerificationRequest): Promise<VerificationReport> {
+  const language = verifiableLanguage(request.language);
+  const unsupported = (reason: string): VerificationReport => ({
+    language: language ?? request.language,
+    supported: false,
+    reason,
+    results: [],
+    passed: false,
+  });
+
+  if (!language) {
+    return unsupported(`${request.language} solutions cannot be run; only ${VERIFIABLE_LANGUAGES.join(' and ')} can be verified`);
+  }
+
+  const testCases: CodeTestCase[] = request.testCases?.length
+    ? request.testCases
+    : request.expectedOutput !== undefined
+      ? [{ expectedOutput: request.expectedOutput, description: 'Expected output' }]
+      : [];
+  if (testCases.length === 0) {
+    throw new Error('Nothing to verify: provide test cases or an expected output');
+  }
+
+  let code = request.solution;
+  if (language === 'typescript') {
+    const transpiled = await transpileTypeScript(code);
+    if (transpiled === null) {
+      return unsupported('No TypeScript transpiler is available on this server');
+    }
+    code = transpiled;
+  }
+
+  const timeLimitMs = Math.min(Math.max(1, request.timeLimitMs ?? DEFAULT_TIME_LIMIT_MS), MAX_TIME_LIMIT_MS);
+  const memoryLimitMb = Math.min(Math.max(8, request.memoryLimitMb ?? DEFAULT_MEMORY_LIMIT_MB), MAX_MEMORY_LIMIT_MB);
+
+  // Run one case at a time so the memory limit applies to one worker at once
+  const results: TestCaseResult[] = [];
+  for (const [index, testCase] of testCases.entries()) {
+    const outcome = await runInWorker(code, testCase.input ?? '', timeLimitMs, memoryLimitMb);
+    results.push({
+      index,
+      description: testCase.description,
+      passed: !outcome.error && normalizeOutput(outcome.output) === normalizeOutput(testCase.expectedOutput),
+      expectedOutput: testCase.expectedOutput,
+      actualOutput: outcome.output,
+      error: outcome.error,
+      durationMs: outcome.durationMs,
+    });
+  }
+
+  return {
+    language,
+    supported: true,
+    results,
+    passed: results.every(result => result.passed),
+  };
+}
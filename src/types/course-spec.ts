@@ -0,0 +1,110 @@
+/**
+ * @file Declarative course specification and plan types
+ * @module types/course-spec
+ *
+ * @remarks
+ * A course spec describes the desired state of a whole brainloop: its
+ * units, lessons and the prompts of each lesson's interaction. The
+ * planner compares a spec against the live course and produces a list of
+ * operations that, once applied, make the live course match the spec.
+ *
+ * The spec shape extends the `template://brainloop` resource, so a filled
+ * in template is already a valid spec.
+ */
+
+import type { PromptType } from '../services/brainloop/prompt-types.js';
+
+/**
+ * A prompt (question/exercise) in a lesson's interaction.
+ */
+export interface PromptSpec {
+  question: string;
+  type: PromptType;
+  options?: string[];
+  answer?: any;
+  explanation?: string;
+  codeLanguage?: string;
+  codeStarterCode?: string;
+  componentType?: string;
+  componentConfig?: any;
+}
+
+/**
+ * A lesson and, optionally, the prompts of its interaction.
+ */
+export interface LessonSpec {
+  title: string;
+  content: string;
+  videoUrl?: string;
+  /** Prompts that must exist on the lesson's interaction */
+  prompts?: PromptSpec[];
+}
+
+/**
+ * A unit and its lessons, in order.
+ */
+export interface UnitSpec {
+  title: string;
+  description?: string;
+  lessons: LessonSpec[];
+}
+
+/**
+ * The desired state of a whole brainloop.
+ */
+export interface CourseSpec {
+  title: string;
+  description: string;
+  isPublic?: boolean;
+  units: UnitSpec[];
+}
+
+/**
+ * Reference to an entity that either exists already (`id`) or is created
+ * by an earlier operation of the same plan (`ref`).
+ */
+export type EntityRef = { id: string } | { ref: string };
+
+/**
+ * A single step of a plan.
+ *
+ * @remarks
+ * Every operation carries a human readable `summary` used when the plan is
+ * shown to the author before it is applied.
+ */
+export type PlanOperation = { summary: string } & (
+  | { kind: 'create_course'; ref: string; title: string; description: string; isPrivate: boolean }
+  | { kind: 'create_unit'; ref: string; course: EntityRef; title: string; description: string; order: number }
+  | { kind: 'update_unit'; unitId: string; title?: string; description?: string }
+  | { kind: 'reorder_units'; course: EntityRef; units: EntityRef[] }
+  | { kind: 'create_lesson'; ref: string; unit: EntityRef; title: string; content: string; videoUrl?: string; order: number }
+  | {
+    kind: 'update_lesson';
+    lessonId: string;
+    title?: string;
+    content?: string;
+    videoUrl?: string;
+    /** Values before the update, used to restore the lesson on rollback */
+    previous: { title: string; content: string; videoUrl?: string };
+  }
+  | { kind: 'move_lesson'; lessonId: string; unit: EntityRef }
+  | { kind: 'order_lessons'; unit: EntityRef; current: EntityRef[]; lessons: EntityRef[] }
+  | { kind: 'create_interaction'; lesson: EntityRef }
+  | { kind: 'create_prompts'; lesson: EntityRef; interactionId?: string; prompts: PromptSpec[] }
+);
+
+/**
+ * The difference between a spec and a live course.
+ */
+export interface CoursePlan {
+  /** Live course ID, or null when the plan creates a new course */
+  courseId: string | null;
+  /** Operations to apply, in order */
+  operations: PlanOperation[];
+  /** Differences the plan cannot apply (e.g. changed prompts) */
+  warnings: string[];
+  /** Live content that is not in the spec and is left untouched */
+  untouched: string[];
+  /** Short hash of the operations, used to confirm the reviewed plan is the one applied */
+  fingerprint: string;
+}
@@ -1,199 +1,492 @@
 /**
- * @file JSON Schema definitions for Reddit MCP sampling responses
+ * @file JSON Schema definitions for BRAINLOOP sampling responses
  * @module types/sampling-schemas
- * 
+ *
  * @remarks
- * This module defines JSON Schema structures used for validating LLM responses
- * in the MCP sampling feature. These schemas ensure that AI-generated content
- * matches the expected format for Reddit operations.
- * 
- * @see {@link https://modelcontextprotocol.io/specification/2025-06-18/client/sampling#structured-output | MCP Structured Output}
+ * This module defines the JSON Schemas that model responses from MCP
+ * sampling must follow: lesson drafts, prompt batches, course outlines and
+ * next-action suggestions. Each schema is sent to the model as part of the
+ * sampling request, and the response is validated against it (see
+ * `parseSamplingResponse`) before anything is created from it.
+ *
+ * @see {@link https://modelcontextprotocol.io/specification/2025-06-18/client/sampling | MCP Sampling}
  * @see {@link https://json-schema.org/ | JSON Schema Specification}
  */
 
 import type { JSONSchema7 } from "json-schema";
+import { GENERATABLE_PROMPT_TYPES, type GeneratablePromptType } from "../services/brainloop/prompt-types.js";
 
 /**
- * JSON Schema for validating Reddit post creation responses from LLM sampling.
- * 
+ * A lesson written by the model.
+ */
+export interface LessonDraft {
+  title: string;
+  content: string;
+  learningObjectives?: string[];
+  keyTakeaways?: string[];
+}
+
+/**
+ * JSON Schema for sampled lesson drafts.
+ *
  * @remarks
- * This schema ensures that AI-generated posts have all required fields
- * and follow Reddit's posting requirements. The LLM response will be
- * validated against this schema before attempting to create the post.
- * 
+ * The content is the lesson body in Markdown, following the lesson
+ * template (hook, learning objectives, sections, key takeaways).
+ *
  * @example
  * ```json
  * {
- *   "title": "TIL about MCP servers for Reddit",
- *   "content": "I discovered this amazing way to interact with Reddit...",
- *   "subreddit": "todayilearned",
- *   "flair_text": "Technology",
- *   "sendreplies": true
+ *   "title": "What is Machine Learning?",
+ *   "content": "## Why it matters\n\nEvery time your inbox filters spam...",
+ *   "learningObjectives": ["Define machine learning", "Tell ML apart from rule-based programs"],
+ *   "keyTakeaways": ["ML programs learn rules from examples"]
  * }
  * ```
- * 
- * @see {@link https://modelcontextprotocol.io/specification/2025-06-18/client/sampling#structured-output | MCP Structured Output}
  */
-export const REDDIT_POST_RESPONSE_SCHEMA: JSONSchema7 = {
+export const LESSON_DRAFT_RESPONSE_SCHEMA: JSONSchema7 = {
   type: "object",
   properties: {
     title: {
       type: "string",
-      description: "Post title (1-300 characters)",
+      description: "Lesson title",
       minLength: 1,
-      maxLength: 300,
+      maxLength: 200,
     },
     content: {
       type: "string",
-      description: "Text content for the post",
+      description: "Lesson content in Markdown",
+      minLength: 10,
     },
-    subreddit: {
-      type: "string",
-      description: "Subreddit to post to (without r/ prefix)",
+    learningObjectives: {
+      type: "array",
+      description: "What the learner will be able to do after the lesson",
+      items: { type: "string", minLength: 1 },
     },
-    flair_id: {
-      type: "string",
-      description: "Flair ID if the subreddit requires it",
-    },
-    flair_text: {
-      type: "string",
-      description: "Flair text if the subreddit requires it",
-    },
-    sendreplies: {
-      type: "boolean",
-      description: "Whether to send replies to inbox",
-      default: true,
-    },
-    nsfw: {
-      type: "boolean",
-      description: "Whether to mark as NSFW",
-      default: false,
-    },
-    spoiler: {
-      type: "boolean",
-      description: "Whether to mark as spoiler",
-      default: false,
+    keyTakeaways: {
+      type: "array",
+      description: "Points to remember",
+      items: { type: "string", minLength: 1 },
     },
   },
-  required: ["title", "content", "subreddit"],
+  required: ["title", "content"],
+  additionalProperties: false,
 };
 
 /**
- * JSON Schema for validating Reddit comment creation responses from LLM sampling.
- * 
+ * A batch of prompts written by the model, before the prompt-type rules
+ * are checked.
+ */
+export interface PromptBatchDraft {
+  prompts: Array<{
+    question: string;
+    type: GeneratablePromptType;
+    options?: string[];
+    answer: unknown;
+    explanation: string;
+  }>;
+}
+
+const STRING_LIST: JSONSchema7 = { type: "array", items: { type: "string", minLength: 1 }, minItems: 1 };
+const OPTIONS: JSONSchema7 = { type: "array", items: { type: "string", minLength: 1 }, minItems: 2 };
+const OPTION_INDEX: JSONSchema7 = { type: "integer", minimum: 0 };
+
+/**
+ * Options and answer shape of each prompt type the model may write.
+ */
+const PROMPT_ANSWER_SHAPES: Record<GeneratablePromptType, { options?: JSONSchema7; answer: JSONSchema7 }> = {
+  "multiple-choice": { options: OPTIONS, answer: { type: "array", items: OPTION_INDEX, minItems: 1 } },
+  "single-choice": { options: OPTIONS, answer: OPTION_INDEX },
+  "true-false": { answer: { type: "boolean" } },
+  "short-answer": { answer: STRING_LIST },
+  "ordering": { options: OPTIONS, answer: { type: "array", items: OPTION_INDEX, minItems: 2 } },
+  "matching": { answer: { type: "object", additionalProperties: { type: "string", minLength: 1 }, minProperties: 2 } },
+  "fill-in-the-blank": { answer: { type: "array", items: STRING_LIST, minItems: 1 } },
+  "cloze": { answer: { type: "object", additionalProperties: STRING_LIST, minProperties: 1 } },
+};
+
+/**
+ * JSON Schema for sampled prompt batches.
+ *
  * @remarks
- * This schema ensures that AI-generated comments have all required fields
- * for replying to posts or other comments on Reddit.
- * 
+ * Each prompt type has its own answer shape, enforced with if/then per
+ * type. Rules that span fields, such as answer indices being in range, are
+ * checked afterwards by the prompt validators shared with
+ * `create_prompts_batch`.
+ *
  * @example
  * ```json
  * {
- *   "content": "Great point! I'd like to add that TypeScript also provides...",
- *   "id": "t3_abc123",
- *   "subreddit": "typescript"
+ *   "prompts": [
+ *     {
+ *       "question": "Which of these is a supervised learning task?",
+ *       "type": "single-choice",
+ *       "options": ["Clustering customers", "Predicting house prices"],
+ *       "answer": 1,
+ *       "explanation": "Price prediction learns from labelled examples."
+ *     }
+ *   ]
  * }
  * ```
  */
-export const REDDIT_COMMENT_RESPONSE_SCHEMA: JSONSchema7 = {
+export const PROMPT_BATCH_RESPONSE_SCHEMA: JSONSchema7 = {
   type: "object",
   properties: {
-    content: {
-      type: "string",
-      description: "Generated content for the reply",
-    },
-    id: {
-      type: "string",
-      description: "ID of parent post/comment being replied to",
-    },
-    subreddit: {
-      type: "string",
-      description: "Subreddit where the comment will be posted",
+    prompts: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        properties: {
+          question: { type: "string", minLength: 1 },
+          type: { enum: [...GENERATABLE_PROMPT_TYPES] },
+          options: OPTIONS,
+          answer: {},
+          explanation: { type: "string", minLength: 1 },
+        },
+        required: ["question", "type", "answer", "explanation"],
+        additionalProperties: false,
+        allOf: GENERATABLE_PROMPT_TYPES.map(type => {
+          const shape = PROMPT_ANSWER_SHAPES[type];
+          return {
+            if: { properties: { type: { const: type } }, required: ["type"] },
+            then: shape.options
+              ? { properties: { options: shape.options, answer: shape.answer }, required: ["options"] }
+              : { properties: { options: false, answer: shape.answer } },
+          };
+        }),
+      },
     },
   },
-  required: ["content", "id", "subreddit"],
+  required: ["prompts"],
+  additionalProperties: false,
 };
 
 /**
- * JSON Schema for validating Reddit private message responses from LLM sampling.
- * 
+ * A course structure proposed by the model.
+ */
+export interface CourseOutline {
+  title: string;
+  description: string;
+  units: Array<{
+    title: string;
+    description?: string;
+    lessons: Array<{
+      title: string;
+      summary?: string;
+    }>;
+  }>;
+}
+
+/**
+ * JSON Schema for sampled course outlines.
+ *
  * @remarks
- * This schema ensures that AI-generated messages follow Reddit's private
- * message format requirements with proper validation.
- * 
+ * An outline is the structure of a brainloop without lesson content; its
+ * units map onto the topics of `create_brainloop` and its lessons onto
+ * `expand_brainloop` calls.
+ *
  * @example
  * ```json
  * {
- *   "recipient": "reddit_user",
- *   "subject": "Re: Your TypeScript question",
- *   "content": "Thanks for reaching out! Here's the answer to your question..."
+ *   "title": "Machine Learning Fundamentals",
+ *   "description": "From the core ideas to your first model",
+ *   "units": [
+ *     {
+ *       "title": "Introduction to ML",
+ *       "lessons": [{ "title": "What is Machine Learning?", "summary": "Definition and examples" }]
+ *     }
+ *   ]
  * }
  * ```
  */
-export const REDDIT_MESSAGE_RESPONSE_SCHEMA: JSONSchema7 = {
+export const COURSE_OUTLINE_RESPONSE_SCHEMA: JSONSchema7 = {
   type: "object",
   properties: {
-    recipient: {
+    title: {
       type: "string",
-      description: "Username of the message recipient",
+      description: "Brainloop title",
+      minLength: 1,
+      maxLength: 200,
     },
-    subject: {
+    description: {
       type: "string",
-      description: "Subject line of the message (1-100 chars)",
+      description: "What the brainloop teaches and for whom",
       minLength: 1,
-      maxLength: 100,
     },
-    content: {
-      type: "string",
-      description: "Message content in markdown format (max 10000 chars)",
-      maxLength: 10000,
+    units: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        properties: {
+          title: { type: "string", minLength: 1, maxLength: 200 },
+          description: { type: "string" },
+          lessons: {
+            type: "array",
+            minItems: 1,
+            items: {
+              type: "object",
+              properties: {
+                title: { type: "string", minLength: 1, maxLength: 200 },
+                summary: { type: "string", description: "What the lesson covers" },
+              },
+              required: ["title"],
+              additionalProperties: false,
+            },
+          },
+        },
+        required: ["title", "lessons"],
+        additionalProperties: false,
+      },
     },
   },
-  required: ["recipient", "subject", "content"],
+  required: ["title", "description", "units"],
+  additionalProperties: false,
 };
 
 /**
- * JSON Schema for validating Reddit action suggestion responses from LLM sampling.
- * 
+ * A next step suggested by the model.
+ */
+export interface SuggestedAction {
+  action: string;
+  reasoning: string;
+  brainloopId?: string;
+  unitId?: string;
+  lessonId?: string;
+  arguments?: Record<string, unknown>;
+}
+
+/**
+ * JSON Schema for sampled next-action suggestions.
+ *
  * @remarks
- * This schema is used when the AI analyzes Reddit content and suggests
- * appropriate actions to take, providing both the action and reasoning.
- * 
+ * Used when the model looks at the state of a brainloop or a learner's
+ * progress and suggests what to do next. The action is the name of the
+ * tool to call, with the arguments to call it with.
+ *
  * @example
  * ```json
  * {
- *   "action": "reply",
- *   "subreddit": "typescript",
- *   "reasoning": "This post asks a question about TypeScript generics that I can answer helpfully",
- *   "content": "Here's how you can use conditional types with generics...",
- *   "id": "t3_xyz789"
+ *   "action": "generate_interactions",
+ *   "reasoning": "Three lessons in Unit 2 have no prompts yet",
+ *   "brainloopId": "course_123",
+ *   "unitId": "unit_456",
+ *   "arguments": { "brainloopId": "course_123", "unitId": "unit_456" }
  * }
  * ```
  */
-export const REDDIT_SUGGEST_ACTION_RESPONSE_SCHEMA: JSONSchema7 = {
+export const SUGGEST_ACTION_RESPONSE_SCHEMA: JSONSchema7 = {
   type: "object",
   properties: {
     action: {
       type: "string",
-      description: "Suggested action to take (e.g., 'create_post', 'reply', 'wait')",
+      description: "Name of the tool to call next (e.g., 'expand_brainloop', 'generate_interactions', 'start_quiz')",
+      pattern: "^[a-z][a-z0-9_]*$",
     },
-    subreddit: {
+    reasoning: {
       type: "string",
-      description: "Suggested subreddit for the action",
+      description: "Why this is the best next step",
+      minLength: 1,
     },
-    reasoning: {
+    brainloopId: {
       type: "string",
-      description: "Explanation for why this action is suggested",
+      description: "Brainloop the action applies to",
     },
-    content: {
+    unitId: {
       type: "string",
-      description: "Suggested content or topic for the action",
+      description: "Unit the action applies to",
     },
-    id: {
+    lessonId: {
       type: "string",
-      description: "ID of parent post/comment to reply to (if action is 'reply')",
+      description: "Lesson the action applies to",
+    },
+    arguments: {
+      type: "object",
+      description: "Arguments for the tool call",
     },
   },
   required: ["action", "reasoning"],
+  additionalProperties: false,
+};
+
+/**
+ * Lessons the model suggests adding to a unit.
+ */
+export interface SuggestedLessons {
+  lessons: Array<{
+    title: string;
+    content: string;
+  }>;
+}
+
+/**
+ * JSON Schema for sampled lesson suggestions.
+ *
+ * @remarks
+ * The lessons are appended to the unit named in the request's callback
+ * arguments, in the order given.
+ *
+ * @example
+ * ```json
+ * {
+ *   "lessons": [
+ *     { "title": "Overfitting", "content": "## Why it matters\n\nA model that memorises..." }
+ *   ]
+ * }
+ * ```
+ */
+export const SUGGESTED_LESSONS_RESPONSE_SCHEMA: JSONSchema7 = {
+  type: "object",
+  properties: {
+    lessons: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        properties: {
+          title: { type: "string", minLength: 1, maxLength: 200 },
+          content: { type: "string", description: "Lesson content in Markdown", minLength: 10 },
+        },
+        required: ["title", "content"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["lessons"],
+  additionalProperties: false,
+};
+
+/**
+ * A new unit order suggested by the model.
+ */
+export interface SuggestedUnitOrder {
+  unitIds: string[];
+  reasoning: string;
+}
+
+/**
+ * JSON Schema for sampled unit orders.
+ *
+ * @remarks
+ * The unit IDs must be exactly the brainloop's current units, in the new
+ * order; this is checked against the brainloop before anything is moved.
+ *
+ * @example
+ * ```json
+ * {
+ *   "unitIds": ["unit_2", "unit_1", "unit_3"],
+ *   "reasoning": "Data preparation is needed before model training"
+ * }
+ * ```
+ */
+export const UNIT_ORDER_RESPONSE_SCHEMA: JSONSchema7 = {
+  type: "object",
+  properties: {
+    unitIds: {
+      type: "array",
+      minItems: 1,
+      uniqueItems: true,
+      items: { type: "string", minLength: 1 },
+    },
+    reasoning: {
+      type: "string",
+      description: "Why this order is better",
+      minLength: 1,
+    },
+  },
+  required: ["unitIds", "reasoning"],
+  additionalProperties: false,
 };
 
+/**
+ * What a lesson review scores, each from 1 (poor) to 5 (excellent).
+ */
+export const LESSON_REVIEW_CRITERIA = ["objectives", "examples", "summary", "length", "clarity"] as const;
 
+export type LessonReviewCriterion = typeof LESSON_REVIEW_CRITERIA[number];
+
+/**
+ * A lesson critique written by the model.
+ */
+export interface LessonCritique {
+  scores: Record<LessonReviewCriterion, { score: number; comment: string }>;
+  summary: string;
+  edits: Array<{
+    criterion: LessonReviewCriterion;
+    find: string;
+    replace: string;
+    reason: string;
+  }>;
+}
+
+/**
+ * JSON Schema for sampled lesson critiques.
+ *
+ * @remarks
+ * Each edit replaces one exact passage of the current lesson content, so it
+ * can be applied without the model rewriting the whole lesson. To insert
+ * text, an edit quotes the passage before the insertion point and repeats it
+ * in the replacement.
+ *
+ * @example
+ * ```json
+ * {
+ *   "scores": {
+ *     "objectives": { "score": 2, "comment": "No learning objectives are stated" },
+ *     "examples": { "score": 4, "comment": "The spam filter example is concrete" },
+ *     "summary": { "score": 1, "comment": "The lesson ends without key takeaways" },
+ *     "length": { "score": 4, "comment": "About 900 words, within the target" },
+ *     "clarity": { "score": 3, "comment": "The second section uses jargon before defining it" }
+ *   },
+ *   "summary": "A solid core that needs objectives and takeaways",
+ *   "edits": [
+ *     {
+ *       "criterion": "summary",
+ *       "find": "That is all for today.",
+ *       "replace": "## Key Takeaways\n\n- ML programs learn rules from examples",
+ *       "reason": "The template ends every lesson with key takeaways"
+ *     }
+ *   ]
+ * }
+ * ```
+ */
+export const LESSON_CRITIQUE_RESPONSE_SCHEMA: JSONSchema7 = {
+  type: "object",
+  properties: {
+    scores: {
+      type: "object",
+      properties: Object.fromEntries(LESSON_REVIEW_CRITERIA.map(criterion => [criterion, {
+        type: "object",
+        properties: {
+          score: { type: "integer", minimum: 1, maximum: 5 },
+          comment: { type: "string", minLength: 1 },
+        },
+        required: ["score", "comment"],
+        additionalProperties: false,
+      }])),
+      required: [...LESSON_REVIEW_CRITERIA],
+      additionalProperties: false,
+    },
+    summary: {
+      type: "string",
+      description: "Overall verdict in one or two sentences",
+      minLength: 1,
+    },
+    edits: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          criterion: { enum: [...LESSON_REVIEW_CRITERIA] },
+          find: { type: "string", description: "Exact passage of the current content to replace", minLength: 1 },
+          replace: { type: "string", description: "Replacement Markdown; empty to delete the passage" },
+          reason: { type: "string", minLength: 1 },
+        },
+        required: ["criterion", "find", "replace", "reason"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["scores", "summary", "edits"],
+  additionalProperties: false,
+};
@@ -23,13 +23,13 @@ import type { PromptMessage, Prompt } from "@modelcontextprotocol/sdk/types.js";
  * @example
  * ```typescript
  * const samplingPrompt: SamplingPrompt = {
- *   name: "create_reddit_post",
+ *   name: "draft_lesson",
  *   messages: [
- *     { role: "system", content: "You are a helpful Reddit post creator." },
- *     { role: "user", content: "Create a post about TypeScript best practices" }
+ *     { role: "system", content: "You write short, engaging BRAINLOOP lessons." },
+ *     { role: "user", content: "Write a lesson on supervised learning" }
  *   ],
  *   _meta: {
- *     callback: "handleCreateRedditPostCallback"
+ *     callback: "lesson_draft"
  *   }
  * };
  * ```
@@ -50,10 +50,10 @@ export interface SamplingPrompt extends Prompt {
    */
   _meta: {
     /**
-     * The name of the callback function to invoke after sampling is complete.
-     * This function will receive the sampling result and handle any post-processing.
+     * The name of the callback to invoke after sampling is complete.
+     * The callback receives the sampling result and handles any post-processing.
      *
-     * @example "handleCreateRedditPostCallback"
+     * @example "lesson_draft"
      */
     callback: string;
   };
@@ -0,0 +1,107 @@
+/**
+ * @file Bounded-concurrency helpers
+ * @module utils/concurrency
+ *
+ * @remarks
+ * Walking a whole course means one BRAINLOOP API call per unit or lesson.
+ * Firing them all at once trips the API rate limits, while awaiting them
+ * one by one is slow. These helpers run a fixed number of calls at a time.
+ */
+
+/**
+ * Default number of concurrent BRAINLOOP API calls when walking a course.
+ */
+export const DEFAULT_API_CONCURRENCY = 4;
+
+/**
+ * Maps items through an async function with at most `concurrency` calls in flight.
+ *
+ * @remarks
+ * Results are returned in input order. The first rejection rejects the
+ * whole call, after the calls already in flight have settled.
+ *
+ * @param items - Items to process
+ * @param concurrency - Maximum number of concurrent calls (at least 1)
+ * @param fn - Async mapper, called with the item and its index
+ * @returns Mapped results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  const limit = Math.max(1, Math.floor(concurrency));
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+
+  async function worker(): Promise<void> {
+    while (!failure && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failure = failure ?? { error };
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, () => worker()));
+
+  if (failure) {
+    throw failure.error;
+  }
+  return results;
+}
+
+/**
+ * Finds the first item whose async lookup yields a value, with at most
+ * `concurrency` lookups in flight.
+ *
+ * @remarks
+ * Stops starting new lookups as soon as one yields a value, so a match near
+ * the front of the list costs only a few calls. When several in-flight
+ * lookups match, the earliest item wins. A rejection rejects the whole
+ * call unless another lookup has already found a match.
+ *
+ * @param items - Items to search
+ * @param concurrency - Maximum number of concurrent lookups (at least 1)
+ * @param fn - Async lookup returning a value for a match, or undefined
+ * @returns The matching item and its lookup value, or undefined when none match
+ */
+export async function findWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R | undefined>,
+): Promise<{ item: T; value: R } | undefined> {
+  const limit = Math.max(1, Math.floor(concurrency));
+  let next = 0;
+  let foundIndex = -1;
+  let foundValue: R | undefined;
+  let failure: { error: unknown } | undefined;
+
+  async function worker(): Promise<void> {
+    while (!failure && foundIndex < 0 && next < items.length) {
+      const index = next++;
+      try {
+        const value = await fn(items[index], index);
+        if (value !== undefined && (foundIndex < 0 || index < foundIndex)) {
+          foundIndex = index;
+          foundValue = value;
+        }
+      } catch (error) {
+        failure = failure ?? { error };
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, () => worker()));
+
+  if (foundIndex >= 0) {
+    return { item: items[foundIndex], value: foundValue as R };
+  }
+  if (failure) {
+    throw failure.error;
+  }
+  return undefined;
+}
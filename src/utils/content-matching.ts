@@ -0,0 +1,48 @@
+/**
+ * @file Helpers for matching submitted content against existing content
+ * @module utils/content-matching
+ *
+ * @remarks
+ * Retried or re-submitted authoring calls must not create duplicate units
+ * and lessons. These helpers decide when two titles refer to the same item
+ * and when an existing lesson is still an empty placeholder left behind by
+ * a failed creation attempt.
+ *
+ * @see LESSON_UPDATE_STRATEGY.md
+ */
+
+/**
+ * Minimum content length for a lesson to count as having real content.
+ */
+export const MIN_LESSON_CONTENT_LENGTH = 10;
+
+/**
+ * Normalizes a unit or lesson title for comparison.
+ *
+ * @remarks
+ * Matching ignores case, surrounding whitespace, repeated whitespace and
+ * trailing punctuation, so "Intro to Python" and " intro to  python." are
+ * treated as the same title.
+ *
+ * @param title - Title as entered by the author
+ * @returns Normalized title
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[.:;!?]+$/, '')
+    .trim();
+}
+
+/**
+ * Checks whether lesson content is empty or a placeholder.
+ *
+ * @param content - Lesson content
+ * @returns True when the content is missing or shorter than {@link MIN_LESSON_CONTENT_LENGTH}
+ */
+export function isContentEmpty(content: string | undefined | null): boolean {
+  return !content || content.trim().length < MIN_LESSON_CONTENT_LENGTH;
+}
@@ -0,0 +1,105 @@
+/**
+ * @file JSON Schema validation helpers
+ * @module utils/json-schema
+ *
+ * @remarks
+ * Validates values against JSON Schemas with ajv and turns ajv's errors into
+ * short, path-based messages that can be shown to an assistant or merged
+ * into Zod validation issues.
+ */
+
+import Ajv, { type ErrorObject, type ValidateFunction } from 'ajv';
+import type { JSONSchema7 } from 'json-schema';
+
+/**
+ * A JSON Schema object
+ */
+export type JsonSchema = JSONSchema7;
+
+/**
+ * One validation failure.
+ */
+export interface SchemaIssue {
+  /** Path to the offending value, e.g. `["letters", 2]`; empty for the value itself */
+  path: (string | number)[];
+  message: string;
+}
+
+const ajv = new Ajv({ allErrors: true });
+const compiled = new WeakMap<JsonSchema, ValidateFunction>();
+
+function compile(schema: JsonSchema): ValidateFunction {
+  let validate = compiled.get(schema);
+  if (!validate) {
+    validate = ajv.compile(schema);
+    compiled.set(schema, validate);
+  }
+  return validate;
+}
+
+/**
+ * Converts an ajv instance path such as `/letters/2` to path segments.
+ */
+function toPath(instancePath: string): (string | number)[] {
+  return instancePath
+    .split('/')
+    .slice(1)
+    .map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .map(segment => (/^\d+$/.test(segment) ? Number(segment) : segment));
+}
+
+/**
+ * Formats an issue as `path: message`, e.g. `prompts.0.answer: Must be integer`.
+ */
+export function formatSchemaIssue(issue: SchemaIssue): string {
+  return `${issue.path.length > 0 ? `${issue.path.join('.')}: ` : ''}${issue.message}`;
+}
+
+function describeError(error: ErrorObject): string {
+  switch (error.keyword) {
+    case 'additionalProperties':
+      return `Unknown property "${String(error.params.additionalProperty)}"`;
+    case 'required':
+      return `Missing required property "${String(error.params.missingProperty)}"`;
+    case 'false schema':
+      return 'Not allowed here';
+    case 'enum':
+      return `Must be one of: ${(error.params.allowedValues as unknown[]).map(value => JSON.stringify(value)).join(', ')}`;
+    default:
+      return error.message ? error.message.charAt(0).toUpperCase() + error.message.slice(1) : 'Invalid value';
+  }
+}
+
+/**
+ * Validates a value against a JSON Schema.
+ *
+ * @remarks
+ * Compiled schemas are cached per schema object, so pass the same object on
+ * every call rather than building the schema each time.
+ *
+ * @param schema - The JSON Schema
+ * @param value - The value to validate
+ * @returns The validation issues; empty when the value is valid
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown): SchemaIssue[] {
+  const validate = compile(schema);
+  if (validate(value)) {
+    return [];
+  }
+
+  // A failing oneOf/anyOf also reports each branch, and a failing if/then
+  // reports the then-branch errors plus a summary; those details are noise
+  const errors = (validate.errors ?? []).filter(error => error.keyword !== 'if');
+  const unions = errors.filter(error => error.keyword === 'oneOf' || error.keyword === 'anyOf');
+  const reported = errors.filter(error =>
+    unions.includes(error) ||
+    !unions.some(union => error.schemaPath.startsWith(`${union.schemaPath}/`))
+  );
+
+  return reported.map(error => ({
+    path: toPath(error.instancePath),
+    message: error.keyword === 'oneOf' || error.keyword === 'anyOf'
+      ? 'Does not match any of the allowed shapes'
+      : describeError(error),
+  }));
+}
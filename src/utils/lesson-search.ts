@@ -0,0 +1,144 @@
+/**
+ * @file Ranking and snippet helpers for lesson search
+ * @module utils/lesson-search
+ *
+ * @remarks
+ * The BRAINLOOP search endpoint returns matching lessons without any
+ * relevance information. These helpers score the returned lessons against
+ * the query terms so the most relevant hits are listed first, and build a
+ * short highlighted snippet around the first match in the lesson content.
+ */
+
+/**
+ * A lesson paired with its relevance score and display snippet.
+ */
+export interface RankedLesson<T> {
+  /** The lesson as returned by the API */
+  lesson: T;
+  /** Relevance score (higher is better) */
+  score: number;
+  /** Content excerpt with query terms wrapped in `**` */
+  snippet: string;
+}
+
+/**
+ * Splits a search query into lowercase terms, ignoring duplicates.
+ *
+ * @param query - Raw search text
+ * @returns Unique lowercase terms
+ */
+export function tokenizeQuery(query: string): string[] {
+  const terms = query
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}_-]+/u)
+    .filter((term) => term.length > 0);
+  return [...new Set(terms)];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  if (!needle) {
+    return 0;
+  }
+  let count = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    count++;
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return count;
+}
+
+/**
+ * Scores a lesson against a query.
+ *
+ * @remarks
+ * Title matches weigh more than content matches, and an exact phrase
+ * match weighs more than scattered terms. Content occurrences are capped
+ * per term so one very long lesson does not drown out everything else.
+ *
+ * @param lesson - Lesson title and content
+ * @param query - Raw search text
+ * @returns Relevance score, 0 when nothing matches
+ */
+export function scoreLesson(lesson: { title: string; content?: string }, query: string): number {
+  const title = lesson.title.toLowerCase();
+  const content = (lesson.content || '').toLowerCase();
+  const phrase = query.trim().toLowerCase();
+  const terms = tokenizeQuery(query);
+
+  let score = 0;
+  if (phrase && title.includes(phrase)) {
+    score += 10;
+  }
+  if (phrase && terms.length > 1 && content.includes(phrase)) {
+    score += 3;
+  }
+  for (const term of terms) {
+    if (title.includes(term)) {
+      score += 5;
+    }
+    score += Math.min(countOccurrences(content, term), 5);
+  }
+  return score;
+}
+
+/**
+ * Builds a single-line excerpt around the first query match.
+ *
+ * @param content - Lesson content (markdown)
+ * @param query - Raw search text
+ * @param radius - Number of characters to keep on each side of the match
+ * @returns Excerpt with matched terms wrapped in `**`
+ */
+export function buildSnippet(content: string | undefined, query: string, radius = 80): string {
+  const text = (content || '').replace(/\s+/g, ' ').trim();
+  if (!text) {
+    return '';
+  }
+
+  const terms = tokenizeQuery(query);
+  const lower = text.toLowerCase();
+  const positions = terms
+    .map((term) => lower.indexOf(term))
+    .filter((index) => index !== -1);
+  const first = positions.length > 0 ? Math.min(...positions) : 0;
+
+  const start = Math.max(0, first - radius);
+  const end = Math.min(text.length, first + radius);
+  let snippet = text.substring(start, end);
+
+  if (terms.length > 0) {
+    const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi');
+    snippet = snippet.replace(pattern, '**$1**');
+  }
+
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+}
+
+/**
+ * Orders lessons by relevance to the query.
+ *
+ * @remarks
+ * The sort is stable, so lessons with equal scores keep the order the
+ * API returned them in.
+ *
+ * @param lessons - Lessons returned by the search endpoint
+ * @param query - Raw search text
+ * @returns Lessons with scores and snippets, most relevant first
+ */
+export function rankLessons<T extends { title: string; content?: string }>(
+  lessons: T[],
+  query: string,
+): RankedLesson<T>[] {
+  return lessons
+    .map((lesson) => ({
+      lesson,
+      score: scoreLesson(lesson, query),
+      snippet: buildSnippet(lesson.content, query),
+    }))
+    .sort((a, b) => b.score - a.score);
+}
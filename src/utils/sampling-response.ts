@@ -0,0 +1,82 @@
+/**
+ * @file Validation of sampled model responses
+ * @module utils/sampling-response
+ *
+ * @remarks
+ * Models asked for JSON through MCP sampling often wrap it in code fences or
+ * prose, and sometimes return something else entirely. These helpers pull
+ * the JSON object out of the reply and check it against a JSON Schema, so a
+ * bad response ends in a {@link SamplingResponseError} listing what is
+ * wrong rather than a `JSON.parse` crash.
+ */
+
+import type { CreateMessageResult } from '@modelcontextprotocol/sdk/types.js';
+import { formatSchemaIssue, validateJsonSchema, type JsonSchema, type SchemaIssue } from './json-schema.js';
+
+/**
+ * A sampled response that is not the expected JSON.
+ */
+export class SamplingResponseError extends Error {
+  /**
+   * @param subject - What was sampled, e.g. "lesson draft"
+   * @param issues - What is wrong with the response
+   */
+  constructor(
+    readonly subject: string,
+    readonly issues: SchemaIssue[],
+  ) {
+    super(`The sampled ${subject} is invalid:\n${issues.map(issue => `- ${formatSchemaIssue(issue)}`).join('\n')}`);
+    this.name = 'SamplingResponseError';
+  }
+}
+
+/**
+ * Takes the JSON object out of a model reply, ignoring code fences and
+ * surrounding prose.
+ *
+ * @param text - The reply text
+ * @returns The parsed object
+ * @throws Error if the reply contains no parseable JSON object
+ */
+function extractJsonObject(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end < start) {
+    throw new Error('The reply does not contain a JSON object');
+  }
+  return JSON.parse(candidate.substring(start, end + 1));
+}
+
+/**
+ * Parses a sampled response as JSON and validates it against a schema.
+ *
+ * @param result - The sampling result
+ * @param schema - JSON Schema the response must follow
+ * @param subject - What was sampled, used in error messages
+ * @returns The validated response
+ * @throws SamplingResponseError if the response is not text, not JSON, or
+ * does not match the schema
+ */
+export function parseSamplingResponse<T>(result: CreateMessageResult, schema: JsonSchema, subject: string): T {
+  if (result.content.type !== 'text') {
+    throw new SamplingResponseError(subject, [{ path: [], message: `Expected a text reply, got ${result.content.type}` }]);
+  }
+
+  let data: unknown;
+  try {
+    data = extractJsonObject(result.content.text);
+  } catch (error) {
+    throw new SamplingResponseError(subject, [{
+      path: [],
+      message: `Reply is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    }]);
+  }
+
+  const issues = validateJsonSchema(schema, data);
+  if (issues.length > 0) {
+    throw new SamplingResponseError(subject, issues);
+  }
+  return data as T;
+}
@@ -0,0 +1,185 @@
+/**
+ * Unit tests for course spec planning
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Lesson, LessonPrompt, Unit } from '../src/services/brainloop/brainloop-service.js';
+import {
+  CREATED_COURSE_TTL_MS,
+  getCreatedCourse,
+  planCourse,
+  removeCreatedCourse,
+  saveCreatedCourse,
+  type CourseSnapshot,
+} from '../src/services/brainloop/course-planner.js';
+import type { CourseSpec } from '../src/types/course-spec.js';
+
+interface LiveUnit {
+  id: string;
+  title: string;
+  lessons: Array<{ id: string; title: string; content: string; prompts?: Array<Pick<LessonPrompt, 'id' | 'question' | 'type' | 'options' | 'answer'>> }>;
+}
+
+/**
+ * A live course snapshot from a compact description
+ */
+function snapshot(units: LiveUnit[]): CourseSnapshot {
+  return {
+    course: {
+      id: 'c1',
+      title: 'Chemistry',
+      description: 'Basics',
+      isPrivate: true,
+      createdAt: '',
+      updatedAt: '',
+      userId: 'u1',
+      user: { name: 'Author', email: 'author@example.com' },
+    },
+    units: units.map((unit, i): CourseSnapshot['units'][number] => ({
+      unit: { id: unit.id, title: unit.title, order: i + 1, courseId: 'c1' } as Unit,
+      lessons: unit.lessons.map((lesson, j) => ({
+        lesson: { id: lesson.id, title: lesson.title, content: lesson.content, order: j + 1, unitId: unit.id } as Lesson,
+        prompts: {
+          lesson: { id: lesson.id, title: lesson.title, hasInteraction: !!lesson.prompts },
+          interaction: lesson.prompts ? { id: `i-${lesson.id}` } : null,
+          prompts: (lesson.prompts ?? []).map(prompt => ({ interactionId: `i-${lesson.id}`, ...prompt })),
+          metadata: { totalPrompts: lesson.prompts?.length ?? 0, needsInteraction: !lesson.prompts },
+        },
+      })),
+    })),
+  };
+}
+
+const SPEC: CourseSpec = {
+  title: 'Chemistry',
+  description: 'Basics',
+  units: [
+    {
+      title: 'Atoms',
+      lessons: [
+        { title: 'Protons', content: 'Positive.' },
+        { title: 'Electrons', content: 'Negative.', prompts: [{ question: 'Charge of an electron?', type: 'short-answer', answer: 'negative' }] },
+      ],
+    },
+    {
+      title: 'Molecules',
+      lessons: [{ title: 'Water', content: 'H2O.' }],
+    },
+  ],
+};
+
+const MATCHING: LiveUnit[] = [
+  {
+    id: 'u1',
+    title: 'Atoms',
+    lessons: [
+      { id: 'l1', title: 'Protons', content: 'Positive.' },
+      { id: 'l2', title: 'Electrons', content: 'Negative.', prompts: [{ id: 'p1', question: 'Charge of an electron?', type: 'short-answer', answer: 'negative' }] },
+    ],
+  },
+  { id: 'u2', title: 'Molecules', lessons: [{ id: 'l3', title: 'Water', content: 'H2O.' }] },
+];
+
+describe('planCourse', () => {
+  it('creates everything for a new brainloop', () => {
+    const plan = planCourse(SPEC, null);
+    assert.equal(plan.courseId, null);
+    assert.deepEqual(plan.operations.map(operation => operation.kind), [
+      'create_course',
+      'create_unit',
+      'create_unit',
+      'create_lesson',
+      'create_lesson',
+      'create_lesson',
+      'create_interaction',
+      'create_prompts',
+    ]);
+    assert.match(plan.fingerprint, /^[0-9a-f]{12}$/);
+  });
+
+  it('plans nothing when the live brainloop matches', () => {
+    assert.deepEqual(planCourse(SPEC, snapshot(MATCHING)).operations, []);
+  });
+
+  it('matches lessons by normalized title and fixes the title in place', () => {
+    const live = structuredClone(MATCHING);
+    live[0].lessons[0].title = '  protons ';
+    const plan = planCourse(SPEC, snapshot(live));
+    assert.equal(plan.courseId, 'c1');
+    assert.deepEqual(plan.operations.map(operation => operation.kind), ['update_lesson']);
+    assert.equal(plan.operations[0].summary, '~ update lesson "Protons" (title)');
+    assert.deepEqual(plan.warnings, []);
+  });
+
+  it('lists live content that is not in the spec as untouched', () => {
+    const live = structuredClone(MATCHING);
+    live[1].lessons.push({ id: 'l9', title: 'Salt', content: 'NaCl.' });
+    live.push({ id: 'u9', title: 'Reactions', lessons: [] });
+    const plan = planCourse(SPEC, snapshot(live));
+    assert.deepEqual(plan.operations, []);
+    assert.deepEqual(plan.untouched, [
+      'unit "Reactions" (ID: u9)',
+      'lesson "Salt" in unit "Molecules" (ID: l9)',
+    ]);
+  });
+
+  it('moves a lesson found under another unit instead of recreating it', () => {
+    const live = structuredClone(MATCHING);
+    live[1].lessons.unshift(live[0].lessons.pop()!);
+    const plan = planCourse(SPEC, snapshot(live));
+    const move = plan.operations.find(operation => operation.kind === 'move_lesson');
+    assert.deepEqual(move && { lessonId: move.lessonId, unit: move.unit }, { lessonId: 'l2', unit: { id: 'u1' } });
+    assert.ok(!plan.operations.some(operation => operation.kind === 'create_lesson'));
+  });
+
+  it('reorders units and updates changed lesson content', () => {
+    const live = structuredClone(MATCHING).reverse();
+    live[1].lessons[0].content = 'Old text.';
+    const plan = planCourse(SPEC, snapshot(live));
+    assert.deepEqual(plan.operations.map(operation => operation.kind), ['reorder_units', 'update_lesson']);
+    const reorder = plan.operations[0];
+    assert.deepEqual(reorder.kind === 'reorder_units' && reorder.units, [{ id: 'u1' }, { id: 'u2' }]);
+  });
+
+  it('warns about prompts that differ instead of changing them', () => {
+    const live = structuredClone(MATCHING);
+    live[0].lessons[1].prompts![0].answer = 'positive';
+    const plan = planCourse(SPEC, snapshot(live));
+    assert.deepEqual(plan.operations, []);
+    assert.equal(plan.warnings.length, 1);
+    assert.match(plan.warnings[0], /differs from the spec \(answer\).*ID: p1/);
+  });
+
+  it('fingerprints the operations, so the same diff gives the same fingerprint', () => {
+    const live = structuredClone(MATCHING);
+    live[1].lessons[0].content = 'Old text.';
+    const first = planCourse(SPEC, snapshot(live));
+    assert.equal(planCourse(SPEC, snapshot(structuredClone(live))).fingerprint, first.fingerprint);
+
+    live[1].lessons[0].content = 'Other text.';
+    assert.notEqual(planCourse(SPEC, snapshot(live)).fingerprint, first.fingerprint);
+    assert.notEqual(planCourse(SPEC, null).fingerprint, first.fingerprint);
+  });
+});
+
+describe('created course store', () => {
+  it('remembers a create per user and fingerprint until removed', () => {
+    const created = { courseId: 'c2', title: 'Chemistry', createdAt: new Date() };
+    saveCreatedCourse('user-a', 'abc123', created);
+    assert.deepEqual(getCreatedCourse('user-a', 'abc123'), created);
+    assert.equal(getCreatedCourse('user-b', 'abc123'), undefined);
+    assert.equal(getCreatedCourse('user-a', 'def456'), undefined);
+
+    removeCreatedCourse('user-a', 'abc123');
+    assert.equal(getCreatedCourse('user-a', 'abc123'), undefined);
+  });
+
+  it('forgets creates older than the TTL', () => {
+    saveCreatedCourse('user-a', 'old', {
+      courseId: 'c3',
+      title: 'Chemistry',
+      createdAt: new Date(Date.now() - CREATED_COURSE_TTL_MS - 1000),
+    });
+    assert.equal(getCreatedCourse('user-a', 'old'), undefined);
+  });
+});
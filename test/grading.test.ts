@@ -0,0 +1,127 @@
+/**
+ * Unit tests for grading learner answers
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { LessonPrompt } from '../src/services/brainloop/brainloop-service.js';
+import { gradeAnswer, normalizeAnswer, similarity } from '../src/services/quiz/grading.js';
+
+function prompt(fields: Partial<LessonPrompt>): LessonPrompt {
+  return { id: 'p1', interactionId: 'i1', question: 'Question?', type: 'single-choice', ...fields };
+}
+
+describe('gradeAnswer', () => {
+  describe('choice prompts', () => {
+    const capitals = prompt({ options: ['Paris', 'Rome', 'Madrid', 'Berlin'], answer: 1 });
+
+    it('accepts the letter, the option text and the index', () => {
+      assert.equal(gradeAnswer(capitals, 'B').outcome, 'correct');
+      assert.equal(gradeAnswer(capitals, 'b').outcome, 'correct');
+      assert.equal(gradeAnswer(capitals, 'rome').outcome, 'correct');
+      assert.equal(gradeAnswer(capitals, 1).outcome, 'correct');
+      assert.equal(gradeAnswer(capitals, 'A').outcome, 'incorrect');
+    });
+
+    it('reads a lone letter as the displayed label when options are letters too', () => {
+      const letters = prompt({ options: ['C', 'D', 'E', 'F'], answer: 2 });
+      assert.equal(gradeAnswer(letters, 'C').outcome, 'correct');
+      assert.equal(gradeAnswer(letters, 'A').outcome, 'incorrect');
+      assert.equal(gradeAnswer(letters, 'D').outcome, 'incorrect');
+    });
+
+    it('falls back to the option text for a letter past the last label', () => {
+      const letters = prompt({ options: ['C', 'D', 'E', 'F'], answer: 3 });
+      assert.equal(gradeAnswer(letters, 'F').outcome, 'correct');
+    });
+
+    it('requires the full set for multiple-answer prompts', () => {
+      const multi = prompt({ type: 'multiple-choice', options: ['2', '3', '4', '5'], answer: [1, 3] });
+      assert.equal(gradeAnswer(multi, ['B', 'D']).outcome, 'correct');
+      assert.equal(gradeAnswer(multi, ['D', 'B']).outcome, 'correct');
+      const partial = gradeAnswer(multi, ['B']);
+      assert.equal(partial.outcome, 'incorrect');
+      assert.equal(partial.note, 'Select all 2 correct options');
+    });
+
+    it('rejects an answer that matches no option', () => {
+      assert.deepEqual(gradeAnswer(capitals, 'Lisbon'), {
+        outcome: 'incorrect',
+        expected: 'B) Rome',
+        note: 'The answer does not match any option',
+      });
+    });
+  });
+
+  it('grades true-false prompts', () => {
+    const statement = prompt({ type: 'true-false', answer: true });
+    assert.equal(gradeAnswer(statement, 'true').outcome, 'correct');
+    assert.equal(gradeAnswer(statement, 'True.').outcome, 'correct');
+    assert.equal(gradeAnswer(statement, false).outcome, 'incorrect');
+    assert.equal(gradeAnswer(statement, 'maybe').note, 'Answer with true or false');
+  });
+
+  it('grades short answers with typos and key-word coverage', () => {
+    const word = prompt({ type: 'short-answer', answer: 'photosynthesis' });
+    assert.equal(gradeAnswer(word, 'Photosynthesis!').outcome, 'correct');
+    assert.equal(gradeAnswer(word, 'photosynthesys').outcome, 'correct');
+    assert.equal(gradeAnswer(word, 'respiration').outcome, 'incorrect');
+    assert.equal(gradeAnswer(word, '').note, 'No answer given');
+
+    const sentence = prompt({
+      type: 'short-answer',
+      answer: 'Plants convert sunlight water and carbon dioxide into glucose and oxygen',
+    });
+    assert.equal(gradeAnswer(sentence, 'plants turn sunlight, water and carbon dioxide into glucose').outcome, 'correct');
+  });
+
+  it('grades ordering prompts by letters, including letters written together', () => {
+    const steps = prompt({ type: 'ordering', options: ['Boil', 'Pour', 'Steep'], answer: [0, 2, 1] });
+    assert.equal(gradeAnswer(steps, ['A', 'C', 'B']).outcome, 'correct');
+    assert.equal(gradeAnswer(steps, 'A, C, B').outcome, 'correct');
+    assert.equal(gradeAnswer(steps, 'ACB').outcome, 'correct');
+    const wrong = gradeAnswer(steps, ['A', 'B', 'C']);
+    assert.equal(wrong.outcome, 'incorrect');
+    assert.equal(wrong.note, '1 of 3 items in the right position');
+  });
+
+  it('grades matching prompts by item and by position', () => {
+    // Choices are listed alphabetically: A) Oxygen, B) Water
+    const pairs = prompt({ type: 'matching', answer: { H2O: 'Water', O2: 'Oxygen' } });
+    assert.equal(gradeAnswer(pairs, { H2O: 'B', O2: 'A' }).outcome, 'correct');
+    assert.equal(gradeAnswer(pairs, '1-B, 2-A').outcome, 'correct');
+    assert.equal(gradeAnswer(pairs, 'H2O: Water; O2: Oxygen').outcome, 'correct');
+    assert.equal(gradeAnswer(pairs, ['A', 'B']).note, '0 of 2 pairs matched correctly');
+  });
+
+  it('grades fill-in-the-blank and cloze prompts per blank', () => {
+    const blanks = prompt({ type: 'fill-in-the-blank', answer: [['Paris'], ['Seine', 'La Seine']] });
+    assert.equal(gradeAnswer(blanks, ['paris', 'la seine']).outcome, 'correct');
+    assert.equal(gradeAnswer(blanks, 'Paris | Loire').note, '1 of 2 blanks correct');
+
+    const cloze = prompt({ type: 'cloze', question: 'The {{a}} orbits the {{b}}.', answer: { a: ['Earth'], b: ['Sun'] } });
+    assert.equal(gradeAnswer(cloze, { a: 'earth', b: 'sun' }).outcome, 'correct');
+  });
+
+  it('leaves code prompts ungraded with the reference answer', () => {
+    const code = prompt({ type: 'code', codeExpectedOutput: '42' });
+    assert.deepEqual(gradeAnswer(code, 'print(42)'), {
+      outcome: 'ungraded',
+      expected: '42',
+      note: 'code prompts cannot be graded in chat; compare with the reference answer',
+    });
+  });
+});
+
+describe('normalizeAnswer', () => {
+  it('drops accents, punctuation, case and stop words', () => {
+    assert.equal(normalizeAnswer('The Café, of course!'), 'cafe course');
+  });
+});
+
+describe('similarity', () => {
+  it('scores identical, empty and near strings', () => {
+    assert.equal(similarity('abc', 'abc'), 1);
+    assert.equal(similarity('', 'abc'), 0);
+    assert.equal(similarity('kitten', 'sitten'), 1 - 1 / 6);
+  });
+});
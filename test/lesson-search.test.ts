@@ -0,0 +1,53 @@
+/**
+ * Unit tests for lesson search ranking and snippets
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildSnippet, rankLessons, scoreLesson, tokenizeQuery } from '../src/utils/lesson-search.js';
+
+describe('tokenizeQuery', () => {
+  it('lowercases, splits on punctuation and drops duplicates', () => {
+    assert.deepEqual(tokenizeQuery('Cell, cell-wall & CELL_Division!'), ['cell', 'cell-wall', 'cell_division']);
+    assert.deepEqual(tokenizeQuery('  '), []);
+  });
+});
+
+describe('scoreLesson', () => {
+  it('weighs title and phrase matches above content matches', () => {
+    assert.equal(scoreLesson({ title: 'Cell division', content: '' }, 'cell division'), 10 + 5 + 5);
+    assert.equal(scoreLesson({ title: 'Biology', content: 'Cell division starts here.' }, 'cell division'), 3 + 1 + 1);
+    assert.equal(scoreLesson({ title: 'Biology', content: 'Nothing relevant.' }, 'cell'), 0);
+  });
+
+  it('caps content occurrences per term', () => {
+    assert.equal(scoreLesson({ title: 'Other', content: 'cell '.repeat(20) }, 'cell'), 5);
+  });
+});
+
+describe('buildSnippet', () => {
+  it('highlights terms around the first match and marks cut text', () => {
+    const content = `${'a'.repeat(100)} the Mitochondria is the powerhouse ${'b'.repeat(100)}`;
+    const snippet = buildSnippet(content, 'mitochondria', 20);
+    assert.ok(snippet.startsWith('…'));
+    assert.ok(snippet.endsWith('…'));
+    assert.ok(snippet.includes('**Mitochondria**'));
+  });
+
+  it('collapses whitespace and returns the start when nothing matches', () => {
+    assert.equal(buildSnippet('Line one\n\n  line two', 'absent'), 'Line one line two');
+    assert.equal(buildSnippet(undefined, 'cell'), '');
+  });
+});
+
+describe('rankLessons', () => {
+  it('orders by score and keeps the API order for ties', () => {
+    const lessons = [
+      { id: 'a', title: 'Intro', content: 'Mentions cells once.' },
+      { id: 'b', title: 'Cells', content: 'All about cells.' },
+      { id: 'c', title: 'Recap', content: 'Mentions cells once.' },
+    ];
+    const ranked = rankLessons(lessons, 'cells');
+    assert.deepEqual(ranked.map(hit => hit.lesson.id), ['b', 'a', 'c']);
+    assert.equal(ranked[0].snippet, 'All about **cells**.');
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Unit tests for GIFT, QTI and Aiken quiz interchange
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { LessonPrompt } from '../src/services/brainloop/brainloop-service.js';
+import type { PromptSpec } from '../src/types/course-spec.js';
+import {
+  choiceIndex,
+  exportGift,
+  exportQti,
+  parseAiken,
+  parseGift,
+  parseQti,
+  type QuizExportItem,
+} from '../src/services/brainloop/quiz-interchange.js';
+
+function item(fields: Partial<LessonPrompt> & Pick<LessonPrompt, 'id' | 'type' | 'question'>): QuizExportItem {
+  return { prompt: { interactionId: 'i1', ...fields }, lessonTitle: 'Chemistry' };
+}
+
+const ITEMS: QuizExportItem[] = [
+  item({ id: 'p1', type: 'single-choice', question: 'Is {x} = ~y # z: a<b & "c"?', options: ['a = b', '{c}', 'x ~ y'], answer: 2, explanation: 'Escaped.' }),
+  item({ id: 'p2', type: 'multiple-choice', question: 'Which are primes?', options: ['2', '4', '5'], answer: [0, 2] }),
+  item({ id: 'p3', type: 'true-false', question: 'Water boils at 100 °C at sea level.', answer: true }),
+  item({ id: 'p4', type: 'short-answer', question: 'Which gas do plants release?', answer: ['oxygen', 'O2'] }),
+  item({ id: 'p5', type: 'matching', question: 'Match each formula', answer: { H2O: 'Water', NaCl: 'Salt' } }),
+];
+
+const ORDERING = item({ id: 'p6', type: 'ordering', question: 'Order the steps', options: ['Boil', 'Steep', 'Pour'], answer: [0, 2, 1] });
+const CODE = item({ id: 'p7', type: 'code', question: 'Print 42' });
+
+// Choice prompts are imported as multiple-choice; the answer shape tells single from multiple
+const EXPECTED: PromptSpec[] = [
+  { question: 'Is {x} = ~y # z: a<b & "c"?', type: 'multiple-choice', options: ['a = b', '{c}', 'x ~ y'], answer: 2, explanation: 'Escaped.' },
+  { question: 'Which are primes?', type: 'multiple-choice', options: ['2', '4', '5'], answer: [0, 2] },
+  { question: 'Water boils at 100 °C at sea level.', type: 'true-false', answer: true },
+  { question: 'Which gas do plants release?', type: 'short-answer', answer: ['oxygen', 'O2'] },
+  { question: 'Match each formula', type: 'matching', answer: { H2O: 'Water', NaCl: 'Salt' } },
+];
+
+describe('GIFT', () => {
+  it('round-trips every supported prompt type, including special characters', () => {
+    const exported = exportGift(ITEMS);
+    assert.equal(exported.exported, ITEMS.length);
+    assert.deepEqual(exported.skipped, []);
+    assert.deepEqual(parseGift(exported.text), { prompts: EXPECTED, skipped: [] });
+  });
+
+  it('skips ordering and code prompts with a reason', () => {
+    const exported = exportGift([ORDERING, CODE]);
+    assert.equal(exported.exported, 0);
+    assert.deepEqual(exported.skipped.map(skipped => skipped.label), [
+      'Chemistry: Order the steps (ID: p6)',
+      'Chemistry: Print 42 (ID: p7)',
+    ]);
+    assert.match(exported.skipped[0].reason, /QTI/);
+  });
+});
+
+describe('QTI', () => {
+  it('round-trips every supported prompt type, including ordering', () => {
+    const exported = exportQti([...ITEMS, ORDERING, CODE], 'pkg');
+    assert.deepEqual(exported.skipped.map(skipped => skipped.label), ['Chemistry: Print 42 (ID: p7)']);
+
+    const [manifest, ...files] = exported.files;
+    assert.equal(manifest.path, 'imsmanifest.xml');
+    for (const file of files) {
+      assert.ok(manifest.text.includes(file.path), `manifest lists ${file.path}`);
+    }
+
+    const prompts = files.flatMap(file => parseQti(file.text).prompts);
+    assert.deepEqual(prompts, [
+      ...EXPECTED,
+      { question: 'Order the steps', type: 'ordering', options: ['Boil', 'Steep', 'Pour'], answer: [0, 2, 1] },
+    ]);
+  });
+});
+
+describe('Aiken', () => {
+  it('parses questions and skips those without an answer line', () => {
+    const result = parseAiken('What is 2+2?\nA. 3\nB. 4\nANSWER: B\n\nBad question\nA. x\n');
+    assert.deepEqual(result.prompts, [
+      { question: 'What is 2+2?', type: 'multiple-choice', options: ['3', '4'], answer: 1 },
+    ]);
+    assert.deepEqual(result.skipped, [{ label: 'Line 6 (Bad question)', reason: 'missing "ANSWER:" line' }]);
+  });
+});
+
+describe('choiceIndex', () => {
+  it('resolves indices, numeric strings, letters and option text', () => {
+    const options = ['Paris', 'Rome'];
+    assert.equal(choiceIndex(1, options), 1);
+    assert.equal(choiceIndex('0', options), 0);
+    assert.equal(choiceIndex('b', options), 1);
+    assert.equal(choiceIndex(' rome ', options), 1);
+    assert.equal(choiceIndex(2, options), null);
+    assert.equal(choiceIndex('Lisbon', options), null);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Unit tests for SM-2 spaced-repetition scheduling
+ */
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyGrade, dueBucket, INITIAL_EASE_FACTOR, MIN_EASE_FACTOR, newSchedule } from '../src/services/review/sm2.js';
+
+const learnedAt = new Date('2025-03-01T10:00:00Z');
+
+describe('newSchedule', () => {
+  it('starts with the initial ease factor, due one day later', () => {
+    assert.deepEqual(newSchedule(learnedAt), {
+      easeFactor: INITIAL_EASE_FACTOR,
+      interval: 1,
+      repetitions: 0,
+      dueAt: '2025-03-02T10:00:00.000Z',
+    });
+  });
+});
+
+describe('applyGrade', () => {
+  it('grows the interval 1, 6, then by the ease factor on successful reviews', () => {
+    let schedule = newSchedule(learnedAt);
+    const intervals: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      schedule = applyGrade(schedule, 4, learnedAt);
+      intervals.push(schedule.interval);
+    }
+    assert.deepEqual(intervals, [1, 6, 15, 38]);
+    assert.equal(schedule.repetitions, 4);
+    assert.equal(schedule.easeFactor, 2.5);
+  });
+
+  it('schedules the next review interval days after the review', () => {
+    const schedule = applyGrade({ ...newSchedule(learnedAt), repetitions: 1 }, 5, learnedAt);
+    assert.equal(schedule.interval, 6);
+    assert.equal(schedule.dueAt, '2025-03-07T10:00:00.000Z');
+    assert.equal(schedule.easeFactor, 2.6);
+  });
+
+  it('restarts the item at one day after a failed recall', () => {
+    const learned = { easeFactor: 2.5, interval: 15, repetitions: 3, dueAt: learnedAt.toISOString() };
+    const schedule = applyGrade(learned, 2, learnedAt);
+    assert.equal(schedule.repetitions, 0);
+    assert.equal(schedule.interval, 1);
+    assert.equal(schedule.easeFactor, 2.18);
+  });
+
+  it('never lets the ease factor drop below the minimum', () => {
+    let schedule = newSchedule(learnedAt);
+    for (let i = 0; i < 10; i++) {
+      schedule = applyGrade(schedule, 0, learnedAt);
+    }
+    assert.equal(schedule.easeFactor, MIN_EASE_FACTOR);
+  });
+
+  it('rejects grades outside 0 to 5', () => {
+    assert.throws(() => applyGrade(newSchedule(learnedAt), 6, learnedAt), /from 0 to 5/);
+    assert.throws(() => applyGrade(newSchedule(learnedAt), 2.5, learnedAt), /from 0 to 5/);
+  });
+});
+
+describe('dueBucket', () => {
+  const now = new Date('2025-03-10T15:00:00Z');
+
+  it('classifies by UTC calendar day', () => {
+    assert.equal(dueBucket('2025-03-09T23:59:59Z', now), 'overdue');
+    assert.equal(dueBucket('2025-03-10T00:00:00Z', now), 'today');
+    assert.equal(dueBucket('2025-03-10T23:59:59Z', now), 'today');
+    assert.equal(dueBucket('2025-03-11T00:00:00Z', now), 'upcoming');
+    assert.equal(dueBucket('2025-03-17T23:59:59Z', now), 'upcoming');
+    assert.equal(dueBucket('2025-03-18T00:00:00Z', now), 'later');
+  });
+});